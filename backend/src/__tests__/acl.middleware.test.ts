@@ -0,0 +1,109 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { deviceACLMiddleware, filterDevicesByACL, filterLocationsByACL, filterScenesByACL } from '../middleware/acl.middleware';
+import { ACLService } from '../services/acl.service';
+import { deviceInventory } from '../services/device-inventory.service';
+
+const DEVICES = [
+  { deviceId: 'kitchen-light', locationId: 'home', roomId: 'kitchen' },
+  { deviceId: 'loft-light', locationId: 'cabin', roomId: 'loft' },
+  { deviceId: 'dock-light', locationId: 'cabin', roomId: 'dock' },
+];
+
+const LOCATIONS = [
+  { locationId: 'home', name: 'Home' },
+  { locationId: 'cabin', name: 'Cabin' },
+];
+
+function grant(access: { devices?: string[]; rooms?: string[]; locations?: string[] }) {
+  jest.spyOn(ACLService, 'hasAccess').mockImplementation((_userId, type, id) =>
+    type === 'device' && (access.devices || []).includes(id)
+  );
+  jest.spyOn(ACLService, 'getAccessibleDeviceIds').mockReturnValue(access.devices || []);
+  jest.spyOn(ACLService, 'getAccessibleRoomIds').mockReturnValue(access.rooms || []);
+  jest.spyOn(ACLService, 'getAccessibleLocationIds').mockReturnValue(access.locations || []);
+}
+
+describe('ACL middleware', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('location grants', () => {
+    it('should give access to every device at a granted location', () => {
+      grant({ locations: ['cabin'] });
+
+      const devices = filterDevicesByACL(DEVICES, 'user-1', 'user');
+
+      expect(devices.map(d => d.deviceId)).toEqual(['loft-light', 'dock-light']);
+    });
+
+    it('should list locations with a grant or an accessible device', () => {
+      grant({ devices: ['kitchen-light'] });
+
+      const accessible = filterDevicesByACL(DEVICES, 'user-1', 'user');
+
+      expect(filterLocationsByACL(LOCATIONS, accessible, 'user-1', 'user')).toEqual([LOCATIONS[0]]);
+      expect(filterLocationsByACL(LOCATIONS, [], 'admin-1', 'admin')).toEqual(LOCATIONS);
+    });
+  });
+
+  describe('deviceACLMiddleware', () => {
+    function run(deviceId: string) {
+      const request = {
+        params: { deviceId },
+        user: { id: 'user-1', role: 'user' },
+        isDemoMode: false,
+      } as unknown as FastifyRequest<{ Params: { deviceId: string } }>;
+      const reply = { code: jest.fn().mockReturnThis(), send: jest.fn().mockReturnThis() };
+
+      return deviceACLMiddleware(request, reply as unknown as FastifyReply).then(() => reply);
+    }
+
+    beforeEach(() => {
+      jest.spyOn(deviceInventory, 'getDevice').mockImplementation(async (deviceId) => ({
+        ...DEVICES.find(d => d.deviceId === deviceId)!,
+        name: deviceId,
+        label: deviceId,
+        components: {},
+      }));
+    });
+
+    it('should allow devices covered by a location or room grant', async () => {
+      grant({ rooms: ['kitchen'], locations: ['cabin'] });
+
+      expect((await run('dock-light')).code).not.toHaveBeenCalled();
+      expect((await run('kitchen-light')).code).not.toHaveBeenCalled();
+    });
+
+    it('should deny devices outside the granted locations', async () => {
+      grant({ locations: ['cabin'] });
+
+      expect((await run('kitchen-light')).code).toHaveBeenCalledWith(403);
+    });
+  });
+
+  describe('scene access', () => {
+    const SCENES = [
+      { sceneId: 'kitchen-only', actions: [{ deviceId: 'kitchen-light' }] },
+      { sceneId: 'whole-house', actions: [{ deviceId: 'kitchen-light' }, { deviceId: 'loft-light' }] },
+      { sceneId: 'provider-scene' },
+    ];
+
+    it('should list scenes whose every device is accessible', () => {
+      grant({ devices: ['kitchen-light'] });
+      jest.spyOn(ACLService, 'getAccessibleSceneIds').mockReturnValue([]);
+
+      const accessible = filterDevicesByACL(DEVICES, 'user-1', 'user');
+
+      expect(filterScenesByACL(SCENES, accessible, 'user-1', 'user').map(s => s.sceneId)).toEqual(['kitchen-only']);
+      expect(filterScenesByACL(SCENES, [], 'admin-1', 'admin')).toEqual(SCENES);
+    });
+
+    it('should list granted scenes regardless of device access', () => {
+      grant({});
+      jest.spyOn(ACLService, 'getAccessibleSceneIds').mockReturnValue(['whole-house', 'provider-scene']);
+
+      expect(filterScenesByACL(SCENES, [], 'user-1', 'user').map(s => s.sceneId)).toEqual(['whole-house', 'provider-scene']);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { compareValues, evaluateConditions, inTimeWindow, triggerMatchesEvent } from '../services/automation-evaluator';
+import { AutomationRuleInput, AutomationService } from '../services/automation.service';
+import { AutomationEngine } from '../services/automation-engine.service';
+import { simulateAutomation } from '../services/automation-simulator';
+import { toHistoryTimestamp } from '../services/device-history.service';
+import { db } from '../database/db';
+import { deviceCommandService } from '../services/device-command.service';
+import { deviceInventory } from '../services/device-inventory.service';
+import { UserService } from '../services/user.service';
+import { websocketService } from '../services/websocket.service';
+
+const temperature = { deviceId: 'thermo-1', capability: 'temperatureMeasurement', attribute: 'temperature' };
+
+describe('Automation evaluation', () => {
+  it('should compare numbers numerically and other values by text', () => {
+    expect(compareValues('21.5', 'gt', 21)).toBe(true);
+    expect(compareValues(9, 'lt', '10')).toBe(true);
+    expect(compareValues('on', 'eq', 'on')).toBe(true);
+    expect(compareValues('on', 'gt', 'off')).toBe(false);
+    expect(compareValues(undefined, 'neq', 'on')).toBe(false);
+  });
+
+  it('should fire a comparison trigger only when the value crosses it', () => {
+    const trigger = { type: 'attribute' as const, ...temperature, operator: 'gt' as const, value: 25 };
+    const change = (previousValue: number, value: number) => ({ ...temperature, component: 'main', previousValue, value });
+
+    expect(triggerMatchesEvent(trigger, change(24, 26))).toBe(true);
+    expect(triggerMatchesEvent(trigger, change(26, 27))).toBe(false);
+    expect(triggerMatchesEvent(trigger, { ...change(24, 26), component: 'outdoor' })).toBe(false);
+    expect(triggerMatchesEvent({ type: 'attribute', ...temperature }, change(26, 27))).toBe(true);
+  });
+
+  it('should treat time windows past midnight as belonging to the day they start', () => {
+    const fridayNights = { after: '22:00', before: '06:00', days: [5] };
+
+    expect(inTimeWindow(fridayNights, new Date(2024, 5, 7, 23, 0))).toBe(true); // Friday
+    expect(inTimeWindow(fridayNights, new Date(2024, 5, 8, 2, 0))).toBe(true); // Saturday morning
+    expect(inTimeWindow(fridayNights, new Date(2024, 5, 8, 23, 0))).toBe(false); // Saturday night
+    expect(inTimeWindow({ after: '09:00', before: '17:00' }, new Date(2024, 5, 8, 17, 0))).toBe(false);
+  });
+
+  it('should check presence and fail conditions whose attribute can\'t be read', async () => {
+    const results = await evaluateConditions(
+      [
+        { type: 'presence', deviceId: 'phone-alex', present: true },
+        { type: 'attribute', ...temperature, operator: 'lt', value: 18 },
+      ],
+      {
+        now: new Date(),
+        readAttribute: async ref => {
+          if (ref.deviceId === 'phone-alex') return 'present';
+          throw new Error('Device offline');
+        },
+      }
+    );
+
+    expect(results).toEqual([
+      { index: 0, passed: true, actual: 'present' },
+      { index: 1, passed: false },
+    ]);
+  });
+});
+
+describe('AutomationEngine', () => {
+  const owner = { id: `automation-owner-${Date.now()}`, username: 'automation-tester' };
+  const created: string[] = [];
+
+  beforeEach(() => {
+    jest.spyOn(websocketService, 'broadcastToUser').mockImplementation(() => {});
+    jest.spyOn(UserService, 'getUserById').mockReturnValue({
+      ...owner,
+      role: 'admin',
+      firstLogin: false,
+      createdAt: '',
+      updatedAt: '',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    created.splice(0).forEach(ruleId => AutomationService.remove(ruleId));
+  });
+
+  function createRule(input: Partial<AutomationRuleInput> = {}) {
+    const rule = AutomationService.create({
+      name: 'Cool down',
+      enabled: true,
+      triggers: [{ type: 'attribute', ...temperature, operator: 'gt', value: 25 }],
+      conditions: [],
+      actions: [{ type: 'command', deviceId: 'fan-1', capability: 'switch', command: 'on' }],
+      ...input,
+    }, owner);
+    created.push(rule.ruleId);
+    return rule;
+  }
+
+  it('should run the actions of a rule whose trigger fires and log the run', async () => {
+    const execute = jest.spyOn(deviceCommandService, 'execute').mockImplementation(async (_source, _deviceId, commands) =>
+      commands.map(command => ({ command }))
+    );
+    const rule = createRule();
+    const engine = new AutomationEngine();
+    engine.refresh();
+
+    const runs = await engine.handleDeviceEvent({
+      ...temperature,
+      component: 'main',
+      value: 26,
+      previousValue: 24,
+      source: 'webhook',
+    });
+
+    expect(execute).toHaveBeenCalledWith(
+      deviceInventory,
+      'fan-1',
+      [expect.objectContaining({ capability: 'switch', command: 'on' })],
+      { username: owner.username, isDemoMode: false }
+    );
+    expect(runs).toEqual([expect.objectContaining({ ruleId: rule.ruleId, status: 'success' })]);
+    expect(AutomationService.listRuns(rule.ruleId)).toEqual([
+      expect.objectContaining({
+        status: 'success',
+        trigger: expect.objectContaining({ index: 0, type: 'attribute' }),
+        actions: [expect.objectContaining({ type: 'command', success: true })],
+      }),
+    ]);
+    expect(AutomationService.get(rule.ruleId)!.lastRunAt).toBeDefined();
+  });
+
+  it('should skip the actions when a condition fails, and ignore disabled rules', async () => {
+    const execute = jest.spyOn(deviceCommandService, 'execute');
+    jest.spyOn(deviceInventory, 'getDeviceStatus').mockResolvedValue({
+      components: { main: { presenceSensor: { presence: { value: 'not present', timestamp: '' } } } },
+    });
+    const rule = createRule({
+      triggers: [{ type: 'mode', mode: 'Away' }],
+      conditions: [{ type: 'presence', deviceId: 'phone-alex', present: true }],
+    });
+    const disabled = createRule({ triggers: [{ type: 'mode' }], enabled: false });
+    const engine = new AutomationEngine();
+    engine.refresh();
+
+    expect(await engine.handleModeChange('Home')).toEqual([]);
+    const runs = await engine.handleModeChange('Away', 'Home');
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(runs).toEqual([expect.objectContaining({ ruleId: rule.ruleId, status: 'skipped', actions: [] })]);
+    expect(runs[0].conditions).toEqual([{ index: 0, passed: false, actual: 'not present' }]);
+    expect(AutomationService.listRuns(disabled.ruleId)).toEqual([]);
+  });
+
+  it('should not start a rule again while it is still running', async () => {
+    let release!: () => void;
+    jest.spyOn(deviceCommandService, 'execute').mockImplementation(async (_source, _deviceId, commands) => {
+      await new Promise<void>(resolve => { release = resolve; });
+      return commands.map(command => ({ command }));
+    });
+    const rule = createRule({ triggers: [{ type: 'webhook' }] });
+    expect(rule.webhookToken).toMatch(/^[0-9a-f]{48}$/);
+    const engine = new AutomationEngine();
+
+    const first = engine.handleWebhook(rule);
+    await new Promise(resolve => setImmediate(resolve));
+    const second = await engine.handleWebhook(rule);
+    release();
+
+    expect(second).toEqual(expect.objectContaining({ status: 'skipped', error: 'Still running from an earlier trigger' }));
+    expect(await first).toEqual(expect.objectContaining({ status: 'success' }));
+  });
+
+  it('should hand out a webhook run\'s ID before the run has finished', async () => {
+    let release!: () => void;
+    jest.spyOn(deviceCommandService, 'execute').mockImplementation(async (_source, _deviceId, commands) => {
+      await new Promise<void>(resolve => { release = resolve; });
+      return commands.map(command => ({ command }));
+    });
+    const rule = createRule({ triggers: [{ type: 'webhook' }] });
+    const engine = new AutomationEngine();
+
+    const started = engine.startWebhook(rule)!;
+    await new Promise(resolve => setImmediate(resolve));
+    expect(AutomationService.listRuns(rule.ruleId)).toEqual([]);
+    release();
+
+    expect(await started.finished).toEqual(expect.objectContaining({ runId: started.runId, status: 'success' }));
+    expect(AutomationService.listRuns(rule.ruleId)).toEqual([expect.objectContaining({ runId: started.runId })]);
+    expect(engine.startWebhook({ ...rule, enabled: false })).toBeUndefined();
+  });
+
+  it('should stop a rule that keeps retriggering itself', async () => {
+    const execute = jest.spyOn(deviceCommandService, 'execute').mockImplementation(async (_source, _deviceId, commands) =>
+      commands.map(command => ({ command }))
+    );
+    const rule = createRule({ triggers: [{ type: 'webhook' }] });
+    const engine = new AutomationEngine();
+
+    const runs = [];
+    for (let i = 0; i < 12; i++) {
+      runs.push(await engine.handleWebhook(rule));
+    }
+
+    expect(execute).toHaveBeenCalledTimes(10);
+    expect(runs.slice(10)).toEqual([
+      expect.objectContaining({ status: 'skipped', actions: [], error: 'Fired too often in the last minute' }),
+      expect.objectContaining({ status: 'skipped', actions: [], error: 'Fired too often in the last minute' }),
+    ]);
+  });
+});
+
+describe('Automation simulation', () => {
+  const motion = `motion-${Date.now()}`;
+  const lux = `lux-${Date.now()}`;
+  const owner = { id: 'simulation-owner', username: 'simulation-tester' };
+  let ruleId: string;
+
+  function record(deviceId: string, capability: string, attribute: string, value: string, at: Date) {
+    db.prepare(`
+      INSERT INTO device_history (id, timestamp, device_id, device_label, component, capability, attribute, value)
+      VALUES (?, ?, ?, ?, 'main', ?, ?, ?)
+    `).run(`${deviceId}-${at.getTime()}`, toHistoryTimestamp(at), deviceId, `Label ${deviceId}`, capability, attribute, value);
+  }
+
+  beforeAll(() => {
+    // Dark before the replay starts; motion at 03:00 and 03:01, then at noon once it's bright
+    record(lux, 'illuminanceMeasurement', 'illuminance', '2', new Date(2024, 5, 9, 20, 0));
+    record(motion, 'motionSensor', 'motion', 'active', new Date(2024, 5, 10, 3, 0));
+    record(motion, 'motionSensor', 'motion', 'inactive', new Date(2024, 5, 10, 3, 0, 30));
+    record(motion, 'motionSensor', 'motion', 'active', new Date(2024, 5, 10, 3, 1));
+    record(motion, 'motionSensor', 'motion', 'inactive', new Date(2024, 5, 10, 3, 5));
+    record(lux, 'illuminanceMeasurement', 'illuminance', '800', new Date(2024, 5, 10, 8, 0));
+    record(motion, 'motionSensor', 'motion', 'active', new Date(2024, 5, 10, 12, 0));
+
+    ruleId = AutomationService.create({
+      name: 'Hall light on motion',
+      enabled: false,
+      triggers: [
+        { type: 'attribute', deviceId: motion, capability: 'motionSensor', attribute: 'motion', operator: 'eq', value: 'active' },
+        { type: 'time', time: '23:00' },
+        { type: 'webhook' },
+      ],
+      conditions: [{ type: 'attribute', deviceId: lux, capability: 'illuminanceMeasurement', attribute: 'illuminance', operator: 'lt', value: 10 }],
+      actions: [
+        { type: 'command', deviceId: 'hall-light', capability: 'switch', command: 'on' },
+        { type: 'delay', seconds: 120 },
+        { type: 'command', deviceId: 'hall-light', capability: 'switch', command: 'off' },
+      ],
+    }, owner).ruleId;
+  });
+
+  afterAll(() => {
+    db.prepare('DELETE FROM device_history WHERE device_id IN (?, ?)').run(motion, lux);
+    AutomationService.remove(ruleId);
+  });
+
+  it('should report when a rule would have fired without commanding anything', async () => {
+    const execute = jest.spyOn(deviceCommandService, 'execute');
+    const report = await simulateAutomation(AutomationService.get(ruleId)!, new Date(2024, 5, 10, 0, 0), new Date(2024, 5, 11, 0, 0));
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(report.eventsReplayed).toBe(6);
+    expect(report.notReplayed).toEqual([{ index: 2, type: 'webhook' }]);
+    expect(report.firings.map(firing => [new Date(firing.at).getHours(), firing.trigger.type, firing.status, firing.reason])).toEqual([
+      [3, 'attribute', 'would-run', undefined],
+      // Still waiting in the delay from 03:00
+      [3, 'attribute', 'skipped', 'Still running from an earlier trigger'],
+      [12, 'attribute', 'skipped', 'Condition 1 not met'],
+      [23, 'time', 'skipped', 'Condition 1 not met'],
+    ]);
+    expect(report.firings[0].actions.map(action => action.description)).toEqual([
+      'hall-light: switch.on',
+      'Wait 120s',
+      'hall-light: switch.off',
+    ]);
+    expect(new Date(report.firings[0].actions[2].at)).toEqual(new Date(2024, 5, 10, 3, 2));
+    expect(report.summary).toEqual(expect.objectContaining({ triggered: 4, wouldRun: 1, skipped: 3 }));
+    expect(report.summary.byHour[3]).toBe(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { CapabilityRegistry, checkValue } from '../services/capability-registry.service';
+import { Device, DeviceProviderError } from '../services/device-provider';
+
+const BULB: Device = {
+  deviceId: 'bulb-1',
+  name: 'Bulb',
+  label: 'Reading lamp',
+  components: {
+    main: {
+      id: 'main',
+      capabilities: [{ id: 'switch' }, { id: 'switchLevel' }, { id: 'colorControl' }, { id: 'customVendorMode' }],
+    },
+  },
+};
+
+function rejection(fn: () => void): DeviceProviderError | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (error) {
+    return error as DeviceProviderError;
+  }
+}
+
+describe('CapabilityRegistry', () => {
+  const registry = new CapabilityRegistry();
+
+  it('should accept well-formed commands', () => {
+    expect(() => registry.validateCommand(BULB, { capability: 'switch', command: 'on' })).not.toThrow();
+    expect(() => registry.validateCommand(BULB, { capability: 'switchLevel', command: 'setLevel', arguments: [40] })).not.toThrow();
+    expect(() => registry.validateCommand(BULB, {
+      capability: 'colorControl', command: 'setColor', arguments: [{ hue: 20, saturation: 80 }],
+    })).not.toThrow();
+  });
+
+  it.each([
+    [{ capability: 'switchLevel', command: 'setLevel', arguments: [250] }, 'level must be between 0 and 100'],
+    [{ capability: 'switchLevel', command: 'setLevel' }, 'switchLevel.setLevel requires level'],
+    [{ capability: 'switchLevel', command: 'setLevel', arguments: ['40'] }, 'level must be a number'],
+    [{ capability: 'colorControl', command: 'setColor', arguments: [{ saturation: 80 }] }, 'color.hue is required'],
+    [{ capability: 'switch', command: 'toggle' }, 'Unsupported command: switch.toggle'],
+    [{ capability: 'switch', command: 'on', arguments: [1] }, 'switch.on takes at most 0 argument(s)'],
+    [{ capability: 'lock', command: 'lock' }, 'Component main does not support capability: lock'],
+    [{ component: 'outlet2', capability: 'switch', command: 'on' }, 'Device has no component: outlet2'],
+  ])('should reject %j', (command, message) => {
+    const error = rejection(() => registry.validateCommand(BULB, command));
+
+    expect(error).toBeInstanceOf(DeviceProviderError);
+    expect(error?.code).toBe('BAD_ARGUMENTS');
+    expect(error?.message).toBe(message);
+  });
+
+  it('should pass through commands of capabilities it does not know', () => {
+    expect(() => registry.validateCommand(BULB, {
+      capability: 'customVendorMode', command: 'setMode', arguments: ['party'],
+    })).not.toThrow();
+  });
+
+  it('should describe values outside a schema', () => {
+    expect(checkValue('rate', { type: 'integer', minimum: 0 }, -1)).toBe('rate must be at least 0');
+    expect(checkValue('level', { type: 'integer' }, 2.5)).toBe('level must be a whole number');
+    expect(checkValue('mode', { type: 'string', enum: ['heat', 'cool'] }, 'dry')).toBe('mode must be one of: heat, cool');
+  });
+});
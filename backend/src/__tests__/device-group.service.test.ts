@@ -0,0 +1,224 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import fastifyCookie from '@fastify/cookie';
+import { ACLService } from '../services/acl.service';
+import { DeviceGroupService } from '../services/device-group.service';
+import { deviceInventory } from '../services/device-inventory.service';
+import { DeviceMetadataService } from '../services/device-metadata.service';
+import { SessionService } from '../services/session.service';
+import { UserService } from '../services/user.service';
+import { deviceRoutes } from '../routes/device.routes';
+import { groupRoutes } from '../routes/group.routes';
+
+function light(deviceId: string, state: { switch?: string; level?: number }, locationId = 'home') {
+  const capabilities = [{ id: 'switch' }];
+  const main: any = { id: 'main', capabilities, switch: { switch: { value: state.switch || 'off' } } };
+  if (state.level !== undefined) {
+    capabilities.push({ id: 'switchLevel' });
+    main.switchLevel = { level: { value: state.level } };
+  }
+  return { deviceId, name: deviceId, label: deviceId, locationId, components: { main } };
+}
+
+describe('DeviceGroupService', () => {
+  let prefix: string;
+  const created: string[] = [];
+
+  beforeEach(() => {
+    prefix = `group-test-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  });
+
+  afterEach(() => {
+    created.splice(0).forEach(groupId => DeviceGroupService.remove(groupId));
+  });
+
+  it('should resolve static and tagged members', () => {
+    const devices = ['a', 'b', 'c'].map(id => light(`${prefix}-${id}`, {}));
+    DeviceMetadataService.set(devices[2].deviceId, { tags: [`${prefix}-downstairs`] });
+
+    const group = DeviceGroupService.create({
+      name: 'Downstairs',
+      deviceIds: [devices[0].deviceId],
+      tags: [`${prefix}-Downstairs`],
+    });
+    created.push(group.groupId);
+
+    expect(DeviceGroupService.resolveMembers(group, devices).map(d => d.deviceId)).toEqual([
+      devices[0].deviceId,
+      devices[2].deviceId,
+    ]);
+  });
+
+  it('should be on if any member is on and average the levels', () => {
+    const members = [
+      light('a', { switch: 'on', level: 80 }),
+      light('b', { switch: 'off', level: 30 }),
+      light('c', { switch: 'off' }),
+    ];
+
+    expect(DeviceGroupService.aggregate('g', members)).toEqual({
+      groupId: 'g',
+      memberIds: ['a', 'b', 'c'],
+      memberCount: 3,
+      membersOn: 1,
+      switch: 'on',
+      level: 55,
+    });
+    expect(DeviceGroupService.aggregate('g', [light('c', { switch: 'off' })]).switch).toBe('off');
+  });
+
+  it('should present a group as a device with its members\' capabilities', () => {
+    const group = DeviceGroupService.create({ name: 'Porch', deviceIds: ['a', 'b'], tags: [] });
+    created.push(group.groupId);
+
+    const device = DeviceGroupService.toDevice(group, [light('a', { level: 40 }), light('b', {})]);
+
+    expect(device).toMatchObject({
+      deviceId: `group:${group.groupId}`,
+      label: 'Porch',
+      room: 'Groups',
+      locationId: 'home',
+      deviceTypeName: 'Device Group',
+    });
+    expect(device.components.main.capabilities).toEqual([{ id: 'switch' }, { id: 'switchLevel' }]);
+    expect((device.components.main as any).switch.switch.value).toBe('off');
+    expect((device.components.main as any).switchLevel.level.value).toBe(40);
+  });
+
+  it('should read members whose switch is not on the main component', () => {
+    const strip = {
+      deviceId: 'strip',
+      name: 'strip',
+      label: 'Power Strip',
+      components: {
+        main: { id: 'main', capabilities: [{ id: 'powerMeter' }] },
+        outlet1: { id: 'outlet1', capabilities: [{ id: 'switch' }], switch: { switch: { value: 'on' } } } as any,
+      },
+    };
+
+    expect(DeviceGroupService.componentFor(strip, 'switch')).toBe('outlet1');
+    expect(DeviceGroupService.componentFor(light('a', {}), 'switch')).toBe('main');
+    expect(DeviceGroupService.componentFor(strip, 'switchLevel')).toBeUndefined();
+    expect(DeviceGroupService.aggregate('g', [strip, light('a', {})])).toMatchObject({ membersOn: 1, switch: 'on' });
+  });
+});
+
+describe('Group routes for users with partial access', () => {
+  let app: FastifyInstance;
+  let cookie: string;
+  let userId: string;
+  let groupId: string;
+
+  beforeAll(async () => {
+    app = Fastify({ logger: false });
+    await app.register(fastifyCookie);
+    await app.register(deviceRoutes, { prefix: '/devices' });
+    await app.register(groupRoutes, { prefix: '/groups' });
+    await app.ready();
+
+    const user = await UserService.createUser(`group-user-${Date.now()}`, 'Password123!', 'user');
+    userId = user.id;
+    cookie = `sessionId=${SessionService.createSession(userId).id}`;
+
+    groupId = DeviceGroupService.create({ name: 'Hallway', deviceIds: ['hall-1', 'hall-2'], tags: [] }).groupId;
+    ACLService.grantAccess(userId, 'group', groupId);
+    ACLService.grantAccess(userId, 'device', 'hall-1');
+  });
+
+  beforeEach(() => {
+    jest.spyOn(deviceInventory, 'getDevices').mockResolvedValue([
+      light('hall-1', { switch: 'off' }),
+      light('hall-2', { switch: 'on' }),
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    DeviceGroupService.remove(groupId);
+    UserService.deleteUser(userId);
+    await app.close();
+  });
+
+  it('should only aggregate and list the members the user can access', async () => {
+    const devices = await app.inject({ method: 'GET', url: '/devices', headers: { cookie } });
+    const groups = await app.inject({ method: 'GET', url: '/groups', headers: { cookie } });
+
+    const device = devices.json().devices.find((d: any) => d.deviceId === `group:${groupId}`);
+    expect(device.group).toMatchObject({ memberIds: ['hall-1'], membersOn: 0, switch: 'off' });
+    expect(devices.json().devices.map((d: any) => d.deviceId)).not.toContain('hall-2');
+
+    const group = groups.json().groups.find((g: any) => g.groupId === groupId);
+    expect(group.deviceIds).toEqual(['hall-1']);
+    expect(group.state).toMatchObject({ memberIds: ['hall-1'], switch: 'off' });
+  });
+});
+
+describe('Group routes in demo mode', () => {
+  let app: FastifyInstance;
+  let cookie: string;
+  let groupId: string;
+
+  beforeAll(async () => {
+    app = Fastify({ logger: false });
+    await app.register(fastifyCookie);
+    await app.register(deviceRoutes, { prefix: '/devices' });
+    await app.register(groupRoutes, { prefix: '/groups' });
+    await app.ready();
+
+    const session = SessionService.createSession('demo-user-id', true);
+    cookie = `sessionId=${session.id}`;
+
+    groupId = DeviceGroupService.create({
+      name: 'Test Lights',
+      room: 'Living Room',
+      deviceIds: ['living-room-lights', 'kitchen-lights', 'front-door-lock'],
+      tags: [],
+    }).groupId;
+  });
+
+  afterAll(async () => {
+    DeviceGroupService.remove(groupId);
+    await app.close();
+  });
+
+  it('should list the group as a synthetic device', async () => {
+    const response = await app.inject({ method: 'GET', url: '/devices', headers: { cookie } });
+
+    const group = response.json().devices.find((d: any) => d.deviceId === `group:${groupId}`);
+    expect(group).toMatchObject({ label: 'Test Lights', room: 'Living Room' });
+    expect(group.group.memberIds).toEqual(['living-room-lights', 'kitchen-lights', 'front-door-lock']);
+  });
+
+  it('should fan commands out to the members that support them', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: `/groups/${groupId}/command`,
+      headers: { cookie },
+      payload: { capability: 'switchLevel', command: 'setLevel', args: [40] },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toMatchObject({
+      results: [
+        { deviceId: 'living-room-lights', success: true },
+        { deviceId: 'kitchen-lights', success: false, skipped: true },
+        { deviceId: 'front-door-lock', success: false, skipped: true },
+      ],
+      succeeded: 1,
+      failed: 0,
+      skipped: 2,
+    });
+  });
+
+  it('should not let demo users change groups', async () => {
+    const response = await app.inject({
+      method: 'DELETE',
+      url: `/groups/${groupId}`,
+      headers: { cookie },
+    });
+
+    expect(response.statusCode).toBe(403);
+  });
+});
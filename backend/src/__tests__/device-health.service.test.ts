@@ -0,0 +1,80 @@
+import { DeviceHealthService } from '../services/device-health.service';
+import { DeviceProviderError } from '../services/device-provider';
+import { websocketService } from '../services/websocket.service';
+
+const OPTIONS = { checkIntervalMs: 60000, failureThreshold: 3 };
+
+describe('DeviceHealthService', () => {
+  let health: DeviceHealthService;
+  let broadcast: jest.SpyInstance;
+  let deviceId: string;
+
+  beforeEach(() => {
+    health = new DeviceHealthService(OPTIONS);
+    broadcast = jest.spyOn(websocketService, 'broadcastDeviceHealth').mockImplementation(() => {});
+    deviceId = `health-test-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should treat devices it knows nothing about as online', () => {
+    expect(health.isOnline(deviceId)).toBe(true);
+  });
+
+  it('should mark a device offline after a run of failed commands', () => {
+    const failure = new DeviceProviderError('Failed to execute device command', 'PROVIDER_ERROR');
+
+    health.recordCommandResult(deviceId, failure);
+    health.recordCommandResult(deviceId, failure);
+    expect(health.isOnline(deviceId)).toBe(true);
+
+    health.recordCommandResult(deviceId, failure);
+    expect(health.isOnline(deviceId)).toBe(false);
+    expect(health.get(deviceId)).toMatchObject({ failureStreak: 3, lastErrorCode: 'PROVIDER_ERROR' });
+    expect(broadcast).toHaveBeenCalledWith(deviceId, { online: false, lastSeen: undefined });
+  });
+
+  it('should not count failures that say nothing about the device', () => {
+    for (let i = 0; i < 5; i++) {
+      health.recordCommandResult(deviceId, new DeviceProviderError('Rate limited', 'RATE_LIMITED'));
+      health.recordCommandResult(deviceId, new DeviceProviderError('level must be between 0 and 100', 'BAD_ARGUMENTS'));
+    }
+
+    expect(health.isOnline(deviceId)).toBe(true);
+    expect(health.get(deviceId)).toBeUndefined();
+  });
+
+  it('should bring a device back online when it is seen again', () => {
+    health.recordCommandResult(deviceId, new DeviceProviderError('The device is offline', 'DEVICE_OFFLINE'));
+    expect(health.isOnline(deviceId)).toBe(false);
+
+    health.recordSeen(deviceId);
+
+    expect(health.get(deviceId)).toMatchObject({ state: 'online', failureStreak: 0 });
+    expect(health.get(deviceId)?.offlineSince).toBeUndefined();
+    expect(broadcast).toHaveBeenLastCalledWith(deviceId, expect.objectContaining({ online: true }));
+  });
+
+  it('should report devices offline for longer than the given hours', () => {
+    const longAgo = new Date(Date.now() - 30 * 60 * 60 * 1000).toISOString();
+    const otherId = `${deviceId}-recent`;
+
+    health.recordProviderState(deviceId, 'offline', longAgo);
+    health.recordProviderState(otherId, 'offline');
+
+    const report = health.getOfflineReport(24).map(h => h.deviceId);
+    expect(report).toContain(deviceId);
+    expect(report).not.toContain(otherId);
+    expect(health.getOfflineReport(0).map(h => h.deviceId)).toEqual(expect.arrayContaining([deviceId, otherId]));
+  });
+
+  it('should keep health across restarts', () => {
+    health.recordProviderState(deviceId, 'offline');
+
+    const restarted = new DeviceHealthService(OPTIONS);
+
+    expect(restarted.isOnline(deviceId)).toBe(false);
+  });
+});
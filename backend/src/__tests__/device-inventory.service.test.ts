@@ -0,0 +1,131 @@
+import { DeviceInventory } from '../services/device-inventory.service';
+import { deviceEventService } from '../services/device-event.service';
+import { Device, DeviceSource, DeviceStatus } from '../services/device-provider';
+
+const LAMP: Device = {
+  deviceId: 'lamp-1',
+  name: 'Lamp',
+  label: 'Desk Lamp',
+  components: { main: { id: 'main', capabilities: [{ id: 'switch' }] } },
+};
+
+function switchStatus(value: string): DeviceStatus {
+  return { components: { main: { switch: { switch: { value, timestamp: '2026-10-19T12:00:00.000Z' } } } } };
+}
+
+function createSource(): jest.Mocked<DeviceSource> {
+  return {
+    getDevices: jest.fn().mockResolvedValue([LAMP]),
+    getDevice: jest.fn().mockResolvedValue(LAMP),
+    getDeviceStatus: jest.fn().mockResolvedValue(switchStatus('off')),
+    executeCommand: jest.fn().mockResolvedValue(undefined),
+    getLocations: jest.fn().mockResolvedValue([{ locationId: 'home', name: 'Home' }]),
+    getRooms: jest.fn().mockResolvedValue([{ roomId: 'office', name: 'Office' }]),
+    getScenes: jest.fn().mockResolvedValue([{
+      sceneId: 'scene-1',
+      sceneName: 'Reading',
+      locationId: 'home',
+      createdBy: 'owner',
+      createdDate: '2026-10-01T00:00:00.000Z',
+      lastUpdatedDate: '2026-10-01T00:00:00.000Z',
+      actions: [
+        { deviceId: 'lamp-1', capability: 'switch', command: 'on' },
+        { deviceId: 'removed-device', capability: 'switch', command: 'off' },
+      ],
+    }]),
+    executeScene: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('DeviceInventory', () => {
+  let source: jest.Mocked<DeviceSource>;
+  let inventory: DeviceInventory;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    source = createSource();
+    inventory = new DeviceInventory(source, { deviceTtlMs: 60000, statusTtlMs: 10000, roomTtlMs: 60000, sceneTtlMs: 60000 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should merge cached statuses into devices and serve repeat requests from cache', async () => {
+    const devices = await inventory.getDevices();
+    await inventory.getDevices();
+
+    expect((devices[0].components.main as any).switch.switch.value).toBe('off');
+    expect(source.getDevices).toHaveBeenCalledTimes(1);
+    expect(source.getDeviceStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one upstream call between concurrent requests', async () => {
+    await Promise.all([inventory.getDevices(), inventory.getDevices(), inventory.getRooms(), inventory.getRooms()]);
+
+    expect(source.getDevices).toHaveBeenCalledTimes(1);
+    expect(source.getRooms).toHaveBeenCalledTimes(1);
+  });
+
+  it('should serve stale devices while refreshing in the background', async () => {
+    await inventory.getDevices();
+    source.getDevices.mockResolvedValue([{ ...LAMP, label: 'Renamed Lamp' }]);
+    jest.advanceTimersByTime(61000);
+    expect(inventory.describeCache('devices')?.stale).toBe(true);
+
+    const stale = await inventory.getDevices();
+    expect(stale[0].label).toBe('Desk Lamp');
+
+    await Promise.resolve();
+    const fresh = await inventory.getDevices();
+    expect(fresh[0].label).toBe('Renamed Lamp');
+    expect(inventory.describeCache('devices')).toEqual({
+      updatedAt: '2026-10-19T12:01:01.000Z',
+      ageSeconds: 0,
+      stale: false,
+    });
+  });
+
+  it('should re-read a status after a command invalidates it', async () => {
+    await inventory.getDeviceStatus('lamp-1');
+    source.getDeviceStatus.mockResolvedValue(switchStatus('on'));
+
+    await inventory.executeCommand('lamp-1', 'switch', 'on');
+    const status = await inventory.getDeviceStatus('lamp-1');
+
+    expect(source.executeCommand).toHaveBeenCalledWith('lamp-1', 'switch', 'on', [], 'main');
+    expect(status.components.main.switch.switch.value).toBe('on');
+    expect(source.getDeviceStatus).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the cached status when the provider fails', async () => {
+    await inventory.getDeviceStatus('lamp-1');
+    source.getDeviceStatus.mockRejectedValue(new Error('offline'));
+    jest.advanceTimersByTime(11000);
+
+    const status = await inventory.getDeviceStatus('lamp-1');
+
+    expect(status.components.main.switch.switch.value).toBe('off');
+  });
+
+  it('should patch cached statuses from device events', async () => {
+    await inventory.getDeviceStatus('lamp-1');
+
+    deviceEventService.emit('device-event', {
+      deviceId: 'lamp-1', component: 'main', capability: 'switch', attribute: 'switch', value: 'on', source: 'smartapp',
+    });
+
+    const status = await inventory.getDeviceStatus('lamp-1');
+    expect(status.components.main.switch.switch.value).toBe('on');
+    expect(source.getDeviceStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve scene action labels from the device index', async () => {
+    const [scene] = await inventory.getScenes();
+    await inventory.getScenes();
+
+    expect(scene.actions?.map(a => a.deviceLabel)).toEqual(['Desk Lamp', 'Unknown Device']);
+    expect(source.getDevices).toHaveBeenCalledTimes(1);
+    expect(source.getScenes).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { DeviceMetadataService } from '../services/device-metadata.service';
+
+describe('DeviceMetadataService', () => {
+  let prefix: string;
+
+  beforeEach(() => {
+    prefix = `metadata-test-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  });
+
+  it('should store metadata and normalize tags', () => {
+    const deviceId = `${prefix}-lamp`;
+
+    DeviceMetadataService.set(deviceId, {
+      displayName: '  Reading Lamp ',
+      icon: 'light',
+      color: '#FFAA00',
+      tags: ['Lamps', 'lamps', ' upstairs '],
+      sortOrder: 2,
+    }, 'admin');
+
+    expect(DeviceMetadataService.get(deviceId)).toMatchObject({
+      deviceId,
+      displayName: 'Reading Lamp',
+      icon: 'light',
+      color: '#ffaa00',
+      tags: ['lamps', 'upstairs'],
+      hidden: false,
+      sortOrder: 2,
+      updatedBy: 'admin',
+    });
+  });
+
+  it('should clear fields left out when metadata is replaced', () => {
+    const deviceId = `${prefix}-fan`;
+    DeviceMetadataService.set(deviceId, { displayName: 'Ceiling Fan', icon: 'fan', hidden: true });
+
+    DeviceMetadataService.set(deviceId, { tags: ['noisy'] });
+
+    const metadata = DeviceMetadataService.get(deviceId);
+    expect(metadata?.displayName).toBeUndefined();
+    expect(metadata?.icon).toBeUndefined();
+    expect(metadata).toMatchObject({ tags: ['noisy'], hidden: false });
+  });
+
+  it('should merge metadata into devices and order them by sort order', () => {
+    const devices = ['a', 'b', 'c', 'd'].map(id => ({ deviceId: `${prefix}-${id}`, label: id }));
+    DeviceMetadataService.set(devices[2].deviceId, { sortOrder: 1, displayName: 'First' });
+    DeviceMetadataService.set(devices[3].deviceId, { sortOrder: 5, hidden: true });
+
+    const merged = DeviceMetadataService.apply(devices);
+
+    expect(merged.map(device => device.label)).toEqual(['c', 'd', 'a', 'b']);
+    expect(merged[0]).toMatchObject({ displayName: 'First', tags: [], hidden: false });
+    expect(merged[1].hidden).toBe(true);
+    expect(merged[2]).toMatchObject({ deviceId: devices[0].deviceId, tags: [], hidden: false });
+  });
+
+  it('should remove metadata', () => {
+    const deviceId = `${prefix}-plug`;
+    DeviceMetadataService.set(deviceId, { displayName: 'Plug' });
+
+    expect(DeviceMetadataService.remove(deviceId)).toBe(true);
+    expect(DeviceMetadataService.get(deviceId)).toBeUndefined();
+    expect(DeviceMetadataService.remove(deviceId)).toBe(false);
+  });
+});
@@ -0,0 +1,223 @@
+import { DevicePollerService } from '../services/device-poller.service';
+import { deviceEventService, diffDeviceStatus } from '../services/device-event.service';
+import { DeviceProviderError, DeviceStatus } from '../services/device-provider';
+import { deviceHistoryService } from '../services/device-history.service';
+import { deviceRegistry } from '../services/device-registry.service';
+import { deviceInventory } from '../services/device-inventory.service';
+import { websocketService } from '../services/websocket.service';
+
+function status(attributes: Record<string, Record<string, { value: unknown; unit?: string }>>): DeviceStatus {
+  const main: DeviceStatus['components'][string] = {};
+  for (const [capability, attrs] of Object.entries(attributes)) {
+    main[capability] = {};
+    for (const [attribute, state] of Object.entries(attrs)) {
+      main[capability][attribute] = { ...state, timestamp: '2026-10-19T12:00:00.000Z' };
+    }
+  }
+  return { components: { main } };
+}
+
+const DIMMER_OFF = status({ switch: { switch: { value: 'off' } }, switchLevel: { level: { value: 40, unit: '%' } } });
+const DIMMER_ON = status({ switch: { switch: { value: 'on' } }, switchLevel: { level: { value: 75, unit: '%' } } });
+
+describe('diffDeviceStatus', () => {
+  it('should list only the attributes whose values changed', () => {
+    const changes = diffDeviceStatus(DIMMER_OFF, DIMMER_ON);
+
+    expect(changes).toEqual([
+      { component: 'main', capability: 'switch', attribute: 'switch', value: 'on', previousValue: 'off', unit: undefined },
+      { component: 'main', capability: 'switchLevel', attribute: 'level', value: 75, previousValue: 40, unit: '%' },
+    ]);
+    expect(diffDeviceStatus(DIMMER_ON, DIMMER_ON)).toEqual([]);
+  });
+
+  it('should compare structured values by content', () => {
+    const before = status({ colorControl: { color: { value: { hue: 10, saturation: 50 } } } });
+    const same = status({ colorControl: { color: { value: { hue: 10, saturation: 50 } } } });
+    const after = status({ colorControl: { color: { value: { hue: 20, saturation: 50 } } } });
+
+    expect(diffDeviceStatus(before, same)).toHaveLength(0);
+    expect(diffDeviceStatus(before, after)).toHaveLength(1);
+  });
+});
+
+describe('DeviceEventService.applyStatus', () => {
+  let record: jest.SpyInstance;
+
+  beforeEach(() => {
+    deviceEventService.reset();
+    jest.spyOn(deviceRegistry, 'getDevice').mockResolvedValue({
+      deviceId: 'dimmer-1', name: 'Dimmer', label: 'Desk Lamp', room: 'Office', components: {},
+    });
+    jest.spyOn(websocketService, 'broadcastDeviceUpdate').mockImplementation(() => {});
+    record = jest.spyOn(deviceHistoryService, 'recordStateChange').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should use the first status as a baseline and record later changes per attribute', async () => {
+    expect(await deviceEventService.applyStatus('dimmer-1', DIMMER_OFF, { source: 'poller' })).toEqual([]);
+    expect(record).not.toHaveBeenCalled();
+
+    await deviceEventService.applyStatus('dimmer-1', DIMMER_ON, { source: 'poller' });
+
+    expect(record).toHaveBeenCalledTimes(2);
+    expect(record).toHaveBeenCalledWith({
+      deviceId: 'dimmer-1',
+      deviceLabel: 'Desk Lamp',
+      room: 'Office',
+      component: 'main',
+      capability: 'switchLevel',
+      attribute: 'level',
+      value: '75',
+      previousValue: '40',
+      unit: '%',
+      triggeredBy: 'poller',
+    });
+  });
+
+  it('should credit late-reported changes to the user whose command caused them', async () => {
+    await deviceEventService.applyStatus('dimmer-1', DIMMER_OFF, { source: 'poller' });
+    deviceEventService.expectChange('dimmer-1', 'switch', 'alice');
+
+    await deviceEventService.applyStatus('dimmer-1', DIMMER_ON, { source: 'poller' });
+
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({ attribute: 'switch', triggeredBy: 'alice' }));
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({ attribute: 'level', triggeredBy: 'poller' }));
+  });
+
+  it('should only credit changes on the component the command targeted', async () => {
+    await deviceEventService.applyStatus('dimmer-1', DIMMER_OFF, { source: 'poller' });
+    deviceEventService.expectChange('dimmer-1', 'switch', 'alice', 'outlet2');
+
+    await deviceEventService.applyStatus('dimmer-1', DIMMER_ON, { source: 'poller' });
+
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({ attribute: 'switch', triggeredBy: 'poller' }));
+  });
+
+  it('should not record webhook events again when the poller sees them', async () => {
+    await deviceEventService.applyStatus('dimmer-1', DIMMER_OFF, { source: 'poller' });
+    await deviceEventService.recordEvent({
+      deviceId: 'dimmer-1', component: 'main', capability: 'switch', attribute: 'switch', value: 'on', source: 'smartapp',
+    });
+    record.mockClear();
+
+    const changes = await deviceEventService.applyStatus(
+      'dimmer-1',
+      status({ switch: { switch: { value: 'on' } }, switchLevel: { level: { value: 40, unit: '%' } } }),
+      { source: 'poller' }
+    );
+
+    expect(changes).toEqual([]);
+    expect(record).not.toHaveBeenCalled();
+  });
+});
+
+describe('DevicePollerService', () => {
+  beforeEach(() => {
+    deviceEventService.reset();
+    deviceInventory.clear();
+    jest.spyOn(deviceRegistry, 'getDevice').mockResolvedValue({
+      deviceId: 'dimmer-1', name: 'Dimmer', label: 'Desk Lamp', components: {},
+    });
+    jest.spyOn(websocketService, 'broadcastDeviceUpdate').mockImplementation(() => {});
+    jest.spyOn(deviceHistoryService, 'recordStateChange').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should record changes found between polls', async () => {
+    const poller = new DevicePollerService({ minIntervalMs: 1000, maxIntervalMs: 8000, maxRequestsPerMinute: 60000 });
+    jest.spyOn(deviceRegistry, 'getDevices').mockResolvedValue([
+      { deviceId: 'dimmer-1', name: 'Dimmer', label: 'Desk Lamp', components: {} },
+    ]);
+    jest.spyOn(deviceRegistry, 'getDeviceStatus')
+      .mockResolvedValueOnce(DIMMER_OFF)
+      .mockResolvedValueOnce(DIMMER_OFF)
+      .mockResolvedValueOnce(DIMMER_ON);
+
+    expect(await poller.pollOnce()).toBe(0);
+    expect(await poller.pollOnce()).toBe(0);
+    expect(await poller.pollOnce()).toBe(2);
+    expect(poller.getStats().devices).toBe(1);
+  });
+
+  it('should back off while quiet and speed up when changes appear', () => {
+    const poller = new DevicePollerService({ minIntervalMs: 1000, maxIntervalMs: 8000, maxRequestsPerMinute: 60000 });
+    const next = (changes: number) => {
+      const interval = (poller as any).nextInterval(changes);
+      (poller as any).interval = interval;
+      return interval;
+    };
+
+    expect([next(0), next(0), next(0), next(0)]).toEqual([2000, 4000, 8000, 8000]);
+    expect(next(3)).toBe(1000);
+  });
+
+  it('should stay at the slowest interval while the webhook delivers events', () => {
+    const poller = new DevicePollerService({ minIntervalMs: 1000, maxIntervalMs: 8000, maxRequestsPerMinute: 60000 });
+
+    deviceEventService.emit('device-event', { source: 'smartapp' });
+
+    expect((poller as any).nextInterval(5)).toBe(8000);
+  });
+
+  it('should pause polling when rate limited', async () => {
+    const poller = new DevicePollerService({ minIntervalMs: 1000, maxIntervalMs: 8000, maxRequestsPerMinute: 60000 });
+    jest.spyOn(deviceRegistry, 'getDevices').mockResolvedValue([
+      { deviceId: 'dimmer-1', name: 'Dimmer', label: 'Desk Lamp', components: {} },
+      { deviceId: 'dimmer-2', name: 'Dimmer', label: 'Hall Lamp', components: {} },
+    ]);
+    const getStatus = jest.spyOn(deviceRegistry, 'getDeviceStatus').mockRejectedValue(
+      new DeviceProviderError('Rate limit exceeded', 'RATE_LIMITED', 30000)
+    );
+
+    await poller.pollOnce();
+
+    expect(getStatus).toHaveBeenCalledTimes(1);
+    expect(poller.getStats().pausedUntil).toBeDefined();
+  });
+
+  it('should stop an in-flight cycle before its next request', async () => {
+    const poller = new DevicePollerService({ minIntervalMs: 1000, maxIntervalMs: 8000, maxRequestsPerMinute: 60000 });
+    jest.spyOn(deviceRegistry, 'getDevices').mockResolvedValue([
+      { deviceId: 'dimmer-1', name: 'Dimmer', label: 'Desk Lamp', components: {} },
+      { deviceId: 'dimmer-2', name: 'Dimmer', label: 'Hall Lamp', components: {} },
+    ]);
+    const getStatus = jest.spyOn(deviceRegistry, 'getDeviceStatus').mockImplementation(async () => {
+      poller.stop();
+      return DIMMER_OFF;
+    });
+
+    await poller.pollOnce();
+
+    expect(getStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not start a second polling loop when restarted during a cycle', async () => {
+    const poller = new DevicePollerService({ minIntervalMs: 1000, maxIntervalMs: 8000, maxRequestsPerMinute: 60000 });
+    jest.spyOn(deviceRegistry, 'getDevices').mockResolvedValue([
+      { deviceId: 'dimmer-1', name: 'Dimmer', label: 'Desk Lamp', components: {} },
+    ]);
+    let restartTimer: unknown;
+    jest.spyOn(deviceRegistry, 'getDeviceStatus').mockImplementation(async () => {
+      poller.stop();
+      poller.start();
+      restartTimer = (poller as any).timer;
+      return DIMMER_OFF;
+    });
+
+    try {
+      await (poller as any).run();
+
+      expect(restartTimer).toBeDefined();
+      expect((poller as any).timer).toBe(restartTimer);
+    } finally {
+      poller.stop();
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { DeviceRegistry } from '../services/device-registry.service';
+import { Device, DeviceProvider, DeviceProviderError } from '../services/device-provider';
+
+function createProvider(id: string, devices: Device[]): jest.Mocked<DeviceProvider> {
+  return {
+    id,
+    name: `${id} provider`,
+    getDevices: jest.fn().mockResolvedValue(devices),
+    getDevice: jest.fn().mockImplementation(async (deviceId: string) => devices.find(device => device.deviceId === deviceId)),
+    getDeviceStatus: jest.fn().mockResolvedValue({ components: {} }),
+    executeCommand: jest.fn().mockResolvedValue(undefined),
+    getLocations: jest.fn().mockResolvedValue([{ locationId: 'home', name: `${id} home` }]),
+    getRooms: jest.fn().mockResolvedValue([{ roomId: 'kitchen', name: 'Kitchen', locationId: 'home' }]),
+    getScenes: jest.fn().mockResolvedValue([]),
+    executeScene: jest.fn().mockResolvedValue(undefined),
+    testConnection: jest.fn().mockResolvedValue(true),
+  };
+}
+
+function device(deviceId: string): Device {
+  return {
+    deviceId,
+    name: deviceId,
+    label: deviceId,
+    locationId: 'home',
+    roomId: 'kitchen',
+    components: { main: { id: 'main', capabilities: [{ id: 'switch' }] } },
+  };
+}
+
+describe('DeviceRegistry', () => {
+  let registry: DeviceRegistry;
+  let cloud: jest.Mocked<DeviceProvider>;
+  let hub: jest.Mocked<DeviceProvider>;
+
+  beforeEach(() => {
+    registry = new DeviceRegistry();
+    cloud = createProvider('cloud', [device('lamp-1')]);
+    hub = createProvider('hub', [device('lamp-1'), device('fan-2')]);
+    registry.register(cloud, { isDefault: true });
+    registry.register(hub);
+  });
+
+  it('should keep default provider IDs and namespace the others as provider:id', async () => {
+    const devices = await registry.getDevices();
+
+    expect(devices.map(d => d.deviceId)).toEqual(['lamp-1', 'hub:lamp-1', 'hub:fan-2']);
+    expect(devices[1]).toEqual(expect.objectContaining({ locationId: 'hub:home', roomId: 'hub:kitchen' }));
+    expect((await registry.getRooms()).map(room => room.roomId)).toEqual(['kitchen', 'hub:kitchen']);
+    expect(() => registry.register(createProvider('bad:id', []))).toThrow('must not contain');
+  });
+
+  it('should resolve IDs back to their provider and local ID', async () => {
+    expect(registry.resolve('hub:fan-2')).toEqual({ provider: hub, localId: 'fan-2' });
+    expect(registry.resolve('lamp-1')).toEqual({ provider: cloud, localId: 'lamp-1' });
+    // Unknown prefixes belong to the default provider, whose IDs may contain ':'
+    expect(registry.resolve('other:lamp-1')).toEqual({ provider: cloud, localId: 'other:lamp-1' });
+
+    await registry.executeCommand('hub:fan-2', 'switch', 'on');
+    expect(hub.executeCommand).toHaveBeenCalledWith('fan-2', 'switch', 'on', [], 'main');
+    expect(cloud.executeCommand).not.toHaveBeenCalled();
+
+    expect((await registry.getDevice('hub:lamp-1')).deviceId).toBe('hub:lamp-1');
+  });
+
+  it('should skip a failing provider unless every provider fails', async () => {
+    const outage = new DeviceProviderError('hub unreachable', 'PROVIDER_UNAVAILABLE');
+    hub.getDevices.mockRejectedValue(outage);
+    expect((await registry.getDevices()).map(d => d.deviceId)).toEqual(['lamp-1']);
+
+    cloud.getDevices.mockRejectedValue(new Error('cloud down'));
+    await expect(registry.getDevices()).rejects.toBe(outage);
+
+    registry.unregister('cloud');
+    registry.unregister('hub');
+    expect(() => registry.resolve('lamp-1')).toThrow(DeviceProviderError);
+  });
+});
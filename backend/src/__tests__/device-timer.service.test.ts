@@ -0,0 +1,140 @@
+import { WebSocket } from 'ws';
+import { ACLService } from '../services/acl.service';
+import * as commandRunner from '../services/command-runner';
+import { DeviceTimerService } from '../services/device-timer.service';
+import { DeviceTimerRunner } from '../services/device-timer-runner.service';
+import { UserService } from '../services/user.service';
+import { WebSocketService, websocketService } from '../services/websocket.service';
+
+const fan = `bathroom-fan-${Date.now()}`;
+const user = { id: 'timer-user', username: 'timer-user', role: 'user' as const, firstLogin: false };
+const fanOff = { capability: 'switch', command: 'off' };
+
+describe('Device timers', () => {
+  const created: string[] = [];
+
+  beforeEach(() => {
+    jest.spyOn(websocketService, 'broadcastDeviceTimers').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    created.forEach(timerId => DeviceTimerService.remove(timerId));
+  });
+
+  it('should keep timers until they are cancelled, soonest first', () => {
+    const later = DeviceTimerService.create(fan, fanOff, new Date(Date.now() + 40 * 60 * 1000), user);
+    const sooner = DeviceTimerService.create(fan, { ...fanOff, command: 'on' }, new Date(Date.now() + 20 * 60 * 1000), user);
+    created.push(later.timerId, sooner.timerId);
+
+    expect(later).toEqual(expect.objectContaining({ deviceId: fan, component: 'main', ...fanOff, arguments: [], userId: user.id }));
+    expect(DeviceTimerService.list(fan).map(timer => timer.timerId)).toEqual([sooner.timerId, later.timerId]);
+    expect(DeviceTimerService.countForDevice(fan)).toBe(2);
+
+    const runAt = new Date(Date.now() + 60 * 60 * 1000);
+    expect(DeviceTimerService.reschedule(sooner.timerId, runAt)?.runAt).toBe(runAt.toISOString());
+    expect(DeviceTimerService.list(fan).map(timer => timer.timerId)).toEqual([later.timerId, sooner.timerId]);
+
+    expect(DeviceTimerService.remove(later.timerId)).toBe(true);
+    expect(DeviceTimerService.remove(later.timerId)).toBe(false);
+    expect(DeviceTimerService.list(fan).map(timer => timer.timerId)).toEqual([sooner.timerId]);
+  });
+
+  it('should run due timers once, as the user who set them', async () => {
+    jest.spyOn(UserService, 'getUserById').mockReturnValue({ ...user, createdAt: '', updatedAt: '' });
+    const runCommand = jest.spyOn(commandRunner, 'runCommand').mockResolvedValue({ success: true, durationMs: 5 });
+    const due = DeviceTimerService.create(fan, fanOff, new Date(Date.now() - 1000), user);
+    const pending = DeviceTimerService.create(fan, fanOff, new Date(Date.now() + 20 * 60 * 1000), user);
+    created.push(due.timerId, pending.timerId);
+
+    const runner = new DeviceTimerRunner();
+    const [results] = await Promise.all([runner.runDue(), runner.runDue()]);
+
+    expect(runCommand).toHaveBeenCalledTimes(1);
+    expect(runCommand).toHaveBeenCalledWith(
+      { user: expect.objectContaining({ id: user.id }), isDemoMode: false },
+      fan,
+      { component: 'main', ...fanOff, arguments: [] },
+      { type: 'timer', timerId: due.timerId }
+    );
+    expect(results).toContainEqual({ success: true, durationMs: 5 });
+    expect(DeviceTimerService.list(fan).map(timer => timer.timerId)).toEqual([pending.timerId]);
+    expect(websocketService.broadcastDeviceTimers).toHaveBeenCalledWith(fan, [expect.objectContaining({ timerId: pending.timerId })]);
+  });
+
+  it('should keep a timer whose command failed, with the error, until it is dismissed', async () => {
+    jest.spyOn(UserService, 'getUserById').mockReturnValue({ ...user, createdAt: '', updatedAt: '' });
+    const runCommand = jest.spyOn(commandRunner, 'runCommand').mockResolvedValue({
+      success: false,
+      error: 'Device offline',
+      code: 'DEVICE_OFFLINE',
+      durationMs: 5,
+    });
+    const due = DeviceTimerService.create(fan, fanOff, new Date(Date.now() - 1000), user);
+    created.push(due.timerId);
+
+    const runner = new DeviceTimerRunner();
+    await runner.runDue();
+    await runner.runDue();
+
+    expect(runCommand).toHaveBeenCalledTimes(1);
+    expect(DeviceTimerService.get(due.timerId)).toEqual(expect.objectContaining({
+      status: 'failed',
+      error: 'Device offline',
+      code: 'DEVICE_OFFLINE',
+    }));
+    expect(DeviceTimerService.countForDevice(fan)).toBe(0);
+    expect(DeviceTimerService.reschedule(due.timerId, new Date(Date.now() + 60 * 1000))).toBeUndefined();
+    expect(websocketService.broadcastDeviceTimers).toHaveBeenLastCalledWith(fan, [
+      expect.objectContaining({ timerId: due.timerId, status: 'failed' }),
+    ]);
+  });
+
+  it('should fail timers that were running when the server stopped', () => {
+    const timer = DeviceTimerService.create(fan, fanOff, new Date(Date.now() - 1000), user);
+    created.push(timer.timerId);
+    expect(DeviceTimerService.claim(timer.timerId)).toBe(true);
+    expect(DeviceTimerService.claim(timer.timerId)).toBe(false);
+
+    expect(DeviceTimerService.markInterrupted()).toBe(1);
+    expect(DeviceTimerService.get(timer.timerId)).toEqual(expect.objectContaining({ status: 'failed' }));
+    expect(DeviceTimerService.getDue(new Date()).map(due => due.timerId)).not.toContain(timer.timerId);
+  });
+
+  it('should push timers only to users who can access the device, without who set them', async () => {
+    const admin = { ...user, id: 'timer-admin', username: 'timer-admin', role: 'admin' as const };
+    const stranger = { ...user, id: 'timer-stranger', username: 'timer-stranger' };
+    jest.spyOn(UserService, 'getUserById').mockImplementation(userId =>
+      [admin, stranger].map(u => ({ ...u, createdAt: '', updatedAt: '' })).find(u => u.id === userId) || null
+    );
+    jest.spyOn(ACLService, 'hasAccess').mockReturnValue(false);
+    jest.spyOn(ACLService, 'getAccessibleRoomIds').mockReturnValue([]);
+    jest.spyOn(ACLService, 'getAccessibleLocationIds').mockReturnValue([]);
+    const client = (isDemoMode = false) => ({ readyState: WebSocket.OPEN, isDemoMode, send: jest.fn() });
+    const adminClient = client();
+    const strangerClient = client();
+    const demoClient = client(true);
+    const service = new WebSocketService();
+    Object.assign(service, {
+      wss: {},
+      clients: new Map([
+        [admin.id, new Set([adminClient])],
+        [stranger.id, new Set([strangerClient])],
+        ['demo-user-id', new Set([demoClient])],
+      ]),
+    });
+    const timer = DeviceTimerService.create(fan, fanOff, new Date(Date.now() + 60 * 1000), user);
+    created.push(timer.timerId);
+
+    await service.broadcastDeviceTimers(fan, [DeviceTimerService.get(timer.timerId)!]);
+
+    expect(strangerClient.send).not.toHaveBeenCalled();
+    expect(demoClient.send).not.toHaveBeenCalled();
+    expect(adminClient.send).toHaveBeenCalledTimes(1);
+    const message = JSON.parse(adminClient.send.mock.calls[0][0]);
+    expect(message).toEqual(expect.objectContaining({ type: 'device-timers', deviceId: fan }));
+    expect(message.timers).toEqual([expect.objectContaining({ timerId: timer.timerId, status: 'pending' })]);
+    expect(message.timers[0]).not.toHaveProperty('userId');
+    expect(message.timers[0]).not.toHaveProperty('username');
+  });
+});
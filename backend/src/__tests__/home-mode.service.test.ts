@@ -0,0 +1,131 @@
+import { canChangeHomeMode, getModeRestriction } from '../middleware/acl.middleware';
+import { ACLService } from '../services/acl.service';
+import { runCommand } from '../services/command-runner';
+import { deviceCommandService } from '../services/device-command.service';
+import { deviceInventory } from '../services/device-inventory.service';
+import { HomeModeService } from '../services/home-mode.service';
+import { HomeModeManager } from '../services/home-mode-manager.service';
+import * as sceneRunner from '../services/scene-runner';
+import { SceneExecution } from '../services/scene-execution.service';
+import { UserService } from '../services/user.service';
+import { websocketService } from '../services/websocket.service';
+
+const user = { id: 'mode-user', username: 'mode-user', role: 'user' as const, firstLogin: false };
+const admin = { id: 'mode-admin', username: 'mode-admin', role: 'admin' as const, firstLogin: false };
+const porchLightOn = { capability: 'switch', command: 'on' };
+
+/** Away, with users limited to the porch light */
+function mockAwayPolicy() {
+  jest.spyOn(HomeModeService, 'getCurrent').mockReturnValue({ mode: 'Away' });
+  jest.spyOn(HomeModeService, 'getSettings').mockImplementation(mode => ({
+    mode,
+    entryActions: [],
+    allowedDeviceIds: mode === 'Away' ? ['porch-light'] : undefined,
+  }));
+}
+
+describe('Home modes', () => {
+  beforeEach(() => {
+    jest.spyOn(websocketService, 'broadcastToUser').mockImplementation(() => {});
+    jest.spyOn(UserService, 'getAllUsers').mockReturnValue([]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should persist mode changes, push them and ignore changes to the current mode', async () => {
+    const { mode: original } = HomeModeService.getCurrent();
+    const target = original === 'Night' ? 'Home' : 'Night';
+    const manager = new HomeModeManager();
+    const listener = jest.fn();
+    manager.on('mode-change', listener);
+
+    try {
+      const change = await manager.setMode(target, { source: 'schedule', details: { scheduleId: 'schedule-1' } });
+
+      expect(change).toEqual(expect.objectContaining({ mode: target, previousMode: original, source: 'schedule' }));
+      expect(HomeModeService.getCurrent()).toEqual({ mode: target, change });
+      expect(HomeModeService.listChanges(1)).toEqual([change]);
+      expect(listener).toHaveBeenCalledWith(change);
+      expect(await manager.setMode(target, { source: 'api' })).toBeUndefined();
+      expect(listener).toHaveBeenCalledTimes(1);
+    } finally {
+      HomeModeService.recordChange({ mode: original, previousMode: target, source: 'api' });
+    }
+  });
+
+  it('should limit restricted users to the allowed devices and let only admins leave the mode', async () => {
+    mockAwayPolicy();
+    jest.spyOn(ACLService, 'hasAccess').mockReturnValue(true);
+    const execute = jest.spyOn(deviceCommandService, 'execute');
+
+    expect(getModeRestriction({ user, isDemoMode: false }, 'porch-light')).toBeUndefined();
+    expect(getModeRestriction({ user, isDemoMode: false }, 'kitchen-light')).toBe('Only some devices can be controlled in Away mode');
+    expect(getModeRestriction({ user: admin, isDemoMode: false }, 'kitchen-light')).toBeUndefined();
+    expect(canChangeHomeMode({ user, isDemoMode: false })).toBe(false);
+    expect(canChangeHomeMode({ user: admin, isDemoMode: false })).toBe(true);
+
+    const result = await runCommand({ user, isDemoMode: false }, 'kitchen-light', porchLightOn);
+    expect(result).toEqual(expect.objectContaining({ success: false, code: 'MODE_RESTRICTED' }));
+    expect(execute).not.toHaveBeenCalled();
+
+    await expect(new HomeModeManager().setMode('Home', { source: 'api', user }))
+      .rejects.toMatchObject({ name: 'HomeModeChangeError', code: 'MODE_RESTRICTED' });
+  });
+
+  it('should run entry actions in order as the admin who set them up, for changes without a user', async () => {
+    jest.spyOn(HomeModeService, 'getSettings').mockReturnValue({
+      mode: 'Night',
+      entryActions: [
+        { type: 'scene', sceneId: 'good-night' },
+        { type: 'command', deviceId: 'porch-light', ...porchLightOn },
+      ],
+      updatedBy: admin.id,
+    });
+    jest.spyOn(UserService, 'getUserById').mockReturnValue({ ...admin, createdAt: '', updatedAt: '' });
+    const runScene = jest.spyOn(sceneRunner, 'runScene').mockResolvedValue({
+      executionId: 'execution-1',
+      success: true,
+      failed: 0,
+      actions: [],
+    } as unknown as SceneExecution);
+    const execute = jest.spyOn(deviceCommandService, 'execute').mockImplementation(async (_source, _deviceId, commands) =>
+      commands.map(command => ({ command }))
+    );
+
+    const results = await new HomeModeManager().runEntryActions('Night');
+
+    expect(runScene).toHaveBeenCalledWith(
+      expect.objectContaining({ user: expect.objectContaining({ id: admin.id }), isDemoMode: false }),
+      'good-night',
+      { homeMode: 'Night' }
+    );
+    expect(execute).toHaveBeenCalledWith(
+      deviceInventory,
+      'porch-light',
+      [expect.objectContaining({ component: 'main', ...porchLightOn })],
+      { username: admin.username, isDemoMode: false }
+    );
+    expect(results).toEqual([
+      { index: 0, type: 'scene', success: true, error: undefined, code: undefined },
+      { index: 1, type: 'command', success: true, error: undefined, code: undefined },
+    ]);
+  });
+
+  it('should run entry actions as the user who changed the mode, with their access', async () => {
+    jest.spyOn(HomeModeService, 'getSettings').mockReturnValue({
+      mode: 'Night',
+      entryActions: [{ type: 'command', deviceId: 'front-door-lock', capability: 'lock', command: 'unlock' }],
+      updatedBy: admin.id,
+    });
+    jest.spyOn(HomeModeService, 'getCurrent').mockReturnValue({ mode: 'Night' });
+    jest.spyOn(ACLService, 'hasAccess').mockReturnValue(false);
+    const execute = jest.spyOn(deviceCommandService, 'execute');
+
+    const results = await new HomeModeManager().runEntryActions('Night', user);
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(results).toEqual([expect.objectContaining({ index: 0, success: false, code: 'ACCESS_DENIED' })]);
+  });
+});
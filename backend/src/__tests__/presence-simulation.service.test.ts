@@ -0,0 +1,226 @@
+import { db } from '../database/db';
+import * as commandRunner from '../services/command-runner';
+import { toHistoryTimestamp } from '../services/device-history.service';
+import { HomeModeService } from '../services/home-mode.service';
+import { LightPattern, PresenceSimulationService } from '../services/presence-simulation.service';
+import { planHour, PresenceSimulator } from '../services/presence-simulator.service';
+import { UserService } from '../services/user.service';
+
+const light = `porch-light-${Date.now()}`;
+const admin = { id: 'presence-admin', username: 'presence-admin', role: 'admin' as const, firstLogin: false };
+// A Tuesday
+const now = new Date(2026, 6, 28, 12, 0);
+
+const pattern = (overrides: Partial<LightPattern>): LightPattern => ({
+  deviceId: light,
+  deviceLabel: 'Porch light',
+  weekday: 1,
+  hour: 19,
+  command: 'on',
+  chance: 1,
+  minute: 0,
+  ...overrides,
+});
+
+function record(value: string, at: Date) {
+  db.prepare(`
+    INSERT INTO device_history (id, timestamp, device_id, device_label, component, capability, attribute, value)
+    VALUES (?, ?, ?, 'Porch light', 'main', 'switch', 'switch', ?)
+  `).run(`${light}-${at.getTime()}`, toHistoryTimestamp(at), light, value);
+}
+
+describe('Presence simulation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    db.prepare('DELETE FROM device_history WHERE device_id = ?').run(light);
+    db.prepare('DELETE FROM presence_simulation_log WHERE device_id LIKE ?').run(`${light}%`);
+  });
+
+  it('should learn how often lights are switched per weekday and hour, leaving out vacations', () => {
+    // On two of the three Mondays at home; the last Monday was spent on vacation
+    record('on', new Date(2026, 6, 6, 19, 10));
+    record('off', new Date(2026, 6, 6, 23, 0));
+    record('on', new Date(2026, 6, 20, 19, 20));
+    record('off', new Date(2026, 6, 20, 23, 0));
+    record('on', new Date(2026, 6, 27, 19, 30));
+    jest.spyOn(HomeModeService, 'getPeriods').mockReturnValue([{ from: new Date(2026, 6, 26, 9, 0), to: now }]);
+
+    expect(PresenceSimulationService.learnPatterns([light], now)).toEqual([
+      pattern({ chance: 2 / 3, minute: 15 }),
+      pattern({ hour: 23, command: 'off', chance: 2 / 3, minute: 0 }),
+    ]);
+  });
+
+  it('should plan an hour\'s "on" switches by chance, moving each by up to the jitter', () => {
+    const random = jest.fn()
+      .mockReturnValueOnce(0.5) // happens (2/3)
+      .mockReturnValueOnce(0.5) // doesn't (1/10)
+      .mockReturnValueOnce(0.75) // half the jitter late
+      .mockReturnValueOnce(0.5); // off at its usual minute
+
+    const planned = planHour([
+      pattern({ chance: 2 / 3, minute: 15 }),
+      pattern({ deviceId: 'hall-light', chance: 0.1 }),
+      pattern({ weekday: 2 }),
+      pattern({ command: 'off', minute: 30 }),
+    ], new Date(2026, 6, 27, 19, 0), 10, random);
+
+    // "off" patterns only pair with an "on"; they don't happen by chance
+    expect(random).toHaveBeenCalledTimes(4);
+    expect(planned).toEqual([
+      { deviceId: light, deviceLabel: 'Porch light', command: 'on', at: new Date(2026, 6, 27, 19, 20) },
+      { deviceId: light, deviceLabel: 'Porch light', command: 'off', at: new Date(2026, 6, 27, 19, 30) },
+    ]);
+  });
+
+  it('should pair every "on" with the light\'s next usual "off", or one an hour later', () => {
+    const random = jest.fn()
+      .mockReturnValueOnce(0) // porch light happens
+      .mockReturnValueOnce(0) // hall light happens
+      .mockReturnValueOnce(1) // porch light on at the latest
+      .mockReturnValueOnce(0) // porch light off at the earliest
+      .mockReturnValueOnce(0.5); // hall light on at its usual minute
+
+    const planned = planHour([
+      pattern({ hour: 23, minute: 50 }),
+      pattern({ hour: 23, minute: 10, command: 'off' }), // Before the "on", so a week away
+      pattern({ weekday: 2, hour: 0, minute: 0, command: 'off' }),
+      pattern({ weekday: 3, hour: 0, minute: 0, command: 'off' }),
+      pattern({ deviceId: 'hall-light', deviceLabel: 'Hall light', hour: 23, minute: 5 }),
+    ], new Date(2026, 6, 27, 23, 0), 20, random);
+
+    expect(planned).toEqual([
+      { deviceId: 'hall-light', deviceLabel: 'Hall light', command: 'on', at: new Date(2026, 6, 27, 23, 5) },
+      // Doesn't usually go off within a day
+      { deviceId: 'hall-light', deviceLabel: 'Hall light', command: 'off', at: new Date(2026, 6, 28, 0, 5) },
+      { deviceId: light, deviceLabel: 'Porch light', command: 'on', at: new Date(2026, 6, 28, 0, 10) },
+      // Jittered to before its "on", so just after it instead
+      { deviceId: light, deviceLabel: 'Porch light', command: 'off', at: new Date(2026, 6, 28, 0, 11) },
+    ]);
+  });
+
+  it('should only switch lights in Vacation mode, as the admin, and log every switch', async () => {
+    jest.spyOn(PresenceSimulationService, 'getSettings').mockReturnValue({
+      enabled: true,
+      deviceIds: [light],
+      jitterMinutes: 0,
+      updatedBy: admin.id,
+    });
+    jest.spyOn(PresenceSimulationService, 'learnPatterns').mockReturnValue([]);
+    jest.spyOn(PresenceSimulationService, 'getSwitchedOn').mockReturnValue([]);
+    jest.spyOn(UserService, 'getUserById').mockReturnValue({ ...admin, createdAt: '', updatedAt: '' });
+    const getCurrent = jest.spyOn(HomeModeService, 'getCurrent').mockReturnValue({ mode: 'Home' });
+    const runCommand = jest.spyOn(commandRunner, 'runCommand').mockResolvedValue({
+      success: false,
+      error: 'Device offline',
+      code: 'DEVICE_OFFLINE',
+      durationMs: 5,
+    });
+
+    const simulator = new PresenceSimulator();
+    try {
+      simulator.start();
+      expect(simulator.getStatus().active).toBe(false);
+      getCurrent.mockReturnValue({ mode: 'Vacation' });
+      simulator.refresh();
+      expect(simulator.getStatus().active).toBe(true);
+    } finally {
+      simulator.stop();
+    }
+
+    const at = new Date(2026, 6, 27, 19, 15);
+    const entry = await simulator.runSwitch({ deviceId: light, deviceLabel: 'Porch light', command: 'on', at });
+
+    expect(runCommand).toHaveBeenCalledWith(
+      { user: expect.objectContaining({ id: admin.id }), isDemoMode: false },
+      light,
+      { component: 'main', capability: 'switch', command: 'on' },
+      { type: 'presence-simulation' }
+    );
+    expect(entry).toEqual(expect.objectContaining({
+      deviceId: light,
+      command: 'on',
+      plannedFor: at.toISOString(),
+      success: false,
+      code: 'DEVICE_OFFLINE',
+    }));
+    expect(PresenceSimulationService.listLog(10)).toContainEqual(entry);
+  });
+
+  it('should switch off the lights it left on when Vacation mode ends', async () => {
+    const settings = { enabled: true, deviceIds: [light], jitterMinutes: 0, updatedBy: admin.id };
+    jest.spyOn(PresenceSimulationService, 'getSettings').mockReturnValue(settings);
+    jest.spyOn(PresenceSimulationService, 'learnPatterns').mockReturnValue([]);
+    jest.spyOn(UserService, 'getUserById').mockReturnValue({ ...admin, createdAt: '', updatedAt: '' });
+    const getCurrent = jest.spyOn(HomeModeService, 'getCurrent').mockReturnValue({ mode: 'Vacation' });
+    const runCommand = jest.spyOn(commandRunner, 'runCommand').mockResolvedValue({ success: true, durationMs: 5 });
+    const lit = { deviceId: `${light}-lit`, deviceLabel: 'Lit' };
+    const switchedOff = { deviceId: `${light}-off`, deviceLabel: 'Switched off' };
+    const failed = { deviceId: `${light}-failed`, deviceLabel: 'Failed' };
+    const plannedFor = now.toISOString();
+    PresenceSimulationService.recordLogEntry({ ...lit, command: 'on', plannedFor, success: true });
+    PresenceSimulationService.recordLogEntry({ ...switchedOff, command: 'on', plannedFor, success: true });
+    PresenceSimulationService.recordLogEntry({ ...switchedOff, command: 'off', plannedFor, success: true });
+    PresenceSimulationService.recordLogEntry({ ...failed, command: 'on', plannedFor, success: false });
+
+    const switchedOn = PresenceSimulationService.getSwitchedOn();
+    expect(switchedOn).toContainEqual(lit);
+    expect(switchedOn).not.toContainEqual(switchedOff);
+    expect(switchedOn).not.toContainEqual(failed);
+
+    const simulator = new PresenceSimulator();
+    const switchOffLights = jest.spyOn(simulator, 'switchOffLights').mockResolvedValue([]);
+    try {
+      simulator.start();
+      getCurrent.mockReturnValue({ mode: 'Home' });
+      simulator.refresh();
+      expect(simulator.getStatus().active).toBe(false);
+      expect(switchOffLights).toHaveBeenCalledTimes(2);
+    } finally {
+      simulator.stop();
+    }
+
+    switchOffLights.mockRestore();
+    const entries = await simulator.switchOffLights();
+    expect(runCommand).toHaveBeenCalledWith(
+      expect.anything(),
+      lit.deviceId,
+      { component: 'main', capability: 'switch', command: 'off' },
+      { type: 'presence-simulation' }
+    );
+    expect(runCommand).not.toHaveBeenCalledWith(expect.anything(), switchedOff.deviceId, expect.anything(), expect.anything());
+    expect(entries).toContainEqual(expect.objectContaining({ ...lit, command: 'off', success: true }));
+    expect(PresenceSimulationService.getSwitchedOn()).not.toContainEqual(lit);
+  });
+
+  it('should still run switches jittered over from the last hour after planning afresh', () => {
+    // Monday 20:05; the porch light usually goes on at 19:55, and may be 20 minutes late
+    jest.useFakeTimers({ now: new Date(2026, 6, 27, 20, 5) });
+    jest.spyOn(Math, 'random').mockReturnValue(0.99);
+    jest.spyOn(PresenceSimulationService, 'getSettings').mockReturnValue({
+      enabled: true,
+      deviceIds: [light],
+      jitterMinutes: 20,
+      updatedBy: admin.id,
+    });
+    jest.spyOn(PresenceSimulationService, 'learnPatterns').mockReturnValue([pattern({ minute: 55 })]);
+    jest.spyOn(HomeModeService, 'getCurrent').mockReturnValue({ mode: 'Vacation' });
+
+    const simulator = new PresenceSimulator();
+    jest.spyOn(simulator, 'switchOffLights').mockResolvedValue([]);
+    try {
+      simulator.start();
+
+      expect(simulator.getStatus().upcoming).toEqual([
+        expect.objectContaining({ deviceId: light, command: 'on', at: new Date(2026, 6, 27, 20, 14, 36) }),
+        expect.objectContaining({ deviceId: light, command: 'off', at: new Date(2026, 6, 27, 21, 14, 36) }),
+      ]);
+    } finally {
+      simulator.stop();
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,157 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { getRetryAfter, ResilientHttpClient, toProviderError } from '../services/resilient-http';
+import { DeviceProviderError } from '../services/device-provider';
+
+function httpError(status: number | undefined, data: unknown = {}, headers: Record<string, string> = {}): AxiosError {
+  const response = status === undefined
+    ? undefined
+    : ({ status, statusText: '', data, headers, config: {} } as AxiosResponse);
+  return new AxiosError(`Request failed with status ${status}`, undefined, undefined, undefined, response);
+}
+
+const OPTIONS = {
+  name: 'SmartThings',
+  baseURL: 'https://api.example.com',
+  timeoutMs: 1000,
+  maxRetries: 3,
+  baseDelayMs: 1,
+  maxDelayMs: 4,
+  maxRetryAfterMs: 50,
+  failureThreshold: 3,
+  resetTimeoutMs: 1000,
+};
+
+describe('ResilientHttpClient', () => {
+  let request: jest.Mock;
+
+  beforeEach(() => {
+    request = jest.fn();
+    jest.spyOn(axios, 'create').mockReturnValue({ request } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should retry idempotent requests after server failures', async () => {
+    const client = new ResilientHttpClient(OPTIONS);
+    request
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(undefined))
+      .mockResolvedValueOnce({ data: { items: [] } });
+
+    const response = await client.get('/devices');
+
+    expect(response.data).toEqual({ items: [] });
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(client.getHealth()).toEqual({ circuit: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('should not repeat commands whose outcome is unknown', async () => {
+    const client = new ResilientHttpClient(OPTIONS);
+    request.mockRejectedValue(httpError(502));
+
+    await expect(client.post('/devices/lamp-1/commands', { commands: [] })).rejects.toBeInstanceOf(AxiosError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry any request once Retry-After has passed', async () => {
+    const client = new ResilientHttpClient(OPTIONS);
+    request
+      .mockRejectedValueOnce(httpError(429, {}, { 'retry-after': '0.01' }))
+      .mockResolvedValueOnce({ data: {} });
+
+    await client.post('/scenes/morning/execute');
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when the rate limit wait is too long', async () => {
+    const client = new ResilientHttpClient(OPTIONS);
+    request.mockRejectedValue(httpError(429, {}, { 'retry-after': '30' }));
+
+    await expect(client.get('/devices')).rejects.toBeInstanceOf(AxiosError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open the circuit after repeated failures and recover half-open', async () => {
+    const client = new ResilientHttpClient({ ...OPTIONS, maxRetries: 0 });
+    request.mockRejectedValue(httpError(500));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(client.get('/devices')).rejects.toBeInstanceOf(AxiosError);
+    }
+
+    const rejected = await client.get('/devices').catch(error => error);
+    expect(rejected).toBeInstanceOf(DeviceProviderError);
+    expect(rejected.code).toBe('PROVIDER_UNAVAILABLE');
+    expect(rejected.retryAfterMs).toBeGreaterThan(0);
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(client.getHealth().circuit).toBe('open');
+
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 1000);
+    request.mockResolvedValue({ data: {} });
+
+    await client.get('/devices');
+    expect(client.getHealth().circuit).toBe('closed');
+  });
+
+  it('should not count client errors against the circuit', async () => {
+    const client = new ResilientHttpClient({ ...OPTIONS, maxRetries: 0 });
+    request.mockRejectedValue(httpError(404));
+
+    for (let i = 0; i < 5; i++) {
+      await expect(client.get('/devices/missing')).rejects.toBeInstanceOf(AxiosError);
+    }
+
+    expect(client.getHealth().circuit).toBe('closed');
+  });
+});
+
+describe('getRetryAfter', () => {
+  it('should read Retry-After as seconds or as an HTTP date', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Mon, 19 Oct 2026 12:00:00 GMT'));
+
+    expect(getRetryAfter(httpError(429, {}, { 'retry-after': '30' }))).toBe(30000);
+    expect(getRetryAfter(httpError(429, {}, { 'retry-after': 'Mon, 19 Oct 2026 12:00:45 GMT' }))).toBe(45000);
+    expect(getRetryAfter(httpError(429, {}, { 'retry-after': 'Mon, 19 Oct 2026 11:59:00 GMT' }))).toBe(0);
+    expect(getRetryAfter(httpError(429, {}, { 'x-ratelimit-reset': '5000' }))).toBe(5000);
+    expect(getRetryAfter(httpError(429))).toBe(60000);
+
+    jest.restoreAllMocks();
+  });
+});
+
+describe('toProviderError', () => {
+  it.each([
+    [401, {}, 'PROVIDER_AUTH_EXPIRED', 502],
+    [403, {}, 'PROVIDER_AUTH_EXPIRED', 502],
+    [429, {}, 'RATE_LIMITED', 429],
+    [409, { error: { code: 'DeviceOfflineError', message: 'Device is offline' } }, 'DEVICE_OFFLINE', 409],
+    [422, { error: { code: 'ConstraintViolationError', details: [{ code: 'DeviceOfflineError' }] } }, 'DEVICE_OFFLINE', 409],
+    [409, { error: { code: 'ConflictError', message: 'Conflict' } }, 'PROVIDER_ERROR', 502],
+    [422, { error: { message: 'Offline schedule name is too long' } }, 'BAD_ARGUMENTS', 400],
+    [422, { error: { message: 'level must be between 0 and 100' } }, 'BAD_ARGUMENTS', 400],
+    [404, {}, 'NOT_FOUND', 404],
+    [503, {}, 'PROVIDER_UNAVAILABLE', 503],
+    [undefined, {}, 'PROVIDER_UNAVAILABLE', 503],
+  ])('should classify status %s as %s', (status, data, code, httpStatus) => {
+    const error = toProviderError(httpError(status, data), 'Failed');
+
+    expect(error.code).toBe(code);
+    expect(error.httpStatus).toBe(httpStatus);
+  });
+
+  it('should keep the upstream message for invalid arguments', () => {
+    const error = toProviderError(httpError(422, { error: { message: 'level must be between 0 and 100' } }), 'Failed');
+
+    expect(error.message).toBe('level must be between 0 and 100');
+  });
+
+  it('should pass provider errors through unchanged', () => {
+    const original = new DeviceProviderError('Lamp is offline', 'DEVICE_OFFLINE');
+
+    expect(toProviderError(original, 'Failed')).toBe(original);
+    expect(toProviderError(new Error('boom'), 'Failed').code).toBe('PROVIDER_ERROR');
+  });
+});
@@ -0,0 +1,283 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import fastifyCookie from '@fastify/cookie';
+import { SceneService } from '../services/scene.service';
+import { SceneExecutionService } from '../services/scene-execution.service';
+import { startScene } from '../services/scene-runner';
+import { deviceCommandService } from '../services/device-command.service';
+import { deviceInventory } from '../services/device-inventory.service';
+import { SimulatedHome } from '../services/simulator.service';
+import { SessionService } from '../services/session.service';
+import { deviceHistoryService } from '../services/device-history.service';
+import { websocketService } from '../services/websocket.service';
+import { sceneRoutes } from '../routes/scene.routes';
+
+const CONTEXT = { username: 'scene-tester', isDemoMode: true };
+
+describe('SceneService', () => {
+  const created: string[] = [];
+
+  beforeEach(() => {
+    jest.spyOn(deviceHistoryService, 'recordStateChange').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    created.splice(0).forEach(sceneId => SceneService.remove(sceneId));
+  });
+
+  function createScene(actions: any[]) {
+    const scene = SceneService.create({ name: ' Movie Night ', icon: 'tv', color: 'purple', actions }, 'scene-tester');
+    created.push(scene.sceneId);
+    return scene;
+  }
+
+  it('should store scenes with ordered actions and defaults', () => {
+    const scene = createScene([
+      { deviceId: 'living-room-lights', capability: 'switchLevel', command: 'setLevel', arguments: [20] },
+      { deviceId: 'kitchen-lights', capability: 'switch', command: 'off', delaySeconds: 5 },
+    ]);
+
+    expect(SceneService.get(scene.sceneId)).toMatchObject({
+      name: 'Movie Night',
+      createdBy: 'scene-tester',
+      actions: [
+        { deviceId: 'living-room-lights', component: 'main', arguments: [20], delaySeconds: 0 },
+        { deviceId: 'kitchen-lights', component: 'main', arguments: [], delaySeconds: 5 },
+      ],
+    });
+  });
+
+  it('should present local scenes like provider scenes', () => {
+    const scene = createScene([{ deviceId: 'kitchen-lights', capability: 'switch', command: 'on' }]);
+
+    expect(SceneService.toScene(scene, new Map([['kitchen-lights', 'Kitchen Lights']]))).toMatchObject({
+      sceneId: scene.sceneId,
+      sceneName: 'Movie Night',
+      sceneIcon: 'tv',
+      source: 'local',
+      actions: [{ deviceLabel: 'Kitchen Lights', command: 'on' }],
+    });
+  });
+
+  it('should replace a scene\'s actions on update', () => {
+    const scene = createScene([{ deviceId: 'kitchen-lights', capability: 'switch', command: 'on' }]);
+
+    const updated = SceneService.update(scene.sceneId, {
+      name: 'Late Movie',
+      actions: [{ deviceId: 'front-porch-lights', capability: 'switch', command: 'off' }],
+    });
+
+    expect(updated?.actions.map(action => action.deviceId)).toEqual(['front-porch-lights']);
+    expect(SceneService.get(scene.sceneId)?.name).toBe('Late Movie');
+    expect(SceneService.update('no-such-scene', { name: 'x', actions: [] })).toBeUndefined();
+  });
+
+  it('should run actions in order and keep going after a failure', async () => {
+    const home = new SimulatedHome();
+    const scene = createScene([
+      { deviceId: 'living-room-lights', capability: 'switchLevel', command: 'setLevel', arguments: [35] },
+      { deviceId: 'kitchen-lights', capability: 'switchLevel', command: 'setLevel', arguments: [50] },
+      { deviceId: 'kitchen-lights', capability: 'switch', command: 'on', delaySeconds: 0.05 },
+    ]);
+
+    const startTime = Date.now();
+    const results = await SceneService.execute(home, scene, CONTEXT);
+
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(45);
+    expect(results.map(result => [result.index, result.success, result.code])).toEqual([
+      [0, true, undefined],
+      [1, false, 'BAD_ARGUMENTS'],
+      [2, true, undefined],
+    ]);
+    const status = await home.getDeviceStatus('living-room-lights');
+    expect(status.components.main.switchLevel.level.value).toBe(35);
+    expect(SceneService.get(scene.sceneId)?.lastExecutedAt).toBeDefined();
+  });
+
+  it('should capture switch, level, color and thermostat state as actions', async () => {
+    const home = new SimulatedHome();
+    await home.executeCommand('master-bedroom-lights', 'switch', 'on');
+    const capture = async (deviceId: string) =>
+      SceneService.captureActions(await home.getDevice(deviceId), await home.getDeviceStatus(deviceId))
+        .map(action => [action.component, action.command, action.arguments]);
+
+    expect(await capture('master-bedroom-lights')).toEqual([
+      ['main', 'setColor', [{ hue: 10, saturation: 40 }]],
+      ['main', 'setLevel', [60]],
+      ['main', 'on', []],
+    ]);
+    // Off lights keep their level untouched; only reported capabilities count
+    expect(await capture('front-porch-lights')).toEqual([['main', 'off', []]]);
+    expect(await capture('living-room-thermostat')).toEqual([
+      ['main', 'setThermostatMode', ['auto']],
+      ['main', 'setHeatingSetpoint', [68]],
+      ['main', 'setCoolingSetpoint', [76]],
+    ]);
+    expect((await capture('living-room-power-strip')).map(([component]) => component)).toEqual(
+      expect.arrayContaining(['outlet1', 'outlet2'])
+    );
+  });
+});
+
+describe('SceneExecutionService', () => {
+  it('should count outcomes and fail runs with a scene-level error', () => {
+    const sceneId = `execution-test-${Date.now()}`;
+    const action = { deviceId: 'd', component: 'main', capability: 'switch', command: 'on', durationMs: 5 };
+
+    const execution = SceneExecutionService.record({
+      sceneId,
+      sceneName: 'Test',
+      source: 'local',
+      userId: 'u',
+      username: 'tester',
+      actions: [{ ...action, index: 0, success: true }, { ...action, index: 1, success: false, code: 'DEVICE_OFFLINE' }],
+      startedAt: new Date().toISOString(),
+    });
+    const failedScene = SceneExecutionService.record({
+      sceneId,
+      sceneName: 'Test',
+      source: 'smartthings',
+      userId: 'u',
+      username: 'tester',
+      error: 'Scene failed',
+      actions: [],
+      startedAt: new Date().toISOString(),
+    });
+
+    expect(SceneExecutionService.get(execution.executionId)).toMatchObject({ success: false, succeeded: 1, failed: 1 });
+    expect(failedScene.success).toBe(false);
+    expect(SceneExecutionService.listForScene(sceneId, { userId: 'someone-else' })).toEqual([]);
+  });
+
+  it('should store a run when it starts and update it as delayed actions finish', async () => {
+    const admin = { id: 'scene-admin', username: 'scene-admin', role: 'admin' as const, firstLogin: false };
+    const scene = SceneService.create({
+      name: 'Slow Fade',
+      actions: [
+        { deviceId: 'hall-light', capability: 'switch', command: 'on' },
+        { deviceId: 'hall-light', capability: 'switch', command: 'off', delaySeconds: 0.2 },
+      ],
+    }, admin.username);
+    const push = jest.spyOn(websocketService, 'broadcastToUser').mockImplementation(() => {});
+    jest.spyOn(SceneService, 'capturePriorState').mockResolvedValue([{ deviceId: 'hall-light', capability: 'switch', command: 'off' }]);
+    jest.spyOn(deviceInventory, 'getDeviceStatus').mockRejectedValue(new Error('not read in this test'));
+    jest.spyOn(deviceCommandService, 'execute').mockImplementation(async (_source, _deviceId, commands) =>
+      commands.map(command => ({ command }))
+    );
+
+    const { execution, finished } = await startScene({ user: admin, isDemoMode: false }, scene.sceneId);
+
+    expect(execution).toMatchObject({ status: 'running', actions: [], priorState: [expect.objectContaining({ command: 'off' })] });
+    expect(execution.revertibleUntil).toBeUndefined();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(SceneExecutionService.get(execution.executionId)).toMatchObject({ status: 'running', succeeded: 1 });
+
+    const done = await finished;
+    expect(done).toMatchObject({ status: 'completed', success: true, succeeded: 2 });
+    expect(done.revertibleUntil).toBeDefined();
+    expect(SceneExecutionService.get(execution.executionId)).toMatchObject({ status: 'completed', succeeded: 2 });
+    expect(push.mock.calls.map(([, message]) => (message as any).execution.succeeded)).toEqual([0, 1, 2, 2]);
+
+    jest.restoreAllMocks();
+    SceneService.remove(scene.sceneId);
+  });
+
+  it('should mark runs left running by a restart as interrupted', () => {
+    const running = SceneExecutionService.start({
+      sceneId: `interrupted-${Date.now()}`,
+      sceneName: 'Test',
+      source: 'local',
+      userId: 'u',
+      username: 'tester',
+      actions: [],
+      startedAt: new Date().toISOString(),
+    });
+
+    expect(SceneExecutionService.markInterrupted()).toBeGreaterThanOrEqual(1);
+    expect(SceneExecutionService.get(running.executionId)).toMatchObject({ status: 'interrupted', success: false });
+  });
+});
+
+describe('Scene execution reports in demo mode', () => {
+  let app: FastifyInstance;
+  let cookie: string;
+
+  /**
+   * Scenes run in the background: start one and wait for its report
+   */
+  async function runToCompletion(sceneId: string) {
+    const response = await app.inject({ method: 'POST', url: `/scenes/${sceneId}/execute`, headers: { cookie } });
+    expect(response.statusCode).toBe(202);
+
+    const { executionId } = response.json().execution;
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const { execution } = (await app.inject({ method: 'GET', url: `/scenes/executions/${executionId}`, headers: { cookie } })).json();
+      if (execution.status !== 'running') return execution;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error(`Scene ${sceneId} did not finish`);
+  }
+
+  beforeAll(async () => {
+    app = Fastify({ logger: false });
+    await app.register(fastifyCookie);
+    await app.register(sceneRoutes, { prefix: '/scenes' });
+    await app.ready();
+
+    const session = SessionService.createSession('demo-user-id', true);
+    cookie = `sessionId=${session.id}`;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should report each action with its resulting state and push the report', async () => {
+    const push = jest.spyOn(websocketService, 'broadcastToSession').mockImplementation(() => {});
+
+    const execution = await runToCompletion('good-night');
+
+    expect(execution).toMatchObject({ sceneName: 'Good Night', source: 'smartthings', status: 'completed', success: true, failed: 0 });
+    expect(execution.actions[0]).toMatchObject({ deviceId: 'living-room-lights', success: true, resultingState: { switch: 'off' } });
+    expect(push).toHaveBeenCalledWith(expect.any(String), {
+      type: 'scene-execution',
+      execution: expect.objectContaining({ executionId: execution.executionId, status: 'running', actions: [] }),
+    });
+    expect(push).toHaveBeenLastCalledWith(expect.any(String), {
+      type: 'scene-execution',
+      execution: expect.objectContaining({ executionId: execution.executionId, status: 'completed', actions: execution.actions }),
+    });
+
+    const retry = await app.inject({
+      method: 'POST',
+      url: `/scenes/executions/${execution.executionId}/retry`,
+      headers: { cookie },
+    });
+    expect(retry.statusCode).toBe(400);
+    push.mockRestore();
+  });
+
+  it('should undo a run once by restoring the prior state', async () => {
+    jest.spyOn(websocketService, 'broadcastToSession').mockImplementation(() => {});
+
+    const execution = await runToCompletion('good-morning');
+    expect(execution.revertibleUntil).toBeDefined();
+    // Good Night (previous test) left the heating at 64
+    expect(execution.priorState).toEqual(expect.arrayContaining([
+      expect.objectContaining({ deviceId: 'living-room-thermostat', command: 'setHeatingSetpoint', arguments: [64] }),
+    ]));
+
+    const url = `/scenes/executions/${execution.executionId}/revert`;
+    const revert = await app.inject({ method: 'POST', url, headers: { cookie } });
+
+    expect(revert.statusCode).toBe(200);
+    const reverted = revert.json().execution;
+    expect(reverted).toMatchObject({ revertOf: execution.executionId, success: true });
+    expect(reverted.actions).toEqual(expect.arrayContaining([
+      expect.objectContaining({ deviceId: 'living-room-lights', command: 'off', resultingState: { switch: 'off' } }),
+      expect.objectContaining({ command: 'setHeatingSetpoint', resultingState: { heatingSetpoint: 64 } }),
+    ]));
+    expect((await app.inject({ method: 'POST', url, headers: { cookie } })).statusCode).toBe(409);
+    jest.restoreAllMocks();
+  });
+});
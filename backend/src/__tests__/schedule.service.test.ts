@@ -0,0 +1,118 @@
+import { db } from '../database/db';
+import { nextCronTime, parseCron } from '../utils/cron';
+import { getSunTimes } from '../utils/solar';
+import { nextRunTime, ScheduleService } from '../services/schedule.service';
+import { SchedulerService } from '../services/scheduler.service';
+import { UserService } from '../services/user.service';
+import { websocketService } from '../services/websocket.service';
+import * as sceneRunner from '../services/scene-runner';
+
+const NEW_YORK = { latitude: 40.7128, longitude: -74.006 };
+
+describe('Schedule times', () => {
+  it('should find the next weekday match of a cron expression', () => {
+    const weekdays = parseCron('45 6 * * 1-5');
+
+    // Friday 2024-06-07 07:00 → Monday 06:45
+    expect(nextCronTime(weekdays, new Date(2024, 5, 7, 7, 0))).toEqual(new Date(2024, 5, 10, 6, 45));
+    expect(nextCronTime(parseCron('*/15 * * * *'), new Date(2024, 5, 7, 7, 0))).toEqual(new Date(2024, 5, 7, 7, 15));
+    expect(nextCronTime(parseCron('0 12 30 2 *'), new Date(2024, 0, 1))).toBeUndefined();
+  });
+
+  it('should reject malformed cron expressions', () => {
+    expect(() => parseCron('45 6 * *')).toThrow('5 fields');
+    expect(() => parseCron('61 * * * *')).toThrow('minute');
+    expect(() => parseCron('*/0 * * * *')).toThrow('step');
+  });
+
+  it('should calculate sunrise and sunset within a few minutes', () => {
+    const { sunrise, sunset } = getSunTimes(new Date(2024, 5, 21, 12), NEW_YORK.latitude, NEW_YORK.longitude);
+
+    // Published times: 05:25 and 20:31 EDT
+    expect(Math.abs(sunrise!.getTime() - Date.UTC(2024, 5, 21, 9, 25))).toBeLessThan(3 * 60 * 1000);
+    expect(Math.abs(sunset!.getTime() - Date.UTC(2024, 5, 22, 0, 31))).toBeLessThan(3 * 60 * 1000);
+    // Polar night in Tromsø
+    expect(getSunTimes(new Date(2024, 11, 21, 12), 69.65, 18.96)).toEqual({});
+  });
+
+  it('should offset sun triggers and skip them without coordinates', () => {
+    const after = new Date(2024, 5, 21, 12);
+    const { sunset } = getSunTimes(after, NEW_YORK.latitude, NEW_YORK.longitude);
+    const trigger = { type: 'sun' as const, event: 'sunset' as const, offsetMinutes: 15 };
+
+    expect(nextRunTime(trigger, after, NEW_YORK)).toEqual(new Date(sunset!.getTime() + 15 * 60 * 1000));
+    expect(nextRunTime(trigger, after, {})).toBeUndefined();
+  });
+});
+
+describe('SchedulerService', () => {
+  const owner = { id: `schedule-owner-${Date.now()}`, username: 'schedule-tester' };
+  const created: string[] = [];
+
+  beforeEach(() => {
+    jest.spyOn(websocketService, 'broadcastToUser').mockImplementation(() => {});
+    jest.spyOn(UserService, 'getUserById').mockReturnValue({
+      ...owner,
+      role: 'user',
+      firstLogin: false,
+      createdAt: '',
+      updatedAt: '',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    created.splice(0).forEach(scheduleId => ScheduleService.remove(scheduleId));
+  });
+
+  function createDueSchedule(minutesLate: number) {
+    const schedule = ScheduleService.create(
+      { name: 'Porch', sceneId: 'porch-scene', trigger: { type: 'time', time: '06:45' }, enabled: true },
+      owner
+    );
+    created.push(schedule.scheduleId);
+    const dueAt = new Date(Date.now() - minutesLate * 60 * 1000).toISOString();
+    db.prepare('UPDATE schedules SET next_run_at = ? WHERE id = ?').run(dueAt, schedule.scheduleId);
+    return schedule.scheduleId;
+  }
+
+  it('should catch up on recent missed runs once and record older ones as missed', async () => {
+    const runScene = jest.spyOn(sceneRunner, 'runScene').mockResolvedValue({
+      executionId: 'execution-1',
+      success: true,
+      failed: 0,
+      actions: [],
+    } as any);
+    const scheduler = new SchedulerService({ catchUpWindowMs: 60 * 60 * 1000 });
+    const recent = createDueSchedule(10);
+    const old = createDueSchedule(120);
+
+    await scheduler.runDue();
+
+    expect(runScene).toHaveBeenCalledTimes(1);
+    expect(runScene).toHaveBeenCalledWith(
+      expect.objectContaining({ user: expect.objectContaining({ id: owner.id }), isDemoMode: false }),
+      'porch-scene',
+      expect.objectContaining({ scheduleId: recent, catchUp: true })
+    );
+    expect(ScheduleService.listRuns(recent)).toEqual([
+      expect.objectContaining({ status: 'success', catchUp: true, executionId: 'execution-1' }),
+    ]);
+    expect(ScheduleService.listRuns(old)).toEqual([expect.objectContaining({ status: 'missed' })]);
+
+    // Both moved on to their next run
+    expect(new Date(ScheduleService.get(recent)!.nextRunAt!).getTime()).toBeGreaterThan(Date.now());
+    expect(await scheduler.runDue()).toEqual([]);
+  });
+
+  it('should record a failed run when the scene can\'t run', async () => {
+    jest.spyOn(sceneRunner, 'runScene').mockRejectedValue(new sceneRunner.SceneAccessDeniedError('porch-scene'));
+    const scheduleId = createDueSchedule(0);
+
+    await new SchedulerService({ catchUpWindowMs: 60 * 60 * 1000 }).runDue();
+
+    expect(ScheduleService.listRuns(scheduleId)).toEqual([
+      expect.objectContaining({ status: 'failed', catchUp: false, error: 'You do not have permission to run this scene' }),
+    ]);
+  });
+});
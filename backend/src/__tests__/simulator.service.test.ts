@@ -0,0 +1,278 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import fastifyCookie from '@fastify/cookie';
+import { SimulatedHome, simulatorService } from '../services/simulator.service';
+import { SessionService } from '../services/session.service';
+import { websocketService } from '../services/websocket.service';
+import { deviceHistoryService } from '../services/device-history.service';
+import { deviceRoutes } from '../routes/device.routes';
+import { sceneRoutes } from '../routes/scene.routes';
+
+describe('SimulatedHome', () => {
+  let home: SimulatedHome;
+
+  beforeEach(() => {
+    home = new SimulatedHome();
+  });
+
+  it('should list devices with capabilities and current status', async () => {
+    const devices = await home.getDevices();
+    const dimmer = devices.find(d => d.deviceId === 'living-room-lights');
+
+    expect(devices.length).toBeGreaterThan(5);
+    expect(dimmer?.room).toBe('Living Room');
+    expect(dimmer?.components.main.capabilities.map(c => c.id)).toEqual(['switch', 'switchLevel']);
+    expect((dimmer?.components.main as any).switch.switch.value).toBe('off');
+  });
+
+  it('should clamp dimmer levels and switch the light on', async () => {
+    await home.executeCommand('living-room-lights', 'switchLevel', 'setLevel', [250]);
+
+    const status = await home.getDeviceStatus('living-room-lights');
+    expect(status.components.main.switchLevel.level.value).toBe(100);
+    expect(status.components.main.switch.switch.value).toBe('on');
+
+    await home.executeCommand('living-room-lights', 'switchLevel', 'setLevel', [0]);
+    const off = await home.getDeviceStatus('living-room-lights');
+    expect(off.components.main.switch.switch.value).toBe('off');
+  });
+
+  it('should update the thermostat operating state from its setpoints', async () => {
+    await home.executeCommand('living-room-thermostat', 'thermostatMode', 'heat');
+    await home.executeCommand('living-room-thermostat', 'thermostatHeatingSetpoint', 'setHeatingSetpoint', [85]);
+
+    const status = await home.getDeviceStatus('living-room-thermostat');
+    expect(status.components.main.thermostatMode.thermostatMode.value).toBe('heat');
+    expect(status.components.main.thermostatOperatingState.thermostatOperatingState.value).toBe('heating');
+  });
+
+  it('should lock and unlock locks', async () => {
+    await home.executeCommand('front-door-lock', 'lock', 'unlock');
+    expect((await home.getDeviceStatus('front-door-lock')).components.main.lock.lock.value).toBe('unlocked');
+
+    await home.executeCommand('front-door-lock', 'lock', 'lock');
+    expect((await home.getDeviceStatus('front-door-lock')).components.main.lock.lock.value).toBe('locked');
+  });
+
+  it('should switch power strip outlets individually and keep the main switch in sync', async () => {
+    await home.executeCommand('living-room-power-strip', 'switch', 'off', [], 'outlet1');
+    let status = await home.getDeviceStatus('living-room-power-strip');
+    expect(status.components.outlet1.switch.switch.value).toBe('off');
+    expect(status.components.outlet2.switch.switch.value).toBe('on');
+    expect(status.components.main.switch.switch.value).toBe('on');
+
+    await home.executeCommand('living-room-power-strip', 'switch', 'off', [], 'outlet2');
+    status = await home.getDeviceStatus('living-room-power-strip');
+    expect(status.components.main.switch.switch.value).toBe('off');
+
+    await home.executeCommand('living-room-power-strip', 'switch', 'on');
+    status = await home.getDeviceStatus('living-room-power-strip');
+    expect(['outlet1', 'outlet2', 'outlet3'].map(c => status.components[c].switch.switch.value)).toEqual(['on', 'on', 'on']);
+  });
+
+  it('should reject components the device does not have', async () => {
+    await expect(
+      home.executeCommand('kitchen-lights', 'switch', 'on', [], 'outlet1')
+    ).rejects.toThrow('Device has no component');
+  });
+
+  it('should reject capabilities the device does not have', async () => {
+    await expect(
+      home.executeCommand('kitchen-lights', 'switchLevel', 'setLevel', [50])
+    ).rejects.toThrow('Device does not support capability');
+  });
+
+  it('should execute scenes and record the execution time', async () => {
+    await home.executeScene('good-night');
+
+    const lock = await home.getDeviceStatus('front-door-lock');
+    expect(lock.components.main.lock.lock.value).toBe('locked');
+
+    const scenes = await home.getScenes();
+    expect(scenes.find(s => s.sceneId === 'good-night')?.lastExecutedDate).toBeDefined();
+    expect(scenes[0].actions?.[0].deviceLabel).toBeDefined();
+  });
+
+  it('should drift sensor temperatures on tick', async () => {
+    const before = (await home.getDeviceStatus('living-room-thermometer')).components.main.temperatureMeasurement.temperature.value;
+
+    for (let i = 0; i < 20; i++) {
+      home.tick();
+    }
+
+    const after = (await home.getDeviceStatus('living-room-thermometer')).components.main.temperatureMeasurement.temperature.value;
+    expect(typeof after).toBe('number');
+    expect(Math.abs((after as number) - (before as number))).toBeLessThan(10);
+  });
+});
+
+describe('SimulatorService', () => {
+  it('should keep device state separate per session', async () => {
+    const first = simulatorService.getHome('session-a');
+    const second = simulatorService.getHome('session-b');
+
+    await first.executeCommand('kitchen-lights', 'switch', 'on');
+
+    expect((await first.getDeviceStatus('kitchen-lights')).components.main.switch.switch.value).toBe('on');
+    expect((await second.getDeviceStatus('kitchen-lights')).components.main.switch.switch.value).toBe('off');
+    expect(simulatorService.getHome('session-a')).toBe(first);
+
+    simulatorService.dropHome('session-a');
+    simulatorService.dropHome('session-b');
+  });
+
+  it('should push state changes to the owning session', async () => {
+    const broadcast = jest.spyOn(websocketService, 'broadcastToSession').mockImplementation(() => {});
+    const home = simulatorService.getHome('session-ws');
+
+    await home.executeCommand('kitchen-lights', 'switch', 'on');
+
+    expect(broadcast).toHaveBeenCalledWith('session-ws', expect.objectContaining({
+      type: 'device-update',
+      deviceId: 'kitchen-lights',
+      status: { components: { main: { switch: { switch: expect.objectContaining({ value: 'on' }) } } } },
+    }));
+
+    simulatorService.dropHome('session-ws');
+    broadcast.mockRestore();
+  });
+});
+
+describe('Device routes in demo mode', () => {
+  let app: FastifyInstance;
+  let cookie: string;
+
+  beforeAll(async () => {
+    app = Fastify({ logger: false });
+    await app.register(fastifyCookie);
+    await app.register(deviceRoutes, { prefix: '/devices' });
+    await app.register(sceneRoutes, { prefix: '/scenes' });
+    await app.ready();
+
+    const session = SessionService.createSession('demo-user-id', true);
+    cookie = `sessionId=${session.id}`;
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('should serve devices from the simulated home', async () => {
+    const response = await app.inject({ method: 'GET', url: '/devices', headers: { cookie } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().devices.map((d: any) => d.deviceId)).toContain('front-door-lock');
+  });
+
+  it('should execute commands and scenes against the simulated home', async () => {
+    const command = await app.inject({
+      method: 'POST',
+      url: '/devices/kitchen-lights/command',
+      headers: { cookie },
+      payload: { capability: 'switch', command: 'on' },
+    });
+    expect(command.statusCode).toBe(200);
+
+    const status = await app.inject({ method: 'GET', url: '/devices/kitchen-lights/status', headers: { cookie } });
+    expect(status.json().status.components.main.switch.switch.value).toBe('on');
+
+    const scene = await app.inject({ method: 'POST', url: '/scenes/good-night/execute', headers: { cookie } });
+    expect(scene.statusCode).toBe(202);
+    // Scenes run in the background
+    const url = `/scenes/executions/${scene.json().execution.executionId}`;
+    while ((await app.inject({ method: 'GET', url, headers: { cookie } })).json().execution.status === 'running') {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+
+    const after = await app.inject({ method: 'GET', url: '/devices/kitchen-lights/status', headers: { cookie } });
+    expect(after.json().status.components.main.switch.switch.value).toBe('off');
+  });
+
+  it('should send commands to the requested component', async () => {
+    const command = await app.inject({
+      method: 'POST',
+      url: '/devices/living-room-power-strip/command',
+      headers: { cookie },
+      payload: { component: 'outlet3', capability: 'switch', command: 'on' },
+    });
+    expect(command.statusCode).toBe(200);
+
+    const status = await app.inject({ method: 'GET', url: '/devices/living-room-power-strip/status', headers: { cookie } });
+    expect(status.json().status.components.outlet3.switch.switch.value).toBe('on');
+
+    const missing = await app.inject({
+      method: 'POST',
+      url: '/devices/kitchen-lights/command',
+      headers: { cookie },
+      payload: { component: 'outlet3', capability: 'switch', command: 'on' },
+    });
+    expect(missing.statusCode).toBe(400);
+    expect(missing.json().code).toBe('BAD_ARGUMENTS');
+  });
+
+  it('should reject invalid arguments before they reach the device', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/devices/living-room-lights/command',
+      headers: { cookie },
+      payload: { capability: 'switchLevel', command: 'setLevel', args: [250] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toEqual({ error: 'level must be between 0 and 100', code: 'BAD_ARGUMENTS' });
+  });
+
+  it('should run batches of commands and report each entry', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/devices/commands',
+      headers: { cookie },
+      payload: {
+        commands: [
+          { deviceId: 'kitchen-lights', capability: 'switch', command: 'off' },
+          { deviceId: 'living-room-power-strip', component: 'outlet1', capability: 'switch', command: 'off' },
+          { deviceId: 'living-room-power-strip', component: 'outlet9', capability: 'switch', command: 'off' },
+          { deviceId: 'no-such-device', capability: 'switch', command: 'off' },
+        ],
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().results.map((r: any) => [r.index, r.success, r.code])).toEqual([
+      [0, true, undefined],
+      [1, true, undefined],
+      [2, false, 'BAD_ARGUMENTS'],
+      [3, false, 'NOT_FOUND'],
+    ]);
+    expect(response.json()).toMatchObject({ succeeded: 2, failed: 2 });
+
+    const status = await app.inject({ method: 'GET', url: '/devices/living-room-power-strip/status', headers: { cookie } });
+    expect(status.json().status.components.outlet1.switch.switch.value).toBe('off');
+  });
+
+  it('should record the attributes a command changed in device history', async () => {
+    const record = jest.spyOn(deviceHistoryService, 'recordStateChange').mockImplementation(() => {});
+
+    await app.inject({
+      method: 'POST',
+      url: '/devices/living-room-lights/command',
+      headers: { cookie },
+      payload: { capability: 'switchLevel', command: 'setLevel', args: [60] },
+    });
+
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({
+      deviceId: 'living-room-lights',
+      capability: 'switchLevel',
+      attribute: 'level',
+      value: '60',
+      unit: '%',
+      triggeredBy: 'demo',
+    }));
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({
+      capability: 'switch',
+      attribute: 'switch',
+      value: 'on',
+      previousValue: 'off',
+    }));
+    record.mockRestore();
+  });
+});
@@ -0,0 +1,280 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { config } from '../config/env';
+import { smartAppRoutes } from '../routes/smartapp.routes';
+import { smartAppService, SUBSCRIBED_CAPABILITIES } from '../services/smartapp.service';
+import { deviceHistoryService } from '../services/device-history.service';
+import { deviceRegistry } from '../services/device-registry.service';
+import { websocketService } from '../services/websocket.service';
+import confirmation from './fixtures/smartapp/confirmation.json';
+import ping from './fixtures/smartapp/ping.json';
+import install from './fixtures/smartapp/install.json';
+import update from './fixtures/smartapp/update.json';
+import event from './fixtures/smartapp/event.json';
+
+const KEY_ID = '/pl/useast2/1f-bc-c7-c5-2c-2a-0b-67-e1-ba-ee-30-5b-87-32-8e-56-d4-a2-77';
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+/**
+ * Sign a request the way SmartThings does (HTTP Signatures, rsa-sha256)
+ */
+function signedHeaders(body: string, path = '/smartapp', date = new Date().toUTCString()) {
+  const digest = 'SHA-256=' + crypto.createHash('sha256').update(body).digest('base64');
+  const signingString = [
+    `(request-target): post ${path}`,
+    `digest: ${digest}`,
+    `date: ${date}`,
+  ].join('\n');
+  const signature = crypto.sign('sha256', Buffer.from(signingString), privateKey).toString('base64');
+
+  return {
+    'content-type': 'application/json',
+    date,
+    digest,
+    authorization: `Signature keyId="${KEY_ID}",signature="${signature}",headers="(request-target) digest date",algorithm="rsa-sha256"`,
+  };
+}
+
+describe('SmartApp webhook', () => {
+  let app: FastifyInstance;
+  const configuredAppId = config.smartapp.appId;
+
+  beforeAll(async () => {
+    config.smartapp.appId = event.appId;
+    smartAppService.setKeyResolver(async (keyId) => {
+      if (keyId !== KEY_ID) throw new Error('Unknown key');
+      return publicKey;
+    });
+
+    app = Fastify({ logger: false });
+    await app.register(smartAppRoutes, { prefix: '/smartapp' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    config.smartapp.appId = configuredAppId;
+    await app.close();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function post(payload: unknown, headers?: Record<string, string>) {
+    const body = JSON.stringify(payload);
+    return app.inject({
+      method: 'POST',
+      url: '/smartapp',
+      headers: headers || signedHeaders(body),
+      payload: body,
+    });
+  }
+
+  it('should answer PING challenges without a signature', async () => {
+    const response = await post(ping, { 'content-type': 'application/json' });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ pingData: { challenge: ping.pingData.challenge } });
+  });
+
+  it('should confirm the webhook registration', async () => {
+    const get = jest.spyOn(axios, 'get').mockResolvedValue({ data: {} });
+
+    const response = await post(confirmation);
+
+    expect(response.statusCode).toBe(200);
+    expect(get).toHaveBeenCalledWith(confirmation.confirmationData.confirmationUrl, expect.any(Object));
+    expect(response.json().targetUrl).toMatch(/\/smartapp$/);
+  });
+
+  it('should refuse confirmation URLs outside SmartThings', async () => {
+    const get = jest.spyOn(axios, 'get').mockResolvedValue({ data: {} });
+    const payload = {
+      ...confirmation,
+      confirmationData: { ...confirmation.confirmationData, confirmationUrl: 'https://attacker.example.com/confirm' },
+    };
+
+    const response = await post(payload);
+
+    expect(response.statusCode).toBe(400);
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('should subscribe to device events on INSTALL and UPDATE', async () => {
+    const subscribe = jest.spyOn(smartAppService, 'createSubscriptions').mockResolvedValue();
+
+    const installed = await post(install);
+    const updated = await post(update);
+
+    expect(installed.json()).toEqual({ installData: {} });
+    expect(updated.json()).toEqual({ updateData: {} });
+    expect(subscribe).toHaveBeenNthCalledWith(1, install.installData.installedApp, install.installData.authToken);
+    expect(subscribe).toHaveBeenNthCalledWith(2, update.updateData.installedApp, update.updateData.authToken);
+  });
+
+  it('should replace existing subscriptions with one per capability', async () => {
+    const client = { delete: jest.fn().mockResolvedValue({}), post: jest.fn().mockResolvedValue({}) };
+    const create = jest.spyOn(axios, 'create').mockReturnValue(client as any);
+    const { installedApp, authToken } = install.installData;
+
+    await smartAppService.createSubscriptions(installedApp, authToken);
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      headers: expect.objectContaining({ Authorization: `Bearer ${authToken}` }),
+    }));
+    expect(client.delete).toHaveBeenCalledWith(`/installedapps/${installedApp.installedAppId}/subscriptions`);
+    expect(client.post).toHaveBeenCalledTimes(SUBSCRIBED_CAPABILITIES.length + 1);
+    expect(client.post).toHaveBeenCalledWith(
+      `/installedapps/${installedApp.installedAppId}/subscriptions`,
+      expect.objectContaining({
+        sourceType: 'CAPABILITY',
+        capability: expect.objectContaining({ locationId: installedApp.locationId, capability: 'switch' }),
+      })
+    );
+    expect(client.post).toHaveBeenCalledWith(
+      `/installedapps/${installedApp.installedAppId}/subscriptions`,
+      expect.objectContaining({ sourceType: 'DEVICE_HEALTH' })
+    );
+  });
+
+  it('should record device events in history and broadcast them', async () => {
+    jest.spyOn(deviceRegistry, 'getDevice').mockImplementation(async (deviceId) => ({
+      deviceId,
+      name: 'Device',
+      label: deviceId.startsWith('6f5e') ? 'Hallway Light' : 'Hallway Sensor',
+      room: 'Hallway',
+      components: {},
+    }));
+    const record = jest.spyOn(deviceHistoryService, 'recordStateChange').mockImplementation(() => {});
+    const broadcast = jest.spyOn(websocketService, 'broadcastDeviceUpdate').mockImplementation(() => {});
+
+    const response = await post(event);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ eventData: {} });
+    expect(record).toHaveBeenCalledTimes(2);
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({
+      deviceId: '6f5ea629-4c05-4a90-a244-cc129b0a80c3',
+      deviceLabel: 'Hallway Light',
+      room: 'Hallway',
+      capability: 'switch',
+      attribute: 'switch',
+      value: 'on',
+      triggeredBy: 'smartapp',
+    }));
+    expect(broadcast).toHaveBeenCalledWith(
+      '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d',
+      {
+        components: {
+          main: {
+            temperatureMeasurement: {
+              temperature: expect.objectContaining({ value: 71.6, unit: 'F' }),
+            },
+          },
+        },
+      },
+      false
+    );
+  });
+
+  it('should reject unsigned lifecycle requests', async () => {
+    const record = jest.spyOn(deviceHistoryService, 'recordStateChange').mockImplementation(() => {});
+
+    const response = await post(event, { 'content-type': 'application/json' });
+
+    expect(response.statusCode).toBe(401);
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests whose body does not match the signed digest', async () => {
+    const record = jest.spyOn(deviceHistoryService, 'recordStateChange').mockImplementation(() => {});
+    const headers = signedHeaders(JSON.stringify(event));
+    const tampered = JSON.parse(JSON.stringify(event));
+    tampered.eventData.events[0].deviceEvent.value = 'off';
+
+    const response = await post(tampered, headers);
+
+    expect(response.statusCode).toBe(401);
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('should reject requests signed by another key', async () => {
+    const other = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const body = JSON.stringify(event);
+    const headers = signedHeaders(body);
+    const signingString = `(request-target): post /smartapp\ndigest: ${headers.digest}\ndate: ${headers.date}`;
+    const forged = crypto.sign('sha256', Buffer.from(signingString), other.privateKey).toString('base64');
+    headers.authorization = headers.authorization.replace(/signature="[^"]*"/, `signature="${forged}"`);
+
+    const response = await post(event, headers);
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should reject stale signatures', async () => {
+    const body = JSON.stringify(event);
+    const date = new Date(Date.now() - 60 * 60 * 1000).toUTCString();
+
+    const response = await post(event, signedHeaders(body, '/smartapp', date));
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should reject signatures that do not cover the date', async () => {
+    const body = JSON.stringify(event);
+    const headers = signedHeaders(body);
+    const signingString = `(request-target): post /smartapp\ndigest: ${headers.digest}`;
+    const signature = crypto.sign('sha256', Buffer.from(signingString), privateKey).toString('base64');
+    headers.authorization = `Signature keyId="${KEY_ID}",signature="${signature}",headers="(request-target) digest",algorithm="rsa-sha256"`;
+
+    const response = await post(event, headers);
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json().error).toMatch(/date/);
+  });
+
+  it('should reject events from other apps, or with no app ID', async () => {
+    const record = jest.spyOn(deviceHistoryService, 'recordStateChange').mockImplementation(() => {});
+    const other = await post({ ...event, appId: 'someone-elses-app' });
+    const missing = await post({ ...event, appId: undefined });
+
+    expect(other.statusCode).toBe(403);
+    expect(missing.statusCode).toBe(403);
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('should not confirm registrations for other apps', async () => {
+    const get = jest.spyOn(axios, 'get').mockResolvedValue({ data: {} });
+    const payload = { ...confirmation, confirmationData: { ...confirmation.confirmationData, appId: 'someone-elses-app' } };
+
+    const response = await post(payload);
+
+    expect(response.statusCode).toBe(403);
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('should handle nothing until SMARTAPP_APP_ID is set', async () => {
+    config.smartapp.appId = undefined;
+    try {
+      const pinged = await post(ping, { 'content-type': 'application/json' });
+      const installed = await post(install);
+
+      expect(pinged.statusCode).toBe(503);
+      expect(installed.statusCode).toBe(503);
+    } finally {
+      config.smartapp.appId = event.appId;
+    }
+  });
+
+  it('should answer malformed JSON with 400', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/smartapp',
+      headers: { 'content-type': 'application/json' },
+      payload: '{"lifecycle":',
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,128 @@
+import { SmartThingsService } from '../services/smartthings.service';
+
+function scene(sceneId: string, lastUpdatedDate: string) {
+  return {
+    sceneId,
+    sceneName: sceneId,
+    locationId: 'location-1',
+    createdBy: 'owner',
+    createdDate: '2026-10-01T00:00:00.000Z',
+    lastUpdatedDate,
+  };
+}
+
+describe('SmartThingsService', () => {
+  describe('getScenes', () => {
+    let service: SmartThingsService;
+    let get: jest.Mock;
+    let sceneList: ReturnType<typeof scene>[];
+
+    beforeEach(() => {
+      service = new SmartThingsService();
+      sceneList = [scene('morning', '2026-10-01T00:00:00.000Z'), scene('night', '2026-10-01T00:00:00.000Z')];
+      get = jest.fn(async (url: string) => {
+        if (url === '/locations') return { data: { items: [{ locationId: 'location-1' }] } };
+        if (url === '/scenes') return { data: { items: sceneList } };
+        if (url.startsWith('/scenes/')) {
+          return { data: { actions: [{ deviceId: 'lamp-1', capability: 'switch', command: url.endsWith('night') ? 'off' : 'on' }] } };
+        }
+        throw new Error(`Unexpected request: ${url}`);
+      });
+      (service as any).client = { get };
+    });
+
+    const detailCalls = () => get.mock.calls.filter(([url]) => url.startsWith('/scenes/')).map(([url]) => url);
+
+    it('should never list devices to build scene details', async () => {
+      const scenes = await service.getScenes();
+
+      expect(scenes[1].actions).toEqual([{ deviceId: 'lamp-1', capability: 'switch', command: 'off', arguments: undefined }]);
+      expect(get.mock.calls.some(([url]) => url === '/devices')).toBe(false);
+    });
+
+    it('should only re-fetch scenes whose lastUpdatedDate changed', async () => {
+      await service.getScenes();
+      get.mockClear();
+
+      sceneList = [scene('morning', '2026-10-18T07:00:00.000Z'), scene('night', '2026-10-01T00:00:00.000Z')];
+      const scenes = await service.getScenes();
+
+      expect(detailCalls()).toEqual(['/scenes/morning']);
+      expect(scenes.map(s => s.actions?.length)).toEqual([1, 1]);
+    });
+
+    it('should fetch details again for a scene that was deleted and recreated', async () => {
+      await service.getScenes();
+      sceneList = [scene('morning', '2026-10-01T00:00:00.000Z')];
+      await service.getScenes();
+      sceneList = [scene('morning', '2026-10-01T00:00:00.000Z'), scene('night', '2026-10-01T00:00:00.000Z')];
+      get.mockClear();
+
+      await service.getScenes();
+
+      expect(detailCalls()).toEqual(['/scenes/night']);
+    });
+  });
+
+  describe('multiple locations', () => {
+    let service: SmartThingsService;
+    let get: jest.Mock;
+
+    beforeEach(() => {
+      service = new SmartThingsService();
+      get = jest.fn(async (url: string, options?: { params?: { locationId?: string } }) => {
+        if (url === '/locations') {
+          return { data: { items: [{ locationId: 'home', name: 'Home' }, { locationId: 'cabin', name: 'Cabin' }] } };
+        }
+        if (url === '/locations/home/rooms') return { data: { items: [{ roomId: 'kitchen', name: 'Kitchen' }] } };
+        if (url === '/locations/cabin/rooms') return { data: { items: [{ roomId: 'loft', name: 'Loft' }] } };
+        if (url === '/scenes') {
+          const locationId = options?.params?.locationId;
+          return { data: { items: [{ ...scene(`${locationId}-evening`, '2026-10-01T00:00:00.000Z'), locationId }] } };
+        }
+        if (url.startsWith('/scenes/')) return { data: { actions: [] } };
+        throw new Error(`Unexpected request: ${url}`);
+      });
+      (service as any).client = { get };
+    });
+
+    it('should list rooms from every location', async () => {
+      const rooms = await service.getRooms();
+
+      expect(rooms).toEqual([
+        { roomId: 'kitchen', name: 'Kitchen', locationId: 'home' },
+        { roomId: 'loft', name: 'Loft', locationId: 'cabin' },
+      ]);
+    });
+
+    it('should list scenes from every location', async () => {
+      const scenes = await service.getScenes();
+
+      expect(scenes.map(s => [s.sceneId, s.locationId])).toEqual([
+        ['home-evening', 'home'],
+        ['cabin-evening', 'cabin'],
+      ]);
+    });
+  });
+
+  describe('executeCommands', () => {
+    it('should send every command for a device in one request', async () => {
+      const service = new SmartThingsService();
+      const post = jest.fn().mockResolvedValue({ data: {} });
+      (service as any).client = { post };
+
+      await service.executeCommands('strip-1', [
+        { component: 'outlet1', capability: 'switch', command: 'off' },
+        { capability: 'switchLevel', command: 'setLevel', arguments: [40] },
+      ]);
+
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(post).toHaveBeenCalledWith('/devices/strip-1/commands', {
+        commands: [
+          { component: 'outlet1', capability: 'switch', command: 'off', arguments: [] },
+          { component: 'main', capability: 'switchLevel', command: 'setLevel', arguments: [40] },
+        ],
+      });
+    });
+  });
+});
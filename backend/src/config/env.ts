@@ -25,6 +25,43 @@ const envSchema = z.object({
   // SmartThings
   SMARTTHINGS_TOKEN: z.string().min(1, 'SmartThings token is required'),
   SMARTTHINGS_API_URL: z.string().url().default('https://api.smartthings.com/v1'),
+  SMARTTHINGS_TIMEOUT_MS: z.string().transform(Number).default('10000'),
+  SMARTTHINGS_MAX_RETRIES: z.string().transform(Number).default('3'),
+  SMARTTHINGS_CIRCUIT_THRESHOLD: z.string().transform(Number).default('5'),
+  SMARTTHINGS_CIRCUIT_RESET_SECONDS: z.string().transform(Number).default('30'),
+  SMARTAPP_APP_ID: z.string().optional(),
+  SMARTAPP_KEY_URL: z.string().url().default('https://key.smartthings.com'),
+  
+  // Device status polling (fallback when no webhook is available)
+  POLLING_ENABLED: z.string().transform(val => val === 'true').default('true'),
+  POLLING_MIN_INTERVAL_SECONDS: z.string().transform(Number).default('15'),
+  POLLING_MAX_INTERVAL_SECONDS: z.string().transform(Number).default('300'),
+  POLLING_MAX_REQUESTS_PER_MINUTE: z.string().transform(Number).default('60'),
+  
+  // Device inventory cache
+  INVENTORY_DEVICE_TTL_SECONDS: z.string().transform(Number).default('300'),
+  INVENTORY_STATUS_TTL_SECONDS: z.string().transform(Number).default('60'),
+  INVENTORY_ROOM_TTL_SECONDS: z.string().transform(Number).default('600'),
+  INVENTORY_SCENE_TTL_SECONDS: z.string().transform(Number).default('120'),
+  
+  // Device health
+  HEALTH_CHECK_INTERVAL_SECONDS: z.string().transform(Number).default('300'),
+  HEALTH_FAILURE_THRESHOLD: z.string().transform(Number).default('3'),
+  
+  // Scenes
+  SCENE_UNDO_WINDOW_SECONDS: z.string().transform(Number).default('300'),
+  
+  // Schedules (sunrise/sunset schedules need the home's coordinates)
+  LOCATION_LATITUDE: z.string().transform(Number).optional(),
+  LOCATION_LONGITUDE: z.string().transform(Number).optional(),
+  SCHEDULE_CATCH_UP_MINUTES: z.string().transform(Number).default('60'),
+  
+  // Home modes (sync with a SmartThings location's modes when set)
+  HOME_MODE_SYNC_LOCATION_ID: z.string().optional(),
+  HOME_MODE_SYNC_INTERVAL_SECONDS: z.string().transform(Number).default('60'),
+  
+  // Vacation presence simulation (learns light usage from this much history)
+  PRESENCE_SIMULATION_LEARN_DAYS: z.string().transform(Number).default('28'),
   
   // Google Home (placeholder)
   GOOGLE_CLIENT_ID: z.string().optional(),
@@ -84,6 +121,53 @@ export const config = {
   smartthings: {
     token: env.SMARTTHINGS_TOKEN,
     apiUrl: env.SMARTTHINGS_API_URL,
+    timeoutMs: env.SMARTTHINGS_TIMEOUT_MS,
+    maxRetries: env.SMARTTHINGS_MAX_RETRIES,
+    circuitThreshold: env.SMARTTHINGS_CIRCUIT_THRESHOLD,
+    circuitResetMs: env.SMARTTHINGS_CIRCUIT_RESET_SECONDS * 1000,
+  },
+  
+  smartapp: {
+    appId: env.SMARTAPP_APP_ID,
+    keyUrl: env.SMARTAPP_KEY_URL,
+  },
+  
+  polling: {
+    enabled: env.POLLING_ENABLED,
+    minIntervalMs: env.POLLING_MIN_INTERVAL_SECONDS * 1000,
+    maxIntervalMs: env.POLLING_MAX_INTERVAL_SECONDS * 1000,
+    maxRequestsPerMinute: env.POLLING_MAX_REQUESTS_PER_MINUTE,
+  },
+  
+  inventory: {
+    deviceTtlMs: env.INVENTORY_DEVICE_TTL_SECONDS * 1000,
+    statusTtlMs: env.INVENTORY_STATUS_TTL_SECONDS * 1000,
+    roomTtlMs: env.INVENTORY_ROOM_TTL_SECONDS * 1000,
+    sceneTtlMs: env.INVENTORY_SCENE_TTL_SECONDS * 1000,
+  },
+  
+  health: {
+    checkIntervalMs: env.HEALTH_CHECK_INTERVAL_SECONDS * 1000,
+    failureThreshold: env.HEALTH_FAILURE_THRESHOLD,
+  },
+  
+  scenes: {
+    undoWindowMs: env.SCENE_UNDO_WINDOW_SECONDS * 1000,
+  },
+  
+  schedules: {
+    latitude: env.LOCATION_LATITUDE,
+    longitude: env.LOCATION_LONGITUDE,
+    catchUpWindowMs: env.SCHEDULE_CATCH_UP_MINUTES * 60 * 1000,
+  },
+  
+  homeModes: {
+    syncLocationId: env.HOME_MODE_SYNC_LOCATION_ID,
+    syncIntervalMs: env.HOME_MODE_SYNC_INTERVAL_SECONDS * 1000,
+  },
+  
+  presenceSimulation: {
+    learnDays: env.PRESENCE_SIMULATION_LEARN_DAYS,
   },
   
   google: {
@@ -15,6 +15,55 @@ const db = new Database(dbPath);
 // Enable WAL mode for better concurrency
 db.pragma('journal_mode = WAL');
 
+/**
+ * Add a column to a table created by an older version of the schema
+ */
+function addColumnIfMissing(table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/** Resource types an access grant can target */
+const ACL_RESOURCE_TYPES = ['device', 'room', 'location', 'group', 'scene'];
+
+function accessControlColumns(): string {
+  const types = ACL_RESOURCE_TYPES.map(type => `'${type}'`).join(', ');
+  return `
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      resource_type TEXT NOT NULL CHECK(resource_type IN (${types})),
+      resource_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(user_id, resource_type, resource_id)
+    `;
+}
+
+/**
+ * Rebuild access_control when its resource_type CHECK predates a new type
+ * (SQLite can't alter a CHECK constraint in place)
+ */
+function migrateAccessControlTypes(): void {
+  const table = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'access_control'`)
+    .get() as { sql: string };
+  if (ACL_RESOURCE_TYPES.every(type => table.sql.includes(`'${type}'`))) {
+    return;
+  }
+
+  logger.info('Migrating access_control resource types...');
+  db.transaction(() => {
+    db.exec(`
+      ALTER TABLE access_control RENAME TO access_control_old;
+      CREATE TABLE access_control (${accessControlColumns()});
+      INSERT INTO access_control (id, user_id, resource_type, resource_id, created_at)
+        SELECT id, user_id, resource_type, resource_id, created_at FROM access_control_old;
+      DROP TABLE access_control_old;
+    `);
+  })();
+}
+
 // Initialize database schema
 function initSchema(): void {
   logger.info('Initializing database schema...');
@@ -45,16 +94,9 @@ function initSchema(): void {
 
   // Access control list
   db.exec(`
-    CREATE TABLE IF NOT EXISTS access_control (
-      id TEXT PRIMARY KEY,
-      user_id TEXT NOT NULL,
-      resource_type TEXT NOT NULL CHECK(resource_type IN ('device', 'room')),
-      resource_id TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-      UNIQUE(user_id, resource_type, resource_id)
-    )
+    CREATE TABLE IF NOT EXISTS access_control (${accessControlColumns()})
   `);
+  migrateAccessControlTypes();
 
   // Settings table
   db.exec(`
@@ -93,13 +135,225 @@ function initSchema(): void {
       device_id TEXT NOT NULL,
       device_label TEXT NOT NULL,
       room TEXT,
+      component TEXT NOT NULL DEFAULT 'main',
       capability TEXT NOT NULL,
       attribute TEXT NOT NULL,
       value TEXT NOT NULL,
       previous_value TEXT,
+      unit TEXT,
       triggered_by TEXT
     )
   `);
+  addColumnIfMissing('device_history', 'unit', 'TEXT');
+  addColumnIfMissing('device_history', 'component', "TEXT NOT NULL DEFAULT 'main'");
+
+  // Device health table (reachability per device)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS device_health (
+      device_id TEXT PRIMARY KEY,
+      state TEXT NOT NULL CHECK(state IN ('online', 'offline', 'unknown')),
+      last_seen TEXT,
+      offline_since TEXT,
+      failure_streak INTEGER NOT NULL DEFAULT 0,
+      last_error_code TEXT,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  // Device groups table (local groups controlled as one device)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS device_groups (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      room TEXT,
+      device_ids TEXT NOT NULL DEFAULT '[]',
+      tags TEXT NOT NULL DEFAULT '[]',
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      created_by TEXT
+    )
+  `);
+
+  // Scenes table (local scenes executed by the backend)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS scenes (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      icon TEXT,
+      color TEXT,
+      location_id TEXT,
+      actions TEXT NOT NULL DEFAULT '[]',
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      last_executed_at TEXT
+    )
+  `);
+
+  // Scene executions table (per-action execution reports)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS scene_executions (
+      id TEXT PRIMARY KEY,
+      scene_id TEXT NOT NULL,
+      scene_name TEXT NOT NULL,
+      source TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      username TEXT NOT NULL,
+      retry_of TEXT,
+      success INTEGER NOT NULL,
+      succeeded INTEGER NOT NULL,
+      failed INTEGER NOT NULL,
+      error TEXT,
+      code TEXT,
+      actions TEXT NOT NULL DEFAULT '[]',
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL
+    )
+  `);
+  addColumnIfMissing('scene_executions', 'prior_state', "TEXT NOT NULL DEFAULT '[]'");
+  addColumnIfMissing('scene_executions', 'revert_of', 'TEXT');
+  addColumnIfMissing('scene_executions', 'reverted_at', 'TEXT');
+  addColumnIfMissing('scene_executions', 'status', "TEXT NOT NULL DEFAULT 'completed'");
+
+  // Schedules table (scenes run or home modes set at cron, fixed or sun-relative times)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schedules (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      scene_id TEXT NOT NULL,
+      trigger TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      user_id TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      next_run_at TEXT,
+      last_run_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+  // Home mode schedules change the mode instead of running a scene (scene_id '')
+  addColumnIfMissing('schedules', 'mode', 'TEXT');
+
+  // Schedule runs table (per-schedule execution history)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schedule_runs (
+      id TEXT PRIMARY KEY,
+      schedule_id TEXT NOT NULL,
+      scheduled_for TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      status TEXT NOT NULL,
+      catch_up INTEGER NOT NULL DEFAULT 0,
+      execution_id TEXT,
+      error TEXT
+    )
+  `);
+
+  // Automations table (trigger-condition-action rules)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS automations (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      triggers TEXT NOT NULL DEFAULT '[]',
+      conditions TEXT NOT NULL DEFAULT '[]',
+      actions TEXT NOT NULL DEFAULT '[]',
+      user_id TEXT NOT NULL,
+      created_by TEXT NOT NULL,
+      webhook_token TEXT UNIQUE,
+      last_run_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  // Automation runs table (per-rule run log)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS automation_runs (
+      id TEXT PRIMARY KEY,
+      rule_id TEXT NOT NULL,
+      trigger TEXT NOT NULL,
+      status TEXT NOT NULL,
+      conditions TEXT NOT NULL DEFAULT '[]',
+      actions TEXT NOT NULL DEFAULT '[]',
+      error TEXT,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL
+    )
+  `);
+
+  // Home modes table (entry actions and policies per household mode)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS home_modes (
+      mode TEXT PRIMARY KEY,
+      entry_actions TEXT NOT NULL DEFAULT '[]',
+      allowed_device_ids TEXT,
+      updated_by TEXT,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  // Home mode changes table (the current mode is the latest change)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS home_mode_changes (
+      id TEXT PRIMARY KEY,
+      mode TEXT NOT NULL,
+      previous_mode TEXT,
+      source TEXT NOT NULL,
+      changed_by TEXT,
+      changed_at TEXT NOT NULL
+    )
+  `);
+
+  // Presence simulation log (lights switched while replaying usage in Vacation mode)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS presence_simulation_log (
+      id TEXT PRIMARY KEY,
+      device_id TEXT NOT NULL,
+      device_label TEXT NOT NULL,
+      command TEXT NOT NULL CHECK(command IN ('on', 'off')),
+      planned_for TEXT NOT NULL,
+      ran_at TEXT NOT NULL,
+      success INTEGER NOT NULL,
+      error TEXT,
+      error_code TEXT
+    )
+  `);
+
+  // Device timers table (delayed commands; removed once run or cancelled)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS device_timers (
+      id TEXT PRIMARY KEY,
+      device_id TEXT NOT NULL,
+      component TEXT NOT NULL DEFAULT 'main',
+      capability TEXT NOT NULL,
+      command TEXT NOT NULL,
+      arguments TEXT NOT NULL DEFAULT '[]',
+      run_at TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
+  // Timers are kept while their command runs, and kept with the error if it fails
+  addColumnIfMissing('device_timers', 'status', "TEXT NOT NULL DEFAULT 'pending'");
+  addColumnIfMissing('device_timers', 'error', 'TEXT');
+  addColumnIfMissing('device_timers', 'error_code', 'TEXT');
+
+  // Device metadata table (local display overrides per device)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS device_metadata (
+      device_id TEXT PRIMARY KEY,
+      display_name TEXT,
+      icon TEXT,
+      color TEXT,
+      tags TEXT NOT NULL DEFAULT '[]',
+      hidden INTEGER NOT NULL DEFAULT 0,
+      sort_order INTEGER,
+      updated_at TEXT NOT NULL,
+      updated_by TEXT
+    )
+  `);
 
   // Create indexes
   db.exec(`
@@ -113,6 +367,15 @@ function initSchema(): void {
     CREATE INDEX IF NOT EXISTS idx_device_history_timestamp ON device_history(timestamp);
     CREATE INDEX IF NOT EXISTS idx_device_history_device_id ON device_history(device_id);
     CREATE INDEX IF NOT EXISTS idx_device_history_capability ON device_history(capability);
+    CREATE INDEX IF NOT EXISTS idx_scene_executions_scene ON scene_executions(scene_id, started_at);
+    CREATE INDEX IF NOT EXISTS idx_schedules_next_run ON schedules(enabled, next_run_at);
+    CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, scheduled_for);
+    CREATE INDEX IF NOT EXISTS idx_automation_runs_rule ON automation_runs(rule_id, started_at);
+    CREATE INDEX IF NOT EXISTS idx_home_mode_changes_changed ON home_mode_changes(changed_at);
+    CREATE INDEX IF NOT EXISTS idx_presence_simulation_log_ran ON presence_simulation_log(ran_at);
+    CREATE INDEX IF NOT EXISTS idx_device_timers_run_at ON device_timers(run_at);
+    CREATE INDEX IF NOT EXISTS idx_device_timers_device ON device_timers(device_id);
+    CREATE INDEX IF NOT EXISTS idx_device_health_state ON device_health(state);
   `);
 
   // Insert default settings
@@ -1,35 +1,90 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { ACLService } from '../services/acl.service';
+import { DeviceActor, getDeviceSource } from '../services/device-source';
+import { HomeModeService } from '../services/home-mode.service';
+import { SceneService } from '../services/scene.service';
 
 /**
- * Device ACL middleware
- * Checks if user has permission to access a specific device
+ * Whether the request's user may access a device, through an explicit
+ * device grant or a grant on its room or location
  */
-export async function deviceACLMiddleware(request: FastifyRequest<{
-  Params: { deviceId: string };
-}>, reply: FastifyReply) {
-  const { deviceId } = request.params;
+export async function canAccessDevice(request: DeviceActor, deviceId: string): Promise<boolean> {
   const user = request.user!;
   
   // Demo mode users have access to all demo devices
   if (request.isDemoMode) {
-    return;
+    return true;
   }
   
   // Admins have access to all devices
   if (user.role === 'admin') {
-    return;
+    return true;
   }
   
   // Check if user has explicit device access
-  const hasDeviceAccess = ACLService.hasAccess(user.id, 'device', deviceId);
+  if (ACLService.hasAccess(user.id, 'device', deviceId)) {
+    return true;
+  }
   
-  if (hasDeviceAccess) {
-    return;
+  // Check room- and location-based access
+  const accessibleRoomIds = ACLService.getAccessibleRoomIds(user.id);
+  const accessibleLocationIds = ACLService.getAccessibleLocationIds(user.id);
+  
+  if (accessibleRoomIds.length > 0 || accessibleLocationIds.length > 0) {
+    try {
+      const device = await getDeviceSource(request).getDevice(deviceId);
+      return Boolean(
+        (device.roomId && accessibleRoomIds.includes(device.roomId)) ||
+        (device.locationId && accessibleLocationIds.includes(device.locationId))
+      );
+    } catch (error) {
+      // Unknown device: deny below
+    }
   }
   
-  // TODO: Check room-based access when we have device-to-room mapping
-  // For now, deny access if no explicit device permission
+  return false;
+}
+
+/**
+ * Why the current home mode stops the user controlling a device, or
+ * undefined if it doesn't: a mode can limit users (not admins) to a few
+ * devices, e.g. only the porch light while Away. Demo homes have no modes.
+ */
+export function getModeRestriction(request: DeviceActor, deviceId: string): string | undefined {
+  if (request.isDemoMode || request.user!.role === 'admin') {
+    return undefined;
+  }
+  
+  const { mode } = HomeModeService.getCurrent();
+  const { allowedDeviceIds } = HomeModeService.getSettings(mode);
+  if (!allowedDeviceIds || allowedDeviceIds.includes(deviceId)) {
+    return undefined;
+  }
+  return `Only some devices can be controlled in ${mode} mode`;
+}
+
+/**
+ * Whether the user may change the home mode: anyone can, except that only
+ * admins can leave a mode that restricts users (or Away would mean nothing)
+ */
+export function canChangeHomeMode(request: DeviceActor): boolean {
+  if (request.isDemoMode) return false;
+  if (request.user!.role === 'admin') return true;
+  
+  const { mode } = HomeModeService.getCurrent();
+  return !HomeModeService.getSettings(mode).allowedDeviceIds;
+}
+
+/**
+ * Device ACL middleware
+ * Checks if user has permission to access a specific device
+ */
+export async function deviceACLMiddleware(request: FastifyRequest<{
+  Params: { deviceId: string };
+}>, reply: FastifyReply) {
+  if (await canAccessDevice(request, request.params.deviceId)) {
+    return;
+  }
   
   return reply.code(403).send({ 
     error: 'Access denied',
@@ -50,6 +105,7 @@ export function filterDevicesByACL(devices: any[], userId: string, userRole: str
   // Get user's accessible device IDs
   const accessibleDeviceIds = ACLService.getAccessibleDeviceIds(userId);
   const accessibleRoomIds = ACLService.getAccessibleRoomIds(userId);
+  const accessibleLocationIds = ACLService.getAccessibleLocationIds(userId);
   
   // Filter devices
   return devices.filter(device => {
@@ -63,6 +119,133 @@ export function filterDevicesByACL(devices: any[], userId: string, userRole: str
       return true;
     }
     
+    // Check location-based access
+    if (device.locationId && accessibleLocationIds.includes(device.locationId)) {
+      return true;
+    }
+    
     return false;
   });
 }
+
+/**
+ * Filter locations based on user ACL
+ * Returns locations the user has a grant for or an accessible device in
+ */
+export function filterLocationsByACL<T extends { locationId: string }>(
+  locations: T[],
+  accessibleDevices: { locationId?: string }[],
+  userId: string,
+  userRole: string
+): T[] {
+  // Demo mode or admins see all locations
+  if (userRole === 'admin' || userId === 'demo-user-id') {
+    return locations;
+  }
+  
+  const visible = new Set(ACLService.getAccessibleLocationIds(userId));
+  accessibleDevices.forEach(device => {
+    if (device.locationId) visible.add(device.locationId);
+  });
+  
+  return locations.filter(location => visible.has(location.locationId));
+}
+
+/**
+ * Filter device groups based on user ACL
+ * Returns groups the user has a grant for or can access every member of;
+ * members are still checked one by one when a group is commanded
+ */
+export function filterGroupsByACL<T extends { group: { groupId: string; memberIds: string[] } }>(
+  groups: T[],
+  accessibleDevices: { deviceId: string }[],
+  userId: string,
+  userRole: string
+): T[] {
+  // Demo mode or admins see all groups
+  if (userRole === 'admin' || userId === 'demo-user-id') {
+    return groups;
+  }
+  
+  const grantedGroupIds = ACLService.getAccessibleGroupIds(userId);
+  const accessibleDeviceIds = new Set(accessibleDevices.map(device => device.deviceId));
+  
+  return groups.filter(({ group }) =>
+    grantedGroupIds.includes(group.groupId) ||
+    (group.memberIds.length > 0 && group.memberIds.every(deviceId => accessibleDeviceIds.has(deviceId)))
+  );
+}
+
+/**
+ * Filter scenes based on user ACL
+ * Returns scenes the user has a grant for or can access every device of;
+ * scenes without known actions need a grant
+ */
+export function filterScenesByACL<T extends { sceneId: string; actions?: { deviceId: string }[] }>(
+  scenes: T[],
+  accessibleDevices: { deviceId: string }[],
+  userId: string,
+  userRole: string
+): T[] {
+  // Demo mode or admins see all scenes
+  if (userRole === 'admin' || userId === 'demo-user-id') {
+    return scenes;
+  }
+  
+  const grantedSceneIds = ACLService.getAccessibleSceneIds(userId);
+  const accessibleDeviceIds = new Set(accessibleDevices.map(device => device.deviceId));
+  
+  return scenes.filter(scene =>
+    grantedSceneIds.includes(scene.sceneId) ||
+    (!!scene.actions?.length && scene.actions.every(action => accessibleDeviceIds.has(action.deviceId)))
+  );
+}
+
+/**
+ * Whether the request's user may run a scene: a scene grant, or access to
+ * every device in its actions
+ */
+export async function canAccessScene(
+  request: DeviceActor,
+  scene: { sceneId: string; actions?: { deviceId: string }[] }
+): Promise<boolean> {
+  const user = request.user!;
+  
+  if (request.isDemoMode || user.role === 'admin') {
+    return true;
+  }
+  
+  if (ACLService.hasAccess(user.id, 'scene', scene.sceneId)) {
+    return true;
+  }
+  
+  if (!scene.actions?.length) {
+    return false;
+  }
+  for (const action of scene.actions) {
+    if (!(await canAccessDevice(request, action.deviceId))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Why a scene can't be run by the user in the background (schedules,
+ * automations), or undefined if it can: the scene must exist and the user
+ * must be allowed to run it
+ */
+export async function checkRunnableScene(
+  request: DeviceActor,
+  sceneId: string
+): Promise<{ status: number; error: string } | undefined> {
+  const localScene = SceneService.get(sceneId);
+  const scene = localScene || (await getDeviceSource(request).getScenes()).find(s => s.sceneId === sceneId);
+  if (!scene) {
+    return { status: 404, error: 'Scene not found' };
+  }
+  if (!(await canAccessScene(request, scene))) {
+    return { status: 403, error: 'You do not have permission to run this scene' };
+  }
+  return undefined;
+}
@@ -3,6 +3,9 @@ import { UserService } from '../services/user.service';
 import { ACLService } from '../services/acl.service';
 import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
 import { logAudit } from '../utils/logger';
+import { deviceHealthService } from '../services/device-health.service';
+import { deviceInventory } from '../services/device-inventory.service';
+import { DEVICE_ICONS, DeviceMetadataService } from '../services/device-metadata.service';
 import { z } from 'zod';
 import { getDemoUsers, getDemoAuditLogs } from '../data/demoAdminData';
 
@@ -16,9 +19,25 @@ const updateUserRoleSchema = z.object({
   role: z.enum(['admin', 'user']),
 });
 
+const offlineReportSchema = z.object({
+  hours: z.coerce.number().min(0).max(24 * 365).default(24),
+});
+
+const deviceMetadataSchema = z.object({
+  displayName: z.string().max(100).optional(),
+  icon: z.enum(DEVICE_ICONS).optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be #rrggbb').optional(),
+  tags: z.array(z.string().min(1).max(32)).max(20).default([]),
+  hidden: z.boolean().default(false),
+  sortOrder: z.number().int().min(0).max(100000).optional(),
+});
+
 const updateUserAccessSchema = z.object({
   devices: z.array(z.string()).default([]),
   rooms: z.array(z.string()).default([]),
+  locations: z.array(z.string()).default([]),
+  groups: z.array(z.string()).default([]),
+  scenes: z.array(z.string()).default([]),
 });
 
 export async function adminRoutes(fastify: FastifyInstance) {
@@ -52,6 +71,9 @@ export async function adminRoutes(fastify: FastifyInstance) {
         accessControl: {
           devices: access.filter(a => a.resourceType === 'device').map(a => a.resourceId),
           rooms: access.filter(a => a.resourceType === 'room').map(a => a.resourceId),
+          locations: access.filter(a => a.resourceType === 'location').map(a => a.resourceId),
+          groups: access.filter(a => a.resourceType === 'group').map(a => a.resourceId),
+          scenes: access.filter(a => a.resourceType === 'scene').map(a => a.resourceId),
         },
       };
     });
@@ -211,7 +233,7 @@ export async function adminRoutes(fastify: FastifyInstance) {
     
     try {
       const { userId } = request.params as { userId: string };
-      const { devices, rooms } = updateUserAccessSchema.parse(request.body);
+      const { devices, rooms, locations, groups, scenes } = updateUserAccessSchema.parse(request.body);
       
       const user = UserService.getUserById(userId);
       if (!user) {
@@ -223,7 +245,7 @@ export async function adminRoutes(fastify: FastifyInstance) {
         return reply.code(400).send({ error: 'Cannot set access control for admin users' });
       }
       
-      ACLService.setUserAccess(userId, devices, rooms);
+      ACLService.setUserAccess(userId, devices, rooms, locations, groups, scenes);
       
       logAudit({
         action: 'admin.user.access_updated',
@@ -234,6 +256,9 @@ export async function adminRoutes(fastify: FastifyInstance) {
           targetUser: user.username, 
           devicesCount: devices.length,
           roomsCount: rooms.length,
+          locationsCount: locations.length,
+          groupsCount: groups.length,
+          scenesCount: scenes.length,
         },
       });
       
@@ -297,4 +322,128 @@ export async function adminRoutes(fastify: FastifyInstance) {
       offset,
     };
   });
+
+  /**
+   * Get devices that have been offline for more than `hours` (default 24)
+   * Demo mode: simulated devices never go offline
+   * Real mode: requires admin role
+   */
+  fastify.get('/devices/offline', async (request, reply) => {
+    try {
+      const { hours } = offlineReportSchema.parse(request.query);
+      
+      if (request.isDemoMode) {
+        return { hours, devices: [] };
+      }
+      
+      if (!request.user || request.user.role !== 'admin') {
+        return reply.code(403).send({ error: 'Admin access required' });
+      }
+      
+      const report = deviceHealthService.getOfflineReport(hours);
+      const devices = report.length > 0 ? await deviceInventory.getDevices().catch(() => []) : [];
+      const byId = new Map(devices.map(device => [device.deviceId, device]));
+      
+      return {
+        hours,
+        devices: report.map(health => ({
+          ...health,
+          label: byId.get(health.deviceId)?.label || byId.get(health.deviceId)?.name || health.deviceId,
+          room: byId.get(health.deviceId)?.room,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Get local metadata for every device that has any
+   * Demo mode: none (the metadata is the real home's)
+   * Real mode: requires admin role
+   */
+  fastify.get('/devices/metadata', async (request, reply) => {
+    if (request.isDemoMode) {
+      return { metadata: [], icons: DEVICE_ICONS };
+    }
+    
+    if (!request.user || request.user.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+    
+    return { metadata: DeviceMetadataService.getAll(), icons: DEVICE_ICONS };
+  });
+
+  /**
+   * Set a device's display name, icon, color, tags, hidden flag and sort order
+   * Demo mode: blocked (read-only)
+   * Real mode: requires admin role
+   */
+  fastify.put('/devices/:deviceId/metadata', async (request, reply) => {
+    // Demo mode is read-only
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot update device metadata.' });
+    }
+    
+    if (!request.user || request.user.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+    
+    try {
+      const { deviceId } = request.params as { deviceId: string };
+      const input = deviceMetadataSchema.parse(request.body);
+      
+      const metadata = DeviceMetadataService.set(deviceId, input, request.user.username);
+      
+      logAudit({
+        action: 'admin.device.metadata_updated',
+        user: request.user.username,
+        deviceId,
+        success: true,
+        ip: request.ip,
+        details: { displayName: metadata.displayName, hidden: metadata.hidden, tags: metadata.tags },
+      });
+      
+      return { metadata };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Clear a device's metadata
+   * Demo mode: blocked (read-only)
+   * Real mode: requires admin role
+   */
+  fastify.delete('/devices/:deviceId/metadata', async (request, reply) => {
+    // Demo mode is read-only
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot update device metadata.' });
+    }
+    
+    if (!request.user || request.user.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+    
+    const { deviceId } = request.params as { deviceId: string };
+    if (!DeviceMetadataService.remove(deviceId)) {
+      return reply.code(404).send({ error: 'Device has no metadata' });
+    }
+    
+    logAudit({
+      action: 'admin.device.metadata_cleared',
+      user: request.user.username,
+      deviceId,
+      success: true,
+      ip: request.ip,
+    });
+    
+    return { success: true };
+  });
 }
@@ -37,9 +37,10 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
   fastify.get('/device-history/:deviceId', async (request, reply) => {
     try {
       const { deviceId } = request.params as { deviceId: string };
-      const { startDate, endDate, capability, limit } = request.query as {
+      const { startDate, endDate, component, capability, limit } = request.query as {
         startDate?: string;
         endDate?: string;
+        component?: string;
         capability?: string;
         limit?: string;
       };
@@ -48,6 +49,7 @@ export async function analyticsRoutes(fastify: FastifyInstance) {
         deviceId,
         startDate,
         endDate,
+        component,
         capability,
         limit: limit ? parseInt(limit) : 100,
       });
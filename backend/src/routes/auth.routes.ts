@@ -1,6 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { UserService } from '../services/user.service';
 import { SessionService } from '../services/session.service';
+import { simulatorService } from '../services/simulator.service';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { logAudit } from '../utils/logger';
 import { authAttempts, activeSessions, connectedDevices } from '../services/metrics.service';
@@ -38,7 +39,7 @@ export async function authRoutes(fastify: FastifyInstance) {
         
         authAttempts.inc({ success: 'true', mode: 'demo' });
         activeSessions.inc({ mode: 'demo' });
-        connectedDevices.set({ mode: 'demo' }, 8); // 8 demo devices
+        connectedDevices.set({ mode: 'demo' }, 10); // 10 simulated devices
         
         logAudit({
           action: 'auth.login.success',
@@ -122,6 +123,7 @@ export async function authRoutes(fastify: FastifyInstance) {
     const mode = request.isDemoMode ? 'demo' : 'production';
     
     SessionService.deleteSession(sessionId);
+    simulatorService.dropHome(sessionId);
     activeSessions.dec({ mode });
     
     logAudit({
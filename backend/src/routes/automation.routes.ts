@@ -0,0 +1,383 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { AutomationRule, AutomationRuleInput, AutomationService } from '../services/automation.service';
+import { automationEngine, MAX_DELAY_SECONDS } from '../services/automation-engine.service';
+import { simulateAutomation } from '../services/automation-simulator';
+import { HOME_MODES } from '../services/home-mode.service';
+import { hasCoordinates, scheduleTriggerSchema, SUN_NOT_CONFIGURED } from '../services/schedule.service';
+import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
+import { canAccessDevice, checkRunnableScene } from '../middleware/acl.middleware';
+import { logAudit } from '../utils/logger';
+import { sendDeviceError } from '../utils/device-errors';
+import { z } from 'zod';
+
+const operatorSchema = z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte']);
+const valueSchema = z.union([z.string(), z.number(), z.boolean()]);
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM');
+
+const attributeRefSchema = {
+  deviceId: z.string().min(1),
+  component: z.string().min(1).optional(),
+  capability: z.string().min(1),
+  attribute: z.string().min(1),
+};
+
+const triggerSchema = z.union([
+  z.object({
+    type: z.literal('attribute'),
+    ...attributeRefSchema,
+    operator: operatorSchema.optional(),
+    value: valueSchema.optional(),
+  }).refine(trigger => !trigger.operator || trigger.value !== undefined, {
+    message: 'A comparison needs a value',
+  }),
+  scheduleTriggerSchema,
+  z.object({ type: z.literal('mode'), mode: z.enum(HOME_MODES).optional() }),
+  z.object({ type: z.literal('webhook') }),
+]);
+
+const conditionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('attribute'), ...attributeRefSchema, operator: operatorSchema, value: valueSchema }),
+  z.object({
+    type: z.literal('timeWindow'),
+    after: timeSchema,
+    before: timeSchema,
+    days: z.array(z.number().int().min(0).max(6)).min(1).max(7).optional(),
+  }),
+  z.object({ type: z.literal('presence'), deviceId: z.string().min(1), present: z.boolean() }),
+]);
+
+const actionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('command'),
+    deviceId: z.string().min(1),
+    component: z.string().min(1).optional(),
+    capability: z.string().min(1),
+    command: z.string().min(1),
+    arguments: z.array(z.unknown()).optional(),
+  }),
+  z.object({ type: z.literal('scene'), sceneId: z.string().min(1) }),
+  z.object({ type: z.literal('notify'), message: z.string().trim().min(1).max(500), everyone: z.boolean().optional() }),
+  z.object({ type: z.literal('delay'), seconds: z.number().int().min(1).max(MAX_DELAY_SECONDS) }),
+  z.object({ type: z.literal('mode'), mode: z.enum(HOME_MODES) }),
+]);
+
+const automationSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  enabled: z.boolean().optional().default(true),
+  triggers: z.array(triggerSchema).min(1).max(10),
+  conditions: z.array(conditionSchema).max(10).optional().default([]),
+  actions: z.array(actionSchema).min(1).max(20),
+});
+
+const enabledSchema = z.object({ enabled: z.boolean() });
+
+/** Longest stretch of history one simulation replays */
+const MAX_SIMULATION_DAYS = 31;
+
+const simulateQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+});
+
+/**
+ * Users see and change their own rules; admins all of them
+ */
+function canManageAutomation(request: FastifyRequest, rule: AutomationRule): boolean {
+  return request.user!.role === 'admin' || rule.userId === request.user!.id;
+}
+
+/**
+ * Why a rule can't be saved for the user, or undefined if it can: every
+ * device it watches or controls must be accessible to the user, and every
+ * scene runnable by them
+ */
+async function checkAutomation(
+  request: FastifyRequest,
+  input: AutomationRuleInput
+): Promise<{ status: number; error: string } | undefined> {
+  if (input.triggers.some(trigger => trigger.type === 'sun') && !hasCoordinates()) {
+    return { status: 400, error: SUN_NOT_CONFIGURED };
+  }
+
+  const deviceIds = new Set<string>();
+  input.triggers.forEach(trigger => trigger.type === 'attribute' && deviceIds.add(trigger.deviceId));
+  input.conditions.forEach(condition => 'deviceId' in condition && deviceIds.add(condition.deviceId));
+  input.actions.forEach(action => action.type === 'command' && deviceIds.add(action.deviceId));
+  for (const deviceId of deviceIds) {
+    if (!(await canAccessDevice(request, deviceId))) {
+      return { status: 403, error: `You do not have permission to access device ${deviceId}` };
+    }
+  }
+
+  // Messaging every user is for admins; anyone else can only notify themselves
+  if (request.user!.role !== 'admin' && input.actions.some(action => action.type === 'notify' && action.everyone)) {
+    return { status: 403, error: 'Only admins can notify everyone' };
+  }
+
+  for (const action of input.actions) {
+    if (action.type === 'scene') {
+      const problem = await checkRunnableScene(request, action.sceneId);
+      if (problem) return problem;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Calls a rule's webhook trigger
+ * Called by other systems, not by users, so no session auth; the token in
+ * the URL is the secret. Answers 202 with the runId straight away; the run
+ * is in the rule's run log once it's finished.
+ */
+export async function automationWebhookRoutes(fastify: FastifyInstance) {
+  fastify.post('/:token', async (request, reply) => {
+    const { token } = request.params as { token: string };
+    const rule = AutomationService.getByWebhookToken(token);
+    if (!rule) {
+      return reply.code(404).send({ error: 'Webhook not found' });
+    }
+
+    const started = automationEngine.startWebhook(rule, { ip: request.ip });
+    if (!started) {
+      return reply.code(409).send({ error: 'Automation is disabled' });
+    }
+
+    started.finished
+      .then(run => logAudit({
+        action: 'automation.webhook',
+        user: rule.createdBy,
+        success: run.status !== 'failed',
+        ip: request.ip,
+        details: { ruleId: rule.ruleId, runId: run.runId, status: run.status },
+      }))
+      .catch(error => fastify.log.error(error));
+
+    return reply.code(202).send({ runId: started.runId });
+  });
+}
+
+export async function automationRoutes(fastify: FastifyInstance) {
+  // Apply authentication and first login check to all automation routes
+  fastify.addHook('preHandler', authMiddleware);
+  fastify.addHook('preHandler', firstLoginMiddleware);
+
+  /**
+   * Get automation rules (the user's own unless admin)
+   */
+  fastify.get('/', async (request) => {
+    const automations = AutomationService.getAll(request.user!.role === 'admin' ? undefined : request.user!.id);
+    return { automations };
+  });
+
+  /**
+   * Get one rule
+   */
+  fastify.get('/:ruleId', async (request, reply) => {
+    const { ruleId } = request.params as { ruleId: string };
+    const automation = AutomationService.get(ruleId);
+    if (!automation || !canManageAutomation(request, automation)) {
+      return reply.code(404).send({ error: 'Automation not found' });
+    }
+
+    return { automation };
+  });
+
+  /**
+   * Create a rule; its actions will run as the current user
+   * Demo mode: blocked (read-only)
+   */
+  fastify.post('/', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot create automations.' });
+    }
+
+    try {
+      const input = automationSchema.parse(request.body);
+      const problem = await checkAutomation(request, input);
+      if (problem) {
+        return reply.code(problem.status).send({ error: problem.error });
+      }
+
+      const automation = AutomationService.create(input, request.user!);
+      automationEngine.refresh();
+
+      logAudit({
+        action: 'automation.created',
+        user: request.user!.username,
+        success: true,
+        ip: request.ip,
+        details: { ruleId: automation.ruleId, name: automation.name },
+      });
+
+      return reply.code(201).send({ automation });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to create automation');
+    }
+  });
+
+  /**
+   * Replace a rule's name, triggers, conditions, actions and enabled state
+   * Demo mode: blocked (read-only)
+   */
+  fastify.put('/:ruleId', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot update automations.' });
+    }
+
+    try {
+      const { ruleId } = request.params as { ruleId: string };
+      const existing = AutomationService.get(ruleId);
+      if (!existing || !canManageAutomation(request, existing)) {
+        return reply.code(404).send({ error: 'Automation not found' });
+      }
+
+      const input = automationSchema.parse(request.body);
+      const problem = await checkAutomation(request, input);
+      if (problem) {
+        return reply.code(problem.status).send({ error: problem.error });
+      }
+
+      const automation = AutomationService.update(ruleId, input)!;
+      automationEngine.refresh();
+
+      logAudit({
+        action: 'automation.updated',
+        user: request.user!.username,
+        success: true,
+        ip: request.ip,
+        details: { ruleId, name: automation.name, enabled: automation.enabled },
+      });
+
+      return { automation };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to update automation');
+    }
+  });
+
+  /**
+   * Enable or disable a rule
+   * Demo mode: blocked (read-only)
+   */
+  fastify.put('/:ruleId/enabled', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot update automations.' });
+    }
+
+    try {
+      const { ruleId } = request.params as { ruleId: string };
+      const existing = AutomationService.get(ruleId);
+      if (!existing || !canManageAutomation(request, existing)) {
+        return reply.code(404).send({ error: 'Automation not found' });
+      }
+
+      const { enabled } = enabledSchema.parse(request.body);
+      const automation = AutomationService.setEnabled(ruleId, enabled)!;
+      automationEngine.refresh();
+
+      logAudit({
+        action: enabled ? 'automation.enabled' : 'automation.disabled',
+        user: request.user!.username,
+        success: true,
+        ip: request.ip,
+        details: { ruleId, name: automation.name },
+      });
+
+      return { automation };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Failed to update automation' });
+    }
+  });
+
+  /**
+   * Delete a rule and its run log
+   * Demo mode: blocked (read-only)
+   */
+  fastify.delete('/:ruleId', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot delete automations.' });
+    }
+
+    const { ruleId } = request.params as { ruleId: string };
+    const automation = AutomationService.get(ruleId);
+    if (!automation || !canManageAutomation(request, automation)) {
+      return reply.code(404).send({ error: 'Automation not found' });
+    }
+
+    AutomationService.remove(ruleId);
+    automationEngine.refresh();
+
+    logAudit({
+      action: 'automation.deleted',
+      user: request.user!.username,
+      success: true,
+      ip: request.ip,
+      details: { ruleId, name: automation.name },
+    });
+
+    return { success: true };
+  });
+
+  /**
+   * Dry-run a rule against recorded device history (default: the last 7 days)
+   * Reports every time it would have fired and what it would have done;
+   * nothing is commanded
+   */
+  fastify.post('/:ruleId/simulate', async (request, reply) => {
+    try {
+      const { ruleId } = request.params as { ruleId: string };
+      const automation = AutomationService.get(ruleId);
+      if (!automation || !canManageAutomation(request, automation)) {
+        return reply.code(404).send({ error: 'Automation not found' });
+      }
+
+      const query = simulateQuerySchema.parse(request.query);
+      const to = query.to ? new Date(query.to) : new Date();
+      const from = query.from ? new Date(query.from) : new Date(to.getTime() - 7 * 24 * 60 * 60 * 1000);
+      if (from >= to) {
+        return reply.code(400).send({ error: '`from` must be before `to`' });
+      }
+      if (to.getTime() - from.getTime() > MAX_SIMULATION_DAYS * 24 * 60 * 60 * 1000) {
+        return reply.code(400).send({ error: `Simulations can cover at most ${MAX_SIMULATION_DAYS} days` });
+      }
+
+      return { simulation: await simulateAutomation(automation, from, to) };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Failed to simulate automation' });
+    }
+  });
+
+  /**
+   * Recent runs of a rule, newest first
+   */
+  fastify.get('/:ruleId/runs', async (request, reply) => {
+    const { ruleId } = request.params as { ruleId: string };
+    const { limit } = request.query as { limit?: string };
+    const automation = AutomationService.get(ruleId);
+    if (!automation || !canManageAutomation(request, automation)) {
+      return reply.code(404).send({ error: 'Automation not found' });
+    }
+
+    return { runs: AutomationService.listRuns(ruleId, Math.min(parseInt(limit || '20', 10) || 20, 100)) };
+  });
+}
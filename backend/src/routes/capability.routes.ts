@@ -0,0 +1,33 @@
+import { FastifyInstance } from 'fastify';
+import { capabilityRegistry } from '../services/capability-registry.service';
+import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
+
+export async function capabilityRoutes(fastify: FastifyInstance) {
+  // Apply authentication and first login check to all capability routes
+  fastify.addHook('preHandler', authMiddleware);
+  fastify.addHook('preHandler', firstLoginMiddleware);
+
+  /**
+   * List the capabilities with known definitions
+   */
+  fastify.get('/', async () => {
+    return {
+      capabilities: capabilityRegistry.list().map(({ id, name, version }) => ({ id, name, version })),
+    };
+  });
+
+  /**
+   * Get a capability definition: commands with argument types and ranges,
+   * attributes with units
+   */
+  fastify.get('/:capabilityId', async (request, reply) => {
+    const { capabilityId } = request.params as { capabilityId: string };
+    const capability = capabilityRegistry.get(capabilityId);
+    
+    if (!capability) {
+      return reply.code(404).send({ error: 'Capability not found' });
+    }
+    
+    return { capability };
+  });
+}
@@ -1,42 +1,121 @@
 import { FastifyInstance } from 'fastify';
-import { smartThingsService } from '../services/smartthings.service';
-import { deviceHistoryService } from '../services/device-history.service';
-import { websocketService } from '../services/websocket.service';
+import { getDeviceSource } from '../services/device-source';
+import { CommandOutcome, deviceCommandService } from '../services/device-command.service';
+import { deviceHealthService } from '../services/device-health.service';
+import { DeviceMetadataService } from '../services/device-metadata.service';
+import { DeviceGroupService } from '../services/device-group.service';
+import { DeviceCommand, DeviceProviderError } from '../services/device-provider';
+import { capabilityRegistry } from '../services/capability-registry.service';
+import { DeviceTimer, DeviceTimerService, MAX_TIMER_SECONDS, MAX_TIMERS_PER_DEVICE } from '../services/device-timer.service';
+import { deviceTimerRunner } from '../services/device-timer-runner.service';
 import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
-import { deviceACLMiddleware, filterDevicesByACL } from '../middleware/acl.middleware';
-import { logAudit, logTelemetry } from '../utils/logger';
-import { deviceCommands, deviceCommandDuration, smartthingsApiCalls, smartthingsApiDuration } from '../services/metrics.service';
+import {
+  canAccessDevice,
+  deviceACLMiddleware,
+  filterDevicesByACL,
+  filterGroupsByACL,
+  getModeRestriction,
+} from '../middleware/acl.middleware';
+import { sendDeviceError } from '../utils/device-errors';
+import { recordCommand, simulateApiCall } from '../utils/device-commands';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { logAudit } from '../utils/logger';
 import { z } from 'zod';
 
 const executeCommandSchema = z.object({
+  component: z.string().optional().default('main'),
   capability: z.string(),
   command: z.string(),
   args: z.array(z.unknown()).optional().default([]),
 });
 
+const listDevicesSchema = z.object({
+  locationId: z.string().optional(),
+  tag: z.string().optional(),
+  includeHidden: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+});
+
+const batchCommandSchema = z.object({
+  commands: z.array(executeCommandSchema.extend({ deviceId: z.string() })).min(1).max(100),
+});
+
+const createTimerSchema = executeCommandSchema.extend({
+  delaySeconds: z.number().int().min(1).max(MAX_TIMER_SECONDS),
+});
+
+const extendTimerSchema = z.object({
+  extendSeconds: z.number().int().min(1).max(MAX_TIMER_SECONDS),
+});
+
+/** Devices commanded at once by a batch */
+const BATCH_DEVICE_CONCURRENCY = 4;
+
+interface BatchCommandResult {
+  index: number;
+  deviceId: string;
+  component: string;
+  capability: string;
+  command: string;
+  success: boolean;
+  error?: string;
+  code?: string;
+}
+
 export async function deviceRoutes(fastify: FastifyInstance) {
   // Apply authentication and first login check to all device routes
   fastify.addHook('preHandler', authMiddleware);
   fastify.addHook('preHandler', firstLoginMiddleware);
 
   /**
-   * Get all devices (filtered by ACL for non-admin users)
+   * Get all devices (filtered by ACL for non-admin users, optionally by location
+   * or tag), with local metadata and whether each is reachable. Hidden devices
+   * are left out unless includeHidden=true. Device groups follow as synthetic
+   * devices (except when filtering by tag).
    */
   fastify.get('/', async (request, reply) => {
     try {
-      const devices = await smartThingsService.getDevices();
+      const { locationId, tag, includeHidden } = listDevicesSchema.parse(request.query);
+      const source = getDeviceSource(request);
+      const devices = await source.getDevices();
       
       // Filter devices based on user's ACL
       const filteredDevices = filterDevicesByACL(
         devices,
         request.user!.id,
         request.user!.role
-      );
+      ).filter(device => !locationId || device.locationId === locationId);
+      
+      const visibleDevices = DeviceMetadataService.apply(filteredDevices)
+        .filter(device => includeHidden || !device.hidden)
+        .filter(device => !tag || device.tags.includes(tag.toLowerCase()));
+      
+      // Demo devices are always reachable
+      const withHealth = visibleDevices.map(device => ({
+        ...device,
+        online: request.isDemoMode || deviceHealthService.isOnline(device.deviceId),
+        lastSeen: request.isDemoMode ? undefined : deviceHealthService.get(device.deviceId)?.lastSeen,
+      }));
+      
+      // Access to a group depends on all its members; its state and member
+      // list only cover the members the user can access
+      const accessibleGroupIds = new Set(filterGroupsByACL(
+        DeviceGroupService.toDevices(devices),
+        filteredDevices,
+        request.user!.id,
+        request.user!.role
+      ).map(group => group.group.groupId));
+      const groups = tag ? [] : DeviceGroupService.toDevices(filteredDevices)
+        .filter(group => accessibleGroupIds.has(group.group.groupId))
+        .filter(group => !locationId || group.locationId === locationId);
       
-      return { devices: filteredDevices };
+      return { devices: [...withHealth, ...groups], cache: source.describeCache?.('devices') };
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+      
       fastify.log.error(error);
-      return reply.code(500).send({ error: 'Failed to fetch devices' });
+      return sendDeviceError(reply, error, 'Failed to fetch devices');
     }
   });
 
@@ -46,12 +125,12 @@ export async function deviceRoutes(fastify: FastifyInstance) {
   fastify.get('/:deviceId', { preHandler: deviceACLMiddleware }, async (request, reply) => {
     try {
       const { deviceId } = request.params as { deviceId: string };
-      const device = await smartThingsService.getDevice(deviceId);
+      const device = await getDeviceSource(request).getDevice(deviceId);
       
       return { device };
     } catch (error) {
       fastify.log.error(error);
-      return reply.code(500).send({ error: 'Failed to fetch device' });
+      return sendDeviceError(reply, error, 'Failed to fetch device');
     }
   });
 
@@ -61,164 +140,338 @@ export async function deviceRoutes(fastify: FastifyInstance) {
   fastify.get('/:deviceId/status', { preHandler: deviceACLMiddleware }, async (request, reply) => {
     try {
       const { deviceId } = request.params as { deviceId: string };
-      const status = await smartThingsService.getDeviceStatus(deviceId);
+      const source = getDeviceSource(request);
+      const status = await source.getDeviceStatus(deviceId);
       
-      return { status };
+      return { status, cache: source.describeCache?.(`status:${deviceId}`) };
     } catch (error) {
       fastify.log.error(error);
-      return reply.code(500).send({ error: 'Failed to fetch device status' });
+      return sendDeviceError(reply, error, 'Failed to fetch device status');
     }
   });
 
   /**
-   * Execute device command
+   * Execute commands on several devices, reporting the outcome of each
    */
-  fastify.post('/:deviceId/command', { preHandler: deviceACLMiddleware }, async (request, reply) => {
+  fastify.post('/commands', async (request, reply) => {
     try {
-      const { deviceId } = request.params as { deviceId: string };
-      const { capability, command, args } = executeCommandSchema.parse(request.body);
-      
-      const startTime = Date.now();
-      const mode = request.isDemoMode ? 'demo' : 'production';
+      const { commands } = batchCommandSchema.parse(request.body);
+      const source = getDeviceSource(request);
+      const results: BatchCommandResult[] = commands.map((entry, index) => ({
+        index,
+        deviceId: entry.deviceId,
+        component: entry.component,
+        capability: entry.capability,
+        command: entry.command,
+        success: false,
+      }));
       
-      // Initialize device details for history recording
-      let deviceLabel = deviceId;
-      let room: string | undefined;
-      let previousValue: string | undefined;
+      // One request per device, with every command for it
+      const byDevice = new Map<string, number[]>();
+      commands.forEach((entry, index) => {
+        byDevice.set(entry.deviceId, [...(byDevice.get(entry.deviceId) || []), index]);
+      });
       
-      // Demo mode: skip SmartThings API call, just track metrics and broadcast
-      if (request.isDemoMode) {
-        // In demo mode, we don't have device details from API, use basic info
-        deviceLabel = deviceId.replace(/-/g, ' ');
-        room = 'Demo';
-        previousValue = undefined; // Demo mode doesn't track previous values for now
-        // Track mock SmartThings API call for demo mode
-        smartthingsApiCalls.inc({ endpoint: 'executeCommand', success: 'true', mode: 'demo' });
-        // Simulate API call duration (50-150ms for demo)
-        const mockApiDuration = (Math.random() * 0.1 + 0.05);
-        smartthingsApiDuration.observe({ endpoint: 'executeCommand', mode: 'demo' }, mockApiDuration);
+      await mapWithConcurrency(Array.from(byDevice.entries()), BATCH_DEVICE_CONCURRENCY, async ([deviceId, indexes]) => {
+        const deviceCommandList: DeviceCommand[] = indexes.map(index => ({
+          component: commands[index].component,
+          capability: commands[index].capability,
+          command: commands[index].command,
+          arguments: commands[index].args,
+        }));
+        const startTime = Date.now();
         
-        // Simulate a small delay for realism
-        await new Promise(resolve => setTimeout(resolve, mockApiDuration * 1000));
-        
-        // Broadcast demo device update (frontend handles local state)
-        websocketService.broadcastDeviceUpdate(deviceId, { [capability]: { value: command === 'on' ? 'on' : 'off' } }, true);
-      } else {
-        // Production mode: call actual SmartThings API and get device details
-        // Get current device details for history recording
-        const device = await smartThingsService.getDevice(deviceId);
-        deviceLabel = device.label || device.name || deviceId;
-        room = device.room;
+        let denied: { error: string; code: string } | undefined;
+        if (!(await canAccessDevice(request, deviceId))) {
+          denied = { error: 'You do not have permission to access this device', code: 'ACCESS_DENIED' };
+        } else {
+          const restriction = getModeRestriction(request, deviceId);
+          denied = restriction ? { error: restriction, code: 'MODE_RESTRICTED' } : undefined;
+        }
+        if (denied) {
+          const { error, code } = denied;
+          indexes.forEach((index, i) => {
+            results[index].error = error;
+            results[index].code = code;
+            recordCommand(request, deviceId, deviceCommandList[i], { duration: 0, error, code }, { type: 'batch' });
+          });
+          return;
+        }
         
-        // Get previous value if possible
+        let outcomes: CommandOutcome[];
         try {
-          const currentStatus = await smartThingsService.getDeviceStatus(deviceId);
-          const mainComponent = currentStatus.components?.main || {};
-          const capabilityData = mainComponent[capability];
-          if (capabilityData && typeof capabilityData === 'object') {
-            const attributeName = Object.keys(capabilityData)[0];
-            if (attributeName) {
-              previousValue = capabilityData[attributeName]?.value?.toString();
-            }
+          if (request.isDemoMode) {
+            await simulateApiCall();
           }
+          outcomes = await deviceCommandService.execute(source, deviceId, deviceCommandList, {
+            username: request.user!.username,
+            isDemoMode: request.isDemoMode === true,
+          });
         } catch (error) {
-          // Ignore errors getting previous value
+          // The device itself could not be loaded
+          outcomes = deviceCommandList.map(command => ({ command, error }));
         }
         
-        await smartThingsService.executeCommand(deviceId, capability, command, args);
-        
-        // Get updated device status and broadcast via WebSocket
-        try {
-          const updatedStatus = await smartThingsService.getDeviceStatus(deviceId);
-          websocketService.broadcastDeviceUpdate(deviceId, updatedStatus, false);
-        } catch (wsError) {
-          fastify.log.warn('Failed to broadcast device update:', wsError);
-          // Don't fail the request if WebSocket broadcast fails
-        }
+        const duration = (Date.now() - startTime) / 1000;
+        outcomes.forEach(({ command, error }, i) => {
+          const result = results[indexes[i]];
+          result.success = !error;
+          if (error) {
+            result.error = error instanceof Error ? error.message : 'Failed to execute command';
+            result.code = error instanceof DeviceProviderError ? error.code : 'PROVIDER_ERROR';
+          }
+          recordCommand(request, deviceId, command, { duration, error }, { type: 'batch' });
+        });
+      });
+      
+      const succeeded = results.filter(result => result.success).length;
+      return { results, succeeded, failed: results.length - succeeded };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
       }
       
-      const duration = (Date.now() - startTime) / 1000;
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to execute commands');
+    }
+  });
+
+  /**
+   * Execute device command
+   */
+  fastify.post('/:deviceId/command', { preHandler: deviceACLMiddleware }, async (request, reply) => {
+    const { deviceId } = request.params as { deviceId: string };
+    const body = request.body as any;
+    const startTime = Date.now();
+    
+    try {
+      const { component, capability, command, args } = executeCommandSchema.parse(request.body);
       
-      // Update metrics
-      deviceCommands.inc({ 
-        device_id: deviceId, 
-        capability, 
-        command, 
-        success: 'true',
-        mode
-      });
-      deviceCommandDuration.observe({ device_id: deviceId, capability, mode }, duration);
+      const restriction = getModeRestriction(request, deviceId);
+      if (restriction) {
+        recordCommand(request, deviceId, { component, capability, command }, {
+          duration: 0,
+          error: restriction,
+          code: 'MODE_RESTRICTED',
+        });
+        return reply.code(403).send({ error: 'Access denied', message: restriction, code: 'MODE_RESTRICTED' });
+      }
       
-      // Record in device history
-      deviceHistoryService.recordStateChange({
+      if (request.isDemoMode) {
+        await simulateApiCall();
+      }
+      
+      const [outcome] = await deviceCommandService.execute(
+        getDeviceSource(request),
         deviceId,
-        deviceLabel,
-        room,
-        capability,
-        attribute: capability, // For simple commands, attribute matches capability
-        value: command,
-        previousValue,
-        triggeredBy: request.user!.username,
-      });
+        [{ component, capability, command, arguments: args }],
+        { username: request.user!.username, isDemoMode: request.isDemoMode === true }
+      );
+      if (outcome.error) {
+        throw outcome.error;
+      }
+      
+      recordCommand(request, deviceId, outcome.command, { duration: (Date.now() - startTime) / 1000 });
+      
+      return { success: true };
+    } catch (error) {
+      recordCommand(
+        request,
+        deviceId,
+        {
+          component: body?.component,
+          capability: body?.capability || 'unknown',
+          command: body?.command || 'unknown',
+        },
+        { duration: (Date.now() - startTime) / 1000, error }
+      );
       
-      // Log audit
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+      
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to execute command');
+    }
+  });
+
+  /**
+   * Timers on every device the user can access, soonest first (pending,
+   * running, or failed until dismissed)
+   * Demo mode: none
+   */
+  fastify.get('/timers', async (request) => {
+    if (request.isDemoMode) {
+      return { timers: [] };
+    }
+
+    const timers: DeviceTimer[] = [];
+    for (const timer of DeviceTimerService.list()) {
+      if (await canAccessDevice(request, timer.deviceId)) {
+        timers.push(timer);
+      }
+    }
+    return { timers };
+  });
+
+  /**
+   * Timers on a device, soonest first
+   */
+  fastify.get('/:deviceId/timers', { preHandler: deviceACLMiddleware }, async (request) => {
+    const { deviceId } = request.params as { deviceId: string };
+    return { timers: request.isDemoMode ? [] : DeviceTimerService.list(deviceId) };
+  });
+
+  /**
+   * Send a command to a device after a delay, e.g. turn the fan off in 20
+   * minutes. The command is checked now and runs as this user, through the
+   * same checks and audit as an immediate command.
+   * Demo mode: blocked (timers outlive demo sessions)
+   */
+  fastify.post('/:deviceId/timers', { preHandler: deviceACLMiddleware }, async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot set timers.' });
+    }
+
+    const { deviceId } = request.params as { deviceId: string };
+    try {
+      const { component, capability, command, args, delaySeconds } = createTimerSchema.parse(request.body);
+      const timerCommand: DeviceCommand = { component, capability, command, arguments: args };
+
+      const restriction = getModeRestriction(request, deviceId);
+      if (restriction) {
+        return reply.code(403).send({ error: 'Access denied', message: restriction, code: 'MODE_RESTRICTED' });
+      }
+      if (DeviceTimerService.countForDevice(deviceId) >= MAX_TIMERS_PER_DEVICE) {
+        return reply.code(409).send({ error: `A device can have at most ${MAX_TIMERS_PER_DEVICE} timers` });
+      }
+
+      const device = await getDeviceSource(request).getDevice(deviceId);
+      capabilityRegistry.validateCommand(device, timerCommand);
+
+      const timer = DeviceTimerService.create(deviceId, timerCommand, new Date(Date.now() + delaySeconds * 1000), request.user!);
+      deviceTimerRunner.timersChanged(deviceId);
+
       logAudit({
-        action: 'device.command',
+        action: 'device.timer_created',
         user: request.user!.username,
         deviceId,
+        component: component !== 'main' ? component : undefined,
         command: `${capability}.${command}`,
         success: true,
         ip: request.ip,
+        details: { timer: timer.timerId, runAt: timer.runAt },
       });
-      
-      // Log telemetry
-      logTelemetry({
-        metric: 'device.command.executed',
-        deviceId,
-        capability,
-        newValue: command,
-        responseTime: duration * 1000,
-        success: true,
-      });
-      
-      return { success: true };
+
+      return reply.code(201).send({ timer });
     } catch (error) {
-      const { deviceId } = request.params as { deviceId: string };
-      const body = request.body as any;
-      const mode = request.isDemoMode ? 'demo' : 'production';
-      
-      deviceCommands.inc({ 
-        device_id: deviceId, 
-        capability: body?.capability || 'unknown', 
-        command: body?.command || 'unknown', 
-        success: 'false',
-        mode
-      });
-      
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to set timer');
+    }
+  });
+
+  /**
+   * Push a timer back (the user who set it, or an admin)
+   * Demo mode: blocked (read-only)
+   */
+  fastify.patch('/:deviceId/timers/:timerId', { preHandler: deviceACLMiddleware }, async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot change timers.' });
+    }
+
+    const { deviceId, timerId } = request.params as { deviceId: string; timerId: string };
+    try {
+      const { extendSeconds } = extendTimerSchema.parse(request.body);
+
+      const timer = DeviceTimerService.get(timerId);
+      if (!timer || timer.deviceId !== deviceId) {
+        return reply.code(404).send({ error: 'Timer not found' });
+      }
+      if (timer.userId !== request.user!.id && request.user!.role !== 'admin') {
+        return reply.code(403).send({ error: 'Only the user who set a timer (or an admin) can change it' });
+      }
+
+      const latest = Date.now() + MAX_TIMER_SECONDS * 1000;
+      const runAt = new Date(Math.min(new Date(timer.runAt).getTime() + extendSeconds * 1000, latest));
+      const updated = DeviceTimerService.reschedule(timerId, runAt);
+      if (!updated) {
+        // It started running (or was cancelled) in the meantime
+        return reply.code(409).send({ error: 'This timer is no longer pending' });
+      }
+      deviceTimerRunner.timersChanged(deviceId);
+
       logAudit({
-        action: 'device.command',
+        action: 'device.timer_extended',
         user: request.user!.username,
         deviceId,
-        command: `${body?.capability}.${body?.command}`,
-        success: false,
+        success: true,
         ip: request.ip,
+        details: { timer: timerId, runAt: updated.runAt },
       });
-      
+
+      return { timer: updated };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
       fastify.log.error(error);
-      return reply.code(500).send({ error: 'Failed to execute command' });
+      return reply.code(500).send({ error: 'Failed to change timer' });
+    }
+  });
+
+  /**
+   * Cancel a timer, or dismiss a failed one (the user who set it, or an admin)
+   * Demo mode: blocked (read-only)
+   */
+  fastify.delete('/:deviceId/timers/:timerId', { preHandler: deviceACLMiddleware }, async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot cancel timers.' });
+    }
+
+    const { deviceId, timerId } = request.params as { deviceId: string; timerId: string };
+    const timer = DeviceTimerService.get(timerId);
+    if (!timer || timer.deviceId !== deviceId) {
+      return reply.code(404).send({ error: 'Timer not found' });
+    }
+    if (timer.userId !== request.user!.id && request.user!.role !== 'admin') {
+      return reply.code(403).send({ error: 'Only the user who set a timer (or an admin) can cancel it' });
     }
+
+    if (!DeviceTimerService.remove(timerId)) {
+      return reply.code(404).send({ error: 'Timer not found' });
+    }
+    deviceTimerRunner.timersChanged(deviceId);
+
+    logAudit({
+      action: 'device.timer_cancelled',
+      user: request.user!.username,
+      deviceId,
+      command: `${timer.capability}.${timer.command}`,
+      success: true,
+      ip: request.ip,
+      details: { timer: timerId },
+    });
+
+    return { success: true };
   });
 
   /**
-   * Get all rooms
+   * Get all rooms (optionally for one location)
    */
   fastify.get('/rooms/list', async (request, reply) => {
     try {
-      const rooms = await smartThingsService.getRooms();
-      return { rooms };
+      const { locationId } = request.query as { locationId?: string };
+      const source = getDeviceSource(request);
+      const rooms = (await source.getRooms()).filter(room => !locationId || room.locationId === locationId);
+      return { rooms, cache: source.describeCache?.('rooms') };
     } catch (error) {
       fastify.log.error(error);
-      return reply.code(500).send({ error: 'Failed to fetch rooms' });
+      return sendDeviceError(reply, error, 'Failed to fetch rooms');
     }
   });
 }
@@ -0,0 +1,276 @@
+import { FastifyInstance } from 'fastify';
+import { getDeviceSource } from '../services/device-source';
+import { deviceCommandService } from '../services/device-command.service';
+import { DeviceGroupService } from '../services/device-group.service';
+import { DeviceCommand, DeviceProviderError } from '../services/device-provider';
+import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
+import { canAccessDevice, filterDevicesByACL, filterGroupsByACL, getModeRestriction } from '../middleware/acl.middleware';
+import { logAudit } from '../utils/logger';
+import { sendDeviceError } from '../utils/device-errors';
+import { recordCommand, simulateApiCall } from '../utils/device-commands';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { z } from 'zod';
+
+const groupSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  room: z.string().max(100).optional(),
+  deviceIds: z.array(z.string()).max(200).default([]),
+  tags: z.array(z.string().min(1).max(32)).max(20).default([]),
+}).refine(group => group.deviceIds.length > 0 || group.tags.length > 0, {
+  message: 'A group needs at least one device or tag',
+});
+
+const groupCommandSchema = z.object({
+  capability: z.string(),
+  command: z.string(),
+  args: z.array(z.unknown()).optional().default([]),
+});
+
+/** Members commanded at once */
+const GROUP_MEMBER_CONCURRENCY = 4;
+
+interface GroupMemberResult {
+  deviceId: string;
+  success: boolean;
+  /** The member doesn't have the capability; not counted as a failure */
+  skipped?: boolean;
+  error?: string;
+  code?: string;
+}
+
+export async function groupRoutes(fastify: FastifyInstance) {
+  // Apply authentication and first login check to all group routes
+  fastify.addHook('preHandler', authMiddleware);
+  fastify.addHook('preHandler', firstLoginMiddleware);
+
+  /**
+   * Get device groups the user can access, with their members and aggregated state
+   */
+  fastify.get('/', async (request, reply) => {
+    try {
+      const devices = await getDeviceSource(request).getDevices();
+      const accessibleDevices = filterDevicesByACL(devices, request.user!.id, request.user!.role);
+      const visible = new Set(
+        filterGroupsByACL(DeviceGroupService.toDevices(devices), accessibleDevices, request.user!.id, request.user!.role)
+          .map(device => device.group.groupId)
+      );
+
+      // Non-admins only see the members they can access
+      const groups = DeviceGroupService.getAll()
+        .filter(group => request.user!.role === 'admin' || visible.has(group.groupId))
+        .map(group => {
+          const members = DeviceGroupService.resolveMembers(group, accessibleDevices);
+          const memberIds = new Set(members.map(member => member.deviceId));
+          return {
+            ...group,
+            deviceIds: group.deviceIds.filter(deviceId => request.user!.role === 'admin' || memberIds.has(deviceId)),
+            state: DeviceGroupService.aggregate(group.groupId, members),
+          };
+        });
+
+      return { groups };
+    } catch (error) {
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to fetch groups');
+    }
+  });
+
+  /**
+   * Create a device group
+   * Demo mode: blocked (read-only)
+   * Real mode: requires admin role
+   */
+  fastify.post('/', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot create groups.' });
+    }
+
+    if (request.user!.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+
+    try {
+      const input = groupSchema.parse(request.body);
+      const group = DeviceGroupService.create(input, request.user!.username);
+
+      logAudit({
+        action: 'group.created',
+        user: request.user!.username,
+        success: true,
+        ip: request.ip,
+        details: { groupId: group.groupId, name: group.name, devices: group.deviceIds.length, tags: group.tags },
+      });
+
+      return reply.code(201).send({ group });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Update a device group's name, room and membership
+   * Demo mode: blocked (read-only)
+   * Real mode: requires admin role
+   */
+  fastify.put('/:groupId', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot update groups.' });
+    }
+
+    if (request.user!.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+
+    try {
+      const { groupId } = request.params as { groupId: string };
+      const input = groupSchema.parse(request.body);
+
+      const group = DeviceGroupService.update(groupId, input);
+      if (!group) {
+        return reply.code(404).send({ error: 'Group not found' });
+      }
+
+      logAudit({
+        action: 'group.updated',
+        user: request.user!.username,
+        success: true,
+        ip: request.ip,
+        details: { groupId, name: group.name, devices: group.deviceIds.length, tags: group.tags },
+      });
+
+      return { group };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+      throw error;
+    }
+  });
+
+  /**
+   * Delete a device group
+   * Demo mode: blocked (read-only)
+   * Real mode: requires admin role
+   */
+  fastify.delete('/:groupId', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot delete groups.' });
+    }
+
+    if (request.user!.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+
+    const { groupId } = request.params as { groupId: string };
+    if (!DeviceGroupService.remove(groupId)) {
+      return reply.code(404).send({ error: 'Group not found' });
+    }
+
+    logAudit({
+      action: 'group.deleted',
+      user: request.user!.username,
+      success: true,
+      ip: request.ip,
+      details: { groupId },
+    });
+
+    return { success: true };
+  });
+
+  /**
+   * Send a command to every member of a group, reporting each member's outcome
+   *
+   * The user needs access to the group; members they can't access are
+   * reported as ACCESS_DENIED, members the home mode doesn't let them control
+   * as MODE_RESTRICTED, and members without the capability are skipped.
+   */
+  fastify.post('/:groupId/command', async (request, reply) => {
+    try {
+      const { groupId } = request.params as { groupId: string };
+      const { capability, command, args } = groupCommandSchema.parse(request.body);
+
+      const group = DeviceGroupService.get(groupId);
+      if (!group) {
+        return reply.code(404).send({ error: 'Group not found' });
+      }
+
+      const source = getDeviceSource(request);
+      const devices = await source.getDevices();
+      const members = DeviceGroupService.resolveMembers(group, devices);
+      const [groupDevice] = filterGroupsByACL(
+        [DeviceGroupService.toDevice(group, members)],
+        filterDevicesByACL(devices, request.user!.id, request.user!.role),
+        request.user!.id,
+        request.user!.role
+      );
+      if (!groupDevice) {
+        return reply.code(403).send({
+          error: 'Access denied',
+          message: 'You do not have permission to access this group',
+        });
+      }
+
+      const results = await mapWithConcurrency(members, GROUP_MEMBER_CONCURRENCY, async (member): Promise<GroupMemberResult> => {
+        const { deviceId } = member;
+
+        const component = DeviceGroupService.componentFor(member, capability);
+        if (!component) {
+          return { deviceId, success: false, skipped: true };
+        }
+        const deviceCommand: DeviceCommand = { component, capability, command, arguments: args };
+
+        if (!(await canAccessDevice(request, deviceId))) {
+          const error = 'You do not have permission to access this device';
+          recordCommand(request, deviceId, deviceCommand, { duration: 0, error, code: 'ACCESS_DENIED' }, { type: 'group', groupId });
+          return { deviceId, success: false, error, code: 'ACCESS_DENIED' };
+        }
+
+        const restriction = getModeRestriction(request, deviceId);
+        if (restriction) {
+          recordCommand(request, deviceId, deviceCommand, { duration: 0, error: restriction, code: 'MODE_RESTRICTED' }, { type: 'group', groupId });
+          return { deviceId, success: false, error: restriction, code: 'MODE_RESTRICTED' };
+        }
+
+        const startTime = Date.now();
+        let error: unknown;
+        try {
+          if (request.isDemoMode) {
+            await simulateApiCall();
+          }
+          [{ error }] = await deviceCommandService.execute(source, deviceId, [deviceCommand], {
+            username: request.user!.username,
+            isDemoMode: request.isDemoMode === true,
+          });
+        } catch (loadError) {
+          // The member itself could not be loaded
+          error = loadError;
+        }
+
+        recordCommand(request, deviceId, deviceCommand, { duration: (Date.now() - startTime) / 1000, error }, { type: 'group', groupId });
+        if (!error) {
+          return { deviceId, success: true };
+        }
+        return {
+          deviceId,
+          success: false,
+          error: error instanceof Error ? error.message : 'Failed to execute command',
+          code: error instanceof DeviceProviderError ? error.code : 'PROVIDER_ERROR',
+        };
+      });
+
+      const succeeded = results.filter(result => result.success).length;
+      const skipped = results.filter(result => result.skipped).length;
+      return { groupId, results, succeeded, failed: results.length - succeeded - skipped, skipped };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to execute group command');
+    }
+  });
+}
@@ -0,0 +1,168 @@
+import { FastifyInstance } from 'fastify';
+import { config } from '../config/env';
+import { HOME_MODES, HomeModeService, isHomeMode } from '../services/home-mode.service';
+import { HomeModeChangeError, homeModeManager } from '../services/home-mode-manager.service';
+import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
+import { canChangeHomeMode, checkRunnableScene } from '../middleware/acl.middleware';
+import { logAudit } from '../utils/logger';
+import { sendDeviceError } from '../utils/device-errors';
+import { z } from 'zod';
+
+const setModeSchema = z.object({
+  mode: z.enum(HOME_MODES),
+});
+
+const entryActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('command'),
+    deviceId: z.string().min(1),
+    component: z.string().min(1).optional(),
+    capability: z.string().min(1),
+    command: z.string().min(1),
+    arguments: z.array(z.unknown()).optional(),
+  }),
+  z.object({ type: z.literal('scene'), sceneId: z.string().min(1) }),
+]);
+
+const settingsSchema = z.object({
+  entryActions: z.array(entryActionSchema).max(20).optional().default([]),
+  /** null or absent: no restriction */
+  allowedDeviceIds: z.array(z.string().min(1)).max(200).nullable().optional(),
+});
+
+export async function homeModeRoutes(fastify: FastifyInstance) {
+  // Apply authentication and first login check to all home mode routes
+  fastify.addHook('preHandler', authMiddleware);
+  fastify.addHook('preHandler', firstLoginMiddleware);
+
+  /**
+   * Get the current mode, whether the user may change it, and (for users the
+   * mode restricts) the devices they can still control
+   * Demo mode: always Home, no modes
+   */
+  fastify.get('/', async (request) => {
+    if (request.isDemoMode) {
+      return { mode: 'Home', modes: HOME_MODES, canChange: false, smartThingsSync: false };
+    }
+
+    const { mode, change } = HomeModeService.getCurrent();
+    const { allowedDeviceIds } = HomeModeService.getSettings(mode);
+    return {
+      mode,
+      change,
+      modes: HOME_MODES,
+      canChange: canChangeHomeMode(request),
+      allowedDeviceIds: request.user!.role === 'admin' ? undefined : allowedDeviceIds,
+      smartThingsSync: Boolean(config.homeModes.syncLocationId),
+    };
+  });
+
+  /**
+   * Change the mode (runs its entry actions, pushed to every user)
+   * Demo mode: blocked (read-only)
+   */
+  fastify.put('/', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot change the home mode.' });
+    }
+
+    try {
+      const { mode } = setModeSchema.parse(request.body);
+      const change = await homeModeManager.setMode(mode, { source: 'api', user: request.user!, ip: request.ip });
+      return { mode, change };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+      if (error instanceof HomeModeChangeError) {
+        return reply.code(403).send({ error: 'Access denied', message: error.message, code: error.code });
+      }
+
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Failed to change the home mode' });
+    }
+  });
+
+  /**
+   * Recent mode changes, newest first
+   */
+  fastify.get('/history', async (request) => {
+    if (request.isDemoMode) {
+      return { changes: [] };
+    }
+
+    const { limit } = request.query as { limit?: string };
+    return { changes: HomeModeService.listChanges(Math.min(parseInt(limit || '20', 10) || 20, 100)) };
+  });
+
+  /**
+   * Entry actions and policy of every mode (admin only)
+   */
+  fastify.get('/settings', async (request, reply) => {
+    if (request.isDemoMode) {
+      return { settings: HOME_MODES.map(mode => ({ mode, entryActions: [] })) };
+    }
+    if (request.user!.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+
+    return { settings: HomeModeService.getAllSettings() };
+  });
+
+  /**
+   * Replace a mode's entry actions and policy (admin only); entry actions
+   * will run as this admin
+   * Demo mode: blocked (read-only)
+   */
+  fastify.put('/settings/:mode', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot update home modes.' });
+    }
+    if (request.user!.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+
+    try {
+      const { mode } = request.params as { mode: string };
+      if (!isHomeMode(mode)) {
+        return reply.code(404).send({ error: 'Mode not found' });
+      }
+
+      const input = settingsSchema.parse(request.body);
+      for (const action of input.entryActions) {
+        if (action.type === 'scene') {
+          const problem = await checkRunnableScene(request, action.sceneId);
+          if (problem) {
+            return reply.code(problem.status).send({ error: problem.error });
+          }
+        }
+      }
+
+      const settings = HomeModeService.saveSettings(mode, {
+        entryActions: input.entryActions,
+        allowedDeviceIds: input.allowedDeviceIds || undefined,
+      }, request.user!);
+
+      logAudit({
+        action: 'home_mode.settings_updated',
+        user: request.user!.username,
+        success: true,
+        ip: request.ip,
+        details: {
+          mode,
+          entryActions: settings.entryActions.length,
+          allowedDeviceIds: settings.allowedDeviceIds,
+        },
+      });
+
+      return { settings };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to update home mode');
+    }
+  });
+}
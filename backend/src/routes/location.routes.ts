@@ -0,0 +1,34 @@
+import { FastifyInstance } from 'fastify';
+import { getDeviceSource } from '../services/device-source';
+import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
+import { filterDevicesByACL, filterLocationsByACL } from '../middleware/acl.middleware';
+import { sendDeviceError } from '../utils/device-errors';
+
+export async function locationRoutes(fastify: FastifyInstance) {
+  // Apply authentication and first login check to all location routes
+  fastify.addHook('preHandler', authMiddleware);
+  fastify.addHook('preHandler', firstLoginMiddleware);
+
+  /**
+   * Get all locations (filtered by ACL for non-admin users)
+   */
+  fastify.get('/', async (request, reply) => {
+    try {
+      const source = getDeviceSource(request);
+      const [locations, devices] = await Promise.all([source.getLocations(), source.getDevices()]);
+      
+      const accessibleDevices = filterDevicesByACL(devices, request.user!.id, request.user!.role);
+      const filteredLocations = filterLocationsByACL(
+        locations,
+        accessibleDevices,
+        request.user!.id,
+        request.user!.role
+      );
+      
+      return { locations: filteredLocations, cache: source.describeCache?.('locations') };
+    } catch (error) {
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to fetch locations');
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { FastifyInstance } from 'fastify';
+import { MAX_JITTER_MINUTES, PresenceSimulationService } from '../services/presence-simulation.service';
+import { presenceSimulator } from '../services/presence-simulator.service';
+import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
+import { logAudit } from '../utils/logger';
+import { z } from 'zod';
+
+const settingsSchema = z.object({
+  enabled: z.boolean(),
+  deviceIds: z.array(z.string().min(1)).max(100),
+  jitterMinutes: z.number().int().min(0).max(MAX_JITTER_MINUTES),
+});
+
+export async function presenceSimulationRoutes(fastify: FastifyInstance) {
+  // Apply authentication and first login check to all presence simulation routes
+  fastify.addHook('preHandler', authMiddleware);
+  fastify.addHook('preHandler', firstLoginMiddleware);
+
+  /**
+   * Settings, whether lights are being switched now, the switches planned
+   * so far and the patterns learned for the chosen lights (admin only)
+   * Demo mode: disabled, nothing learned
+   */
+  fastify.get('/', async (request, reply) => {
+    if (request.isDemoMode) {
+      return { settings: { enabled: false, deviceIds: [], jitterMinutes: 15 }, active: false, upcoming: [], patterns: [] };
+    }
+    if (request.user!.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+
+    const settings = PresenceSimulationService.getSettings();
+    return {
+      settings,
+      ...presenceSimulator.getStatus(),
+      patterns: PresenceSimulationService.learnPatterns(settings.deviceIds),
+    };
+  });
+
+  /**
+   * Replace the settings (admin only); lights will be switched as this admin
+   * Demo mode: blocked (read-only)
+   */
+  fastify.put('/', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot update presence simulation.' });
+    }
+    if (request.user!.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+
+    try {
+      const input = settingsSchema.parse(request.body);
+      const settings = PresenceSimulationService.saveSettings(input, request.user!);
+      presenceSimulator.refresh();
+
+      logAudit({
+        action: 'presence_simulation.settings_updated',
+        user: request.user!.username,
+        success: true,
+        ip: request.ip,
+        details: { enabled: settings.enabled, deviceIds: settings.deviceIds, jitterMinutes: settings.jitterMinutes },
+      });
+
+      return { settings, ...presenceSimulator.getStatus() };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Failed to update presence simulation' });
+    }
+  });
+
+  /**
+   * Simulation log: lights switched while in Vacation mode, newest first
+   * (admin only)
+   */
+  fastify.get('/log', async (request, reply) => {
+    if (request.isDemoMode) {
+      return { entries: [] };
+    }
+    if (request.user!.role !== 'admin') {
+      return reply.code(403).send({ error: 'Admin access required' });
+    }
+
+    const { limit } = request.query as { limit?: string };
+    return { entries: PresenceSimulationService.listLog(Math.min(parseInt(limit || '50', 10) || 50, 200)) };
+  });
+}
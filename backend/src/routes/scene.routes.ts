@@ -1,7 +1,143 @@
-import { FastifyInstance } from 'fastify';
-import { smartThingsService } from '../services/smartthings.service';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { getDeviceSource } from '../services/device-source';
+import { deviceInventory } from '../services/device-inventory.service';
+import { capabilityRegistry } from '../services/capability-registry.service';
+import { LocalScene, SceneActionResult, SceneService } from '../services/scene.service';
+import { SceneExecution, SceneExecutionService } from '../services/scene-execution.service';
+import { pushExecution, recordSceneCommands, SceneAccessDeniedError, startScene } from '../services/scene-runner';
+import { Device, SceneAction } from '../services/device-provider';
 import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
+import { canAccessDevice, filterDevicesByACL, filterScenesByACL, getModeRestriction } from '../middleware/acl.middleware';
+import { ACLService } from '../services/acl.service';
 import { logAudit, logTelemetry } from '../utils/logger';
+import { sendDeviceError } from '../utils/device-errors';
+import { z } from 'zod';
+
+/** Longest wait before a single action */
+const MAX_ACTION_DELAY_SECONDS = 300;
+const MAX_SCENE_ACTIONS = 50;
+
+const sceneActionSchema = z.object({
+  deviceId: z.string(),
+  component: z.string().optional().default('main'),
+  capability: z.string(),
+  command: z.string(),
+  arguments: z.array(z.unknown()).optional().default([]),
+  delaySeconds: z.number().min(0).max(MAX_ACTION_DELAY_SECONDS).optional().default(0),
+});
+
+const sceneSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  icon: z.string().max(32).optional(),
+  color: z.string().max(32).optional(),
+  locationId: z.string().optional(),
+  actions: z.array(sceneActionSchema).min(1).max(MAX_SCENE_ACTIONS),
+});
+
+type SceneBody = z.infer<typeof sceneSchema>;
+
+const snapshotSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  icon: z.string().max(32).optional(),
+  color: z.string().max(32).optional(),
+  locationId: z.string().optional(),
+  deviceIds: z.array(z.string()).min(1).max(50).optional(),
+  room: z.string().min(1).optional(),
+}).refine(body => !!body.deviceIds !== !!body.room, {
+  message: 'Provide either deviceIds or room',
+});
+
+/** A scene action targets a device the user can't access */
+class SceneAccessError extends Error {
+  constructor(public deviceId: string) {
+    super('You do not have permission to access a device in this scene');
+    this.name = 'SceneAccessError';
+  }
+}
+
+/**
+ * Check that the user may control every device in a scene and that every
+ * action is a valid command for its device; throws otherwise
+ */
+async function validateSceneActions(request: FastifyRequest, body: SceneBody): Promise<void> {
+  const source = getDeviceSource(request);
+
+  for (const action of body.actions) {
+    if (!(await canAccessDevice(request, action.deviceId))) {
+      throw new SceneAccessError(action.deviceId);
+    }
+    const device = await source.getDevice(action.deviceId);
+    capabilityRegistry.validateCommand(device, action);
+  }
+}
+
+/**
+ * Who ran a scene, for its execution report
+ */
+function executionOwner(request: FastifyRequest): Pick<SceneExecution, 'userId' | 'username'> {
+  return { userId: request.user!.id, username: request.user!.username };
+}
+
+/**
+ * Users see their own execution reports; admins see all of them
+ */
+function canViewExecution(request: FastifyRequest, execution: SceneExecution): boolean {
+  return request.user!.role === 'admin' || execution.userId === request.user!.id;
+}
+
+/**
+ * Run individual scene actions again (retry, undo) through the device command
+ * path, skipping devices the user can't access unless they hold a grant on
+ * the scene, and devices the home mode doesn't let them control; results keep
+ * each action's `index`
+ */
+async function executeActions(
+  request: FastifyRequest,
+  sceneId: string,
+  actions: (SceneAction & { index: number })[]
+): Promise<SceneActionResult[]> {
+  const sceneGranted = ACLService.hasAccess(request.user!.id, 'scene', sceneId);
+  const results: SceneActionResult[] = [];
+  const allowed: (SceneAction & { index: number })[] = [];
+  for (const action of actions) {
+    const restriction = getModeRestriction(request, action.deviceId);
+    if (!restriction && (sceneGranted || await canAccessDevice(request, action.deviceId))) {
+      allowed.push(action);
+    } else {
+      const denied: SceneActionResult = {
+        index: action.index,
+        deviceId: action.deviceId,
+        component: action.component || 'main',
+        capability: action.capability,
+        command: action.command,
+        arguments: action.arguments,
+        success: false,
+        error: restriction || 'You do not have permission to access this device',
+        code: restriction ? 'MODE_RESTRICTED' : 'ACCESS_DENIED',
+        durationMs: 0,
+      };
+      recordSceneCommands(request, sceneId, [denied]);
+      results.push(denied);
+    }
+  }
+  
+  const executed = await SceneService.execute(
+    getDeviceSource(request),
+    { sceneId, actions: allowed.map(({ index, ...action }) => ({ ...action, delaySeconds: 0 })) },
+    { username: request.user!.username, isDemoMode: request.isDemoMode || false }
+  );
+  recordSceneCommands(request, sceneId, executed);
+  
+  executed.forEach((result, i) => results.push({ ...result, index: allowed[i].index }));
+  return results.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Only the scene's creator and admins may change it
+ */
+function canEditScene(request: FastifyRequest, scene: LocalScene): boolean {
+  return request.user!.role === 'admin' || scene.createdBy === request.user!.username;
+}
 
 export async function sceneRoutes(fastify: FastifyInstance) {
   // Apply authentication and first login check to all scene routes
@@ -9,75 +145,252 @@ export async function sceneRoutes(fastify: FastifyInstance) {
   fastify.addHook('preHandler', firstLoginMiddleware);
 
   /**
-   * Get all scenes
+   * Get all scenes (optionally for one location): SmartThings scenes and
+   * local scenes, told apart by `source`
+   * Users see the scenes they hold a grant for or can access every device of.
    */
   fastify.get('/', async (request, reply) => {
     try {
-      const scenes = await smartThingsService.getScenes();
-      return { scenes };
+      const { locationId } = request.query as { locationId?: string };
+      const source = getDeviceSource(request);
+      const providerScenes = (await source.getScenes()).map(scene => ({ ...scene, source: 'smartthings' as const }));
+      
+      // Local scenes control real devices, so demo sessions don't see them
+      let localScenes: ReturnType<typeof SceneService.toScene>[] = [];
+      if (!request.isDemoMode) {
+        const devices = await deviceInventory.listDevices().catch(() => []);
+        const labels = new Map(devices.map(device => [device.deviceId, device.label || device.name]));
+        localScenes = SceneService.getAll().map(scene => SceneService.toScene(scene, labels));
+      }
+      
+      const accessibleDevices = filterDevicesByACL(await source.getDevices(), request.user!.id, request.user!.role);
+      const scenes = filterScenesByACL([...providerScenes, ...localScenes], accessibleDevices, request.user!.id, request.user!.role)
+        .filter(scene => !locationId || !scene.locationId || scene.locationId === locationId);
+      return { scenes, cache: source.describeCache?.('scenes') };
     } catch (error) {
       fastify.log.error(error);
-      return reply.code(500).send({ error: 'Failed to fetch scenes' });
+      return sendDeviceError(reply, error, 'Failed to fetch scenes');
     }
   });
 
   /**
-   * Execute a scene
+   * Create a local scene
+   * Demo mode: blocked (read-only)
    */
-  fastify.post('/:sceneId/execute', async (request, reply) => {
+  fastify.post('/', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot create scenes.' });
+    }
+    
     try {
-      const { sceneId } = request.params as { sceneId: string };
-      const startTime = Date.now();
-      const mode = request.isDemoMode ? 'demo' : 'production';
-
-      // Demo mode: skip SmartThings API call
-      if (request.isDemoMode) {
-        // Simulate scene execution
-        const duration = Math.random() * 0.1 + 0.05;
-        
-        logTelemetry({
-          metric: 'scene.execute',
-          sceneId,
-          responseTime: duration * 1000,
-          success: true,
-        });
-        
-        logAudit({
-          action: 'scene.execute',
-          user: request.user!.username,
-          sceneId,
-          success: true,
-          ip: request.ip,
-        });
-        
-        return { success: true };
+      const body = sceneSchema.parse(request.body);
+      await validateSceneActions(request, body);
+      
+      const scene = SceneService.create(body, request.user!.username);
+      
+      logAudit({
+        action: 'scene.created',
+        user: request.user!.username,
+        sceneId: scene.sceneId,
+        success: true,
+        ip: request.ip,
+        details: { name: scene.name, actions: scene.actions.length },
+      });
+      
+      return reply.code(201).send({ scene: SceneService.toScene(scene) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
       }
+      if (error instanceof SceneAccessError) {
+        return reply.code(403).send({ error: 'Access denied', message: error.message, deviceId: error.deviceId });
+      }
+      
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to create scene');
+    }
+  });
 
-      // Production mode: call SmartThings API
-      await smartThingsService.executeScene(sceneId);
-      const duration = (Date.now() - startTime) / 1000;
-
-      // Log audit
+  /**
+   * Save the current state of some devices (or a whole room) as a local scene
+   * Devices without any switch, level, color or thermostat state are skipped.
+   * Demo mode: blocked (read-only)
+   */
+  fastify.post('/snapshot', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot create scenes.' });
+    }
+    
+    try {
+      const body = snapshotSchema.parse(request.body);
+      const source = getDeviceSource(request);
+      
+      let devices: Device[];
+      if (body.deviceIds) {
+        for (const deviceId of body.deviceIds) {
+          if (!(await canAccessDevice(request, deviceId))) {
+            throw new SceneAccessError(deviceId);
+          }
+        }
+        devices = await Promise.all(body.deviceIds.map(deviceId => source.getDevice(deviceId)));
+      } else {
+        devices = filterDevicesByACL(await source.getDevices(), request.user!.id, request.user!.role)
+          .filter(device => device.room === body.room)
+          .filter(device => !body.locationId || device.locationId === body.locationId);
+      }
+      
+      const actions: SceneAction[] = [];
+      const skipped: { deviceId: string; reason: string }[] = [];
+      for (const device of devices) {
+        try {
+          const captured = SceneService.captureActions(device, await source.getDeviceStatus(device.deviceId));
+          if (captured.length === 0) {
+            skipped.push({ deviceId: device.deviceId, reason: 'No state a scene can restore' });
+          }
+          actions.push(...captured);
+        } catch (error) {
+          skipped.push({ deviceId: device.deviceId, reason: error instanceof Error ? error.message : 'Failed to read state' });
+        }
+      }
+      
+      if (actions.length === 0) {
+        return reply.code(400).send({ error: 'None of the devices have state a scene can restore', skipped });
+      }
+      if (actions.length > MAX_SCENE_ACTIONS) {
+        return reply.code(400).send({ error: `A scene can have at most ${MAX_SCENE_ACTIONS} actions` });
+      }
+      
+      const scene = SceneService.create({
+        name: body.name,
+        icon: body.icon,
+        color: body.color,
+        locationId: body.locationId,
+        actions,
+      }, request.user!.username);
+      
       logAudit({
-        action: 'scene.execute',
+        action: 'scene.created',
         user: request.user!.username,
-        sceneId,
+        sceneId: scene.sceneId,
         success: true,
         ip: request.ip,
+        details: { name: scene.name, actions: scene.actions.length, snapshot: true, devices: devices.length },
       });
+      
+      const labels = new Map(devices.map(device => [device.deviceId, device.label || device.name]));
+      return reply.code(201).send({ scene: SceneService.toScene(scene, labels), skipped });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+      if (error instanceof SceneAccessError) {
+        return reply.code(403).send({ error: 'Access denied', message: error.message, deviceId: error.deviceId });
+      }
+      
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to save scene');
+    }
+  });
 
-      // Log telemetry
-      logTelemetry({
-        metric: 'scene.execute',
+  /**
+   * Update a local scene's name, look and actions
+   * Demo mode: blocked (read-only)
+   */
+  fastify.put('/:sceneId', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot update scenes.' });
+    }
+    
+    try {
+      const { sceneId } = request.params as { sceneId: string };
+      const existing = SceneService.get(sceneId);
+      if (!existing) {
+        return reply.code(404).send({ error: 'Scene not found' });
+      }
+      if (!canEditScene(request, existing)) {
+        return reply.code(403).send({ error: 'Only the scene\'s creator or an admin can change it' });
+      }
+      
+      const body = sceneSchema.parse(request.body);
+      await validateSceneActions(request, body);
+      
+      const scene = SceneService.update(sceneId, body)!;
+      
+      logAudit({
+        action: 'scene.updated',
+        user: request.user!.username,
         sceneId,
-        responseTime: duration * 1000,
         success: true,
+        ip: request.ip,
+        details: { name: scene.name, actions: scene.actions.length },
       });
+      
+      return { scene: SceneService.toScene(scene) };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+      if (error instanceof SceneAccessError) {
+        return reply.code(403).send({ error: 'Access denied', message: error.message, deviceId: error.deviceId });
+      }
+      
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to update scene');
+    }
+  });
+
+  /**
+   * Delete a local scene
+   * Demo mode: blocked (read-only)
+   */
+  fastify.delete('/:sceneId', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot delete scenes.' });
+    }
+    
+    const { sceneId } = request.params as { sceneId: string };
+    const scene = SceneService.get(sceneId);
+    if (!scene) {
+      return reply.code(404).send({ error: 'Scene not found' });
+    }
+    if (!canEditScene(request, scene)) {
+      return reply.code(403).send({ error: 'Only the scene\'s creator or an admin can delete it' });
+    }
+    
+    SceneService.remove(sceneId);
+    
+    logAudit({
+      action: 'scene.deleted',
+      user: request.user!.username,
+      sceneId,
+      success: true,
+      ip: request.ip,
+      details: { name: scene.name },
+    });
+    
+    return { success: true };
+  });
 
-      return { success: true };
+  /**
+   * Start a scene (see startScene) and answer 202 with the running execution
+   * straight away; progress and the finished report are pushed to the user
+   * over WebSocket and can be read from GET /executions/:executionId
+   * Needs a scene grant or access to every device in the scene.
+   */
+  fastify.post('/:sceneId/execute', async (request, reply) => {
+    try {
+      const { sceneId } = request.params as { sceneId: string };
+      const { execution, finished } = await startScene(request, sceneId);
+      finished.catch(error => fastify.log.error(error));
+      
+      return reply.code(202).send({ execution });
     } catch (error) {
       const { sceneId } = request.params as { sceneId: string };
       
+      if (error instanceof SceneAccessDeniedError) {
+        return reply.code(403).send({ error: 'Access denied', message: error.message, code: error.code });
+      }
+      
       fastify.log.error(error);
 
       // Log failed audit
@@ -96,7 +409,161 @@ export async function sceneRoutes(fastify: FastifyInstance) {
         success: false,
       });
 
-      return reply.code(500).send({ error: 'Failed to execute scene' });
+      return sendDeviceError(reply, error, 'Failed to execute scene');
+    }
+  });
+
+  /**
+   * Recent execution reports of a scene (the user's own unless admin)
+   */
+  fastify.get('/:sceneId/executions', async (request) => {
+    const { sceneId } = request.params as { sceneId: string };
+    const { limit } = request.query as { limit?: string };
+    
+    const executions = SceneExecutionService.listForScene(sceneId, {
+      userId: request.user!.role === 'admin' ? undefined : request.user!.id,
+      limit: Math.min(parseInt(limit || '20', 10) || 20, 100),
+    });
+    return { executions };
+  });
+
+  /**
+   * Get one execution report
+   */
+  fastify.get('/executions/:executionId', async (request, reply) => {
+    const { executionId } = request.params as { executionId: string };
+    const execution = SceneExecutionService.get(executionId);
+    
+    if (!execution || !canViewExecution(request, execution)) {
+      return reply.code(404).send({ error: 'Execution not found' });
+    }
+    
+    return { execution };
+  });
+
+  /**
+   * Retry the actions that failed in an earlier run
+   * Each action goes through the device command path again (and the ACL),
+   * producing a new report linked to the original.
+   */
+  fastify.post('/executions/:executionId/retry', async (request, reply) => {
+    const { executionId } = request.params as { executionId: string };
+    const previous = SceneExecutionService.get(executionId);
+    
+    if (!previous || !canViewExecution(request, previous)) {
+      return reply.code(404).send({ error: 'Execution not found' });
+    }
+    if (previous.status === 'running') {
+      return reply.code(409).send({ error: 'This scene run has not finished yet' });
+    }
+    
+    const failedActions = previous.actions.filter(action => !action.success);
+    if (failedActions.length === 0) {
+      return reply.code(400).send({ error: 'No failed actions to retry' });
+    }
+    
+    try {
+      const startedAt = new Date().toISOString();
+      const results = await executeActions(request, previous.sceneId, failedActions);
+      
+      const execution = SceneExecutionService.record({
+        ...executionOwner(request),
+        sceneId: previous.sceneId,
+        sceneName: previous.sceneName,
+        source: previous.source,
+        retryOf: previous.executionId,
+        actions: results,
+        startedAt,
+      });
+      pushExecution(request, execution);
+      
+      logAudit({
+        action: 'scene.execute',
+        user: request.user!.username,
+        sceneId: previous.sceneId,
+        success: execution.success,
+        ip: request.ip,
+        details: {
+          source: execution.source,
+          executionId: execution.executionId,
+          retryOf: previous.executionId,
+          succeeded: execution.succeeded,
+          failed: execution.failed,
+        },
+      });
+      
+      return { success: execution.success, execution };
+    } catch (error) {
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to retry scene actions');
+    }
+  });
+
+  /**
+   * Undo a run: restore the devices it touched to their state before it ran
+   * Only within the undo window (SCENE_UNDO_WINDOW_SECONDS), and only once.
+   */
+  fastify.post('/executions/:executionId/revert', async (request, reply) => {
+    const { executionId } = request.params as { executionId: string };
+    const previous = SceneExecutionService.get(executionId);
+    
+    if (!previous || !canViewExecution(request, previous)) {
+      return reply.code(404).send({ error: 'Execution not found' });
+    }
+    if (previous.status === 'running') {
+      return reply.code(409).send({ error: 'This scene run has not finished yet' });
+    }
+    if (previous.revertedAt) {
+      return reply.code(409).send({ error: 'This scene run has already been undone' });
+    }
+    if (!previous.revertibleUntil) {
+      return reply.code(409).send({ error: 'This scene run cannot be undone' });
+    }
+    if (Date.now() > new Date(previous.revertibleUntil).getTime()) {
+      return reply.code(409).send({ error: 'The undo window for this scene run has expired' });
+    }
+    // Claim the undo before running it so a double click can't run it twice
+    if (!SceneExecutionService.markReverted(executionId)) {
+      return reply.code(409).send({ error: 'This scene run has already been undone' });
+    }
+    
+    try {
+      const startedAt = new Date().toISOString();
+      const results = await executeActions(
+        request,
+        previous.sceneId,
+        previous.priorState.map((action, index) => ({ ...action, index }))
+      );
+      
+      const execution = SceneExecutionService.record({
+        ...executionOwner(request),
+        sceneId: previous.sceneId,
+        sceneName: previous.sceneName,
+        source: previous.source,
+        revertOf: previous.executionId,
+        actions: results,
+        startedAt,
+      });
+      pushExecution(request, execution);
+      
+      logAudit({
+        action: 'scene.revert',
+        user: request.user!.username,
+        sceneId: previous.sceneId,
+        success: execution.success,
+        ip: request.ip,
+        details: {
+          executionId: execution.executionId,
+          revertOf: previous.executionId,
+          succeeded: execution.succeeded,
+          failed: execution.failed,
+        },
+      });
+      
+      return { success: execution.success, execution };
+    } catch (error) {
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to undo scene');
     }
   });
 }
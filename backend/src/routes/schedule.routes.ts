@@ -0,0 +1,203 @@
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { config } from '../config/env';
+import { HOME_MODES } from '../services/home-mode.service';
+import {
+  hasCoordinates,
+  Schedule,
+  scheduleTriggerSchema,
+  ScheduleService,
+  SUN_NOT_CONFIGURED,
+} from '../services/schedule.service';
+import { schedulerService } from '../services/scheduler.service';
+import { authMiddleware, firstLoginMiddleware } from '../middleware/auth.middleware';
+import { checkRunnableScene } from '../middleware/acl.middleware';
+import { logAudit } from '../utils/logger';
+import { sendDeviceError } from '../utils/device-errors';
+import { getSunTimes } from '../utils/solar';
+import { z } from 'zod';
+
+const scheduleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  sceneId: z.string().min(1).optional(),
+  mode: z.enum(HOME_MODES).optional(),
+  trigger: scheduleTriggerSchema,
+  enabled: z.boolean().optional().default(true),
+}).refine(schedule => !schedule.sceneId !== !schedule.mode, {
+  message: 'A schedule either runs a scene or changes the home mode',
+}).transform(({ sceneId = '', ...schedule }) => ({ ...schedule, sceneId }));
+
+/**
+ * Users see and change their own schedules; admins all of them
+ */
+function canManageSchedule(request: FastifyRequest, schedule: Schedule): boolean {
+  return request.user!.role === 'admin' || schedule.userId === request.user!.id;
+}
+
+export async function scheduleRoutes(fastify: FastifyInstance) {
+  // Apply authentication and first login check to all schedule routes
+  fastify.addHook('preHandler', authMiddleware);
+  fastify.addHook('preHandler', firstLoginMiddleware);
+
+  /**
+   * Get schedules (the user's own unless admin)
+   */
+  fastify.get('/', async (request) => {
+    const schedules = ScheduleService.getAll(request.user!.role === 'admin' ? undefined : request.user!.id);
+    return { schedules };
+  });
+
+  /**
+   * Today's sunrise and sunset at the configured coordinates
+   */
+  fastify.get('/sun', async () => {
+    if (!hasCoordinates()) {
+      return { configured: false };
+    }
+
+    const { latitude, longitude } = config.schedules;
+    const { sunrise, sunset } = getSunTimes(new Date(), latitude!, longitude!);
+    return {
+      configured: true,
+      latitude,
+      longitude,
+      sunrise: sunrise?.toISOString(),
+      sunset: sunset?.toISOString(),
+    };
+  });
+
+  /**
+   * Create a schedule; the scene will run (or the mode change) as the current user
+   * Demo mode: blocked (read-only)
+   */
+  fastify.post('/', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot create schedules.' });
+    }
+
+    try {
+      const input = scheduleSchema.parse(request.body);
+      if (input.trigger.type === 'sun' && !hasCoordinates()) {
+        return reply.code(400).send({ error: SUN_NOT_CONFIGURED });
+      }
+
+      const problem = input.sceneId ? await checkRunnableScene(request, input.sceneId) : undefined;
+      if (problem) {
+        return reply.code(problem.status).send({ error: problem.error });
+      }
+
+      const schedule = ScheduleService.create(input, request.user!);
+      schedulerService.refresh();
+
+      logAudit({
+        action: 'schedule.created',
+        user: request.user!.username,
+        sceneId: schedule.sceneId || undefined,
+        success: true,
+        ip: request.ip,
+        details: { scheduleId: schedule.scheduleId, mode: schedule.mode, name: schedule.name, trigger: schedule.trigger },
+      });
+
+      return reply.code(201).send({ schedule });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to create schedule');
+    }
+  });
+
+  /**
+   * Replace a schedule's name, scene, trigger and enabled state
+   * Demo mode: blocked (read-only)
+   */
+  fastify.put('/:scheduleId', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot update schedules.' });
+    }
+
+    try {
+      const { scheduleId } = request.params as { scheduleId: string };
+      const existing = ScheduleService.get(scheduleId);
+      if (!existing || !canManageSchedule(request, existing)) {
+        return reply.code(404).send({ error: 'Schedule not found' });
+      }
+
+      const input = scheduleSchema.parse(request.body);
+      if (input.trigger.type === 'sun' && !hasCoordinates()) {
+        return reply.code(400).send({ error: SUN_NOT_CONFIGURED });
+      }
+
+      const problem = input.sceneId ? await checkRunnableScene(request, input.sceneId) : undefined;
+      if (problem) {
+        return reply.code(problem.status).send({ error: problem.error });
+      }
+
+      const schedule = ScheduleService.update(scheduleId, input)!;
+      schedulerService.refresh();
+
+      logAudit({
+        action: 'schedule.updated',
+        user: request.user!.username,
+        sceneId: schedule.sceneId || undefined,
+        success: true,
+        ip: request.ip,
+        details: { scheduleId, mode: schedule.mode, name: schedule.name, trigger: schedule.trigger, enabled: schedule.enabled },
+      });
+
+      return { schedule };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({ error: 'Invalid request', details: error.errors });
+      }
+
+      fastify.log.error(error);
+      return sendDeviceError(reply, error, 'Failed to update schedule');
+    }
+  });
+
+  /**
+   * Delete a schedule and its history
+   * Demo mode: blocked (read-only)
+   */
+  fastify.delete('/:scheduleId', async (request, reply) => {
+    if (request.isDemoMode) {
+      return reply.code(403).send({ error: 'Demo mode is read-only. Cannot delete schedules.' });
+    }
+
+    const { scheduleId } = request.params as { scheduleId: string };
+    const schedule = ScheduleService.get(scheduleId);
+    if (!schedule || !canManageSchedule(request, schedule)) {
+      return reply.code(404).send({ error: 'Schedule not found' });
+    }
+
+    ScheduleService.remove(scheduleId);
+    schedulerService.refresh();
+
+    logAudit({
+      action: 'schedule.deleted',
+      user: request.user!.username,
+      sceneId: schedule.sceneId || undefined,
+      success: true,
+      ip: request.ip,
+      details: { scheduleId, mode: schedule.mode, name: schedule.name },
+    });
+
+    return { success: true };
+  });
+
+  /**
+   * Recent runs of a schedule, newest first
+   */
+  fastify.get('/:scheduleId/runs', async (request, reply) => {
+    const { scheduleId } = request.params as { scheduleId: string };
+    const { limit } = request.query as { limit?: string };
+    const schedule = ScheduleService.get(scheduleId);
+    if (!schedule || !canManageSchedule(request, schedule)) {
+      return reply.code(404).send({ error: 'Schedule not found' });
+    }
+
+    return { runs: ScheduleService.listRuns(scheduleId, Math.min(parseInt(limit || '20', 10) || 20, 100)) };
+  });
+}
@@ -0,0 +1,55 @@
+import { FastifyInstance } from 'fastify';
+import { LifecycleRequest, SmartAppError, smartAppService } from '../services/smartapp.service';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: string;
+  }
+}
+
+export async function smartAppRoutes(fastify: FastifyInstance) {
+  // Keep the raw body around: the signature covers its exact bytes
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    request.rawBody = body as string;
+    try {
+      done(null, JSON.parse(body as string));
+    } catch (error) {
+      done(new SmartAppError('Invalid JSON body', 400), undefined);
+    }
+  });
+
+  /**
+   * SmartThings lifecycle webhook
+   * Called by SmartThings, not by users, so no session auth; requests are
+   * authenticated by their HTTP signature instead
+   */
+  fastify.post('/', { config: { rateLimit: false } }, async (request, reply) => {
+    const body = request.body as LifecycleRequest;
+
+    if (!body || typeof body.lifecycle !== 'string') {
+      return reply.code(400).send({ error: 'Invalid lifecycle request' });
+    }
+
+    try {
+      if (body.lifecycle !== 'PING') {
+        await smartAppService.verifySignature({
+          method: request.method,
+          url: request.url,
+          headers: request.headers,
+          rawBody: request.rawBody || '',
+        });
+      }
+
+      const targetUrl = `${request.protocol}://${request.hostname}${request.url}`;
+      return await smartAppService.handleLifecycle(body, targetUrl);
+    } catch (error) {
+      if (error instanceof SmartAppError) {
+        fastify.log.warn(`SmartApp ${body.lifecycle} rejected: ${error.message}`);
+        return reply.code(error.statusCode).send({ error: error.message });
+      }
+
+      fastify.log.error(error);
+      return reply.code(500).send({ error: 'Failed to handle lifecycle request' });
+    }
+  });
+}
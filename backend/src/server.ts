@@ -9,14 +9,32 @@ import { config } from './config/env';
 import { logger } from './utils/logger';
 import { db } from './database/db';
 import { UserService } from './services/user.service';
-import { smartThingsService } from './services/smartthings.service';
+import { deviceRegistry } from './services/device-registry.service';
 import { websocketService } from './services/websocket.service';
+import { simulatorService } from './services/simulator.service';
+import { devicePollerService } from './services/device-poller.service';
+import { deviceInventory } from './services/device-inventory.service';
+import { deviceHealthService } from './services/device-health.service';
+import { SceneExecutionService } from './services/scene-execution.service';
+import { schedulerService } from './services/scheduler.service';
+import { automationEngine } from './services/automation-engine.service';
+import { homeModeManager } from './services/home-mode-manager.service';
+import { presenceSimulator } from './services/presence-simulator.service';
+import { deviceTimerRunner } from './services/device-timer-runner.service';
 import { register } from './services/metrics.service';
 import { authRoutes } from './routes/auth.routes';
 import { deviceRoutes } from './routes/device.routes';
 import { sceneRoutes } from './routes/scene.routes';
+import { scheduleRoutes } from './routes/schedule.routes';
+import { automationRoutes, automationWebhookRoutes } from './routes/automation.routes';
+import { homeModeRoutes } from './routes/home-mode.routes';
+import { presenceSimulationRoutes } from './routes/presence-simulation.routes';
+import { locationRoutes } from './routes/location.routes';
+import { groupRoutes } from './routes/group.routes';
+import { capabilityRoutes } from './routes/capability.routes';
 import { analyticsRoutes } from './routes/analytics.routes';
 import { adminRoutes } from './routes/admin.routes';
+import { smartAppRoutes } from './routes/smartapp.routes';
 import { auditMiddleware } from './middleware/audit.middleware';
 
 // Create Fastify instance
@@ -75,14 +93,21 @@ fastify.addHook('onRequest', auditMiddleware);
 
 // Health check endpoint
 fastify.get('/api/health', async () => {
-  const stConnection = await smartThingsService.testConnection();
+  const connections = await deviceRegistry.testConnections();
+  const providers = Object.fromEntries(
+    Object.entries(connections).map(([id, connected]) => [id, connected ? 'connected' : 'disconnected'])
+  );
+  const circuits = deviceRegistry.getHealth();
+  const degraded = Object.values(circuits).some(health => health.circuit !== 'closed');
   
   return {
-    status: 'ok',
+    status: degraded ? 'degraded' : 'ok',
     timestamp: new Date().toISOString(),
     services: {
       database: 'connected',
-      smartthings: stConnection ? 'connected' : 'disconnected',
+      smartthings: providers.smartthings ?? 'disconnected',
+      providers,
+      circuits,
     },
   };
 });
@@ -97,8 +122,17 @@ fastify.get('/metrics', async (request, reply) => {
 fastify.register(authRoutes, { prefix: '/api/auth' });
 fastify.register(deviceRoutes, { prefix: '/api/devices' });
 fastify.register(sceneRoutes, { prefix: '/api/scenes' });
+fastify.register(scheduleRoutes, { prefix: '/api/schedules' });
+fastify.register(automationRoutes, { prefix: '/api/automations' });
+fastify.register(automationWebhookRoutes, { prefix: '/api/automations/webhooks' });
+fastify.register(homeModeRoutes, { prefix: '/api/home-mode' });
+fastify.register(presenceSimulationRoutes, { prefix: '/api/presence-simulation' });
+fastify.register(locationRoutes, { prefix: '/api/locations' });
+fastify.register(groupRoutes, { prefix: '/api/groups' });
+fastify.register(capabilityRoutes, { prefix: '/api/capabilities' });
 fastify.register(analyticsRoutes, { prefix: '/api/analytics' });
 fastify.register(adminRoutes, { prefix: '/api/admin' });
+fastify.register(smartAppRoutes, { prefix: '/api/smartapp' });
 
 // Catch-all for SPA routing in production
 if (config.isProduction) {
@@ -131,6 +165,15 @@ signals.forEach(signal => {
     logger.info(`Received ${signal}, closing server gracefully...`);
     
     try {
+      simulatorService.stop();
+      devicePollerService.stop();
+      deviceInventory.stop();
+      deviceHealthService.stop();
+      schedulerService.stop();
+      automationEngine.stop();
+      homeModeManager.stop();
+      presenceSimulator.stop();
+      deviceTimerRunner.stop();
       await fastify.close();
       db.close();
       logger.info('Server closed successfully');
@@ -148,12 +191,14 @@ async function start() {
     // Initialize admin user if none exists
     await UserService.initializeAdminUser();
     
-    // Test SmartThings connection
-    const stConnected = await smartThingsService.testConnection();
-    if (!stConnected) {
-      logger.warn('⚠️  Could not connect to SmartThings API. Please check your token.');
-    } else {
-      logger.info('✓ SmartThings API connection successful');
+    // Test device provider connections
+    const connections = await deviceRegistry.testConnections();
+    for (const provider of deviceRegistry.getProviders()) {
+      if (!connections[provider.id]) {
+        logger.warn(`⚠️  Could not connect to ${provider.name}. Please check its configuration.`);
+      } else {
+        logger.info(`✓ ${provider.name} connection successful`);
+      }
     }
     
     // Start server
@@ -165,6 +210,41 @@ async function start() {
     // Initialize WebSocket server
     websocketService.initialize(fastify.server);
     
+    // Start the demo mode home simulation
+    simulatorService.start();
+    
+    // Keep the device inventory cache warm
+    deviceInventory.start();
+    
+    // Track which devices are reachable
+    deviceHealthService.start();
+    
+    // Scene runs cut short by the last shutdown can't finish any more
+    const interrupted = SceneExecutionService.markInterrupted();
+    if (interrupted > 0) {
+      logger.warn(`${interrupted} scene run(s) were interrupted by the last shutdown`);
+    }
+    
+    // Run scheduled scenes, catching up on runs missed while down
+    schedulerService.start();
+    
+    // Fire automation rules from device events and their time triggers
+    automationEngine.start();
+    
+    // Follow the SmartThings location mode, if configured
+    homeModeManager.start();
+    
+    // Switch lights like someone's home while in Vacation mode
+    presenceSimulator.start();
+    
+    // Send delayed device commands, including those due while down
+    deviceTimerRunner.start();
+    
+    // Poll device status for changes made outside the app
+    if (config.polling.enabled) {
+      devicePollerService.start();
+    }
+    
     const protocol = config.https.enabled ? 'https' : 'http';
     logger.info(`\n${'='.repeat(60)}`);
     logger.info(`  Home Control Server Started`);
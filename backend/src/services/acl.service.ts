@@ -1,10 +1,12 @@
 import { randomBytes } from 'crypto';
 import { db } from '../database/db';
 
+export type ResourceType = 'device' | 'room' | 'location' | 'group' | 'scene';
+
 export interface AccessControl {
   id: string;
   userId: string;
-  resourceType: 'device' | 'room';
+  resourceType: ResourceType;
   resourceId: string;
   createdAt: string;
 }
@@ -13,7 +15,7 @@ export class ACLService {
   /**
    * Grant access to a resource
    */
-  static grantAccess(userId: string, resourceType: 'device' | 'room', resourceId: string): AccessControl {
+  static grantAccess(userId: string, resourceType: ResourceType, resourceId: string): AccessControl {
     const aclId = randomBytes(16).toString('hex');
     
     db.prepare(`
@@ -33,7 +35,7 @@ export class ACLService {
   /**
    * Revoke access to a resource
    */
-  static revokeAccess(userId: string, resourceType: 'device' | 'room', resourceId: string): void {
+  static revokeAccess(userId: string, resourceType: ResourceType, resourceId: string): void {
     db.prepare(`
       DELETE FROM access_control
       WHERE user_id = ? AND resource_type = ? AND resource_id = ?
@@ -43,7 +45,7 @@ export class ACLService {
   /**
    * Check if user has access to a resource
    */
-  static hasAccess(userId: string, resourceType: 'device' | 'room', resourceId: string): boolean {
+  static hasAccess(userId: string, resourceType: ResourceType, resourceId: string): boolean {
     const row = db.prepare(`
       SELECT id FROM access_control
       WHERE user_id = ? AND resource_type = ? AND resource_id = ?
@@ -90,6 +92,45 @@ export class ACLService {
     return rows.map(r => r.resourceId);
   }
 
+  /**
+   * Get all accessible location IDs for a user
+   */
+  static getAccessibleLocationIds(userId: string): string[] {
+    const rows = db.prepare<unknown[], { resourceId: string }>(`
+      SELECT resource_id as resourceId
+      FROM access_control
+      WHERE user_id = ? AND resource_type = 'location'
+    `).all(userId);
+    
+    return rows.map(r => r.resourceId);
+  }
+
+  /**
+   * Get all accessible device group IDs for a user
+   */
+  static getAccessibleGroupIds(userId: string): string[] {
+    const rows = db.prepare<unknown[], { resourceId: string }>(`
+      SELECT resource_id as resourceId
+      FROM access_control
+      WHERE user_id = ? AND resource_type = 'group'
+    `).all(userId);
+    
+    return rows.map(r => r.resourceId);
+  }
+
+  /**
+   * Get all accessible scene IDs for a user
+   */
+  static getAccessibleSceneIds(userId: string): string[] {
+    const rows = db.prepare<unknown[], { resourceId: string }>(`
+      SELECT resource_id as resourceId
+      FROM access_control
+      WHERE user_id = ? AND resource_type = 'scene'
+    `).all(userId);
+    
+    return rows.map(r => r.resourceId);
+  }
+
   /**
    * Remove all access for a user
    */
@@ -100,7 +141,14 @@ export class ACLService {
   /**
    * Set user access (replace all existing access)
    */
-  static setUserAccess(userId: string, devices: string[], rooms: string[]): void {
+  static setUserAccess(
+    userId: string,
+    devices: string[],
+    rooms: string[],
+    locations: string[] = [],
+    groups: string[] = [],
+    scenes: string[] = []
+  ): void {
     db.transaction(() => {
       // Remove all existing access
       this.removeAllUserAccess(userId);
@@ -114,6 +162,21 @@ export class ACLService {
       rooms.forEach(roomId => {
         this.grantAccess(userId, 'room', roomId);
       });
+      
+      // Grant location access (every device at the location)
+      locations.forEach(locationId => {
+        this.grantAccess(userId, 'location', locationId);
+      });
+      
+      // Grant device group access
+      groups.forEach(groupId => {
+        this.grantAccess(userId, 'group', groupId);
+      });
+      
+      // Grant scene access (run the scene whatever its devices)
+      scenes.forEach(sceneId => {
+        this.grantAccess(userId, 'scene', sceneId);
+      });
     })();
   }
 }
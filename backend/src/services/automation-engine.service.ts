@@ -0,0 +1,334 @@
+import { randomBytes } from 'crypto';
+import { logger } from '../utils/logger';
+import {
+  ActionResult,
+  AttributeRef,
+  AutomationAction,
+  AutomationRule,
+  AutomationRun,
+  AutomationService,
+  AutomationTrigger,
+} from './automation.service';
+import { evaluateConditions, triggerMatchesEvent } from './automation-evaluator';
+import { runCommand } from './command-runner';
+import { DeviceEvent, deviceEventService } from './device-event.service';
+import { deviceInventory } from './device-inventory.service';
+import { DeviceProviderError } from './device-provider';
+import { DeviceActor } from './device-source';
+import { HomeModeChange } from './home-mode.service';
+import { HomeModeChangeError, homeModeManager } from './home-mode-manager.service';
+import { nextRunTime, ScheduleTrigger } from './schedule.service';
+import { runScene } from './scene-runner';
+import { UserService } from './user.service';
+import { websocketService } from './websocket.service';
+
+/** Longest sleep between time trigger checks, so clock changes are noticed */
+const MAX_SLEEP_MS = 60 * 1000;
+
+/** Shortest sleep, so a trigger that keeps failing to run can't spin */
+const MIN_SLEEP_MS = 1000;
+
+/** A rule may run at most this often, so one that retriggers itself can't loop forever */
+export const MAX_RUNS_PER_MINUTE = 10;
+
+/** Longest delay action */
+export const MAX_DELAY_SECONDS = 60 * 60;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isTimeTrigger(trigger: AutomationTrigger): trigger is ScheduleTrigger {
+  return trigger.type === 'time' || trigger.type === 'sun' || trigger.type === 'cron';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms).unref());
+}
+
+/**
+ * Read one attribute of a real device
+ */
+async function readAttribute(ref: AttributeRef): Promise<unknown> {
+  const status = await deviceInventory.getDeviceStatus(ref.deviceId);
+  return status.components?.[ref.component || 'main']?.[ref.capability]?.[ref.attribute]?.value;
+}
+
+/**
+ * Run one action of a rule as its owner
+ * Commands and scenes go through the same checks and audit as running them
+ * by hand.
+ */
+async function runAction(actor: DeviceActor, rule: AutomationRule, action: AutomationAction, index: number): Promise<ActionResult> {
+  const started = Date.now();
+  const result = (outcome: Partial<ActionResult> = {}): ActionResult => ({
+    index,
+    type: action.type,
+    success: !outcome.error,
+    durationMs: Date.now() - started,
+    ...outcome,
+  });
+
+  try {
+    switch (action.type) {
+      case 'command': {
+        const outcome = await runCommand(actor, action.deviceId, {
+          component: action.component || 'main',
+          capability: action.capability,
+          command: action.command,
+          arguments: action.arguments,
+        }, { type: 'automation', automationId: rule.ruleId });
+        return result({ error: outcome.error, code: outcome.code });
+      }
+      case 'scene': {
+        const execution = await runScene(actor, action.sceneId, { automationId: rule.ruleId });
+        return result({
+          executionId: execution.executionId,
+          error: execution.error || (execution.failed > 0 ? `${execution.failed} of ${execution.actions.length} actions failed` : undefined),
+          code: execution.code,
+        });
+      }
+      case 'notify': {
+        const message = {
+          type: 'notification',
+          notification: { ruleId: rule.ruleId, ruleName: rule.name, message: action.message, timestamp: new Date().toISOString() },
+        };
+        const recipients = action.everyone ? UserService.getAllUsers().map(user => user.id) : [rule.userId];
+        recipients.forEach(userId => websocketService.broadcastToUser(userId, message));
+        return result();
+      }
+      case 'delay':
+        await sleep(Math.min(action.seconds, MAX_DELAY_SECONDS) * 1000);
+        return result();
+      case 'mode':
+        await homeModeManager.setMode(action.mode, {
+          source: 'automation',
+          user: actor.user,
+          details: { automationId: rule.ruleId },
+        });
+        return result();
+    }
+  } catch (error) {
+    const code = error instanceof DeviceProviderError || error instanceof HomeModeChangeError ? error.code : undefined;
+    return result({ error: errorMessage(error), code });
+  }
+}
+
+/**
+ * Automation engine
+ *
+ * Fires rules from the device event stream, home mode changes, webhook calls
+ * and their own time triggers, which are planned like schedules (but missed
+ * times are not caught up). A fired rule checks its conditions against the
+ * current device state, then runs its actions in order as its owner. A rule
+ * that is still running (e.g. waiting in a delay) skips further triggers, and
+ * so does one that already ran MAX_RUNS_PER_MINUTE times in the last minute.
+ */
+export class AutomationEngine {
+  private rules: AutomationRule[] = [];
+  private nextTimes: Map<string, { rule: AutomationRule; index: number; at: Date }> = new Map();
+  private active: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  private onDeviceEvent = (event: DeviceEvent) => {
+    this.handleDeviceEvent(event).catch(error => logger.warn(`Automation check failed: ${errorMessage(error)}`));
+  };
+
+  private onModeChange = (change: HomeModeChange) => {
+    this.handleModeChange(change.mode, change.previousMode).catch(error => logger.warn(`Automation check failed: ${errorMessage(error)}`));
+  };
+
+  /**
+   * Start firing rules in the background
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    deviceEventService.on('device-event', this.onDeviceEvent);
+    homeModeManager.on('mode-change', this.onModeChange);
+    this.refresh();
+    logger.info('✓ Automation engine started');
+  }
+
+  stop(): void {
+    this.running = false;
+    deviceEventService.off('device-event', this.onDeviceEvent);
+    homeModeManager.off('mode-change', this.onModeChange);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Reload the enabled rules after rules changed
+   */
+  refresh(now: Date = new Date()): void {
+    this.rules = AutomationService.getEnabled();
+    this.nextTimes.clear();
+    for (const rule of this.rules) {
+      rule.triggers.forEach((trigger, index) => {
+        const at = isTimeTrigger(trigger) ? nextRunTime(trigger, now) : undefined;
+        if (at) {
+          this.nextTimes.set(`${rule.ruleId}:${index}`, { rule, index, at });
+        }
+      });
+    }
+    this.planWake();
+  }
+
+  /**
+   * Fire the rules with a trigger on a changed device attribute
+   */
+  handleDeviceEvent(event: DeviceEvent): Promise<AutomationRun[]> {
+    const change = { ...event, component: event.component || 'main' };
+    return this.fireMatching(
+      trigger => triggerMatchesEvent(trigger, change),
+      { deviceId: event.deviceId, capability: event.capability, attribute: event.attribute, value: event.value }
+    );
+  }
+
+  /**
+   * Fire the rules with a trigger on the home mode
+   */
+  handleModeChange(mode: string, previousMode?: string): Promise<AutomationRun[]> {
+    return this.fireMatching(
+      trigger => trigger.type === 'mode' && (!trigger.mode || trigger.mode === mode),
+      { mode, previousMode }
+    );
+  }
+
+  /**
+   * Fire a rule from its webhook without waiting for the run, which is
+   * recorded under the returned runId once it's finished; returns undefined
+   * if the rule is disabled or has no webhook trigger
+   */
+  startWebhook(
+    rule: AutomationRule,
+    details: Record<string, unknown> = {}
+  ): { runId: string; finished: Promise<AutomationRun> } | undefined {
+    const index = rule.triggers.findIndex(trigger => trigger.type === 'webhook');
+    if (!rule.enabled || index < 0) return undefined;
+    const runId = randomBytes(16).toString('hex');
+    return { runId, finished: this.fire(rule, index, details, runId) };
+  }
+
+  /**
+   * Fire a rule from its webhook and wait for the run (see startWebhook)
+   */
+  async handleWebhook(rule: AutomationRule, details: Record<string, unknown> = {}): Promise<AutomationRun | undefined> {
+    return this.startWebhook(rule, details)?.finished;
+  }
+
+  /**
+   * Fire every time trigger that is due
+   */
+  async runDueTimes(now: Date = new Date()): Promise<AutomationRun[]> {
+    const due = [...this.nextTimes.entries()].filter(([, planned]) => planned.at <= now);
+    const runs = due.map(([key, { rule, index, at }]) => {
+      const next = nextRunTime(rule.triggers[index] as ScheduleTrigger, now);
+      if (next) {
+        this.nextTimes.set(key, { rule, index, at: next });
+      } else {
+        this.nextTimes.delete(key);
+      }
+      return this.fire(rule, index, { scheduledFor: at.toISOString() });
+    });
+    return Promise.all(runs);
+  }
+
+  /**
+   * Check a rule's conditions and run its actions, recording the run
+   * The rule is claimed as running before the first await.
+   */
+  async fire(
+    rule: AutomationRule,
+    triggerIndex: number,
+    details: Record<string, unknown> = {},
+    runId?: string
+  ): Promise<AutomationRun> {
+    const startedAt = new Date();
+    const base = {
+      runId,
+      ruleId: rule.ruleId,
+      trigger: { index: triggerIndex, type: rule.triggers[triggerIndex].type, details },
+      startedAt: startedAt.toISOString(),
+    };
+    const finish = (run: Omit<AutomationRun, 'runId' | 'ruleId' | 'trigger' | 'startedAt' | 'finishedAt'>) => {
+      const recorded = AutomationService.recordRun({ ...base, ...run, finishedAt: new Date().toISOString() });
+      websocketService.broadcastToUser(rule.userId, { type: 'automation-run', run: recorded });
+      return recorded;
+    };
+
+    if (this.active.has(rule.ruleId)) {
+      return finish({ status: 'skipped', conditions: [], actions: [], error: 'Still running from an earlier trigger' });
+    }
+    const lastMinute = new Date(startedAt.getTime() - 60 * 1000);
+    if (AutomationService.countRunsSince(rule.ruleId, lastMinute) >= MAX_RUNS_PER_MINUTE) {
+      return finish({ status: 'skipped', conditions: [], actions: [], error: 'Fired too often in the last minute' });
+    }
+
+    this.active.add(rule.ruleId);
+    try {
+      const owner = UserService.getUserById(rule.userId);
+      if (!owner) {
+        return finish({ status: 'failed', conditions: [], actions: [], error: 'The rule\'s owner no longer exists' });
+      }
+
+      const conditions = await evaluateConditions(rule.conditions, { now: startedAt, readAttribute });
+      if (conditions.some(condition => !condition.passed)) {
+        return finish({ status: 'skipped', conditions, actions: [] });
+      }
+
+      const actor: DeviceActor = { user: owner, isDemoMode: false };
+      const actions: ActionResult[] = [];
+      for (const [index, action] of rule.actions.entries()) {
+        actions.push(await runAction(actor, rule, action, index));
+      }
+
+      const failed = actions.filter(action => !action.success).length;
+      if (failed > 0) {
+        logger.warn(`Automation ${rule.name} (${rule.ruleId}): ${failed} of ${actions.length} actions failed`);
+      }
+      return finish({
+        status: failed > 0 ? 'failed' : 'success',
+        conditions,
+        actions,
+        error: failed > 0 ? `${failed} of ${actions.length} actions failed` : undefined,
+      });
+    } finally {
+      this.active.delete(rule.ruleId);
+    }
+  }
+
+  private fireMatching(
+    matches: (trigger: AutomationTrigger) => boolean,
+    details: Record<string, unknown>
+  ): Promise<AutomationRun[]> {
+    const runs = this.rules.flatMap(rule => {
+      const index = rule.triggers.findIndex(matches);
+      return index >= 0 ? [this.fire(rule, index, details)] : [];
+    });
+    return Promise.all(runs);
+  }
+
+  private tick(): void {
+    this.runDueTimes().catch(error => logger.warn(`Automation time check failed: ${errorMessage(error)}`));
+    this.planWake();
+  }
+
+  private planWake(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    if (!this.running) return;
+
+    const times = [...this.nextTimes.values()].map(planned => planned.at.getTime());
+    const untilNext = times.length > 0 ? Math.min(...times) - Date.now() : MAX_SLEEP_MS;
+    this.timer = setTimeout(() => this.tick(), Math.min(Math.max(untilNext, MIN_SLEEP_MS), MAX_SLEEP_MS));
+    this.timer.unref();
+  }
+}
+
+export const automationEngine = new AutomationEngine();
@@ -0,0 +1,145 @@
+import {
+  AttributeRef,
+  AutomationCondition,
+  AutomationTrigger,
+  ComparisonOperator,
+  ConditionResult,
+} from './automation.service';
+
+/** An attribute change, as emitted by the device event stream or read back from device history */
+export interface AttributeChangeEvent extends AttributeRef {
+  component: string;
+  value: unknown;
+  previousValue?: unknown;
+}
+
+export interface EvaluationContext {
+  /** The current time (virtual when simulating) */
+  now: Date;
+  /** The current value of a device attribute; undefined if unknown */
+  readAttribute(ref: AttributeRef): Promise<unknown>;
+}
+
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Compare an attribute value with an expected one
+ * Numbers (and numeric strings, as stored in device history) compare
+ * numerically; anything else only supports eq and neq, by text.
+ */
+export function compareValues(actual: unknown, operator: ComparisonOperator, expected: unknown): boolean {
+  if (actual === undefined || actual === null) return false;
+
+  const a = asNumber(actual);
+  const b = asNumber(expected);
+  if (a !== undefined && b !== undefined) {
+    switch (operator) {
+      case 'eq': return a === b;
+      case 'neq': return a !== b;
+      case 'gt': return a > b;
+      case 'gte': return a >= b;
+      case 'lt': return a < b;
+      case 'lte': return a <= b;
+    }
+  }
+
+  const text = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+  switch (operator) {
+    case 'eq': return text(actual) === text(expected);
+    case 'neq': return text(actual) !== text(expected);
+    default: return false;
+  }
+}
+
+function sameAttribute(ref: AttributeRef, event: AttributeChangeEvent): boolean {
+  return ref.deviceId === event.deviceId &&
+    (ref.component || 'main') === event.component &&
+    ref.capability === event.capability &&
+    ref.attribute === event.attribute;
+}
+
+/**
+ * Whether an attribute change fires a trigger
+ * With a comparison the trigger fires only when the value starts to satisfy
+ * it, so a temperature rule fires once on crossing the threshold rather than
+ * on every reading above it.
+ */
+export function triggerMatchesEvent(trigger: AutomationTrigger, event: AttributeChangeEvent): boolean {
+  if (trigger.type !== 'attribute' || !sameAttribute(trigger, event)) return false;
+  if (!trigger.operator) return true;
+
+  return compareValues(event.value, trigger.operator, trigger.value) &&
+    !compareValues(event.previousValue, trigger.operator, trigger.value);
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a local time falls in a window
+ * A window that wraps past midnight belongs to the day it starts on, so
+ * "Fridays 22:00-06:00" includes Saturday 02:00.
+ */
+export function inTimeWindow(
+  window: { after: string; before: string; days?: number[] },
+  now: Date
+): boolean {
+  const current = now.getHours() * 60 + now.getMinutes();
+  const after = minutesOf(window.after);
+  const before = minutesOf(window.before);
+  const onDay = (day: number) => !window.days || window.days.includes(day);
+
+  if (after <= before) {
+    return current >= after && current < before && onDay(now.getDay());
+  }
+  if (current >= after) return onDay(now.getDay());
+  if (current < before) return onDay((now.getDay() + 6) % 7);
+  return false;
+}
+
+async function evaluateCondition(condition: AutomationCondition, context: EvaluationContext): Promise<Omit<ConditionResult, 'index'>> {
+  switch (condition.type) {
+    case 'attribute': {
+      const actual = await context.readAttribute(condition);
+      return { passed: compareValues(actual, condition.operator, condition.value), actual };
+    }
+    case 'timeWindow':
+      return { passed: inTimeWindow(condition, context.now) };
+    case 'presence': {
+      const actual = await context.readAttribute({
+        deviceId: condition.deviceId,
+        capability: 'presenceSensor',
+        attribute: 'presence',
+      });
+      return { passed: (actual === 'present') === condition.present, actual };
+    }
+  }
+}
+
+/**
+ * Evaluate every condition of a rule, in order
+ * A condition whose attribute can't be read fails rather than throwing.
+ */
+export async function evaluateConditions(
+  conditions: AutomationCondition[],
+  context: EvaluationContext
+): Promise<ConditionResult[]> {
+  const results: ConditionResult[] = [];
+  for (const [index, condition] of conditions.entries()) {
+    try {
+      results.push({ index, ...(await evaluateCondition(condition, context)) });
+    } catch (error) {
+      results.push({ index, passed: false });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,238 @@
+import {
+  AttributeRef,
+  AutomationAction,
+  AutomationRule,
+  AutomationTrigger,
+  ConditionResult,
+} from './automation.service';
+import { evaluateConditions, triggerMatchesEvent } from './automation-evaluator';
+import { MAX_DELAY_SECONDS, MAX_RUNS_PER_MINUTE } from './automation-engine.service';
+import {
+  DeviceHistoryEntry,
+  deviceHistoryService,
+  parseHistoryTimestamp,
+  toHistoryTimestamp,
+} from './device-history.service';
+import { SceneService } from './scene.service';
+import { Coordinates, nextRunTime, ScheduleTrigger } from './schedule.service';
+import { config } from '../config/env';
+
+/** Firings listed in a report; the summary still counts every one */
+const MAX_REPORTED_FIRINGS = 500;
+
+/** Occurrences of one time trigger considered, so `* * * * *` over a month stays bounded */
+const MAX_TIME_OCCURRENCES = 50000;
+
+export interface SimulatedAction {
+  index: number;
+  type: AutomationAction['type'];
+  /** When it would have run, after the delays before it */
+  at: string;
+  description: string;
+}
+
+export interface SimulatedFiring {
+  at: string;
+  trigger: { index: number; type: AutomationTrigger['type']; details?: Record<string, unknown> };
+  /** `skipped`: a condition didn't hold, the rule would still have been running, or it fired too often */
+  status: 'would-run' | 'skipped';
+  conditions: ConditionResult[];
+  actions: SimulatedAction[];
+  reason?: string;
+}
+
+export interface SimulationReport {
+  ruleId: string;
+  from: string;
+  to: string;
+  /** Recorded attribute changes replayed */
+  eventsReplayed: number;
+  firings: SimulatedFiring[];
+  /** More firings happened than are listed */
+  truncated: boolean;
+  summary: {
+    triggered: number;
+    wouldRun: number;
+    skipped: number;
+    /** Runs per local hour of day (0-23) */
+    byHour: number[];
+  };
+  /** Triggers that history can't replay (e.g. webhooks) */
+  notReplayed: { index: number; type: AutomationTrigger['type'] }[];
+}
+
+type TimelineItem =
+  | { at: Date; kind: 'change'; entry: DeviceHistoryEntry }
+  | { at: Date; kind: 'time'; index: number };
+
+const attributeKey = (ref: { deviceId: string; component?: string; capability: string; attribute: string }) =>
+  `${ref.deviceId}:${ref.component || 'main'}:${ref.capability}:${ref.attribute}`;
+
+function isTimeTrigger(trigger: AutomationTrigger): trigger is ScheduleTrigger {
+  return trigger.type === 'time' || trigger.type === 'sun' || trigger.type === 'cron';
+}
+
+/**
+ * Devices whose history a rule needs: those it's triggered by or checks
+ */
+function watchedDeviceIds(rule: AutomationRule): string[] {
+  const deviceIds = new Set<string>();
+  rule.triggers.forEach(trigger => trigger.type === 'attribute' && deviceIds.add(trigger.deviceId));
+  rule.conditions.forEach(condition => 'deviceId' in condition && deviceIds.add(condition.deviceId));
+  return [...deviceIds];
+}
+
+function describeAction(action: AutomationAction, labels: Map<string, string>): string {
+  switch (action.type) {
+    case 'command': {
+      const args = action.arguments?.length ? `(${action.arguments.map(arg => JSON.stringify(arg)).join(', ')})` : '';
+      return `${labels.get(action.deviceId) || action.deviceId}: ${action.capability}.${action.command}${args}`;
+    }
+    case 'scene':
+      return `Run scene ${SceneService.get(action.sceneId)?.name || action.sceneId}`;
+    case 'notify':
+      return `Notify ${action.everyone ? 'everyone' : 'owner'}: ${action.message}`;
+    case 'delay':
+      return `Wait ${Math.min(action.seconds, MAX_DELAY_SECONDS)}s`;
+    case 'mode':
+      return `Change home mode to ${action.mode}`;
+  }
+}
+
+/**
+ * Plan a rule's actions from a start time, without running them
+ */
+function planActions(rule: AutomationRule, start: Date, labels: Map<string, string>): { actions: SimulatedAction[]; end: Date } {
+  let at = start.getTime();
+  const actions = rule.actions.map((action, index) => {
+    const planned = { index, type: action.type, at: new Date(at).toISOString(), description: describeAction(action, labels) };
+    if (action.type === 'delay') {
+      at += Math.min(action.seconds, MAX_DELAY_SECONDS) * 1000;
+    }
+    return planned;
+  });
+  return { actions, end: new Date(at) };
+}
+
+/**
+ * Replay recorded device history through a rule
+ *
+ * Attribute changes of the devices the rule watches are replayed in order
+ * with a virtual clock, interleaved with the rule's time triggers, starting
+ * from the last values recorded before `from`. Every time the rule would have
+ * fired is reported with its condition results and the actions it would have
+ * taken. Nothing is commanded. Attributes with no recorded value count as
+ * unknown, so conditions on them fail, as they do when a device can't be read.
+ */
+export async function simulateAutomation(
+  rule: AutomationRule,
+  from: Date,
+  to: Date,
+  coordinates: Coordinates = config.schedules
+): Promise<SimulationReport> {
+  const deviceIds = watchedDeviceIds(rule);
+  const state = new Map<string, string>();
+  const labels = new Map<string, string>();
+
+  for (const entry of deviceHistoryService.getValuesBefore({ deviceIds, before: toHistoryTimestamp(from) })) {
+    state.set(attributeKey(entry), entry.value);
+    labels.set(entry.deviceId, entry.deviceLabel);
+  }
+
+  const changes = deviceHistoryService.getChanges({
+    deviceIds,
+    startDate: toHistoryTimestamp(from),
+    endDate: toHistoryTimestamp(to),
+  });
+  const timeline: TimelineItem[] = changes.map(entry => ({ at: parseHistoryTimestamp(entry.timestamp), kind: 'change', entry }));
+  changes.forEach(entry => labels.set(entry.deviceId, entry.deviceLabel));
+
+  rule.triggers.forEach((trigger, index) => {
+    if (!isTimeTrigger(trigger)) return;
+    let next = nextRunTime(trigger, new Date(from.getTime() - 1), coordinates);
+    for (let count = 0; next && next <= to && count < MAX_TIME_OCCURRENCES; count++) {
+      timeline.push({ at: next, kind: 'time', index });
+      next = nextRunTime(trigger, next, coordinates);
+    }
+  });
+  // Stable sort: at the same instant, changes stay in recorded order and come before time triggers
+  timeline.sort((a, b) => a.at.getTime() - b.at.getTime() || (a.kind === b.kind ? 0 : a.kind === 'change' ? -1 : 1));
+
+  const report: SimulationReport = {
+    ruleId: rule.ruleId,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    eventsReplayed: changes.length,
+    firings: [],
+    truncated: false,
+    summary: { triggered: 0, wouldRun: 0, skipped: 0, byHour: new Array(24).fill(0) },
+    notReplayed: rule.triggers
+      .map((trigger, index) => ({ index, type: trigger.type }))
+      .filter(trigger => trigger.type === 'mode' || trigger.type === 'webhook'),
+  };
+  const readAttribute = async (ref: AttributeRef) => state.get(attributeKey(ref));
+  let busyUntil = 0;
+  // When it would have run in the last minute, oldest first
+  const runTimes: number[] = [];
+
+  for (const item of timeline) {
+    let triggerIndex: number;
+    let details: Record<string, unknown>;
+    if (item.kind === 'change') {
+      const { entry } = item;
+      const key = attributeKey(entry);
+      const previousValue = state.has(key) ? state.get(key) : entry.previousValue;
+      state.set(key, entry.value);
+
+      const event = { ...entry, previousValue };
+      triggerIndex = rule.triggers.findIndex(trigger => triggerMatchesEvent(trigger, event));
+      details = { deviceId: entry.deviceId, capability: entry.capability, attribute: entry.attribute, value: entry.value };
+    } else {
+      triggerIndex = item.index;
+      details = { scheduledFor: item.at.toISOString() };
+    }
+    if (triggerIndex < 0) continue;
+
+    const firing: SimulatedFiring = {
+      at: item.at.toISOString(),
+      trigger: { index: triggerIndex, type: rule.triggers[triggerIndex].type, details },
+      status: 'skipped',
+      conditions: [],
+      actions: [],
+    };
+
+    while (runTimes.length > 0 && runTimes[0] < item.at.getTime() - 60 * 1000) runTimes.shift();
+    if (item.at.getTime() < busyUntil) {
+      firing.reason = 'Still running from an earlier trigger';
+    } else if (runTimes.length >= MAX_RUNS_PER_MINUTE) {
+      firing.reason = 'Fired too often in the last minute';
+    } else {
+      firing.conditions = await evaluateConditions(rule.conditions, { now: item.at, readAttribute });
+      const failed = firing.conditions.find(condition => !condition.passed);
+      if (failed) {
+        firing.reason = `Condition ${failed.index + 1} not met`;
+      } else {
+        const { actions, end } = planActions(rule, item.at, labels);
+        firing.status = 'would-run';
+        firing.actions = actions;
+        busyUntil = end.getTime();
+        runTimes.push(item.at.getTime());
+      }
+    }
+
+    report.summary.triggered++;
+    if (firing.status === 'would-run') {
+      report.summary.wouldRun++;
+      report.summary.byHour[item.at.getHours()]++;
+    } else {
+      report.summary.skipped++;
+    }
+    if (report.firings.length < MAX_REPORTED_FIRINGS) {
+      report.firings.push(firing);
+    } else {
+      report.truncated = true;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,353 @@
+import { randomBytes } from 'crypto';
+import { db } from '../database/db';
+import { HomeMode } from './home-mode.service';
+import { ScheduleTrigger } from './schedule.service';
+
+/** Older runs of a rule are pruned when a new one is recorded */
+const MAX_RUNS_PER_RULE = 100;
+
+export type ComparisonOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/** A device attribute, as named in device status */
+export interface AttributeRef {
+  deviceId: string;
+  component?: string;
+  capability: string;
+  attribute: string;
+}
+
+export type AutomationTrigger =
+  /** The attribute changed; with `operator`, only when it starts to satisfy the comparison */
+  | (AttributeRef & { type: 'attribute'; operator?: ComparisonOperator; value?: unknown })
+  /** A time, like a schedule's trigger (`time`, `sun` or `cron`) */
+  | ScheduleTrigger
+  /** The home mode changed (to `mode`, if given) */
+  | { type: 'mode'; mode?: HomeMode }
+  /** The rule's webhook URL was called */
+  | { type: 'webhook' };
+
+export type AutomationCondition =
+  | (AttributeRef & { type: 'attribute'; operator: ComparisonOperator; value: unknown })
+  /** Between two local times (HH:MM); wraps past midnight when `after` is later than `before` */
+  | { type: 'timeWindow'; after: string; before: string; days?: number[] }
+  /** A presence sensor (e.g. someone's phone) is home, or away */
+  | { type: 'presence'; deviceId: string; present: boolean };
+
+export type AutomationAction =
+  | { type: 'command'; deviceId: string; component?: string; capability: string; command: string; arguments?: unknown[] }
+  | { type: 'scene'; sceneId: string }
+  /** Pushed to the rule's owner, or to every user */
+  | { type: 'notify'; message: string; everyone?: boolean }
+  | { type: 'delay'; seconds: number }
+  /** Changes the home mode as the rule's owner */
+  | { type: 'mode'; mode: HomeMode };
+
+export interface AutomationRule {
+  ruleId: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  /** Any one of them starts the rule */
+  triggers: AutomationTrigger[];
+  /** All of them must hold for the actions to run */
+  conditions: AutomationCondition[];
+  /** Run in order */
+  actions: AutomationAction[];
+  /** The user the actions run as */
+  userId: string;
+  createdBy: string;
+  /** Secret part of the webhook URL, for rules with a webhook trigger */
+  webhookToken?: string;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AutomationRuleInput = Pick<AutomationRule, 'name' | 'description' | 'enabled' | 'triggers' | 'conditions' | 'actions'>;
+
+export interface ConditionResult {
+  index: number;
+  passed: boolean;
+  /** The value the condition looked at, when there is one */
+  actual?: unknown;
+}
+
+export interface ActionResult {
+  index: number;
+  type: AutomationAction['type'];
+  success: boolean;
+  error?: string;
+  code?: string;
+  /** The scene execution report, for scene actions */
+  executionId?: string;
+  durationMs: number;
+}
+
+export interface AutomationRun {
+  runId: string;
+  ruleId: string;
+  /** What started the run */
+  trigger: { index: number; type: AutomationTrigger['type']; details?: Record<string, unknown> };
+  /** `skipped`: a condition didn't hold, or the rule was still running */
+  status: 'success' | 'failed' | 'skipped';
+  conditions: ConditionResult[];
+  actions: ActionResult[];
+  error?: string;
+  startedAt: string;
+  finishedAt: string;
+}
+
+interface AutomationRow {
+  id: string;
+  name: string;
+  description: string | null;
+  enabled: number;
+  triggers: string;
+  conditions: string;
+  actions: string;
+  user_id: string;
+  created_by: string;
+  webhook_token: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AutomationRunRow {
+  id: string;
+  rule_id: string;
+  trigger: string;
+  status: AutomationRun['status'];
+  conditions: string;
+  actions: string;
+  error: string | null;
+  started_at: string;
+  finished_at: string;
+}
+
+function toRule(row: AutomationRow): AutomationRule {
+  return {
+    ruleId: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    enabled: row.enabled === 1,
+    triggers: JSON.parse(row.triggers),
+    conditions: JSON.parse(row.conditions),
+    actions: JSON.parse(row.actions),
+    userId: row.user_id,
+    createdBy: row.created_by,
+    webhookToken: row.webhook_token || undefined,
+    lastRunAt: row.last_run_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toRun(row: AutomationRunRow): AutomationRun {
+  return {
+    runId: row.id,
+    ruleId: row.rule_id,
+    trigger: JSON.parse(row.trigger),
+    status: row.status,
+    conditions: JSON.parse(row.conditions),
+    actions: JSON.parse(row.actions),
+    error: row.error || undefined,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/**
+ * A webhook token for rules that need one: kept across updates, created when
+ * a webhook trigger is added, dropped when it's removed
+ */
+function webhookTokenFor(triggers: AutomationTrigger[], existing?: string): string | undefined {
+  if (!triggers.some(trigger => trigger.type === 'webhook')) return undefined;
+  return existing || randomBytes(24).toString('hex');
+}
+
+/**
+ * Automation rules
+ *
+ * A rule runs its actions, as the user who created it, when one of its
+ * triggers fires and all of its conditions hold. Every evaluation is kept in
+ * the rule's run log, including those skipped because a condition failed.
+ */
+export class AutomationService {
+  /**
+   * All rules, or only one user's
+   */
+  static getAll(userId?: string): AutomationRule[] {
+    const rows = userId
+      ? db.prepare<unknown[], AutomationRow>('SELECT * FROM automations WHERE user_id = ? ORDER BY name').all(userId)
+      : db.prepare<unknown[], AutomationRow>('SELECT * FROM automations ORDER BY name').all();
+    return rows.map(toRule);
+  }
+
+  static getEnabled(): AutomationRule[] {
+    return db.prepare<unknown[], AutomationRow>('SELECT * FROM automations WHERE enabled = 1')
+      .all()
+      .map(toRule);
+  }
+
+  static get(ruleId: string): AutomationRule | undefined {
+    const row = db.prepare<unknown[], AutomationRow>('SELECT * FROM automations WHERE id = ?').get(ruleId);
+    return row ? toRule(row) : undefined;
+  }
+
+  static getByWebhookToken(token: string): AutomationRule | undefined {
+    const row = db.prepare<unknown[], AutomationRow>('SELECT * FROM automations WHERE webhook_token = ?').get(token);
+    return row ? toRule(row) : undefined;
+  }
+
+  static create(input: AutomationRuleInput, owner: { id: string; username: string }): AutomationRule {
+    const now = new Date().toISOString();
+    const rule: AutomationRule = {
+      ruleId: randomBytes(16).toString('hex'),
+      name: input.name.trim(),
+      description: input.description?.trim() || undefined,
+      enabled: input.enabled,
+      triggers: input.triggers,
+      conditions: input.conditions,
+      actions: input.actions,
+      userId: owner.id,
+      createdBy: owner.username,
+      webhookToken: webhookTokenFor(input.triggers),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    db.prepare(`
+      INSERT INTO automations (
+        id, name, description, enabled, triggers, conditions, actions, user_id, created_by, webhook_token, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      rule.ruleId,
+      rule.name,
+      rule.description || null,
+      rule.enabled ? 1 : 0,
+      JSON.stringify(rule.triggers),
+      JSON.stringify(rule.conditions),
+      JSON.stringify(rule.actions),
+      rule.userId,
+      rule.createdBy,
+      rule.webhookToken || null,
+      now,
+      now
+    );
+
+    return rule;
+  }
+
+  /**
+   * Replace a rule's name, triggers, conditions and actions; undefined if it
+   * doesn't exist
+   */
+  static update(ruleId: string, input: AutomationRuleInput): AutomationRule | undefined {
+    const existing = this.get(ruleId);
+    if (!existing) return undefined;
+
+    const rule: AutomationRule = {
+      ...existing,
+      name: input.name.trim(),
+      description: input.description?.trim() || undefined,
+      enabled: input.enabled,
+      triggers: input.triggers,
+      conditions: input.conditions,
+      actions: input.actions,
+      webhookToken: webhookTokenFor(input.triggers, existing.webhookToken),
+      updatedAt: new Date().toISOString(),
+    };
+
+    db.prepare(`
+      UPDATE automations
+      SET name = ?, description = ?, enabled = ?, triggers = ?, conditions = ?, actions = ?, webhook_token = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      rule.name,
+      rule.description || null,
+      rule.enabled ? 1 : 0,
+      JSON.stringify(rule.triggers),
+      JSON.stringify(rule.conditions),
+      JSON.stringify(rule.actions),
+      rule.webhookToken || null,
+      rule.updatedAt,
+      ruleId
+    );
+
+    return rule;
+  }
+
+  /**
+   * Turn a rule on or off; undefined if it doesn't exist
+   */
+  static setEnabled(ruleId: string, enabled: boolean): AutomationRule | undefined {
+    const changed = db.prepare('UPDATE automations SET enabled = ?, updated_at = ? WHERE id = ?')
+      .run(enabled ? 1 : 0, new Date().toISOString(), ruleId).changes > 0;
+    return changed ? this.get(ruleId) : undefined;
+  }
+
+  /**
+   * Delete a rule and its run log; returns false if it didn't exist
+   */
+  static remove(ruleId: string): boolean {
+    return db.transaction(() => {
+      db.prepare('DELETE FROM automation_runs WHERE rule_id = ?').run(ruleId);
+      return db.prepare('DELETE FROM automations WHERE id = ?').run(ruleId).changes > 0;
+    })();
+  }
+
+  static recordRun(input: Omit<AutomationRun, 'runId'> & { runId?: string }): AutomationRun {
+    const run: AutomationRun = { ...input, runId: input.runId ?? randomBytes(16).toString('hex') };
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO automation_runs (id, rule_id, trigger, status, conditions, actions, error, started_at, finished_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        run.runId,
+        run.ruleId,
+        JSON.stringify(run.trigger),
+        run.status,
+        JSON.stringify(run.conditions),
+        JSON.stringify(run.actions),
+        run.error || null,
+        run.startedAt,
+        run.finishedAt
+      );
+
+      if (run.status !== 'skipped') {
+        db.prepare('UPDATE automations SET last_run_at = ? WHERE id = ?').run(run.startedAt, run.ruleId);
+      }
+
+      db.prepare(`
+        DELETE FROM automation_runs
+        WHERE rule_id = ? AND id NOT IN (
+          SELECT id FROM automation_runs WHERE rule_id = ? ORDER BY started_at DESC LIMIT ?
+        )
+      `).run(run.ruleId, run.ruleId, MAX_RUNS_PER_RULE);
+    })();
+
+    return run;
+  }
+
+  /**
+   * How many times a rule ran its actions (or tried to) since a time
+   */
+  static countRunsSince(ruleId: string, since: Date): number {
+    const row = db.prepare<unknown[], { count: number }>(
+      "SELECT COUNT(*) AS count FROM automation_runs WHERE rule_id = ? AND status != 'skipped' AND started_at >= ?"
+    ).get(ruleId, since.toISOString());
+    return row?.count || 0;
+  }
+
+  /**
+   * Most recent runs of a rule, newest first
+   */
+  static listRuns(ruleId: string, limit = 20): AutomationRun[] {
+    return db.prepare<unknown[], AutomationRunRow>(
+      'SELECT * FROM automation_runs WHERE rule_id = ? ORDER BY started_at DESC LIMIT ?'
+    ).all(ruleId, limit).map(toRun);
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Capability definitions
+ *
+ * Local copies of the SmartThings standard capabilities the app controls or
+ * displays: their attributes (with units) and commands (with argument types
+ * and ranges). Commands for capabilities not listed here are passed through
+ * unvalidated.
+ */
+
+export type ValueSchema =
+  | { type: 'integer' | 'number'; minimum?: number; maximum?: number }
+  | { type: 'string'; enum?: string[] }
+  | { type: 'object'; properties: Record<string, ValueSchema>; required?: string[] };
+
+export interface AttributeDefinition {
+  schema: ValueSchema;
+  /** Units the attribute may be reported in; the first is the default */
+  units?: string[];
+}
+
+export interface CommandArgument {
+  name: string;
+  schema: ValueSchema;
+  optional?: boolean;
+}
+
+export interface CommandDefinition {
+  arguments: CommandArgument[];
+}
+
+export interface CapabilityDefinition {
+  id: string;
+  name: string;
+  version: number;
+  attributes: Record<string, AttributeDefinition>;
+  commands: Record<string, CommandDefinition>;
+}
+
+const PERCENT: ValueSchema = { type: 'integer', minimum: 0, maximum: 100 };
+const SETPOINT: ValueSchema = { type: 'number', minimum: -460, maximum: 10000 };
+const THERMOSTAT_MODES = ['auto', 'cool', 'eco', 'emergency heat', 'heat', 'off'];
+const FAN_MODES = ['auto', 'circulate', 'followschedule', 'on'];
+
+function enumOf(...values: string[]): ValueSchema {
+  return { type: 'string', enum: values };
+}
+
+/** Commands without arguments */
+function noArgs(...commands: string[]): Record<string, CommandDefinition> {
+  return Object.fromEntries(commands.map(command => [command, { arguments: [] }]));
+}
+
+export const CAPABILITY_DEFINITIONS: CapabilityDefinition[] = [
+  {
+    id: 'switch',
+    name: 'Switch',
+    version: 1,
+    attributes: { switch: { schema: enumOf('on', 'off') } },
+    commands: noArgs('on', 'off'),
+  },
+  {
+    id: 'switchLevel',
+    name: 'Switch Level',
+    version: 1,
+    attributes: { level: { schema: PERCENT, units: ['%'] } },
+    commands: {
+      setLevel: {
+        arguments: [
+          { name: 'level', schema: PERCENT },
+          { name: 'rate', schema: { type: 'integer', minimum: 0 }, optional: true },
+        ],
+      },
+    },
+  },
+  {
+    id: 'colorControl',
+    name: 'Color Control',
+    version: 1,
+    attributes: {
+      hue: { schema: { type: 'number', minimum: 0, maximum: 100 }, units: ['%'] },
+      saturation: { schema: { type: 'number', minimum: 0, maximum: 100 }, units: ['%'] },
+      color: { schema: { type: 'string' } },
+    },
+    commands: {
+      setColor: {
+        arguments: [
+          {
+            name: 'color',
+            schema: {
+              type: 'object',
+              properties: {
+                hue: { type: 'number', minimum: 0, maximum: 100 },
+                saturation: { type: 'number', minimum: 0, maximum: 100 },
+                hex: { type: 'string' },
+                level: PERCENT,
+                switch: enumOf('on', 'off'),
+              },
+              required: ['hue', 'saturation'],
+            },
+          },
+        ],
+      },
+      setHue: { arguments: [{ name: 'hue', schema: { type: 'number', minimum: 0, maximum: 100 } }] },
+      setSaturation: { arguments: [{ name: 'saturation', schema: { type: 'number', minimum: 0, maximum: 100 } }] },
+    },
+  },
+  {
+    id: 'colorTemperature',
+    name: 'Color Temperature',
+    version: 1,
+    attributes: { colorTemperature: { schema: { type: 'integer', minimum: 1, maximum: 30000 }, units: ['K'] } },
+    commands: {
+      setColorTemperature: {
+        arguments: [{ name: 'temperature', schema: { type: 'integer', minimum: 1, maximum: 30000 } }],
+      },
+    },
+  },
+  {
+    id: 'thermostatMode',
+    name: 'Thermostat Mode',
+    version: 1,
+    attributes: { thermostatMode: { schema: enumOf(...THERMOSTAT_MODES) } },
+    commands: {
+      ...noArgs('auto', 'cool', 'emergencyHeat', 'heat', 'off'),
+      setThermostatMode: { arguments: [{ name: 'mode', schema: enumOf(...THERMOSTAT_MODES) }] },
+    },
+  },
+  {
+    id: 'thermostatHeatingSetpoint',
+    name: 'Thermostat Heating Setpoint',
+    version: 1,
+    attributes: { heatingSetpoint: { schema: SETPOINT, units: ['F', 'C'] } },
+    commands: { setHeatingSetpoint: { arguments: [{ name: 'setpoint', schema: SETPOINT }] } },
+  },
+  {
+    id: 'thermostatCoolingSetpoint',
+    name: 'Thermostat Cooling Setpoint',
+    version: 1,
+    attributes: { coolingSetpoint: { schema: SETPOINT, units: ['F', 'C'] } },
+    commands: { setCoolingSetpoint: { arguments: [{ name: 'setpoint', schema: SETPOINT }] } },
+  },
+  {
+    id: 'thermostatFanMode',
+    name: 'Thermostat Fan Mode',
+    version: 1,
+    attributes: { thermostatFanMode: { schema: enumOf(...FAN_MODES) } },
+    commands: {
+      ...noArgs('fanAuto', 'fanCirculate', 'fanOn'),
+      setThermostatFanMode: { arguments: [{ name: 'mode', schema: enumOf(...FAN_MODES) }] },
+    },
+  },
+  {
+    id: 'thermostatOperatingState',
+    name: 'Thermostat Operating State',
+    version: 1,
+    attributes: {
+      thermostatOperatingState: {
+        schema: enumOf('cooling', 'fan only', 'heating', 'idle', 'pending cool', 'pending heat', 'vent economizer'),
+      },
+    },
+    commands: {},
+  },
+  {
+    id: 'lock',
+    name: 'Lock',
+    version: 1,
+    attributes: { lock: { schema: enumOf('locked', 'unknown', 'unlocked', 'unlocked with timeout') } },
+    commands: noArgs('lock', 'unlock'),
+  },
+  {
+    id: 'fanSpeed',
+    name: 'Fan Speed',
+    version: 1,
+    attributes: { fanSpeed: { schema: { type: 'integer', minimum: 0 } } },
+    commands: { setFanSpeed: { arguments: [{ name: 'speed', schema: { type: 'integer', minimum: 0 } }] } },
+  },
+  {
+    id: 'windowShade',
+    name: 'Window Shade',
+    version: 1,
+    attributes: {
+      windowShade: { schema: enumOf('closed', 'closing', 'open', 'opening', 'partially open', 'unknown') },
+    },
+    commands: noArgs('open', 'close', 'pause'),
+  },
+  {
+    id: 'temperatureMeasurement',
+    name: 'Temperature Measurement',
+    version: 1,
+    attributes: { temperature: { schema: { type: 'number', minimum: -460, maximum: 10000 }, units: ['F', 'C'] } },
+    commands: {},
+  },
+  {
+    id: 'relativeHumidityMeasurement',
+    name: 'Relative Humidity Measurement',
+    version: 1,
+    attributes: { humidity: { schema: { type: 'number', minimum: 0, maximum: 100 }, units: ['%'] } },
+    commands: {},
+  },
+  {
+    id: 'contactSensor',
+    name: 'Contact Sensor',
+    version: 1,
+    attributes: { contact: { schema: enumOf('closed', 'open') } },
+    commands: {},
+  },
+  {
+    id: 'motionSensor',
+    name: 'Motion Sensor',
+    version: 1,
+    attributes: { motion: { schema: enumOf('active', 'inactive') } },
+    commands: {},
+  },
+  {
+    id: 'presenceSensor',
+    name: 'Presence Sensor',
+    version: 1,
+    attributes: { presence: { schema: enumOf('present', 'not present') } },
+    commands: {},
+  },
+  {
+    id: 'waterSensor',
+    name: 'Water Sensor',
+    version: 1,
+    attributes: { water: { schema: enumOf('dry', 'wet') } },
+    commands: {},
+  },
+  {
+    id: 'powerMeter',
+    name: 'Power Meter',
+    version: 1,
+    attributes: { power: { schema: { type: 'number', minimum: 0 }, units: ['W'] } },
+    commands: {},
+  },
+  {
+    id: 'energyMeter',
+    name: 'Energy Meter',
+    version: 1,
+    attributes: { energy: { schema: { type: 'number', minimum: 0 }, units: ['kWh', 'Wh'] } },
+    commands: {},
+  },
+  {
+    id: 'battery',
+    name: 'Battery',
+    version: 1,
+    attributes: { battery: { schema: PERCENT, units: ['%'] } },
+    commands: {},
+  },
+  {
+    id: 'button',
+    name: 'Button',
+    version: 1,
+    attributes: {
+      button: { schema: enumOf('pushed', 'held', 'double', 'pushed_2x', 'pushed_3x', 'down', 'up') },
+    },
+    commands: {},
+  },
+  {
+    id: 'refresh',
+    name: 'Refresh',
+    version: 1,
+    attributes: {},
+    commands: noArgs('refresh'),
+  },
+];
@@ -0,0 +1,140 @@
+import { CAPABILITY_DEFINITIONS, CapabilityDefinition, ValueSchema } from './capability-definitions';
+import { Device, DeviceCommand, DeviceProviderError } from './device-provider';
+
+/**
+ * Describe why a value does not match a schema, or return undefined if it does
+ */
+export function checkValue(name: string, schema: ValueSchema, value: unknown): string | undefined {
+  switch (schema.type) {
+    case 'integer':
+    case 'number': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${name} must be a number`;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return `${name} must be a whole number`;
+      }
+      const { minimum, maximum } = schema;
+      if ((minimum !== undefined && value < minimum) || (maximum !== undefined && value > maximum)) {
+        if (minimum !== undefined && maximum !== undefined) {
+          return `${name} must be between ${minimum} and ${maximum}`;
+        }
+        return minimum !== undefined ? `${name} must be at least ${minimum}` : `${name} must be at most ${maximum}`;
+      }
+      return undefined;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return `${name} must be a string`;
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return `${name} must be one of: ${schema.enum.join(', ')}`;
+      }
+      return undefined;
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${name} must be an object`;
+      }
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required || []).find(key => record[key] === undefined);
+      if (missing) {
+        return `${name}.${missing} is required`;
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] !== undefined) {
+          const problem = checkValue(`${name}.${key}`, propertySchema, record[key]);
+          if (problem) return problem;
+        }
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Capability registry
+ *
+ * Knows the commands, arguments and attributes of standard capabilities and
+ * validates commands before they are sent, so malformed requests fail with
+ * a clear BAD_ARGUMENTS error instead of an opaque provider error.
+ */
+export class CapabilityRegistry {
+  private definitions: Map<string, CapabilityDefinition> = new Map();
+
+  constructor(definitions: CapabilityDefinition[] = CAPABILITY_DEFINITIONS) {
+    definitions.forEach(definition => this.register(definition));
+  }
+
+  /**
+   * Add or replace a capability definition
+   */
+  register(definition: CapabilityDefinition): void {
+    this.definitions.set(definition.id, definition);
+  }
+
+  get(capabilityId: string): CapabilityDefinition | undefined {
+    return this.definitions.get(capabilityId);
+  }
+
+  list(): CapabilityDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Check a command against the device's declared capabilities and the
+   * capability definition; throws BAD_ARGUMENTS when it cannot succeed
+   */
+  validateCommand(device: Device, command: DeviceCommand): void {
+    const componentId = command.component || 'main';
+    const component = device.components?.[componentId];
+    if (!component) {
+      throw new DeviceProviderError(`Device has no component: ${componentId}`, 'BAD_ARGUMENTS');
+    }
+
+    // Providers that don't list capabilities are trusted to reject unknown ones
+    const declared = component.capabilities || [];
+    if (declared.length > 0 && !declared.some(capability => capability.id === command.capability)) {
+      throw new DeviceProviderError(
+        `Component ${componentId} does not support capability: ${command.capability}`,
+        'BAD_ARGUMENTS'
+      );
+    }
+
+    const definition = this.get(command.capability);
+    if (!definition) return;
+
+    const commandDefinition = definition.commands[command.command];
+    if (!commandDefinition) {
+      throw new DeviceProviderError(`Unsupported command: ${command.capability}.${command.command}`, 'BAD_ARGUMENTS');
+    }
+
+    const args = command.arguments || [];
+    if (args.length > commandDefinition.arguments.length) {
+      throw new DeviceProviderError(
+        `${command.capability}.${command.command} takes at most ${commandDefinition.arguments.length} argument(s)`,
+        'BAD_ARGUMENTS'
+      );
+    }
+
+    for (const [index, argument] of commandDefinition.arguments.entries()) {
+      const value = args[index];
+      if (value === undefined || value === null) {
+        if (argument.optional) continue;
+        throw new DeviceProviderError(
+          `${command.capability}.${command.command} requires ${argument.name}`,
+          'BAD_ARGUMENTS'
+        );
+      }
+
+      const problem = checkValue(argument.name, argument.schema, value);
+      if (problem) {
+        throw new DeviceProviderError(problem, 'BAD_ARGUMENTS');
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const capabilityRegistry = new CapabilityRegistry();
@@ -0,0 +1,67 @@
+import { canAccessDevice, getModeRestriction } from '../middleware/acl.middleware';
+import { CommandSource, recordCommand, simulateApiCall } from '../utils/device-commands';
+import { deviceCommandService } from './device-command.service';
+import { DeviceCommand, DeviceProviderError } from './device-provider';
+import { DeviceActor, getDeviceSource } from './device-source';
+
+export interface CommandRunResult {
+  success: boolean;
+  error?: string;
+  code?: string;
+  durationMs: number;
+}
+
+/**
+ * Run one device command for a user outside a request (automations, mode
+ * entry actions, presence simulation, timers)
+ *
+ * Goes through the same checks as commands from the UI: the user needs
+ * access to the device and the home mode must allow them to control it. The
+ * command is audited either way. Never throws.
+ */
+export async function runCommand(
+  actor: DeviceActor & { ip?: string },
+  deviceId: string,
+  command: DeviceCommand,
+  source: CommandSource = { type: 'user' }
+): Promise<CommandRunResult> {
+  const startTime = Date.now();
+  const deny = (error: string, code: string): CommandRunResult => {
+    recordCommand(actor, deviceId, command, { duration: 0, error, code }, source);
+    return { success: false, error, code, durationMs: 0 };
+  };
+
+  if (!(await canAccessDevice(actor, deviceId))) {
+    return deny('You do not have permission to control this device', 'ACCESS_DENIED');
+  }
+  const restriction = getModeRestriction(actor, deviceId);
+  if (restriction) {
+    return deny(restriction, 'MODE_RESTRICTED');
+  }
+
+  let error: unknown;
+  try {
+    if (actor.isDemoMode) {
+      await simulateApiCall();
+    }
+    [{ error }] = await deviceCommandService.execute(getDeviceSource(actor), deviceId, [command], {
+      username: actor.user!.username,
+      isDemoMode: actor.isDemoMode === true,
+    });
+  } catch (loadError) {
+    // The device itself could not be loaded
+    error = loadError;
+  }
+
+  const durationMs = Date.now() - startTime;
+  recordCommand(actor, deviceId, command, { duration: durationMs / 1000, error }, source);
+  if (!error) {
+    return { success: true, durationMs };
+  }
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : 'Failed to execute command',
+    code: error instanceof DeviceProviderError ? error.code : 'PROVIDER_ERROR',
+    durationMs,
+  };
+}
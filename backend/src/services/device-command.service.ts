@@ -0,0 +1,151 @@
+import { logger } from '../utils/logger';
+import { deviceHistoryService } from './device-history.service';
+import {
+  AttributeChange,
+  deviceEventService,
+  diffDeviceStatus,
+  formatAttributeValue,
+} from './device-event.service';
+import { capabilityRegistry } from './capability-registry.service';
+import { deviceHealthService } from './device-health.service';
+import { Device, DeviceCommand, DeviceSource, DeviceStatus } from './device-provider';
+
+export interface CommandContext {
+  /** Credited in device history */
+  username: string;
+  /** Demo homes push their own updates; history is recorded from a status diff */
+  isDemoMode: boolean;
+}
+
+export interface CommandOutcome {
+  command: DeviceCommand;
+  /** Set when this command failed */
+  error?: unknown;
+}
+
+/**
+ * Device command execution
+ *
+ * Runs commands against one device and records the attribute changes they
+ * cause, once, credited to the user. Commands for the same device go out as
+ * one multi-command request when the source supports it.
+ */
+export class DeviceCommandService {
+  /**
+   * Execute commands on a device
+   *
+   * Commands are validated against the capability registry first. Returns
+   * one outcome per command, in order. Throws only when the device itself
+   * cannot be loaded.
+   */
+  async execute(
+    source: DeviceSource,
+    deviceId: string,
+    commands: DeviceCommand[],
+    context: CommandContext
+  ): Promise<CommandOutcome[]> {
+    const device = await source.getDevice(deviceId);
+    const outcomes: CommandOutcome[] = commands.map(command => {
+      try {
+        capabilityRegistry.validateCommand(device, command);
+        return { command };
+      } catch (error) {
+        return { command, error };
+      }
+    });
+    const pending = outcomes.filter(outcome => !outcome.error);
+    if (pending.length === 0) return outcomes;
+
+    // Read the state before the commands so real attribute changes can be recorded
+    let before: DeviceStatus | undefined;
+    try {
+      before = await source.getDeviceStatus(deviceId);
+      if (!context.isDemoMode) {
+        await deviceEventService.applyStatus(deviceId, before, { source: 'poller' });
+      }
+    } catch (error) {
+      // Ignore errors getting previous state
+    }
+
+    if (pending.length > 1 && source.executeCommands) {
+      try {
+        await source.executeCommands(deviceId, pending.map(outcome => outcome.command));
+      } catch (error) {
+        pending.forEach(outcome => { outcome.error = error; });
+      }
+    } else {
+      for (const outcome of pending) {
+        const { capability, command, arguments: args, component } = outcome.command;
+        try {
+          await source.executeCommand(deviceId, capability, command, args, component);
+        } catch (error) {
+          outcome.error = error;
+        }
+      }
+    }
+
+    const executed = pending.filter(outcome => !outcome.error).map(outcome => outcome.command);
+    if (!context.isDemoMode) {
+      deviceHealthService.recordCommandResult(deviceId, executed.length > 0 ? undefined : pending[0].error);
+    }
+    if (executed.length > 0) {
+      await this.recordChanges(source, device, before, executed, context);
+    }
+    return outcomes;
+  }
+
+  /**
+   * Record the attributes that changed; real devices are also broadcast
+   * (the simulator pushes its own updates)
+   */
+  private async recordChanges(
+    source: DeviceSource,
+    device: Device,
+    before: DeviceStatus | undefined,
+    executed: DeviceCommand[],
+    context: CommandContext
+  ): Promise<void> {
+    const { deviceId } = device;
+    let changes: AttributeChange[] = [];
+
+    try {
+      const after = await source.getDeviceStatus(deviceId);
+      if (context.isDemoMode) {
+        changes = before ? diffDeviceStatus(before, after) : [];
+        for (const change of changes) {
+          deviceHistoryService.recordStateChange({
+            deviceId,
+            deviceLabel: device.label || device.name || deviceId,
+            room: device.room,
+            component: change.component,
+            capability: change.capability,
+            attribute: change.attribute,
+            value: formatAttributeValue(change.value),
+            previousValue: change.previousValue !== undefined ? formatAttributeValue(change.previousValue) : undefined,
+            unit: change.unit,
+            triggeredBy: context.username,
+          });
+        }
+      } else {
+        changes = await deviceEventService.applyStatus(deviceId, after, {
+          source: 'command',
+          triggeredBy: context.username,
+        });
+      }
+    } catch (error) {
+      // Don't fail the commands if the state can't be read back
+      logger.warn(`Failed to record device state after command on ${deviceId}`);
+    }
+
+    // Devices often report the new state late; credit the user when it arrives
+    if (context.isDemoMode) return;
+    for (const { component = 'main', capability } of executed) {
+      if (!changes.some(c => c.component === component && c.capability === capability)) {
+        deviceEventService.expectChange(deviceId, capability, context.username, component);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const deviceCommandService = new DeviceCommandService();
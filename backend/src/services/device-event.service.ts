@@ -0,0 +1,256 @@
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { DeviceStatus } from './device-provider';
+import { deviceHistoryService } from './device-history.service';
+import { deviceRegistry } from './device-registry.service';
+import { websocketService } from './websocket.service';
+
+export interface DeviceEvent {
+  deviceId: string;
+  component: string;
+  capability: string;
+  attribute: string;
+  value: unknown;
+  unit?: string;
+  previousValue?: unknown;
+  timestamp?: string;
+  /** Where the event came from, e.g. 'smartapp' */
+  source: string;
+  /** Username for user-initiated changes */
+  triggeredBy?: string;
+}
+
+/** A single attribute that differs between two status snapshots */
+export interface AttributeChange {
+  component: string;
+  capability: string;
+  attribute: string;
+  value: unknown;
+  previousValue: unknown;
+  unit?: string;
+}
+
+interface DeviceLabel {
+  label: string;
+  room?: string;
+}
+
+interface ExpectedChange {
+  component: string;
+  capability: string;
+  triggeredBy: string;
+  expiresAt: number;
+}
+
+/** How long a command keeps claiming changes the device reports late */
+const EXPECTED_CHANGE_TTL_MS = 2 * 60 * 1000;
+
+/**
+ * Format an attribute value for the device_history text columns
+ */
+export function formatAttributeValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * List the attributes whose values differ between two status snapshots.
+ * Attributes missing from the previous snapshot count as changes from
+ * undefined; attributes that disappeared are ignored.
+ */
+export function diffDeviceStatus(previous: DeviceStatus, current: DeviceStatus): AttributeChange[] {
+  const changes: AttributeChange[] = [];
+
+  for (const [component, capabilities] of Object.entries(current.components || {})) {
+    for (const [capability, attributes] of Object.entries(capabilities || {})) {
+      if (!attributes || typeof attributes !== 'object') continue;
+
+      for (const [attribute, state] of Object.entries(attributes)) {
+        if (!state || typeof state !== 'object') continue;
+
+        const before = previous.components?.[component]?.[capability]?.[attribute];
+        if (before && sameValue(before.value, state.value)) continue;
+
+        changes.push({
+          component,
+          capability,
+          attribute,
+          value: state.value,
+          previousValue: before?.value,
+          unit: state.unit,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Device event stream
+ *
+ * Single entry point for attribute changes, whether pushed by a webhook,
+ * found by the poller or caused by a command. Keeps the last known status of
+ * each device; every change is written to device history, broadcast over
+ * WebSocket and re-emitted as a 'device-event' for other services.
+ */
+export class DeviceEventService extends EventEmitter {
+  private snapshots: Map<string, DeviceStatus> = new Map();
+  private labels: Map<string, DeviceLabel> = new Map();
+  private expected: Map<string, ExpectedChange[]> = new Map();
+
+  /**
+   * Record a device attribute change
+   */
+  async recordEvent(event: DeviceEvent): Promise<void> {
+    const known = this.snapshots.get(event.deviceId)?.components?.[event.component]?.[event.capability]?.[event.attribute];
+    const previousValue = event.previousValue !== undefined ? event.previousValue : known?.value;
+    const timestamp = event.timestamp || new Date().toISOString();
+    const triggeredBy = event.triggeredBy || this.claimExpectedChange(event.deviceId, event.component, event.capability) || event.source;
+
+    this.updateSnapshot(event.deviceId, event.component, event.capability, event.attribute, {
+      value: event.value,
+      unit: event.unit,
+      timestamp,
+    });
+
+    const { label, room } = await this.getLabel(event.deviceId);
+
+    deviceHistoryService.recordStateChange({
+      deviceId: event.deviceId,
+      deviceLabel: label,
+      room,
+      component: event.component,
+      capability: event.capability,
+      attribute: event.attribute,
+      value: formatAttributeValue(event.value),
+      previousValue: previousValue !== undefined ? formatAttributeValue(previousValue) : undefined,
+      unit: event.unit,
+      triggeredBy,
+    });
+
+    websocketService.broadcastDeviceUpdate(event.deviceId, {
+      components: {
+        [event.component]: {
+          [event.capability]: {
+            [event.attribute]: { value: event.value, unit: event.unit, timestamp },
+          },
+        },
+      },
+    }, false);
+
+    this.emit('device-event', { ...event, previousValue, timestamp, triggeredBy });
+  }
+
+  /**
+   * Compare a freshly read status with the last known one and record every
+   * attribute that changed. The first status seen for a device only becomes
+   * the baseline.
+   */
+  async applyStatus(
+    deviceId: string,
+    status: DeviceStatus,
+    options: { source: string; triggeredBy?: string }
+  ): Promise<AttributeChange[]> {
+    const previous = this.snapshots.get(deviceId);
+    if (!previous) {
+      this.snapshots.set(deviceId, JSON.parse(JSON.stringify(status)));
+      return [];
+    }
+
+    const changes = diffDeviceStatus(previous, status);
+    for (const change of changes) {
+      await this.recordEvent({
+        deviceId,
+        ...change,
+        source: options.source,
+        triggeredBy: options.triggeredBy,
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Attribute a change the device has not reported yet to the user whose
+   * command caused it, so it is not logged as an anonymous change later
+   */
+  expectChange(deviceId: string, capability: string, triggeredBy: string, component = 'main'): void {
+    const pending = (this.expected.get(deviceId) || []).filter(e => e.expiresAt > Date.now());
+    pending.push({ component, capability, triggeredBy, expiresAt: Date.now() + EXPECTED_CHANGE_TTL_MS });
+    this.expected.set(deviceId, pending);
+  }
+
+  /**
+   * Last known status of a device, if any
+   */
+  getSnapshot(deviceId: string): DeviceStatus | undefined {
+    return this.snapshots.get(deviceId);
+  }
+
+  /**
+   * Forget cached labels (e.g. after a device was renamed)
+   */
+  clearLabels(): void {
+    this.labels.clear();
+  }
+
+  /**
+   * Forget all known device state
+   */
+  reset(): void {
+    this.snapshots.clear();
+    this.labels.clear();
+    this.expected.clear();
+  }
+
+  private updateSnapshot(
+    deviceId: string,
+    component: string,
+    capability: string,
+    attribute: string,
+    state: { value: unknown; unit?: string; timestamp: string }
+  ): void {
+    const snapshot = this.snapshots.get(deviceId) || { components: {} };
+    const componentStatus = snapshot.components[component] || (snapshot.components[component] = {});
+    const capabilityStatus = componentStatus[capability] || (componentStatus[capability] = {});
+    capabilityStatus[attribute] = state;
+    this.snapshots.set(deviceId, snapshot);
+  }
+
+  private claimExpectedChange(deviceId: string, component: string, capability: string): string | undefined {
+    const pending = this.expected.get(deviceId);
+    if (!pending) return undefined;
+
+    const index = pending.findIndex(e =>
+      e.component === component && e.capability === capability && e.expiresAt > Date.now()
+    );
+    if (index === -1) return undefined;
+
+    const [claimed] = pending.splice(index, 1);
+    if (pending.length === 0) this.expected.delete(deviceId);
+    return claimed.triggeredBy;
+  }
+
+  private async getLabel(deviceId: string): Promise<DeviceLabel> {
+    const cached = this.labels.get(deviceId);
+    if (cached) return cached;
+
+    try {
+      const device = await deviceRegistry.getDevice(deviceId);
+      const label = { label: device.label || device.name || deviceId, room: device.room };
+      this.labels.set(deviceId, label);
+      return label;
+    } catch (error) {
+      logger.warn(`Failed to look up label for device ${deviceId}`);
+      return { label: deviceId };
+    }
+  }
+}
+
+// Export singleton instance
+export const deviceEventService = new DeviceEventService();
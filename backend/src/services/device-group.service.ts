@@ -0,0 +1,266 @@
+import { randomBytes } from 'crypto';
+import { db } from '../database/db';
+import { DeviceMetadataService } from './device-metadata.service';
+import { Component, ComponentStatus, Device } from './device-provider';
+
+/** Synthetic device ids of groups are the group id behind this prefix */
+export const GROUP_DEVICE_PREFIX = 'group:';
+
+/** Room groups without one are listed under */
+const DEFAULT_GROUP_ROOM = 'Groups';
+
+export interface DeviceGroup {
+  groupId: string;
+  name: string;
+  /** Room the group is listed under on the dashboard */
+  room?: string;
+  /** Static members */
+  deviceIds: string[];
+  /** Devices tagged with any of these (device metadata) are members too */
+  tags: string[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+}
+
+export type DeviceGroupInput = Pick<DeviceGroup, 'name' | 'room' | 'deviceIds' | 'tags'>;
+
+export interface GroupState {
+  groupId: string;
+  memberIds: string[];
+  memberCount: number;
+  membersOn: number;
+  /** On if any member is on */
+  switch?: 'on' | 'off';
+  /** Average level of the members that report one */
+  level?: number;
+}
+
+export type GroupDevice = Device & { group: GroupState };
+
+interface GroupRow {
+  id: string;
+  name: string;
+  room: string | null;
+  device_ids: string;
+  tags: string;
+  created_at: string;
+  updated_at: string;
+  created_by: string | null;
+}
+
+function toGroup(row: GroupRow): DeviceGroup {
+  return {
+    groupId: row.id,
+    name: row.name,
+    room: row.room || undefined,
+    deviceIds: JSON.parse(row.device_ids),
+    tags: JSON.parse(row.tags),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by || undefined,
+  };
+}
+
+function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+/** Inventory devices carry each component's status alongside its capabilities */
+type ComponentWithStatus = Component & Partial<ComponentStatus>;
+
+function attributeValue(device: Device, capability: string, attribute: string): unknown {
+  const componentId = DeviceGroupService.componentFor(device, capability);
+  const component = componentId ? (device.components[componentId] as ComponentWithStatus) : undefined;
+  return component?.[capability]?.[attribute]?.value;
+}
+
+function hasCapability(device: Device, capability: string): boolean {
+  return DeviceGroupService.componentFor(device, capability) !== undefined;
+}
+
+/**
+ * Device groups
+ *
+ * Locally defined sets of devices (listed explicitly, or by tag) that are
+ * shown and controlled as one synthetic device. A group's state is
+ * aggregated from its members and its commands fan out to each of them.
+ */
+export class DeviceGroupService {
+  static isGroupDeviceId(deviceId: string): boolean {
+    return deviceId.startsWith(GROUP_DEVICE_PREFIX);
+  }
+
+  /**
+   * The member component a group reads and commands for a capability:
+   * main if it has it, else the first component that does
+   */
+  static componentFor(device: Device, capability: string): string | undefined {
+    const components = Object.values(device.components || {});
+    const hasIt = (component: Component) => (component.capabilities || []).some(c => c.id === capability);
+    if (device.components?.main && hasIt(device.components.main)) {
+      return 'main';
+    }
+    return components.find(hasIt)?.id;
+  }
+
+  static getAll(): DeviceGroup[] {
+    return db.prepare<unknown[], GroupRow>('SELECT * FROM device_groups ORDER BY name')
+      .all()
+      .map(toGroup);
+  }
+
+  static get(groupId: string): DeviceGroup | undefined {
+    const row = db.prepare<unknown[], GroupRow>('SELECT * FROM device_groups WHERE id = ?').get(groupId);
+    return row ? toGroup(row) : undefined;
+  }
+
+  static create(input: DeviceGroupInput, createdBy?: string): DeviceGroup {
+    const now = new Date().toISOString();
+    const group: DeviceGroup = {
+      groupId: randomBytes(16).toString('hex'),
+      name: input.name.trim(),
+      room: input.room?.trim() || undefined,
+      deviceIds: Array.from(new Set(input.deviceIds)),
+      tags: normalizeTags(input.tags),
+      createdAt: now,
+      updatedAt: now,
+      createdBy,
+    };
+
+    db.prepare(`
+      INSERT INTO device_groups (id, name, room, device_ids, tags, created_at, updated_at, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      group.groupId,
+      group.name,
+      group.room || null,
+      JSON.stringify(group.deviceIds),
+      JSON.stringify(group.tags),
+      now,
+      now,
+      createdBy || null
+    );
+
+    return group;
+  }
+
+  /**
+   * Replace a group's name, room and membership; undefined if it doesn't exist
+   */
+  static update(groupId: string, input: DeviceGroupInput): DeviceGroup | undefined {
+    const existing = this.get(groupId);
+    if (!existing) return undefined;
+
+    const group: DeviceGroup = {
+      ...existing,
+      name: input.name.trim(),
+      room: input.room?.trim() || undefined,
+      deviceIds: Array.from(new Set(input.deviceIds)),
+      tags: normalizeTags(input.tags),
+      updatedAt: new Date().toISOString(),
+    };
+
+    db.prepare(`
+      UPDATE device_groups SET name = ?, room = ?, device_ids = ?, tags = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      group.name,
+      group.room || null,
+      JSON.stringify(group.deviceIds),
+      JSON.stringify(group.tags),
+      group.updatedAt,
+      groupId
+    );
+
+    return group;
+  }
+
+  /**
+   * Delete a group and its access grants; returns false if it didn't exist
+   */
+  static remove(groupId: string): boolean {
+    return db.transaction(() => {
+      db.prepare(`DELETE FROM access_control WHERE resource_type = 'group' AND resource_id = ?`).run(groupId);
+      return db.prepare('DELETE FROM device_groups WHERE id = ?').run(groupId).changes > 0;
+    })();
+  }
+
+  /**
+   * The devices in a group: listed ones plus those tagged with a group tag,
+   * in the order of `devices`
+   */
+  static resolveMembers<T extends Device>(group: DeviceGroup, devices: T[]): T[] {
+    const members = new Set(group.deviceIds);
+    if (group.tags.length > 0) {
+      DeviceMetadataService.getAll()
+        .filter(metadata => metadata.tags.some(tag => group.tags.includes(tag)))
+        .forEach(metadata => members.add(metadata.deviceId));
+    }
+    return devices.filter(device => members.has(device.deviceId));
+  }
+
+  /**
+   * Aggregate member states: on if any member is on, average level
+   */
+  static aggregate(groupId: string, members: Device[]): GroupState {
+    const switches = members.filter(member => hasCapability(member, 'switch'));
+    const membersOn = switches.filter(member => attributeValue(member, 'switch', 'switch') === 'on').length;
+    const levels = members
+      .map(member => attributeValue(member, 'switchLevel', 'level'))
+      .filter((level): level is number => typeof level === 'number');
+
+    return {
+      groupId,
+      memberIds: members.map(member => member.deviceId),
+      memberCount: members.length,
+      membersOn,
+      switch: switches.length > 0 ? (membersOn > 0 ? 'on' : 'off') : undefined,
+      level: levels.length > 0 ? Math.round(levels.reduce((sum, level) => sum + level, 0) / levels.length) : undefined,
+    };
+  }
+
+  /**
+   * Present a group as a device with the switch/level capabilities its
+   * members have and their aggregated state
+   */
+  static toDevice(group: DeviceGroup, members: Device[]): GroupDevice {
+    const state = this.aggregate(group.groupId, members);
+    const timestamp = new Date().toISOString();
+    const locationIds = new Set(members.map(member => member.locationId));
+
+    const main: Record<string, unknown> = {
+      id: 'main',
+      capabilities: ['switch', 'switchLevel']
+        .filter(capability => members.some(member => hasCapability(member, capability)))
+        .map(id => ({ id })),
+    };
+    if (state.switch) {
+      main.switch = { switch: { value: state.switch, timestamp } };
+    }
+    if (state.level !== undefined) {
+      main.switchLevel = { level: { value: state.level, unit: '%', timestamp } };
+    }
+
+    return {
+      deviceId: `${GROUP_DEVICE_PREFIX}${group.groupId}`,
+      name: group.name,
+      label: group.name,
+      room: group.room || DEFAULT_GROUP_ROOM,
+      locationId: locationIds.size === 1 ? members[0].locationId : undefined,
+      deviceTypeName: 'Device Group',
+      components: { main: main as unknown as Component },
+      group: state,
+    };
+  }
+
+  /**
+   * Synthetic devices for every group with at least one member among `devices`
+   */
+  static toDevices(devices: Device[]): GroupDevice[] {
+    return this.getAll()
+      .map(group => ({ group, members: this.resolveMembers(group, devices) }))
+      .filter(({ members }) => members.length > 0)
+      .map(({ group, members }) => this.toDevice(group, members));
+  }
+}
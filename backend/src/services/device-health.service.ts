@@ -0,0 +1,270 @@
+import { db } from '../database/db';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { DeviceHealthReport, DeviceProviderError } from './device-provider';
+import { deviceEventService, DeviceEvent } from './device-event.service';
+import { deviceInventory } from './device-inventory.service';
+import { deviceRegistry } from './device-registry.service';
+import { websocketService } from './websocket.service';
+
+export type HealthState = DeviceHealthReport['state'];
+
+export interface DeviceHealth {
+  deviceId: string;
+  state: HealthState;
+  lastSeen?: string;
+  offlineSince?: string;
+  failureStreak: number;
+  lastErrorCode?: string;
+  updatedAt: string;
+}
+
+export interface HealthOptions {
+  checkIntervalMs: number;
+  /** Failed commands in a row before a device is considered offline */
+  failureThreshold: number;
+}
+
+/** Health reads in flight at once during a check */
+const CHECK_CONCURRENCY = 4;
+
+/** Minimum time between last-seen writes for a device that stays online */
+const SEEN_WRITE_INTERVAL_MS = 60 * 1000;
+
+/** Command failures that say something about the device rather than the request */
+const DEVICE_FAILURE_CODES = new Set(['DEVICE_OFFLINE', 'PROVIDER_ERROR']);
+
+function toHealth(row: any): DeviceHealth {
+  return {
+    deviceId: row.device_id,
+    state: row.state,
+    lastSeen: row.last_seen || undefined,
+    offlineSince: row.offline_since || undefined,
+    failureStreak: row.failure_streak,
+    lastErrorCode: row.last_error_code || undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Device health
+ *
+ * Tracks whether each device is reachable, from three sources: the
+ * provider's own health state (checked periodically, or pushed by the
+ * SmartApp), attribute events (a device that reports is online), and command
+ * outcomes (a run of failed commands marks a device offline). State is kept
+ * in the device_health table so offline durations survive restarts.
+ */
+export class DeviceHealthService {
+  private cache: Map<string, DeviceHealth> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private options: HealthOptions = config.health) {
+    deviceEventService.on('device-event', (event: DeviceEvent) => this.recordSeen(event.deviceId));
+  }
+
+  /**
+   * Check every device's health now and then periodically
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkAll().catch(() => logger.warn('Device health check failed'));
+    }, this.options.checkIntervalMs);
+    this.timer.unref();
+    this.checkAll().catch(() => logger.warn('Device health check failed'));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Ask the providers for the health of every device
+   */
+  async checkAll(): Promise<number> {
+    const devices = await deviceInventory.getDevices();
+    let checked = 0;
+
+    await mapWithConcurrency(devices, CHECK_CONCURRENCY, async (device) => {
+      try {
+        const report = await deviceRegistry.getDeviceHealth(device.deviceId);
+        if (report) {
+          this.recordProviderState(device.deviceId, report.state, report.updatedAt);
+          checked++;
+        }
+      } catch (error) {
+        // Leave the last known state; the next check may succeed
+      }
+    });
+
+    return checked;
+  }
+
+  get(deviceId: string): DeviceHealth | undefined {
+    return this.load().get(deviceId);
+  }
+
+  getAll(): DeviceHealth[] {
+    return Array.from(this.load().values());
+  }
+
+  /**
+   * Devices are assumed online until something says otherwise
+   */
+  isOnline(deviceId: string): boolean {
+    return this.get(deviceId)?.state !== 'offline';
+  }
+
+  /**
+   * The device reported an attribute or accepted a command
+   */
+  recordSeen(deviceId: string, at = new Date().toISOString()): void {
+    const current = this.get(deviceId);
+    const unchanged = current?.state === 'online' && current.failureStreak === 0;
+    if (unchanged && current.lastSeen && Date.parse(at) - Date.parse(current.lastSeen) < SEEN_WRITE_INTERVAL_MS) {
+      return;
+    }
+
+    this.save({
+      deviceId,
+      state: 'online',
+      lastSeen: at,
+      failureStreak: 0,
+      updatedAt: at,
+    });
+  }
+
+  /**
+   * Health state reported by the provider (health check or SmartApp event)
+   */
+  recordProviderState(deviceId: string, state: HealthState, reportedAt?: string): void {
+    const now = new Date().toISOString();
+    const current = this.get(deviceId);
+
+    if (state === 'online') {
+      if (current?.state !== 'online') {
+        this.recordSeen(deviceId, now);
+      }
+      return;
+    }
+
+    if (current?.state === state) return;
+    this.save({
+      ...(current || { deviceId, failureStreak: 0 }),
+      state,
+      offlineSince: state === 'offline' ? (reportedAt || now) : undefined,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Outcome of a command sent to the device
+   */
+  recordCommandResult(deviceId: string, error?: unknown): void {
+    if (!error) {
+      this.recordSeen(deviceId);
+      return;
+    }
+
+    const code = error instanceof DeviceProviderError ? error.code : 'PROVIDER_ERROR';
+    if (!DEVICE_FAILURE_CODES.has(code)) return;
+
+    const now = new Date().toISOString();
+    const current: DeviceHealth = this.get(deviceId) || {
+      deviceId,
+      state: 'unknown',
+      failureStreak: 0,
+      updatedAt: now,
+    };
+    const failureStreak = current.failureStreak + 1;
+    const offline = code === 'DEVICE_OFFLINE' || failureStreak >= this.options.failureThreshold;
+
+    this.save({
+      ...current,
+      state: offline ? 'offline' : current.state,
+      offlineSince: offline ? (current.offlineSince || now) : current.offlineSince,
+      failureStreak,
+      lastErrorCode: code,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Devices that have been offline for more than `hours`
+   */
+  getOfflineReport(hours: number): DeviceHealth[] {
+    const cutoff = Date.now() - hours * 60 * 60 * 1000;
+
+    return this.getAll()
+      .filter(health => health.state === 'offline')
+      .filter(health => Date.parse(health.offlineSince || health.updatedAt) <= cutoff)
+      .sort((a, b) => (a.offlineSince || a.updatedAt).localeCompare(b.offlineSince || b.updatedAt));
+  }
+
+  /**
+   * Forget the in-memory copy (tests)
+   */
+  reset(): void {
+    this.cache = null;
+  }
+
+  private load(): Map<string, DeviceHealth> {
+    if (!this.cache) {
+      const rows = db.prepare('SELECT * FROM device_health').all();
+      this.cache = new Map(rows.map(row => {
+        const health = toHealth(row);
+        return [health.deviceId, health];
+      }));
+    }
+    return this.cache;
+  }
+
+  private save(health: DeviceHealth): void {
+    const previous = this.get(health.deviceId);
+    this.load().set(health.deviceId, health);
+
+    try {
+      db.prepare(`
+        INSERT INTO device_health (
+          device_id, state, last_seen, offline_since, failure_streak, last_error_code, updated_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(device_id) DO UPDATE SET
+          state = excluded.state,
+          last_seen = excluded.last_seen,
+          offline_since = excluded.offline_since,
+          failure_streak = excluded.failure_streak,
+          last_error_code = excluded.last_error_code,
+          updated_at = excluded.updated_at
+      `).run(
+        health.deviceId,
+        health.state,
+        health.lastSeen || null,
+        health.state === 'offline' ? health.offlineSince || null : null,
+        health.failureStreak,
+        health.lastErrorCode || null,
+        health.updatedAt
+      );
+    } catch (error) {
+      logger.error('Failed to save device health:', error);
+    }
+
+    if (previous?.state !== health.state) {
+      if (health.state === 'offline') {
+        logger.warn(`Device ${health.deviceId} is offline`);
+      }
+      websocketService.broadcastDeviceHealth(health.deviceId, {
+        online: health.state !== 'offline',
+        lastSeen: health.lastSeen,
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const deviceHealthService = new DeviceHealthService();
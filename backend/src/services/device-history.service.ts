@@ -8,10 +8,12 @@ export interface DeviceHistoryEntry {
   deviceId: string;
   deviceLabel: string;
   room?: string;
+  component: string;
   capability: string;
   attribute: string;
   value: string;
   previousValue?: string;
+  unit?: string;
   triggeredBy?: string;
 }
 
@@ -32,6 +34,37 @@ export interface TimeSeriesDataPoint {
   deviceLabel: string;
 }
 
+/**
+ * Format a time like the `timestamp` column (UTC, as written by SQLite's datetime('now'))
+ */
+export function toHistoryTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Read a `timestamp` column value back as a Date
+ */
+export function parseHistoryTimestamp(timestamp: string): Date {
+  return new Date(timestamp.includes('T') ? timestamp : `${timestamp.replace(' ', 'T')}Z`);
+}
+
+function toEntry(row: any): DeviceHistoryEntry {
+  return {
+    id: row.id,
+    timestamp: row.timestamp,
+    deviceId: row.device_id,
+    deviceLabel: row.device_label,
+    room: row.room,
+    component: row.component || 'main',
+    capability: row.capability,
+    attribute: row.attribute,
+    value: row.value,
+    previousValue: row.previous_value,
+    unit: row.unit || undefined,
+    triggeredBy: row.triggered_by,
+  };
+}
+
 export class DeviceHistoryService {
   /**
    * Record a device state change
@@ -40,19 +73,21 @@ export class DeviceHistoryService {
     deviceId: string;
     deviceLabel: string;
     room?: string;
+    component?: string;
     capability: string;
     attribute: string;
     value: string;
     previousValue?: string;
+    unit?: string;
     triggeredBy?: string;
   }): void {
     try {
       const stmt = db.prepare(`
         INSERT INTO device_history (
-          id, timestamp, device_id, device_label, room,
-          capability, attribute, value, previous_value, triggered_by
+          id, timestamp, device_id, device_label, room, component,
+          capability, attribute, value, previous_value, unit, triggered_by
         )
-        VALUES (?, datetime('now'), ?, ?, ?, ?, ?, ?, ?, ?)
+        VALUES (?, datetime('now'), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       stmt.run(
@@ -60,10 +95,12 @@ export class DeviceHistoryService {
         params.deviceId,
         params.deviceLabel,
         params.room || null,
+        params.component || 'main',
         params.capability,
         params.attribute,
         params.value,
         params.previousValue || null,
+        params.unit || null,
         params.triggeredBy || null
       );
     } catch (error) {
@@ -78,6 +115,7 @@ export class DeviceHistoryService {
     deviceId: string;
     startDate?: string;
     endDate?: string;
+    component?: string;
     capability?: string;
     limit?: number;
   }): DeviceHistoryEntry[] {
@@ -97,6 +135,11 @@ export class DeviceHistoryService {
       queryParams.push(params.endDate);
     }
 
+    if (params.component) {
+      query += ` AND component = ?`;
+      queryParams.push(params.component);
+    }
+
     if (params.capability) {
       query += ` AND capability = ?`;
       queryParams.push(params.capability);
@@ -112,18 +155,45 @@ export class DeviceHistoryService {
     const stmt = db.prepare(query);
     const rows = stmt.all(...queryParams) as any[];
 
-    return rows.map(row => ({
-      id: row.id,
-      timestamp: row.timestamp,
-      deviceId: row.device_id,
-      deviceLabel: row.device_label,
-      room: row.room,
-      capability: row.capability,
-      attribute: row.attribute,
-      value: row.value,
-      previousValue: row.previous_value,
-      triggeredBy: row.triggered_by,
-    }));
+    return rows.map(toEntry);
+  }
+
+  /**
+   * Get every attribute change of some devices in a time range, oldest first
+   */
+  getChanges(params: { deviceIds: string[]; startDate: string; endDate: string }): DeviceHistoryEntry[] {
+    if (params.deviceIds.length === 0) return [];
+
+    const placeholders = params.deviceIds.map(() => '?').join(',');
+    const rows = db.prepare(`
+      SELECT * FROM device_history
+      WHERE device_id IN (${placeholders}) AND timestamp >= ? AND timestamp <= ?
+      ORDER BY timestamp ASC, rowid ASC
+    `).all(...params.deviceIds, params.startDate, params.endDate) as any[];
+
+    return rows.map(toEntry);
+  }
+
+  /**
+   * Get the last recorded value of each attribute of some devices before a time
+   */
+  getValuesBefore(params: { deviceIds: string[]; before: string }): DeviceHistoryEntry[] {
+    if (params.deviceIds.length === 0) return [];
+
+    const placeholders = params.deviceIds.map(() => '?').join(',');
+    const rows = db.prepare(`
+      SELECT * FROM device_history AS h
+      WHERE h.device_id IN (${placeholders}) AND h.timestamp < ?
+        AND h.rowid = (
+          SELECT rowid FROM device_history
+          WHERE device_id = h.device_id AND component = h.component
+            AND capability = h.capability AND attribute = h.attribute AND timestamp < ?
+          ORDER BY timestamp DESC, rowid DESC
+          LIMIT 1
+        )
+    `).all(...params.deviceIds, params.before, params.before) as any[];
+
+    return rows.map(toEntry);
   }
 
   /**
@@ -299,6 +369,77 @@ export class DeviceHistoryService {
     }));
   }
 
+  /**
+   * Count the changes to each value of an attribute by device, local weekday
+   * (0 = Sunday) and local hour, with the number of days they happened on and
+   * their average minute past the hour. Changes in the excluded ranges are
+   * left out.
+   */
+  getWeekdayHourlyAggregation(params: {
+    deviceIds: string[];
+    capability: string;
+    attribute: string;
+    startDate: string;
+    endDate: string;
+    excludeRanges?: { from: string; to: string }[];
+  }): { deviceId: string; deviceLabel: string; weekday: number; hour: number; value: string; count: number; days: number; minute: number }[] {
+    if (params.deviceIds.length === 0) return [];
+
+    const placeholders = params.deviceIds.map(() => '?').join(',');
+    let query = `
+      SELECT
+        device_id,
+        MAX(device_label) as device_label,
+        CAST(strftime('%w', timestamp, 'localtime') AS INTEGER) as weekday,
+        CAST(strftime('%H', timestamp, 'localtime') AS INTEGER) as hour,
+        value,
+        COUNT(*) as count,
+        COUNT(DISTINCT date(timestamp, 'localtime')) as days,
+        AVG(CAST(strftime('%M', timestamp, 'localtime') AS INTEGER)) as minute
+      FROM device_history
+      WHERE device_id IN (${placeholders}) AND capability = ? AND attribute = ?
+        AND timestamp >= ? AND timestamp <= ?
+    `;
+    const queryParams: any[] = [...params.deviceIds, params.capability, params.attribute, params.startDate, params.endDate];
+
+    for (const range of params.excludeRanges || []) {
+      query += ` AND NOT (timestamp >= ? AND timestamp < ?)`;
+      queryParams.push(range.from, range.to);
+    }
+
+    query += ` GROUP BY device_id, weekday, hour, value ORDER BY device_id, weekday, hour`;
+
+    const rows = db.prepare(query).all(...queryParams) as any[];
+
+    return rows.map(row => ({
+      deviceId: row.device_id,
+      deviceLabel: row.device_label,
+      weekday: row.weekday,
+      hour: row.hour,
+      value: row.value,
+      count: row.count,
+      days: row.days,
+      minute: Math.round(row.minute),
+    }));
+  }
+
+  /**
+   * Get the time of each device's oldest recorded change
+   */
+  getFirstChanges(deviceIds: string[]): Map<string, string> {
+    if (deviceIds.length === 0) return new Map();
+
+    const placeholders = deviceIds.map(() => '?').join(',');
+    const rows = db.prepare(`
+      SELECT device_id, MIN(timestamp) as first_changed
+      FROM device_history
+      WHERE device_id IN (${placeholders})
+      GROUP BY device_id
+    `).all(...deviceIds) as any[];
+
+    return new Map(rows.map(row => [row.device_id, row.first_changed]));
+  }
+
   /**
    * Clean up old history records
    */
@@ -0,0 +1,332 @@
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { CacheInfo, Device, DeviceCommand, DeviceSource, DeviceStatus, Location, Room, Scene } from './device-provider';
+import { deviceEventService, DeviceEvent } from './device-event.service';
+import { deviceRegistry } from './device-registry.service';
+
+export interface InventoryOptions {
+  deviceTtlMs: number;
+  statusTtlMs: number;
+  roomTtlMs: number;
+  sceneTtlMs: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+/** Status reads in flight at once when filling the device list */
+const STATUS_CONCURRENCY = 5;
+
+/**
+ * Merge a status snapshot into a device definition, one component at a time
+ */
+function withStatus(device: Device, status?: DeviceStatus): Device {
+  if (!status?.components) return device;
+
+  const components = { ...device.components };
+  for (const [componentId, componentStatus] of Object.entries(status.components)) {
+    if (components[componentId]) {
+      components[componentId] = { ...components[componentId], ...componentStatus } as any;
+    }
+  }
+  return { ...device, components };
+}
+
+/**
+ * Device inventory
+ *
+ * Caching layer in front of the device registry. Device definitions,
+ * locations, rooms, scenes and per-device statuses each have a TTL; expired entries are still
+ * served while a refresh runs in the background (stale-while-revalidate), and
+ * concurrent refreshes of the same entry share one upstream call.
+ *
+ * Statuses are patched in place by device events and invalidated by
+ * commands, so the poller and webhook keep the cache current between
+ * refreshes.
+ */
+export class DeviceInventory implements DeviceSource {
+  private entries: Map<string, CacheEntry<unknown>> = new Map();
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private source: DeviceSource = deviceRegistry,
+    private options: InventoryOptions = config.inventory
+  ) {
+    deviceEventService.on('device-event', (event: DeviceEvent) => this.applyEvent(event));
+  }
+
+  /**
+   * Refresh device definitions, rooms and locations in the background before they expire
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh('devices', () => this.source.getDevices()).catch(() => {
+        logger.warn('Background device inventory refresh failed');
+      });
+      this.refresh('rooms', () => this.source.getRooms()).catch(() => {});
+      this.refresh('locations', () => this.source.getLocations()).catch(() => {});
+    }, Math.min(this.options.deviceTtlMs, this.options.roomTtlMs));
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Get all devices with their current status
+   */
+  async getDevices(): Promise<Device[]> {
+    const devices = await this.listDevices();
+    const statuses = await mapWithConcurrency(devices, STATUS_CONCURRENCY, device =>
+      this.read(`status:${device.deviceId}`, this.options.statusTtlMs, () => this.source.getDeviceStatus(device.deviceId))
+        .catch(() => undefined)
+    );
+
+    return devices.map((device, index) => withStatus(device, statuses[index]));
+  }
+
+  /**
+   * Get device definitions without status
+   */
+  listDevices(): Promise<Device[]> {
+    return this.read('devices', this.options.deviceTtlMs, () => this.source.getDevices());
+  }
+
+  /**
+   * Get device details
+   */
+  async getDevice(deviceId: string): Promise<Device> {
+    const cached = this.peek<Device[]>('devices')?.find(d => d.deviceId === deviceId);
+    return cached || this.source.getDevice(deviceId);
+  }
+
+  /**
+   * Get device status; expired statuses are re-read rather than served stale
+   */
+  getDeviceStatus(deviceId: string): Promise<DeviceStatus> {
+    return this.read(
+      `status:${deviceId}`,
+      this.options.statusTtlMs,
+      () => this.source.getDeviceStatus(deviceId),
+      false
+    );
+  }
+
+  /**
+   * Read a device's status from its provider and cache it
+   */
+  refreshStatus(deviceId: string): Promise<DeviceStatus> {
+    return this.refresh(`status:${deviceId}`, () => this.source.getDeviceStatus(deviceId));
+  }
+
+  /**
+   * Execute device command
+   */
+  async executeCommand(
+    deviceId: string,
+    capability: string,
+    command: string,
+    args: unknown[] = [],
+    component = 'main'
+  ): Promise<void> {
+    try {
+      await this.source.executeCommand(deviceId, capability, command, args, component);
+    } finally {
+      this.invalidate(`status:${deviceId}`);
+    }
+  }
+
+  /**
+   * Execute several commands on one device and invalidate its cached status
+   */
+  async executeCommands(deviceId: string, commands: DeviceCommand[]): Promise<void> {
+    try {
+      if (this.source.executeCommands) {
+        await this.source.executeCommands(deviceId, commands);
+      } else {
+        for (const c of commands) {
+          await this.source.executeCommand(deviceId, c.capability, c.command, c.arguments, c.component);
+        }
+      }
+    } finally {
+      this.invalidate(`status:${deviceId}`);
+    }
+  }
+
+  /**
+   * Get all locations (cached as long as rooms)
+   */
+  getLocations(): Promise<Location[]> {
+    return this.read('locations', this.options.roomTtlMs, () => this.source.getLocations());
+  }
+
+  /**
+   * Get all rooms
+   */
+  getRooms(): Promise<Room[]> {
+    return this.read('rooms', this.options.roomTtlMs, () => this.source.getRooms());
+  }
+
+  /**
+   * Get all scenes, with action device labels resolved from the device index
+   */
+  async getScenes(): Promise<Scene[]> {
+    const [scenes, index] = await Promise.all([
+      this.read('scenes', this.options.sceneTtlMs, () => this.source.getScenes()),
+      this.getDeviceIndex(),
+    ]);
+
+    return scenes.map(scene => ({
+      ...scene,
+      actions: scene.actions?.map(action => {
+        const device = index.get(action.deviceId);
+        return {
+          ...action,
+          deviceLabel: device?.label || device?.name || action.deviceLabel || 'Unknown Device',
+        };
+      }),
+    }));
+  }
+
+  /**
+   * Execute a scene
+   * Any device may have changed, so every status is invalidated, as is the
+   * scene list (last execution date).
+   */
+  async executeScene(sceneId: string): Promise<void> {
+    try {
+      await this.source.executeScene(sceneId);
+    } finally {
+      this.invalidate('scenes');
+      for (const key of this.entries.keys()) {
+        if (key.startsWith('status:')) this.invalidate(key);
+      }
+    }
+  }
+
+  /**
+   * Freshness of a cache entry
+   */
+  describeCache(key: string): CacheInfo | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    const age = Date.now() - entry.fetchedAt;
+    return {
+      updatedAt: new Date(entry.fetchedAt).toISOString(),
+      ageSeconds: Math.max(0, Math.round(age / 1000)),
+      stale: age >= this.ttlFor(key),
+    };
+  }
+
+  /**
+   * Mark an entry as expired; its value is kept as a fallback
+   */
+  invalidate(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      entry.fetchedAt = 0;
+    }
+  }
+
+  /**
+   * Drop everything (e.g. after providers change)
+   */
+  clear(): void {
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  private async read<T>(key: string, ttlMs: number, load: () => Promise<T>, staleWhileRevalidate = true): Promise<T> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+
+    if (entry && Date.now() - entry.fetchedAt < ttlMs) {
+      return entry.value;
+    }
+
+    if (entry && staleWhileRevalidate) {
+      this.refresh(key, load).catch(() => {
+        logger.warn(`Failed to refresh cached ${key}`);
+      });
+      return entry.value;
+    }
+
+    try {
+      return await this.refresh(key, load);
+    } catch (error) {
+      if (entry) {
+        logger.warn(`Serving stale ${key} after refresh failed`);
+        return entry.value;
+      }
+      throw error;
+    }
+  }
+
+  private refresh<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = load()
+      .then(value => {
+        this.entries.set(key, { value, fetchedAt: Date.now() });
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Device definitions by ID (empty if devices can't be listed)
+   */
+  private async getDeviceIndex(): Promise<Map<string, Device>> {
+    try {
+      const devices = await this.listDevices();
+      return new Map(devices.map(device => [device.deviceId, device]));
+    } catch (error) {
+      return new Map();
+    }
+  }
+
+  private peek<T>(key: string): T | undefined {
+    return (this.entries.get(key) as CacheEntry<T> | undefined)?.value;
+  }
+
+  private ttlFor(key: string): number {
+    if (key === 'devices') return this.options.deviceTtlMs;
+    if (key === 'rooms' || key === 'locations') return this.options.roomTtlMs;
+    if (key === 'scenes') return this.options.sceneTtlMs;
+    return this.options.statusTtlMs;
+  }
+
+  /**
+   * Patch a cached status with an attribute change
+   */
+  private applyEvent(event: DeviceEvent): void {
+    const status = this.peek<DeviceStatus>(`status:${event.deviceId}`);
+    if (!status) return;
+
+    const component = status.components[event.component] || (status.components[event.component] = {});
+    const capability = component[event.capability] || (component[event.capability] = {});
+    capability[event.attribute] = {
+      value: event.value,
+      unit: event.unit,
+      timestamp: event.timestamp || new Date().toISOString(),
+    };
+  }
+}
+
+// Export singleton instance
+export const deviceInventory = new DeviceInventory();
@@ -0,0 +1,176 @@
+import { db } from '../database/db';
+
+/** Icons the dashboard can show in place of the one it guesses from the device */
+export const DEVICE_ICONS = [
+  'light',
+  'outlet',
+  'thermostat',
+  'camera',
+  'lock',
+  'fridge',
+  'fan',
+  'water',
+  'energy',
+  'door',
+  'sensor',
+  'speaker',
+  'tv',
+] as const;
+
+export type DeviceIcon = typeof DEVICE_ICONS[number];
+
+export interface DeviceMetadata {
+  deviceId: string;
+  displayName?: string;
+  icon?: DeviceIcon;
+  /** Accent color as #rrggbb */
+  color?: string;
+  tags: string[];
+  hidden: boolean;
+  sortOrder?: number;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+export type DeviceMetadataInput = Partial<Omit<DeviceMetadata, 'deviceId' | 'updatedAt' | 'updatedBy'>>;
+
+/** Metadata fields as merged into device responses */
+export interface DeviceDisplay {
+  displayName?: string;
+  icon?: DeviceIcon;
+  color?: string;
+  tags: string[];
+  hidden: boolean;
+  sortOrder?: number;
+}
+
+interface MetadataRow {
+  device_id: string;
+  display_name: string | null;
+  icon: string | null;
+  color: string | null;
+  tags: string;
+  hidden: number;
+  sort_order: number | null;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+function toMetadata(row: MetadataRow): DeviceMetadata {
+  return {
+    deviceId: row.device_id,
+    displayName: row.display_name || undefined,
+    icon: (row.icon as DeviceIcon) || undefined,
+    color: row.color || undefined,
+    tags: JSON.parse(row.tags),
+    hidden: row.hidden === 1,
+    sortOrder: row.sort_order ?? undefined,
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by || undefined,
+  };
+}
+
+/**
+ * Device metadata
+ *
+ * Local overrides for how a device is presented (name, icon, color, tags,
+ * visibility, order) without changing it in SmartThings. Stored per device id
+ * and merged into device listings.
+ */
+export class DeviceMetadataService {
+  static get(deviceId: string): DeviceMetadata | undefined {
+    const row = db.prepare<unknown[], MetadataRow>('SELECT * FROM device_metadata WHERE device_id = ?').get(deviceId);
+    return row ? toMetadata(row) : undefined;
+  }
+
+  static getAll(): DeviceMetadata[] {
+    return db.prepare<unknown[], MetadataRow>('SELECT * FROM device_metadata ORDER BY device_id')
+      .all()
+      .map(toMetadata);
+  }
+
+  /**
+   * Replace a device's metadata; fields left out are cleared
+   */
+  static set(deviceId: string, input: DeviceMetadataInput, updatedBy?: string): DeviceMetadata {
+    const tags = Array.from(new Set((input.tags || []).map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+    const metadata: DeviceMetadata = {
+      deviceId,
+      displayName: input.displayName?.trim() || undefined,
+      icon: input.icon,
+      color: input.color?.toLowerCase(),
+      tags,
+      hidden: input.hidden === true,
+      sortOrder: input.sortOrder,
+      updatedAt: new Date().toISOString(),
+      updatedBy,
+    };
+
+    db.prepare(`
+      INSERT INTO device_metadata (
+        device_id, display_name, icon, color, tags, hidden, sort_order, updated_at, updated_by
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(device_id) DO UPDATE SET
+        display_name = excluded.display_name,
+        icon = excluded.icon,
+        color = excluded.color,
+        tags = excluded.tags,
+        hidden = excluded.hidden,
+        sort_order = excluded.sort_order,
+        updated_at = excluded.updated_at,
+        updated_by = excluded.updated_by
+    `).run(
+      deviceId,
+      metadata.displayName || null,
+      metadata.icon || null,
+      metadata.color || null,
+      JSON.stringify(metadata.tags),
+      metadata.hidden ? 1 : 0,
+      metadata.sortOrder ?? null,
+      metadata.updatedAt,
+      updatedBy || null
+    );
+
+    return metadata;
+  }
+
+  /**
+   * Remove a device's metadata; returns false if it had none
+   */
+  static remove(deviceId: string): boolean {
+    return db.prepare('DELETE FROM device_metadata WHERE device_id = ?').run(deviceId).changes > 0;
+  }
+
+  /**
+   * Merge metadata into devices and order them: devices with a sort order
+   * first (ascending), the rest in their original order
+   */
+  static apply<T extends { deviceId: string }>(devices: T[]): Array<T & DeviceDisplay> {
+    const byId = new Map(this.getAll().map(metadata => [metadata.deviceId, metadata]));
+
+    const merged = devices.map((device, index) => {
+      const metadata = byId.get(device.deviceId);
+      return {
+        index,
+        device: {
+          ...device,
+          displayName: metadata?.displayName,
+          icon: metadata?.icon,
+          color: metadata?.color,
+          tags: metadata?.tags || [],
+          hidden: metadata?.hidden || false,
+          sortOrder: metadata?.sortOrder,
+        },
+      };
+    });
+
+    return merged
+      .sort((a, b) => {
+        const orderA = a.device.sortOrder ?? Number.POSITIVE_INFINITY;
+        const orderB = b.device.sortOrder ?? Number.POSITIVE_INFINITY;
+        return orderA !== orderB ? orderA - orderB : a.index - b.index;
+      })
+      .map(entry => entry.device);
+  }
+}
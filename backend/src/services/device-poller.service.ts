@@ -0,0 +1,167 @@
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { DeviceProviderError } from './device-provider';
+import { deviceEventService, DeviceEvent } from './device-event.service';
+import { deviceInventory } from './device-inventory.service';
+
+export interface PollerOptions {
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  maxRequestsPerMinute: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Device status poller
+ *
+ * Fallback event source for installs without a public webhook. Reads every
+ * device's status in turn (refreshing the inventory cache as it goes) and
+ * hands it to the device event service, which records the attributes that
+ * changed since the last read.
+ *
+ * The interval adapts: it drops to the minimum while changes are being found,
+ * doubles up to the maximum while the home is quiet, and stays at the maximum
+ * while the SmartApp webhook is delivering events. Status reads are spaced to
+ * stay under the request budget, and a 429 pauses polling until the provider's
+ * retry time has passed.
+ */
+export class DevicePollerService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private interval: number;
+  private deviceIds: string[] = [];
+  private lastRequestAt = 0;
+  private lastWebhookEventAt = 0;
+  private pausedUntil = 0;
+  private lastPollAt?: string;
+  /** Bumped by stop(), so an in-flight cycle can tell it was stopped */
+  private generation = 0;
+
+  constructor(private options: PollerOptions = config.polling) {
+    this.interval = options.minIntervalMs;
+
+    deviceEventService.on('device-event', (event: DeviceEvent) => {
+      if (event.source === 'smartapp') {
+        this.lastWebhookEventAt = Date.now();
+      }
+    });
+  }
+
+  /**
+   * Start polling in the background
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(this.options.minIntervalMs);
+    logger.info('✓ Device status polling started');
+  }
+
+  /**
+   * Stop polling (an in-flight cycle stops before its next request)
+   */
+  stop(): void {
+    this.running = false;
+    this.generation++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Current polling state
+   */
+  getStats() {
+    return {
+      running: this.running,
+      intervalMs: this.interval,
+      devices: this.deviceIds.length,
+      lastPollAt: this.lastPollAt,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Read every device's status once and record changes
+   * @returns number of attribute changes found
+   */
+  async pollOnce(): Promise<number> {
+    const generation = this.generation;
+    this.deviceIds = (await deviceInventory.listDevices()).map(d => d.deviceId);
+
+    let changes = 0;
+    for (const deviceId of this.deviceIds) {
+      await this.throttle();
+      if (this.generation !== generation) break;
+
+      try {
+        const status = await deviceInventory.refreshStatus(deviceId);
+        const found = await deviceEventService.applyStatus(deviceId, status, { source: 'poller' });
+        changes += found.length;
+      } catch (error) {
+        if (error instanceof DeviceProviderError && error.retryAfterMs !== undefined) {
+          // Rate limited or circuit open: wait until the provider says we may retry
+          this.pausedUntil = Date.now() + error.retryAfterMs;
+          logger.warn(`Device polling paused for ${Math.round(error.retryAfterMs / 1000)}s: ${error.message}`);
+          break;
+        }
+        logger.debug(`Failed to poll status for device ${deviceId}`);
+      }
+    }
+
+    this.lastPollAt = new Date().toISOString();
+    return changes;
+  }
+
+  private async run(): Promise<void> {
+    const generation = this.generation;
+    try {
+      const changes = await this.pollOnce();
+      this.interval = this.nextInterval(changes);
+    } catch (error) {
+      logger.warn('Device polling cycle failed');
+      this.interval = this.options.maxIntervalMs;
+    }
+
+    // Stopped during the cycle; if started again since, that start scheduled its own
+    if (this.generation !== generation) return;
+    this.schedule(Math.max(this.interval, this.pausedUntil - Date.now()));
+  }
+
+  private nextInterval(changes: number): number {
+    const { minIntervalMs, maxIntervalMs } = this.options;
+
+    if (Date.now() - this.lastWebhookEventAt < maxIntervalMs) {
+      return maxIntervalMs;
+    }
+    if (changes > 0) {
+      return minIntervalMs;
+    }
+    return Math.min(this.interval * 2, maxIntervalMs);
+  }
+
+  private schedule(delay: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => this.run(), delay);
+    this.timer.unref();
+  }
+
+  /**
+   * Space out requests to stay within the per-minute budget
+   */
+  private async throttle(): Promise<void> {
+    const spacing = 60000 / this.options.maxRequestsPerMinute;
+    const wait = Math.max(this.lastRequestAt + spacing - Date.now(), this.pausedUntil - Date.now(), 0);
+    if (wait > 0) {
+      await sleep(wait);
+    }
+    this.lastRequestAt = Date.now();
+  }
+}
+
+// Export singleton instance
+export const devicePollerService = new DevicePollerService();
@@ -0,0 +1,190 @@
+/**
+ * Device provider abstraction
+ *
+ * A provider is any backend that can list and control devices (SmartThings,
+ * a local hub, ...). Providers speak in their own local IDs; the device
+ * registry is responsible for namespacing them when several are registered.
+ */
+
+export interface Device {
+  deviceId: string;
+  name: string;
+  label: string;
+  locationId?: string;
+  roomId?: string;
+  room?: string;
+  manufacturerName?: string;
+  presentationId?: string;
+  deviceTypeName?: string;
+  components: Record<string, Component>;
+}
+
+export interface Component {
+  id: string;
+  /** Display name of a sub-component, e.g. "Outlet 2" or "Freezer" */
+  label?: string;
+  capabilities: Capability[];
+}
+
+export interface Capability {
+  id: string;
+  version?: number;
+}
+
+export interface DeviceStatus {
+  components: Record<string, ComponentStatus>;
+}
+
+export interface ComponentStatus {
+  [capabilityId: string]: {
+    [attributeName: string]: {
+      value: unknown;
+      unit?: string;
+      timestamp: string;
+    };
+  };
+}
+
+export interface Location {
+  locationId: string;
+  name: string;
+  timeZoneId?: string;
+}
+
+export interface Room {
+  roomId: string;
+  name: string;
+  locationId?: string;
+}
+
+/** One command in a multi-command request */
+export interface DeviceCommand {
+  /** Defaults to 'main' */
+  component?: string;
+  capability: string;
+  command: string;
+  arguments?: unknown[];
+}
+
+export interface SceneAction {
+  deviceId: string;
+  deviceLabel?: string;
+  /** Defaults to 'main' */
+  component?: string;
+  capability: string;
+  command: string;
+  arguments?: unknown[];
+  /** Seconds to wait before this action (local scenes) */
+  delaySeconds?: number;
+}
+
+export interface Scene {
+  sceneId: string;
+  sceneName: string;
+  sceneIcon?: string;
+  sceneColor?: string;
+  locationId: string;
+  createdBy: string;
+  createdDate: string;
+  lastUpdatedDate: string;
+  lastExecutedDate?: string;
+  actions?: SceneAction[];
+}
+
+/**
+ * Error categories reported to API clients as `code`
+ */
+export type DeviceErrorCode =
+  | 'PROVIDER_AUTH_EXPIRED'
+  | 'DEVICE_OFFLINE'
+  | 'RATE_LIMITED'
+  | 'BAD_ARGUMENTS'
+  | 'NOT_FOUND'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'PROVIDER_ERROR';
+
+/** HTTP status returned to API clients for each error code */
+const ERROR_STATUS: Record<DeviceErrorCode, number> = {
+  // Not 401: that would log the user out of this app
+  PROVIDER_AUTH_EXPIRED: 502,
+  DEVICE_OFFLINE: 409,
+  RATE_LIMITED: 429,
+  BAD_ARGUMENTS: 400,
+  NOT_FOUND: 404,
+  PROVIDER_UNAVAILABLE: 503,
+  PROVIDER_ERROR: 502,
+};
+
+/**
+ * Classified failure from a device provider
+ */
+export class DeviceProviderError extends Error {
+  readonly httpStatus: number;
+
+  constructor(
+    message: string,
+    public readonly code: DeviceErrorCode,
+    /** When the caller may retry (rate limits, open circuit) */
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'DeviceProviderError';
+    this.httpStatus = ERROR_STATUS[code];
+  }
+}
+
+/** Reachability of a device as reported by its provider */
+export interface DeviceHealthReport {
+  state: 'online' | 'offline' | 'unknown';
+  /** When the provider last updated the state */
+  updatedAt?: string;
+}
+
+/** Circuit breaker state of a provider's API client */
+export interface ProviderHealth {
+  circuit: 'closed' | 'open' | 'half-open';
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAt?: string;
+}
+
+export interface DeviceProvider {
+  /** Short identifier used to namespace device, room and scene IDs */
+  readonly id: string;
+  /** Human readable name (shown in health checks) */
+  readonly name: string;
+
+  /** Device definitions; status may be included but is not required */
+  getDevices(): Promise<Device[]>;
+  getDevice(deviceId: string): Promise<Device>;
+  getDeviceStatus(deviceId: string): Promise<DeviceStatus>;
+  /** `component` defaults to 'main' */
+  executeCommand(deviceId: string, capability: string, command: string, args?: unknown[], component?: string): Promise<void>;
+  /** Several commands to one device in a single call, for providers whose API supports it */
+  executeCommands?(deviceId: string, commands: DeviceCommand[]): Promise<void>;
+  /** Whether the device is reachable, for providers that track it */
+  getDeviceHealth?(deviceId: string): Promise<DeviceHealthReport>;
+  getLocations(): Promise<Location[]>;
+  getRooms(): Promise<Room[]>;
+  getScenes(): Promise<Scene[]>;
+  executeScene(sceneId: string): Promise<void>;
+  testConnection(): Promise<boolean>;
+  /** Client health, for providers that call a remote API */
+  getHealth?(): ProviderHealth;
+}
+
+/** Freshness of a cached response */
+export interface CacheInfo {
+  updatedAt: string;
+  ageSeconds: number;
+  stale: boolean;
+}
+
+/**
+ * The device operations routes depend on: implemented by the device
+ * inventory and by a demo session's simulated home
+ */
+export type DeviceSource = Omit<DeviceProvider, 'id' | 'name' | 'testConnection' | 'getHealth' | 'getDeviceHealth'> & {
+  /** Cache freshness for 'devices', 'locations', 'rooms' or 'status:<deviceId>', if cached */
+  describeCache?(key: string): CacheInfo | undefined;
+};
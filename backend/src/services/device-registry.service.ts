@@ -0,0 +1,286 @@
+import { logger } from '../utils/logger';
+import { smartThingsService } from './smartthings.service';
+import {
+  Device,
+  DeviceCommand,
+  DeviceHealthReport,
+  DeviceProvider,
+  DeviceProviderError,
+  DeviceStatus,
+  Location,
+  ProviderHealth,
+  Room,
+  Scene,
+} from './device-provider';
+
+const ID_SEPARATOR = ':';
+
+/**
+ * Registry of device providers
+ *
+ * Merges devices, locations, rooms and scenes from every registered provider
+ * into a single view. IDs from non-default providers are namespaced as
+ * `<providerId>:<localId>`; the default provider keeps its raw IDs so that
+ * existing ACL grants and device history stay valid.
+ */
+export class DeviceRegistry {
+  private providers: Map<string, DeviceProvider> = new Map();
+  private defaultProviderId: string | null = null;
+
+  /**
+   * Register a provider
+   */
+  register(provider: DeviceProvider, options: { isDefault?: boolean } = {}): void {
+    if (provider.id.includes(ID_SEPARATOR)) {
+      throw new Error(`Provider id must not contain "${ID_SEPARATOR}": ${provider.id}`);
+    }
+
+    this.providers.set(provider.id, provider);
+
+    if (options.isDefault || !this.defaultProviderId) {
+      this.defaultProviderId = provider.id;
+    }
+
+    logger.info(`Device provider registered: ${provider.name} (${provider.id})`);
+  }
+
+  /**
+   * Remove a provider
+   */
+  unregister(providerId: string): void {
+    this.providers.delete(providerId);
+
+    if (this.defaultProviderId === providerId) {
+      this.defaultProviderId = this.providers.keys().next().value ?? null;
+    }
+  }
+
+  /**
+   * Get all registered providers
+   */
+  getProviders(): DeviceProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Build the registry-wide ID for a provider-local ID
+   */
+  toGlobalId(providerId: string, localId: string): string {
+    if (providerId === this.defaultProviderId) {
+      return localId;
+    }
+    return `${providerId}${ID_SEPARATOR}${localId}`;
+  }
+
+  /**
+   * Resolve a registry-wide ID to its provider and provider-local ID
+   */
+  resolve(globalId: string): { provider: DeviceProvider; localId: string } {
+    const separatorIndex = globalId.indexOf(ID_SEPARATOR);
+    if (separatorIndex > 0) {
+      const provider = this.providers.get(globalId.slice(0, separatorIndex));
+      if (provider) {
+        return { provider, localId: globalId.slice(separatorIndex + 1) };
+      }
+    }
+
+    const defaultProvider = this.defaultProviderId ? this.providers.get(this.defaultProviderId) : undefined;
+    if (!defaultProvider) {
+      throw new DeviceProviderError(`No device provider found for id: ${globalId}`, 'NOT_FOUND');
+    }
+
+    return { provider: defaultProvider, localId: globalId };
+  }
+
+  /**
+   * Get devices from all providers
+   * A failing provider is skipped unless every provider fails.
+   */
+  async getDevices(): Promise<Device[]> {
+    const results = await this.collect(provider => provider.getDevices());
+
+    return results.flatMap(({ provider, items }) =>
+      items.map(device => this.namespaceDevice(provider.id, device))
+    );
+  }
+
+  /**
+   * Get device details
+   */
+  async getDevice(deviceId: string): Promise<Device> {
+    const { provider, localId } = this.resolve(deviceId);
+    const device = await provider.getDevice(localId);
+    return this.namespaceDevice(provider.id, device);
+  }
+
+  /**
+   * Get device status
+   */
+  async getDeviceStatus(deviceId: string): Promise<DeviceStatus> {
+    const { provider, localId } = this.resolve(deviceId);
+    return provider.getDeviceStatus(localId);
+  }
+
+  /**
+   * Execute device command
+   */
+  async executeCommand(
+    deviceId: string,
+    capability: string,
+    command: string,
+    args: unknown[] = [],
+    component = 'main'
+  ): Promise<void> {
+    const { provider, localId } = this.resolve(deviceId);
+    await provider.executeCommand(localId, capability, command, args, component);
+  }
+
+  /**
+   * Execute several commands on one device, in a single call when the
+   * provider supports it and one after another otherwise
+   */
+  async executeCommands(deviceId: string, commands: DeviceCommand[]): Promise<void> {
+    const { provider, localId } = this.resolve(deviceId);
+
+    if (provider.executeCommands) {
+      await provider.executeCommands(localId, commands);
+      return;
+    }
+
+    for (const c of commands) {
+      await provider.executeCommand(localId, c.capability, c.command, c.arguments, c.component);
+    }
+  }
+
+  /**
+   * Get a device's health, or undefined if its provider doesn't track it
+   */
+  async getDeviceHealth(deviceId: string): Promise<DeviceHealthReport | undefined> {
+    const { provider, localId } = this.resolve(deviceId);
+    return provider.getDeviceHealth?.(localId);
+  }
+
+  /**
+   * Get locations from all providers
+   */
+  async getLocations(): Promise<Location[]> {
+    const results = await this.collect(provider => provider.getLocations());
+
+    return results.flatMap(({ provider, items }) =>
+      items.map(location => ({ ...location, locationId: this.toGlobalId(provider.id, location.locationId) }))
+    );
+  }
+
+  /**
+   * Get rooms from all providers
+   */
+  async getRooms(): Promise<Room[]> {
+    const results = await this.collect(provider => provider.getRooms());
+
+    return results.flatMap(({ provider, items }) =>
+      items.map(room => ({
+        ...room,
+        roomId: this.toGlobalId(provider.id, room.roomId),
+        locationId: room.locationId ? this.toGlobalId(provider.id, room.locationId) : undefined,
+      }))
+    );
+  }
+
+  /**
+   * Get scenes from all providers
+   */
+  async getScenes(): Promise<Scene[]> {
+    const results = await this.collect(provider => provider.getScenes());
+
+    return results.flatMap(({ provider, items }) =>
+      items.map(scene => ({
+        ...scene,
+        sceneId: this.toGlobalId(provider.id, scene.sceneId),
+        locationId: this.toGlobalId(provider.id, scene.locationId),
+        actions: scene.actions?.map(action => ({
+          ...action,
+          deviceId: this.toGlobalId(provider.id, action.deviceId),
+        })),
+      }))
+    );
+  }
+
+  /**
+   * Execute a scene
+   */
+  async executeScene(sceneId: string): Promise<void> {
+    const { provider, localId } = this.resolve(sceneId);
+    await provider.executeScene(localId);
+  }
+
+  /**
+   * Test the connection of every provider
+   */
+  async testConnections(): Promise<Record<string, boolean>> {
+    const entries = await Promise.all(
+      this.getProviders().map(async provider => {
+        try {
+          return [provider.id, await provider.testConnection()] as const;
+        } catch (error) {
+          return [provider.id, false] as const;
+        }
+      })
+    );
+
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Client health of every provider that reports it
+   */
+  getHealth(): Record<string, ProviderHealth> {
+    const health: Record<string, ProviderHealth> = {};
+    for (const provider of this.getProviders()) {
+      if (provider.getHealth) {
+        health[provider.id] = provider.getHealth();
+      }
+    }
+    return health;
+  }
+
+  /**
+   * Run a query against every provider, dropping providers that fail
+   */
+  private async collect<T>(
+    query: (provider: DeviceProvider) => Promise<T[]>
+  ): Promise<{ provider: DeviceProvider; items: T[] }[]> {
+    const providers = this.getProviders();
+    const settled = await Promise.allSettled(providers.map(provider => query(provider)));
+
+    const results: { provider: DeviceProvider; items: T[] }[] = [];
+    let lastError: unknown;
+
+    settled.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        results.push({ provider: providers[index], items: result.value });
+      } else {
+        lastError = result.reason;
+        logger.warn(`Device provider ${providers[index].id} failed:`, result.reason);
+      }
+    });
+
+    if (results.length === 0 && providers.length > 0) {
+      throw lastError;
+    }
+
+    return results;
+  }
+
+  private namespaceDevice(providerId: string, device: Device): Device {
+    return {
+      ...device,
+      deviceId: this.toGlobalId(providerId, device.deviceId),
+      locationId: device.locationId ? this.toGlobalId(providerId, device.locationId) : undefined,
+      roomId: device.roomId ? this.toGlobalId(providerId, device.roomId) : undefined,
+    };
+  }
+}
+
+// Export singleton instance
+export const deviceRegistry = new DeviceRegistry();
+deviceRegistry.register(smartThingsService, { isDefault: true });
@@ -0,0 +1,22 @@
+import { FastifyRequest } from 'fastify';
+import { DeviceSource } from './device-provider';
+import { deviceInventory } from './device-inventory.service';
+import { simulatorService } from './simulator.service';
+
+/**
+ * Who devices are accessed for: a request, or the backend acting for a user
+ * (scheduled scenes), which has no session
+ */
+export type DeviceActor = Pick<FastifyRequest, 'user' | 'isDemoMode' | 'sessionId'>;
+
+/**
+ * Get the device source for a request
+ * Demo sessions get their own simulated home, everyone else the cached
+ * inventory of the real providers.
+ */
+export function getDeviceSource(request: DeviceActor): DeviceSource {
+  if (request.isDemoMode && request.sessionId) {
+    return simulatorService.getHome(request.sessionId);
+  }
+  return deviceInventory;
+}
@@ -0,0 +1,127 @@
+import { logger } from '../utils/logger';
+import { CommandRunResult, runCommand } from './command-runner';
+import { DeviceTimer, DeviceTimerService } from './device-timer.service';
+import { UserService } from './user.service';
+import { websocketService } from './websocket.service';
+
+/** Longest sleep between checks, so clock changes are noticed */
+const MAX_SLEEP_MS = 60 * 1000;
+
+/** Shortest sleep, so a timer that keeps failing to run can't spin */
+const MIN_SLEEP_MS = 1000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Device timer runner
+ *
+ * Sleeps until the soonest timer (at most a minute at a time), then sends the
+ * commands that are due as the users who set them, through the same ACL, home
+ * mode and audit path as commands from the UI (`details.timer`). Timers that
+ * fell due while the server was down run as soon as it's back. A timer is
+ * kept while its command runs and, if that fails, kept with the error until
+ * it's dismissed. Every change to a device's timers is pushed to the clients
+ * that can access the device as `{ type: 'device-timers' }`.
+ */
+export class DeviceTimerRunner {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start running timers in the background
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const interrupted = DeviceTimerService.markInterrupted();
+    if (interrupted > 0) {
+      logger.warn(`${interrupted} device timer(s) were interrupted by the last shutdown`);
+    }
+    this.tick();
+    logger.info('✓ Device timers started');
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Push a device's timers to clients and plan the next wake-up again after
+   * they changed
+   */
+  timersChanged(deviceId: string): void {
+    this.pushTimers(deviceId);
+    if (this.running) {
+      this.planWake();
+    }
+  }
+
+  /**
+   * Run every timer that is due
+   * Timers are claimed before anything is awaited, so overlapping checks
+   * can't run one twice.
+   */
+  runDue(now: Date = new Date()): Promise<(CommandRunResult | undefined)[]> {
+    return Promise.all(DeviceTimerService.getDue(now).map(timer => this.runTimer(timer)));
+  }
+
+  private async runTimer(timer: DeviceTimer): Promise<CommandRunResult | undefined> {
+    if (!DeviceTimerService.claim(timer.timerId)) {
+      return undefined;
+    }
+    this.pushTimers(timer.deviceId);
+
+    const user = UserService.getUserById(timer.userId);
+    if (!user) {
+      logger.warn(`Timer ${timer.timerId} on ${timer.deviceId} skipped: the user who set it no longer exists`);
+      DeviceTimerService.fail(timer.timerId, 'The user who set it no longer exists');
+      this.pushTimers(timer.deviceId);
+      return undefined;
+    }
+
+    const result = await runCommand({ user, isDemoMode: false }, timer.deviceId, {
+      component: timer.component,
+      capability: timer.capability,
+      command: timer.command,
+      arguments: timer.arguments,
+    }, { type: 'timer', timerId: timer.timerId });
+    if (result.success) {
+      DeviceTimerService.remove(timer.timerId);
+    } else {
+      logger.warn(`Timer ${timer.timerId} on ${timer.deviceId} failed: ${result.error}`);
+      DeviceTimerService.fail(timer.timerId, result.error || 'Failed to execute command', result.code);
+    }
+    this.pushTimers(timer.deviceId);
+    return result;
+  }
+
+  private pushTimers(deviceId: string): void {
+    websocketService.broadcastDeviceTimers(deviceId, DeviceTimerService.list(deviceId))
+      .catch(error => logger.warn(`Device timer push failed: ${errorMessage(error)}`));
+  }
+
+  private tick(): void {
+    this.runDue().catch(error => logger.warn(`Device timer check failed: ${errorMessage(error)}`));
+    this.planWake();
+  }
+
+  private planWake(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    if (!this.running) return;
+
+    const nextRunAt = DeviceTimerService.getNextRunAt();
+    const untilNext = nextRunAt ? new Date(nextRunAt).getTime() - Date.now() : MAX_SLEEP_MS;
+    this.timer = setTimeout(() => this.tick(), Math.min(Math.max(untilNext, MIN_SLEEP_MS), MAX_SLEEP_MS));
+    this.timer.unref();
+  }
+}
+
+export const deviceTimerRunner = new DeviceTimerRunner();
@@ -0,0 +1,189 @@
+import { randomBytes } from 'crypto';
+import { db } from '../database/db';
+import { DeviceCommand } from './device-provider';
+
+/** Timers can be set (or extended to) at most this far ahead */
+export const MAX_TIMER_SECONDS = 24 * 60 * 60;
+
+/** Timers running at once on one device */
+export const MAX_TIMERS_PER_DEVICE = 10;
+
+/** `pending` until due, `running` while its command is sent, `failed` if that failed */
+export type DeviceTimerStatus = 'pending' | 'running' | 'failed';
+
+/**
+ * A command to send to a device later, e.g. turn the fan off in 20 minutes
+ */
+export interface DeviceTimer {
+  timerId: string;
+  deviceId: string;
+  component: string;
+  capability: string;
+  command: string;
+  arguments: unknown[];
+  runAt: string;
+  status: DeviceTimerStatus;
+  /** Why the command failed */
+  error?: string;
+  code?: string;
+  /** The user who set it; the command runs as them */
+  userId: string;
+  /** Their username, if they still exist */
+  username?: string;
+  createdAt: string;
+}
+
+interface DeviceTimerRow {
+  id: string;
+  device_id: string;
+  component: string;
+  capability: string;
+  command: string;
+  arguments: string;
+  run_at: string;
+  status: DeviceTimerStatus;
+  error: string | null;
+  error_code: string | null;
+  user_id: string;
+  username: string | null;
+  created_at: string;
+}
+
+const SELECT_TIMERS = `
+  SELECT t.*, u.username FROM device_timers AS t
+  LEFT JOIN users AS u ON u.id = t.user_id
+`;
+
+function toTimer(row: DeviceTimerRow): DeviceTimer {
+  return {
+    timerId: row.id,
+    deviceId: row.device_id,
+    component: row.component,
+    capability: row.capability,
+    command: row.command,
+    arguments: JSON.parse(row.arguments),
+    runAt: row.run_at,
+    status: row.status,
+    error: row.error || undefined,
+    code: row.error_code || undefined,
+    userId: row.user_id,
+    username: row.username || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Device timer storage
+ *
+ * A timer lives until its command has run or it's cancelled, so timers
+ * survive restarts. One whose command failed is kept with the error until
+ * it's dismissed (cancelled).
+ */
+export class DeviceTimerService {
+  static create(deviceId: string, command: DeviceCommand, runAt: Date, user: { id: string }): DeviceTimer {
+    const timerId = randomBytes(16).toString('hex');
+    db.prepare(`
+      INSERT INTO device_timers (id, device_id, component, capability, command, arguments, run_at, user_id, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      timerId,
+      deviceId,
+      command.component || 'main',
+      command.capability,
+      command.command,
+      JSON.stringify(command.arguments || []),
+      runAt.toISOString(),
+      user.id,
+      new Date().toISOString()
+    );
+
+    return this.get(timerId)!;
+  }
+
+  static get(timerId: string): DeviceTimer | undefined {
+    const row = db.prepare<unknown[], DeviceTimerRow>(`${SELECT_TIMERS} WHERE t.id = ?`).get(timerId);
+    return row ? toTimer(row) : undefined;
+  }
+
+  /**
+   * Timers still to run, running or failed (on one device, if given),
+   * soonest first
+   */
+  static list(deviceId?: string): DeviceTimer[] {
+    const rows = deviceId
+      ? db.prepare<unknown[], DeviceTimerRow>(`${SELECT_TIMERS} WHERE t.device_id = ? ORDER BY t.run_at`).all(deviceId)
+      : db.prepare<unknown[], DeviceTimerRow>(`${SELECT_TIMERS} ORDER BY t.run_at`).all();
+    return rows.map(toTimer);
+  }
+
+  /**
+   * Timers on a device that haven't failed
+   */
+  static countForDevice(deviceId: string): number {
+    const row = db.prepare<unknown[], { count: number }>(
+      "SELECT COUNT(*) AS count FROM device_timers WHERE device_id = ? AND status != 'failed'"
+    ).get(deviceId);
+    return row?.count || 0;
+  }
+
+  /**
+   * Move a pending timer; returns undefined once it has started running
+   */
+  static reschedule(timerId: string, runAt: Date): DeviceTimer | undefined {
+    const { changes } = db.prepare("UPDATE device_timers SET run_at = ? WHERE id = ? AND status = 'pending'")
+      .run(runAt.toISOString(), timerId);
+    return changes > 0 ? this.get(timerId) : undefined;
+  }
+
+  /**
+   * Mark a pending timer as running; false if it already is (or is gone), so
+   * overlapping checks can't run one twice
+   */
+  static claim(timerId: string): boolean {
+    return db.prepare("UPDATE device_timers SET status = 'running' WHERE id = ? AND status = 'pending'")
+      .run(timerId).changes > 0;
+  }
+
+  /**
+   * Keep a timer whose command failed, with the error
+   */
+  static fail(timerId: string, error: string, code?: string): DeviceTimer | undefined {
+    db.prepare("UPDATE device_timers SET status = 'failed', error = ?, error_code = ? WHERE id = ?")
+      .run(error, code || null, timerId);
+    return this.get(timerId);
+  }
+
+  /**
+   * Fail the timers that were running when the server stopped; their command
+   * may or may not have been sent. Returns how many there were.
+   */
+  static markInterrupted(): number {
+    return db.prepare(`
+      UPDATE device_timers SET status = 'failed', error = 'The server restarted while the timer was running'
+      WHERE status = 'running'
+    `).run().changes;
+  }
+
+  static remove(timerId: string): boolean {
+    return db.prepare('DELETE FROM device_timers WHERE id = ?').run(timerId).changes > 0;
+  }
+
+  /**
+   * Pending timers whose time has come
+   */
+  static getDue(now: Date): DeviceTimer[] {
+    return db.prepare<unknown[], DeviceTimerRow>(`${SELECT_TIMERS} WHERE t.status = 'pending' AND t.run_at <= ? ORDER BY t.run_at`)
+      .all(now.toISOString())
+      .map(toTimer);
+  }
+
+  /**
+   * Soonest time any pending timer runs
+   */
+  static getNextRunAt(): string | undefined {
+    const row = db.prepare<unknown[], { run_at: string | null }>(
+      "SELECT MIN(run_at) AS run_at FROM device_timers WHERE status = 'pending'"
+    ).get();
+    return row?.run_at || undefined;
+  }
+}
@@ -0,0 +1,232 @@
+import { EventEmitter } from 'events';
+import { config } from '../config/env';
+import { canChangeHomeMode } from '../middleware/acl.middleware';
+import { logAudit, logger } from '../utils/logger';
+import { runCommand } from './command-runner';
+import { DeviceProviderError } from './device-provider';
+import { DeviceActor } from './device-source';
+import { HOME_MODES, HomeMode, HomeModeChange, HomeModeService, HomeModeSource } from './home-mode.service';
+import { runScene } from './scene-runner';
+import { smartThingsService } from './smartthings.service';
+import { UserService } from './user.service';
+import { websocketService } from './websocket.service';
+
+/** Automations may change the mode at most this often, so rules can't flip it back and forth forever */
+const MAX_AUTOMATION_CHANGES_PER_MINUTE = 10;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** The mode can't be changed (by this user, or this often) */
+export class HomeModeChangeError extends Error {
+  constructor(message: string, public code: 'MODE_RESTRICTED' | 'MODE_CHANGE_LIMIT') {
+    super(message);
+    this.name = 'HomeModeChangeError';
+  }
+}
+
+export interface ModeChangeOptions {
+  source: HomeModeSource;
+  /** The user who changed it, directly or through their schedule or rule */
+  user?: NonNullable<DeviceActor['user']>;
+  ip?: string;
+  /** Audited with the change, e.g. the schedule or rule */
+  details?: Record<string, unknown>;
+}
+
+export interface EntryActionResult {
+  index: number;
+  type: 'scene' | 'command';
+  success: boolean;
+  error?: string;
+  code?: string;
+}
+
+/**
+ * Household mode manager
+ *
+ * Changes the mode the backend owns: records the change, pushes
+ * `{ type: 'home-mode', change }` to every user, runs the new mode's entry
+ * actions and emits 'mode-change' (automations with mode triggers listen).
+ *
+ * With HOME_MODE_SYNC_LOCATION_ID set, the mode follows the SmartThings
+ * location's mode (polled, matched by name) and changes made here are pushed
+ * to SmartThings.
+ */
+export class HomeModeManager extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  /** The SmartThings mode last seen or set, so our own change isn't read back as a new one */
+  private syncedModeId?: string;
+
+  /**
+   * Start following the SmartThings location mode (if configured)
+   */
+  start(): void {
+    if (this.running || !config.homeModes.syncLocationId) return;
+    this.running = true;
+    this.poll();
+    logger.info('✓ Home mode sync started');
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Change the mode; returns undefined if the home is already in it
+   * Throws HomeModeChangeError if the user may not leave the current mode
+   * or automations have changed it too often.
+   */
+  async setMode(mode: HomeMode, options: ModeChangeOptions): Promise<HomeModeChange | undefined> {
+    const { source, user, ip, details = {} } = options;
+    const { mode: previousMode } = HomeModeService.getCurrent();
+    if (mode === previousMode) return undefined;
+
+    const deny = (error: HomeModeChangeError) => {
+      logAudit({
+        action: 'home_mode.changed',
+        user: user?.username || 'system',
+        success: false,
+        ip,
+        details: { ...details, mode, previousMode, source, code: error.code },
+      });
+      return error;
+    };
+    if (user && !canChangeHomeMode({ user, isDemoMode: false })) {
+      throw deny(new HomeModeChangeError(`Only admins can leave ${previousMode} mode`, 'MODE_RESTRICTED'));
+    }
+    const lastMinute = new Date(Date.now() - 60 * 1000);
+    if (source === 'automation' && HomeModeService.countChangesSince('automation', lastMinute) >= MAX_AUTOMATION_CHANGES_PER_MINUTE) {
+      throw deny(new HomeModeChangeError('Automations are changing the mode too often', 'MODE_CHANGE_LIMIT'));
+    }
+
+    const change = HomeModeService.recordChange({ mode, previousMode, source, changedBy: user?.username });
+    logAudit({
+      action: 'home_mode.changed',
+      user: user?.username || 'system',
+      success: true,
+      ip,
+      details: { ...details, mode, previousMode, source },
+    });
+
+    const message = { type: 'home-mode', change };
+    UserService.getAllUsers().forEach(recipient => websocketService.broadcastToUser(recipient.id, message));
+    this.emit('mode-change', change);
+
+    // Entry actions can take a while (scenes with delays); don't hold up the caller
+    this.runEntryActions(mode, user).catch(error => logger.warn(`${mode} mode entry actions failed: ${errorMessage(error)}`));
+    if (source !== 'smartthings') {
+      this.pushToSmartThings(mode).catch(error => logger.warn(`Home mode sync to SmartThings failed: ${errorMessage(error)}`));
+    }
+
+    return change;
+  }
+
+  /**
+   * Run a mode's entry actions in order, as the user who changed the mode, so
+   * they only do what that user could do by hand. Changes without a user
+   * (SmartThings sync) run them as the admin who last saved the settings.
+   * Each is audited like a command or scene run by hand, with
+   * `details.homeMode`.
+   */
+  async runEntryActions(mode: HomeMode, user?: ModeChangeOptions['user']): Promise<EntryActionResult[]> {
+    const { entryActions, updatedBy } = HomeModeService.getSettings(mode);
+    if (entryActions.length === 0) return [];
+
+    const runAs = user || (updatedBy ? UserService.getUserById(updatedBy) : null);
+    if (!runAs) {
+      logger.warn(`${mode} mode entry actions skipped: the admin who set them up no longer exists`);
+      return [];
+    }
+
+    const actor = { user: runAs, isDemoMode: false };
+    const results: EntryActionResult[] = [];
+    for (const [index, action] of entryActions.entries()) {
+      try {
+        if (action.type === 'scene') {
+          const execution = await runScene(actor, action.sceneId, { homeMode: mode });
+          results.push({
+            index,
+            type: action.type,
+            success: execution.success,
+            error: execution.error || (execution.failed > 0 ? `${execution.failed} of ${execution.actions.length} actions failed` : undefined),
+            code: execution.code,
+          });
+        } else {
+          const { success, error, code } = await runCommand(actor, action.deviceId, {
+            component: action.component || 'main',
+            capability: action.capability,
+            command: action.command,
+            arguments: action.arguments,
+          }, { type: 'home-mode', homeMode: mode });
+          results.push({ index, type: action.type, success, error, code });
+        }
+      } catch (error) {
+        results.push({
+          index,
+          type: action.type,
+          success: false,
+          error: errorMessage(error),
+          code: error instanceof DeviceProviderError ? error.code : undefined,
+        });
+      }
+    }
+
+    const failed = results.filter(result => !result.success).length;
+    if (failed > 0) {
+      logger.warn(`${mode} mode: ${failed} of ${results.length} entry actions failed`);
+    }
+    return results;
+  }
+
+  /**
+   * Set the SmartThings location mode with the same name, if there is one
+   */
+  private async pushToSmartThings(mode: HomeMode): Promise<void> {
+    const locationId = config.homeModes.syncLocationId;
+    if (!locationId) return;
+
+    const modes = await smartThingsService.getLocationModes(locationId);
+    const match = modes.find(candidate => candidate.name.toLowerCase() === mode.toLowerCase());
+    if (!match) {
+      logger.warn(`SmartThings location ${locationId} has no ${mode} mode to sync to`);
+      return;
+    }
+    if (match.modeId !== this.syncedModeId) {
+      await smartThingsService.setLocationMode(locationId, match.modeId);
+      this.syncedModeId = match.modeId;
+    }
+  }
+
+  /**
+   * Follow a SmartThings mode change made elsewhere (the app, its routines)
+   */
+  private async pullFromSmartThings(): Promise<void> {
+    const current = await smartThingsService.getCurrentLocationMode(config.homeModes.syncLocationId!);
+    if (current.modeId === this.syncedModeId) return;
+    this.syncedModeId = current.modeId;
+
+    const mode = HOME_MODES.find(candidate => candidate.toLowerCase() === current.name.toLowerCase());
+    if (mode) {
+      await this.setMode(mode, { source: 'smartthings', details: { smartThingsModeId: current.modeId } });
+    }
+  }
+
+  private poll(): void {
+    this.pullFromSmartThings()
+      .catch(error => logger.warn(`Home mode sync from SmartThings failed: ${errorMessage(error)}`))
+      .finally(() => {
+        if (!this.running) return;
+        this.timer = setTimeout(() => this.poll(), config.homeModes.syncIntervalMs);
+        this.timer.unref();
+      });
+  }
+}
+
+export const homeModeManager = new HomeModeManager();
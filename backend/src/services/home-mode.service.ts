@@ -0,0 +1,218 @@
+import { randomBytes } from 'crypto';
+import { db } from '../database/db';
+
+export const HOME_MODES = ['Home', 'Away', 'Night', 'Vacation'] as const;
+
+export type HomeMode = typeof HOME_MODES[number];
+
+/** The mode before anything has been recorded */
+export const DEFAULT_HOME_MODE: HomeMode = 'Home';
+
+/** Older mode changes are pruned when a new one is recorded */
+const MAX_CHANGES = 500;
+
+/** Run when the home enters a mode */
+export type ModeEntryAction =
+  | { type: 'scene'; sceneId: string }
+  | { type: 'command'; deviceId: string; component?: string; capability: string; command: string; arguments?: unknown[] };
+
+export interface HomeModeSettings {
+  mode: HomeMode;
+  entryActions: ModeEntryAction[];
+  /**
+   * While in this mode, users (not admins) can control only these devices;
+   * undefined: no restriction
+   */
+  allowedDeviceIds?: string[];
+  /** The admin who last saved the settings; entry actions run as them */
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+/** What changed the mode */
+export type HomeModeSource = 'api' | 'schedule' | 'automation' | 'smartthings';
+
+export interface HomeModeChange {
+  changeId: string;
+  mode: HomeMode;
+  previousMode?: HomeMode;
+  source: HomeModeSource;
+  /** Username, when a user (directly or through their schedule or rule) changed it */
+  changedBy?: string;
+  changedAt: string;
+}
+
+interface HomeModeRow {
+  mode: HomeMode;
+  entry_actions: string;
+  allowed_device_ids: string | null;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+interface HomeModeChangeRow {
+  id: string;
+  mode: HomeMode;
+  previous_mode: HomeMode | null;
+  source: HomeModeSource;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+function toSettings(row: HomeModeRow): HomeModeSettings {
+  return {
+    mode: row.mode,
+    entryActions: JSON.parse(row.entry_actions),
+    allowedDeviceIds: row.allowed_device_ids ? JSON.parse(row.allowed_device_ids) : undefined,
+    updatedBy: row.updated_by || undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toChange(row: HomeModeChangeRow): HomeModeChange {
+  return {
+    changeId: row.id,
+    mode: row.mode,
+    previousMode: row.previous_mode || undefined,
+    source: row.source,
+    changedBy: row.changed_by || undefined,
+    changedAt: row.changed_at,
+  };
+}
+
+export function isHomeMode(value: string): value is HomeMode {
+  return (HOME_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * Household mode storage
+ *
+ * Every mode change is kept; the current mode is the latest one, so it
+ * survives restarts. Each mode has its own entry actions and policy.
+ */
+export class HomeModeService {
+  /**
+   * The current mode and how it was entered (Home, never entered, if nothing
+   * has been recorded)
+   */
+  static getCurrent(): { mode: HomeMode; change?: HomeModeChange } {
+    const row = db.prepare<unknown[], HomeModeChangeRow>(
+      'SELECT * FROM home_mode_changes ORDER BY changed_at DESC, rowid DESC LIMIT 1'
+    ).get();
+    return row ? { mode: row.mode, change: toChange(row) } : { mode: DEFAULT_HOME_MODE };
+  }
+
+  static recordChange(input: Omit<HomeModeChange, 'changeId' | 'changedAt'>): HomeModeChange {
+    const change: HomeModeChange = {
+      ...input,
+      changeId: randomBytes(16).toString('hex'),
+      changedAt: new Date().toISOString(),
+    };
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO home_mode_changes (id, mode, previous_mode, source, changed_by, changed_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(change.changeId, change.mode, change.previousMode || null, change.source, change.changedBy || null, change.changedAt);
+
+      db.prepare(`
+        DELETE FROM home_mode_changes
+        WHERE id NOT IN (SELECT id FROM home_mode_changes ORDER BY changed_at DESC, rowid DESC LIMIT ?)
+      `).run(MAX_CHANGES);
+    })();
+
+    return change;
+  }
+
+  /**
+   * Most recent mode changes, newest first
+   */
+  static listChanges(limit = 20): HomeModeChange[] {
+    return db.prepare<unknown[], HomeModeChangeRow>(
+      'SELECT * FROM home_mode_changes ORDER BY changed_at DESC, rowid DESC LIMIT ?'
+    ).all(limit).map(toChange);
+  }
+
+  /**
+   * Count changes made by a source since a time
+   */
+  static countChangesSince(source: HomeModeSource, since: Date): number {
+    const row = db.prepare<unknown[], { count: number }>(
+      'SELECT COUNT(*) AS count FROM home_mode_changes WHERE source = ? AND changed_at >= ?'
+    ).get(source, since.toISOString());
+    return row?.count || 0;
+  }
+
+  /**
+   * When the home was in a mode since a time, oldest first (as far back as
+   * changes are kept); the current stay ends now
+   */
+  static getPeriods(mode: HomeMode, since: Date): { from: Date; to: Date }[] {
+    const before = db.prepare<unknown[], HomeModeChangeRow>(
+      'SELECT * FROM home_mode_changes WHERE changed_at < ? ORDER BY changed_at DESC, rowid DESC LIMIT 1'
+    ).get(since.toISOString());
+    const changes = db.prepare<unknown[], HomeModeChangeRow>(
+      'SELECT * FROM home_mode_changes WHERE changed_at >= ? ORDER BY changed_at ASC, rowid ASC'
+    ).all(since.toISOString());
+
+    const periods: { from: Date; to: Date }[] = [];
+    let start: Date | undefined = before?.mode === mode ? since : undefined;
+    for (const change of changes) {
+      const at = new Date(change.changed_at);
+      if (change.mode === mode && !start) {
+        start = at;
+      } else if (change.mode !== mode && start) {
+        periods.push({ from: start, to: at });
+        start = undefined;
+      }
+    }
+    if (start) {
+      periods.push({ from: start, to: new Date() });
+    }
+    return periods;
+  }
+
+  /**
+   * A mode's settings (no entry actions and no restriction if never saved)
+   */
+  static getSettings(mode: HomeMode): HomeModeSettings {
+    const row = db.prepare<unknown[], HomeModeRow>('SELECT * FROM home_modes WHERE mode = ?').get(mode);
+    return row ? toSettings(row) : { mode, entryActions: [] };
+  }
+
+  static getAllSettings(): HomeModeSettings[] {
+    return HOME_MODES.map(mode => this.getSettings(mode));
+  }
+
+  static saveSettings(
+    mode: HomeMode,
+    input: Pick<HomeModeSettings, 'entryActions' | 'allowedDeviceIds'>,
+    admin: { id: string }
+  ): HomeModeSettings {
+    const settings: HomeModeSettings = {
+      mode,
+      entryActions: input.entryActions,
+      allowedDeviceIds: input.allowedDeviceIds,
+      updatedBy: admin.id,
+      updatedAt: new Date().toISOString(),
+    };
+
+    db.prepare(`
+      INSERT INTO home_modes (mode, entry_actions, allowed_device_ids, updated_by, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(mode) DO UPDATE SET
+        entry_actions = excluded.entry_actions,
+        allowed_device_ids = excluded.allowed_device_ids,
+        updated_by = excluded.updated_by,
+        updated_at = excluded.updated_at
+    `).run(
+      mode,
+      JSON.stringify(settings.entryActions),
+      settings.allowedDeviceIds ? JSON.stringify(settings.allowedDeviceIds) : null,
+      settings.updatedBy,
+      settings.updatedAt
+    );
+
+    return settings;
+  }
+}
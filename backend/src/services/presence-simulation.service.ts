@@ -0,0 +1,264 @@
+import { randomBytes } from 'crypto';
+import { config } from '../config/env';
+import { db } from '../database/db';
+import { deviceHistoryService, parseHistoryTimestamp, toHistoryTimestamp } from './device-history.service';
+import { HomeModeService } from './home-mode.service';
+
+/** Switches may move at most this far from their usual time */
+export const MAX_JITTER_MINUTES = 60;
+
+const DEFAULT_JITTER_MINUTES = 15;
+
+/** Older log entries are pruned when a new one is recorded */
+const MAX_LOG_ENTRIES = 1000;
+
+const SETTINGS_KEY = 'presence_simulation';
+
+export type SwitchCommand = 'on' | 'off';
+
+export interface PresenceSimulationSettings {
+  enabled: boolean;
+  /** The lights to switch */
+  deviceIds: string[];
+  /** Each switch happens up to this many minutes before or after its usual time */
+  jitterMinutes: number;
+  /** The admin who last saved the settings; lights are switched as them */
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+/** How likely a light is switched on or off in one hour of one weekday */
+export interface LightPattern {
+  deviceId: string;
+  deviceLabel: string;
+  /** Local weekday, 0 (Sunday) to 6 */
+  weekday: number;
+  /** Local hour, 0-23 */
+  hour: number;
+  command: SwitchCommand;
+  /** Share of the learned weekdays it happened on (0-1) */
+  chance: number;
+  /** Usual minute past the hour */
+  minute: number;
+}
+
+export interface SimulationLogEntry {
+  entryId: string;
+  deviceId: string;
+  deviceLabel: string;
+  command: SwitchCommand;
+  /** When the switch was planned for, after jitter */
+  plannedFor: string;
+  ranAt: string;
+  success: boolean;
+  error?: string;
+  code?: string;
+}
+
+interface SettingsRow {
+  value: string;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+interface SimulationLogRow {
+  id: string;
+  device_id: string;
+  device_label: string;
+  command: SwitchCommand;
+  planned_for: string;
+  ran_at: string;
+  success: number;
+  error: string | null;
+  error_code: string | null;
+}
+
+function toLogEntry(row: SimulationLogRow): SimulationLogEntry {
+  return {
+    entryId: row.id,
+    deviceId: row.device_id,
+    deviceLabel: row.device_label,
+    command: row.command,
+    plannedFor: row.planned_for,
+    ranAt: row.ran_at,
+    success: row.success === 1,
+    error: row.error || undefined,
+    code: row.error_code || undefined,
+  };
+}
+
+/**
+ * Count the local days of each weekday from `from` to `to`, skipping days
+ * spent mostly in one of the excluded periods
+ */
+function countWeekdays(from: Date, to: Date, excluded: { from: Date; to: Date }[]): number[] {
+  const counts = [0, 0, 0, 0, 0, 0, 0];
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  while (day < to) {
+    const midday = new Date(day.getFullYear(), day.getMonth(), day.getDate(), 12);
+    if (!excluded.some(period => midday >= period.from && midday < period.to)) {
+      counts[day.getDay()]++;
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return counts;
+}
+
+/**
+ * Vacation presence simulation storage
+ *
+ * Settings (which lights, how much jitter), the light usage patterns learned
+ * from device history, and the log of every light switched.
+ */
+export class PresenceSimulationService {
+  static getSettings(): PresenceSimulationSettings {
+    const row = db.prepare<unknown[], SettingsRow>(
+      'SELECT value, updated_by, updated_at FROM settings WHERE key = ?'
+    ).get(SETTINGS_KEY);
+    if (!row) {
+      return { enabled: false, deviceIds: [], jitterMinutes: DEFAULT_JITTER_MINUTES };
+    }
+
+    const { enabled, deviceIds, jitterMinutes } = JSON.parse(row.value);
+    return { enabled, deviceIds, jitterMinutes, updatedBy: row.updated_by || undefined, updatedAt: row.updated_at };
+  }
+
+  static saveSettings(
+    input: Pick<PresenceSimulationSettings, 'enabled' | 'deviceIds' | 'jitterMinutes'>,
+    admin: { id: string }
+  ): PresenceSimulationSettings {
+    const settings: PresenceSimulationSettings = {
+      enabled: input.enabled,
+      deviceIds: input.deviceIds,
+      jitterMinutes: Math.min(input.jitterMinutes, MAX_JITTER_MINUTES),
+      updatedBy: admin.id,
+      updatedAt: new Date().toISOString(),
+    };
+
+    db.prepare(`
+      INSERT INTO settings (key, value, updated_at, updated_by)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET
+        value = excluded.value,
+        updated_at = excluded.updated_at,
+        updated_by = excluded.updated_by
+    `).run(
+      SETTINGS_KEY,
+      JSON.stringify({ enabled: settings.enabled, deviceIds: settings.deviceIds, jitterMinutes: settings.jitterMinutes }),
+      settings.updatedAt,
+      settings.updatedBy
+    );
+
+    return settings;
+  }
+
+  /**
+   * Learn when lights are usually switched on and off, per weekday and hour,
+   * from the last PRESENCE_SIMULATION_LEARN_DAYS of history
+   *
+   * A pattern's chance is the share of that weekday's days the light was
+   * switched in that hour, counted from the light's first recorded change.
+   * Earlier vacations are left out, so the simulation doesn't learn from
+   * itself.
+   */
+  static learnPatterns(deviceIds: string[], now: Date = new Date()): LightPattern[] {
+    if (deviceIds.length === 0) return [];
+
+    const start = new Date(now.getTime() - config.presenceSimulation.learnDays * 24 * 60 * 60 * 1000);
+    const vacations = HomeModeService.getPeriods('Vacation', start);
+    const buckets = deviceHistoryService.getWeekdayHourlyAggregation({
+      deviceIds,
+      capability: 'switch',
+      attribute: 'switch',
+      startDate: toHistoryTimestamp(start),
+      endDate: toHistoryTimestamp(now),
+      excludeRanges: vacations.map(period => ({ from: toHistoryTimestamp(period.from), to: toHistoryTimestamp(period.to) })),
+    });
+
+    const firstChanges = deviceHistoryService.getFirstChanges(deviceIds);
+    const observed = new Map<string, number[]>();
+    const weekdaysObserved = (deviceId: string): number[] => {
+      if (!observed.has(deviceId)) {
+        const firstChange = parseHistoryTimestamp(firstChanges.get(deviceId)!);
+        observed.set(deviceId, countWeekdays(firstChange > start ? firstChange : start, now, vacations));
+      }
+      return observed.get(deviceId)!;
+    };
+
+    const patterns: LightPattern[] = [];
+    for (const bucket of buckets) {
+      if (bucket.value !== 'on' && bucket.value !== 'off') continue;
+      const days = weekdaysObserved(bucket.deviceId)[bucket.weekday];
+      if (days === 0) continue;
+
+      patterns.push({
+        deviceId: bucket.deviceId,
+        deviceLabel: bucket.deviceLabel,
+        weekday: bucket.weekday,
+        hour: bucket.hour,
+        command: bucket.value as SwitchCommand,
+        chance: Math.min(bucket.days / days, 1),
+        minute: bucket.minute,
+      });
+    }
+    return patterns;
+  }
+
+  static recordLogEntry(input: Omit<SimulationLogEntry, 'entryId' | 'ranAt'>): SimulationLogEntry {
+    const entry: SimulationLogEntry = {
+      ...input,
+      entryId: randomBytes(16).toString('hex'),
+      ranAt: new Date().toISOString(),
+    };
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO presence_simulation_log (id, device_id, device_label, command, planned_for, ran_at, success, error, error_code)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        entry.entryId,
+        entry.deviceId,
+        entry.deviceLabel,
+        entry.command,
+        entry.plannedFor,
+        entry.ranAt,
+        entry.success ? 1 : 0,
+        entry.error || null,
+        entry.code || null
+      );
+
+      db.prepare(`
+        DELETE FROM presence_simulation_log
+        WHERE id NOT IN (SELECT id FROM presence_simulation_log ORDER BY ran_at DESC, rowid DESC LIMIT ?)
+      `).run(MAX_LOG_ENTRIES);
+    })();
+
+    return entry;
+  }
+
+  /**
+   * Lights the simulation last switched on, according to the log
+   */
+  static getSwitchedOn(): Pick<SimulationLogEntry, 'deviceId' | 'deviceLabel'>[] {
+    const rows = db.prepare<unknown[], SimulationLogRow>(
+      'SELECT * FROM presence_simulation_log WHERE success = 1 ORDER BY ran_at DESC, rowid DESC'
+    ).all();
+
+    const latest = new Map<string, SimulationLogRow>();
+    for (const row of rows) {
+      if (!latest.has(row.device_id)) latest.set(row.device_id, row);
+    }
+    return [...latest.values()]
+      .filter(row => row.command === 'on')
+      .map(row => ({ deviceId: row.device_id, deviceLabel: row.device_label }));
+  }
+
+  /**
+   * Lights switched by the simulation, newest first
+   */
+  static listLog(limit = 50): SimulationLogEntry[] {
+    return db.prepare<unknown[], SimulationLogRow>(
+      'SELECT * FROM presence_simulation_log ORDER BY ran_at DESC, rowid DESC LIMIT ?'
+    ).all(limit).map(toLogEntry);
+  }
+}
@@ -0,0 +1,253 @@
+import { logger } from '../utils/logger';
+import { runCommand } from './command-runner';
+import { HomeModeService } from './home-mode.service';
+import { homeModeManager } from './home-mode-manager.service';
+import { LightPattern, PresenceSimulationService, SimulationLogEntry, SwitchCommand } from './presence-simulation.service';
+import { UserService } from './user.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+
+/** A light switch planned for the coming hours */
+export interface PlannedSwitch {
+  deviceId: string;
+  deviceLabel: string;
+  command: SwitchCommand;
+  at: Date;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function startOfHour(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours());
+}
+
+function localDay(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+/**
+ * Find when a light usually goes off after a pattern that switches it on:
+ * minutes from the "on" to its next "off" pattern within a day, if it has one
+ */
+function minutesUntilOff(patterns: LightPattern[], on: LightPattern): number | undefined {
+  const weekMinute = (pattern: LightPattern) => (pattern.weekday * 24 + pattern.hour) * 60 + pattern.minute;
+  const gaps = patterns
+    .filter(pattern => pattern.deviceId === on.deviceId && pattern.command === 'off')
+    .map(pattern => (weekMinute(pattern) - weekMinute(on) + WEEK_MINUTES) % WEEK_MINUTES)
+    .filter(gap => gap > 0 && gap <= DAY_MINUTES);
+  return gaps.length > 0 ? Math.min(...gaps) : undefined;
+}
+
+/**
+ * Plan one hour's switches: each "on" pattern of that weekday and hour
+ * happens with its chance, at its usual minute moved by up to
+ * `jitterMinutes` either way. Every light switched on is paired with an "off"
+ * at its next usual off time (jittered the same way, but always after the
+ * "on"), or an hour later if it doesn't usually go off within a day, so no
+ * light is left on for the rest of the vacation.
+ */
+export function planHour(
+  patterns: LightPattern[],
+  hourStart: Date,
+  jitterMinutes: number,
+  random: () => number = Math.random
+): PlannedSwitch[] {
+  const weekday = hourStart.getDay();
+  const hour = hourStart.getHours();
+  const jittered = (minutes: number) => new Date(
+    hourStart.getTime() + (minutes + (random() * 2 - 1) * jitterMinutes) * 60 * 1000
+  );
+
+  return patterns
+    .filter(pattern => pattern.command === 'on' && pattern.weekday === weekday && pattern.hour === hour)
+    .filter(pattern => random() < pattern.chance)
+    .flatMap(pattern => {
+      const light = { deviceId: pattern.deviceId, deviceLabel: pattern.deviceLabel };
+      const onAt = jittered(pattern.minute);
+      const untilOff = minutesUntilOff(patterns, pattern);
+      const offAt = untilOff === undefined
+        ? new Date(onAt.getTime() + HOUR_MS)
+        : new Date(Math.max(jittered(pattern.minute + untilOff).getTime(), onAt.getTime() + 60 * 1000));
+      return [
+        { ...light, command: 'on' as const, at: onAt },
+        { ...light, command: 'off' as const, at: offAt },
+      ];
+    })
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * Vacation presence simulation
+ *
+ * While the home is in Vacation mode (and the simulation is enabled), switches
+ * the chosen lights the way they're usually switched on that weekday and hour,
+ * learned from device history, with random jitter. Each hour is planned an
+ * hour ahead, so switches jittered early still happen. Planning afresh (when
+ * the mode or settings change, or at startup) first switches off the lights
+ * the simulation left on, so leaving Vacation mode turns them off and lights
+ * whose planned "off" was dropped aren't left on. Lights are switched as
+ * the admin who saved the settings, through the same ACL and audit path as
+ * other commands (`details.presenceSimulation`), and every switch is kept in
+ * the simulation log.
+ */
+export class PresenceSimulator {
+  private running = false;
+  private planTimer: NodeJS.Timeout | null = null;
+  private switchTimers: Set<NodeJS.Timeout> = new Set();
+  private upcoming: PlannedSwitch[] = [];
+  private patterns?: { day: string; patterns: LightPattern[] };
+
+  private onModeChange = () => this.refresh();
+
+  /**
+   * Start following the home mode
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    homeModeManager.on('mode-change', this.onModeChange);
+    this.refresh();
+    logger.info('✓ Presence simulation started');
+  }
+
+  stop(): void {
+    this.running = false;
+    homeModeManager.off('mode-change', this.onModeChange);
+    this.deactivate();
+  }
+
+  /**
+   * Plan afresh after the mode or the settings changed
+   */
+  refresh(): void {
+    this.deactivate();
+    this.patterns = undefined;
+    if (this.running) {
+      this.switchOffLights().catch(error => logger.warn(`Presence simulation switch off failed: ${errorMessage(error)}`));
+    }
+
+    const settings = PresenceSimulationService.getSettings();
+    if (!this.running || !settings.enabled || settings.deviceIds.length === 0) return;
+    if (HomeModeService.getCurrent().mode !== 'Vacation') return;
+
+    // What's left of the last hour (switches jittered into this one) and this
+    // hour, then the next one
+    const now = new Date();
+    const hourStart = startOfHour(now);
+    this.plan(new Date(hourStart.getTime() - HOUR_MS), now);
+    this.plan(hourStart, now);
+    this.planNextHour(new Date(hourStart.getTime() + HOUR_MS));
+  }
+
+  /**
+   * Whether lights are being switched, and the switches planned so far
+   */
+  getStatus(): { active: boolean; upcoming: PlannedSwitch[] } {
+    return {
+      active: this.planTimer !== null,
+      upcoming: [...this.upcoming].sort((a, b) => a.at.getTime() - b.at.getTime()),
+    };
+  }
+
+  /**
+   * Switch one light as planned, as the admin who saved the settings, and
+   * log it
+   */
+  async runSwitch(planned: PlannedSwitch): Promise<SimulationLogEntry | undefined> {
+    const { updatedBy } = PresenceSimulationService.getSettings();
+    const admin = updatedBy ? UserService.getUserById(updatedBy) : null;
+    if (!admin) {
+      logger.warn('Presence simulation skipped: the admin who set it up no longer exists');
+      return undefined;
+    }
+
+    const { success, error, code } = await runCommand({ user: admin, isDemoMode: false }, planned.deviceId, {
+      component: 'main',
+      capability: 'switch',
+      command: planned.command,
+    }, { type: 'presence-simulation' });
+
+    return PresenceSimulationService.recordLogEntry({
+      deviceId: planned.deviceId,
+      deviceLabel: planned.deviceLabel,
+      command: planned.command,
+      plannedFor: planned.at.toISOString(),
+      success,
+      error,
+      code,
+    });
+  }
+
+  /**
+   * Switch off every light the simulation switched on and hasn't switched
+   * off since, logging each like a planned switch
+   */
+  async switchOffLights(): Promise<SimulationLogEntry[]> {
+    const entries: SimulationLogEntry[] = [];
+    for (const light of PresenceSimulationService.getSwitchedOn()) {
+      const entry = await this.runSwitch({ ...light, command: 'off', at: new Date() });
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  private deactivate(): void {
+    if (this.planTimer) {
+      clearTimeout(this.planTimer);
+      this.planTimer = null;
+    }
+    this.switchTimers.forEach(timer => clearTimeout(timer));
+    this.switchTimers.clear();
+    this.upcoming = [];
+  }
+
+  /**
+   * Patterns are learned again once a day
+   */
+  private getPatterns(now: Date): LightPattern[] {
+    const day = localDay(now);
+    if (this.patterns?.day !== day) {
+      const { deviceIds } = PresenceSimulationService.getSettings();
+      this.patterns = { day, patterns: PresenceSimulationService.learnPatterns(deviceIds, now) };
+    }
+    return this.patterns.patterns;
+  }
+
+  /**
+   * Plan an hour's switches, leaving out those already past `notBefore`
+   */
+  private plan(hourStart: Date, notBefore: Date): void {
+    const { jitterMinutes } = PresenceSimulationService.getSettings();
+    const planned = planHour(this.getPatterns(new Date()), hourStart, jitterMinutes)
+      .filter(item => item.at >= notBefore);
+
+    for (const item of planned) {
+      this.upcoming.push(item);
+      const timer = setTimeout(() => {
+        this.switchTimers.delete(timer);
+        this.upcoming = this.upcoming.filter(other => other !== item);
+        this.runSwitch(item).catch(error => logger.warn(`Presence simulation switch failed: ${errorMessage(error)}`));
+      }, Math.max(item.at.getTime() - Date.now(), 0));
+      timer.unref();
+      this.switchTimers.add(timer);
+    }
+  }
+
+  /**
+   * Plan the given hour when the one before it starts
+   */
+  private planNextHour(hourStart: Date): void {
+    const planAt = hourStart.getTime() - HOUR_MS;
+    this.planTimer = setTimeout(() => {
+      this.plan(hourStart, new Date());
+      this.planNextHour(new Date(hourStart.getTime() + HOUR_MS));
+    }, Math.max(planAt - Date.now(), 0));
+    this.planTimer.unref();
+  }
+}
+
+export const presenceSimulator = new PresenceSimulator();
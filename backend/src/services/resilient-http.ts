@@ -0,0 +1,248 @@
+import axios, { AxiosError, AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { logger } from '../utils/logger';
+import { DeviceProviderError, ProviderHealth } from './device-provider';
+
+export interface ResilientClientOptions {
+  /** Name used in log messages and errors */
+  name: string;
+  baseURL: string;
+  headers?: Record<string, string>;
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Longest Retry-After worth waiting for in-line; longer waits fail fast */
+  maxRetryAfterMs: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+/** Methods that are safe to repeat after a failure of unknown outcome */
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/** SmartThings' error code for a command sent to an unreachable device */
+const DEVICE_OFFLINE_ERROR_CODE = 'DeviceOfflineError';
+
+/**
+ * Milliseconds to wait after a 429, from Retry-After (seconds or an HTTP
+ * date) or X-RateLimit-Reset
+ */
+export function getRetryAfter(error: AxiosError): number {
+  const headers = error.response?.headers || {};
+  const retryAfter = headers['retry-after'];
+  if (retryAfter !== undefined && retryAfter !== null && retryAfter !== '') {
+    const seconds = Number(retryAfter);
+    if (seconds > 0) return seconds * 1000;
+
+    const retryAt = Date.parse(String(retryAfter));
+    if (!Number.isNaN(retryAt)) return Math.max(retryAt - Date.now(), 0);
+  }
+
+  const reset = Number(headers['x-ratelimit-reset']);
+  return reset > 0 ? reset : 60000;
+}
+
+/**
+ * Network errors, timeouts and 5xx responses: the remote end is struggling
+ */
+function isServerFailure(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status >= 500;
+}
+
+/**
+ * Circuit breaker
+ *
+ * Opens after `failureThreshold` consecutive server failures and rejects
+ * calls until `resetTimeoutMs` has passed; then lets a single trial call
+ * through (half-open), closing again if it succeeds.
+ */
+export class CircuitBreaker {
+  private state: ProviderHealth['circuit'] = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private failureThreshold: number, private resetTimeoutMs: number) {}
+
+  /**
+   * Whether a call may go out now
+   */
+  canRequest(): boolean {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+      return true;
+    }
+    return this.state === 'closed';
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Milliseconds until an open circuit allows a trial call
+   */
+  getRetryAfter(): number {
+    return Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now());
+  }
+
+  getHealth(): ProviderHealth {
+    const open = this.state !== 'closed';
+    return {
+      circuit: this.state,
+      consecutiveFailures: this.failures,
+      openedAt: open ? new Date(this.openedAt).toISOString() : undefined,
+      retryAt: this.state === 'open' ? new Date(this.openedAt + this.resetTimeoutMs).toISOString() : undefined,
+    };
+  }
+}
+
+/**
+ * HTTP client with retries and a circuit breaker
+ *
+ * - Idempotent calls are retried on network errors, timeouts and 5xx with
+ *   exponential backoff and full jitter
+ * - Any call is retried after a 429 once Retry-After has passed (the request
+ *   was not processed), unless the wait is longer than `maxRetryAfterMs`
+ * - Calls fail fast with PROVIDER_UNAVAILABLE while the circuit is open
+ */
+export class ResilientHttpClient {
+  private client: AxiosInstance;
+  private breaker: CircuitBreaker;
+
+  constructor(private options: ResilientClientOptions) {
+    this.client = axios.create({
+      baseURL: options.baseURL,
+      headers: options.headers,
+      timeout: options.timeoutMs,
+    });
+    this.breaker = new CircuitBreaker(options.failureThreshold, options.resetTimeoutMs);
+  }
+
+  get<T = any>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'get', url });
+  }
+
+  post<T = any>(url: string, data?: unknown, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'post', url, data });
+  }
+
+  put<T = any>(url: string, data?: unknown, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'put', url, data });
+  }
+
+  delete<T = any>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'delete', url });
+  }
+
+  getHealth(): ProviderHealth {
+    return this.breaker.getHealth();
+  }
+
+  async request<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const idempotent = IDEMPOTENT_METHODS.has((config.method || 'get').toLowerCase());
+
+    for (let attempt = 0; ; attempt++) {
+      if (!this.breaker.canRequest()) {
+        throw new DeviceProviderError(
+          `${this.options.name} is temporarily unavailable`,
+          'PROVIDER_UNAVAILABLE',
+          this.breaker.getRetryAfter()
+        );
+      }
+
+      try {
+        const response = await this.client.request<T>(config);
+        this.breaker.recordSuccess();
+        return response;
+      } catch (error) {
+        const serverFailure = isServerFailure(error);
+        if (serverFailure) {
+          this.breaker.recordFailure();
+        } else {
+          // Any HTTP answer means the API itself is reachable
+          this.breaker.recordSuccess();
+        }
+
+        if (attempt >= this.options.maxRetries || !axios.isAxiosError(error)) {
+          throw error;
+        }
+
+        if (error.response?.status === 429) {
+          const wait = getRetryAfter(error);
+          if (wait > this.options.maxRetryAfterMs) throw error;
+          logger.warn(`${this.options.name} rate limited, retrying in ${wait}ms`);
+          await sleep(wait);
+          continue;
+        }
+
+        if (idempotent && serverFailure) {
+          const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+          await sleep(Math.random() * ceiling);
+          continue;
+        }
+
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Classify a failed call so API clients get a meaningful code
+ */
+export function toProviderError(error: unknown, message: string): DeviceProviderError {
+  if (error instanceof DeviceProviderError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const body = error.response?.data as any;
+    const detail: string | undefined = body?.error?.message || body?.message;
+    const errorCodes: unknown[] = [body?.error?.code, ...(body?.error?.details || []).map((d: any) => d?.code)];
+    const offline = errorCodes.includes(DEVICE_OFFLINE_ERROR_CODE);
+
+    if (status === 401 || status === 403) {
+      return new DeviceProviderError('The SmartThings token is invalid, expired or lacks permission', 'PROVIDER_AUTH_EXPIRED');
+    }
+    if (status === 429) {
+      return new DeviceProviderError('Rate limit exceeded, try again later', 'RATE_LIMITED', getRetryAfter(error));
+    }
+    if (offline) {
+      return new DeviceProviderError('The device is offline', 'DEVICE_OFFLINE');
+    }
+    if (status === 404) {
+      return new DeviceProviderError(detail || 'Not found', 'NOT_FOUND');
+    }
+    if (status === 400 || status === 422) {
+      return new DeviceProviderError(detail || 'Invalid command arguments', 'BAD_ARGUMENTS');
+    }
+    if (status === undefined || status >= 500) {
+      return new DeviceProviderError(`${message}: service unavailable`, 'PROVIDER_UNAVAILABLE');
+    }
+  }
+
+  return new DeviceProviderError(message, 'PROVIDER_ERROR');
+}
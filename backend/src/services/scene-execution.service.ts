@@ -0,0 +1,295 @@
+import { randomBytes } from 'crypto';
+import { db } from '../database/db';
+import { config } from '../config/env';
+import { SceneAction } from './device-provider';
+import { SceneActionResult, SceneSource } from './scene.service';
+
+/** Older reports of a scene are pruned when a new one is recorded */
+const MAX_EXECUTIONS_PER_SCENE = 100;
+
+/** A run is stored when it starts and updated as its actions finish */
+export type SceneExecutionStatus = 'running' | 'completed' | 'interrupted';
+
+export interface SceneExecution {
+  executionId: string;
+  sceneId: string;
+  sceneName: string;
+  source: SceneSource;
+  userId: string;
+  username: string;
+  /** Set when this run retried the failed actions of an earlier one */
+  retryOf?: string;
+  /** Set when this run undid an earlier one */
+  revertOf?: string;
+  status: SceneExecutionStatus;
+  success: boolean;
+  succeeded: number;
+  failed: number;
+  /** Scene-level failure (provider scenes fail as a whole) */
+  error?: string;
+  code?: string;
+  actions: SceneActionResult[];
+  /** Actions that restore the touched devices to how they were before the run */
+  priorState: SceneAction[];
+  /** Until when the run can be undone; absent if it can't be */
+  revertibleUntil?: string;
+  revertedAt?: string;
+  startedAt: string;
+  /** Absent while running */
+  finishedAt?: string;
+  /** So far, while running */
+  durationMs: number;
+}
+
+export type SceneExecutionInput = Pick<
+  SceneExecution,
+  'sceneId' | 'sceneName' | 'source' | 'userId' | 'username' | 'retryOf' | 'revertOf' | 'error' | 'code' | 'actions' | 'startedAt'
+> & { priorState?: SceneAction[] };
+
+interface SceneExecutionRow {
+  id: string;
+  scene_id: string;
+  scene_name: string;
+  source: SceneSource;
+  user_id: string;
+  username: string;
+  retry_of: string | null;
+  revert_of: string | null;
+  status: SceneExecutionStatus;
+  success: number;
+  succeeded: number;
+  failed: number;
+  error: string | null;
+  code: string | null;
+  actions: string;
+  prior_state: string;
+  reverted_at: string | null;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+}
+
+/** Reported for runs the server stopped in the middle of */
+const INTERRUPTED_ERROR = 'The server restarted before the scene finished';
+
+/**
+ * Finished runs that changed something can be undone for a while, once;
+ * undoing an undo isn't offered
+ */
+function revertibleUntil(execution: Omit<SceneExecution, 'revertibleUntil'>): string | undefined {
+  if (
+    !execution.finishedAt ||
+    execution.priorState.length === 0 ||
+    execution.revertedAt ||
+    execution.revertOf ||
+    execution.succeeded === 0
+  ) {
+    return undefined;
+  }
+  return new Date(new Date(execution.finishedAt).getTime() + config.scenes.undoWindowMs).toISOString();
+}
+
+function countOutcomes(actions: SceneActionResult[], error?: string): Pick<SceneExecution, 'success' | 'succeeded' | 'failed'> {
+  const succeeded = actions.filter(action => action.success).length;
+  const failed = actions.length - succeeded;
+  return { success: failed === 0 && !error, succeeded, failed };
+}
+
+function toSceneExecution(row: SceneExecutionRow): SceneExecution {
+  const execution = {
+    executionId: row.id,
+    sceneId: row.scene_id,
+    sceneName: row.scene_name,
+    source: row.source,
+    userId: row.user_id,
+    username: row.username,
+    retryOf: row.retry_of || undefined,
+    revertOf: row.revert_of || undefined,
+    status: row.status,
+    success: row.success === 1,
+    succeeded: row.succeeded,
+    failed: row.failed,
+    error: row.error || undefined,
+    code: row.code || undefined,
+    actions: JSON.parse(row.actions),
+    priorState: JSON.parse(row.prior_state),
+    revertedAt: row.reverted_at || undefined,
+    startedAt: row.started_at,
+    finishedAt: row.status === 'running' ? undefined : row.finished_at,
+    durationMs: row.status === 'running' ? Date.now() - new Date(row.started_at).getTime() : row.duration_ms,
+  };
+  return { ...execution, revertibleUntil: revertibleUntil(execution) };
+}
+
+/**
+ * Scene execution reports
+ *
+ * One report per scene run: the outcome, latency and resulting state of
+ * every action, kept so failed actions can be retried later. Scene runs are
+ * stored when they start and updated as each action finishes; retries and
+ * undos are stored once they're done.
+ */
+export class SceneExecutionService {
+  /**
+   * Store a run that is about to start
+   */
+  static start(input: SceneExecutionInput): SceneExecution {
+    return this.insert(input, 'running');
+  }
+
+  /**
+   * Store the report of a finished run
+   */
+  static record(input: SceneExecutionInput): SceneExecution {
+    return this.insert(input, 'completed');
+  }
+
+  /**
+   * Save the actions a running run has finished so far
+   */
+  static progress(running: SceneExecution, actions: SceneActionResult[]): SceneExecution {
+    const execution: SceneExecution = {
+      ...running,
+      ...countOutcomes(actions),
+      actions,
+      durationMs: Date.now() - new Date(running.startedAt).getTime(),
+    };
+    db.prepare(`
+      UPDATE scene_executions SET actions = ?, success = ?, succeeded = ?, failed = ?
+      WHERE id = ? AND status = 'running'
+    `).run(JSON.stringify(actions), execution.success ? 1 : 0, execution.succeeded, execution.failed, execution.executionId);
+    return execution;
+  }
+
+  /**
+   * Complete a running run with its final report
+   */
+  static finish(
+    running: SceneExecution,
+    outcome: { actions: SceneActionResult[]; error?: string; code?: string }
+  ): SceneExecution {
+    const finishedAt = new Date();
+    const finished = {
+      ...running,
+      ...countOutcomes(outcome.actions, outcome.error),
+      status: 'completed' as const,
+      actions: outcome.actions,
+      error: outcome.error,
+      code: outcome.code,
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - new Date(running.startedAt).getTime(),
+    };
+    const execution: SceneExecution = { ...finished, revertibleUntil: revertibleUntil(finished) };
+
+    db.prepare(`
+      UPDATE scene_executions
+      SET status = 'completed', actions = ?, success = ?, succeeded = ?, failed = ?, error = ?, code = ?,
+        finished_at = ?, duration_ms = ?
+      WHERE id = ? AND status = 'running'
+    `).run(
+      JSON.stringify(execution.actions),
+      execution.success ? 1 : 0,
+      execution.succeeded,
+      execution.failed,
+      execution.error || null,
+      execution.code || null,
+      execution.finishedAt,
+      execution.durationMs,
+      execution.executionId
+    );
+    return execution;
+  }
+
+  /**
+   * Mark runs left running by a previous server process as interrupted
+   * @returns number of runs marked
+   */
+  static markInterrupted(): number {
+    return db.prepare(`
+      UPDATE scene_executions SET status = 'interrupted', success = 0, error = ?, finished_at = ?
+      WHERE status = 'running'
+    `).run(INTERRUPTED_ERROR, new Date().toISOString()).changes;
+  }
+
+  private static insert(input: SceneExecutionInput, status: SceneExecutionStatus): SceneExecution {
+    const now = new Date();
+    const recorded = {
+      ...input,
+      ...countOutcomes(input.actions, input.error),
+      executionId: randomBytes(16).toString('hex'),
+      status,
+      priorState: input.priorState || [],
+      finishedAt: status === 'running' ? undefined : now.toISOString(),
+      durationMs: now.getTime() - new Date(input.startedAt).getTime(),
+    };
+    const execution: SceneExecution = { ...recorded, revertibleUntil: revertibleUntil(recorded) };
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO scene_executions (
+          id, scene_id, scene_name, source, user_id, username, retry_of, revert_of, status, success, succeeded, failed,
+          error, code, actions, prior_state, started_at, finished_at, duration_ms
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        execution.executionId,
+        execution.sceneId,
+        execution.sceneName,
+        execution.source,
+        execution.userId,
+        execution.username,
+        execution.retryOf || null,
+        execution.revertOf || null,
+        execution.status,
+        execution.success ? 1 : 0,
+        execution.succeeded,
+        execution.failed,
+        execution.error || null,
+        execution.code || null,
+        JSON.stringify(execution.actions),
+        JSON.stringify(execution.priorState),
+        execution.startedAt,
+        // Filled in when the run finishes
+        execution.finishedAt || execution.startedAt,
+        execution.durationMs
+      );
+
+      db.prepare(`
+        DELETE FROM scene_executions
+        WHERE scene_id = ? AND id NOT IN (
+          SELECT id FROM scene_executions WHERE scene_id = ? ORDER BY started_at DESC LIMIT ?
+        )
+      `).run(execution.sceneId, execution.sceneId, MAX_EXECUTIONS_PER_SCENE);
+    })();
+
+    return execution;
+  }
+
+  static get(executionId: string): SceneExecution | undefined {
+    const row = db.prepare<unknown[], SceneExecutionRow>('SELECT * FROM scene_executions WHERE id = ?').get(executionId);
+    return row ? toSceneExecution(row) : undefined;
+  }
+
+  /**
+   * Mark a run as undone so it can't be undone twice; false if it already was
+   */
+  static markReverted(executionId: string): boolean {
+    return db.prepare('UPDATE scene_executions SET reverted_at = ? WHERE id = ? AND reverted_at IS NULL')
+      .run(new Date().toISOString(), executionId).changes > 0;
+  }
+
+  /**
+   * Most recent runs of a scene, newest first; only one user's if `userId` is given
+   */
+  static listForScene(sceneId: string, options: { userId?: string; limit?: number } = {}): SceneExecution[] {
+    const { userId, limit = 20 } = options;
+    const rows = userId
+      ? db.prepare<unknown[], SceneExecutionRow>(
+        'SELECT * FROM scene_executions WHERE scene_id = ? AND user_id = ? ORDER BY started_at DESC LIMIT ?'
+      ).all(sceneId, userId, limit)
+      : db.prepare<unknown[], SceneExecutionRow>(
+        'SELECT * FROM scene_executions WHERE scene_id = ? ORDER BY started_at DESC LIMIT ?'
+      ).all(sceneId, limit);
+    return rows.map(toSceneExecution);
+  }
+}
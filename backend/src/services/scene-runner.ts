@@ -0,0 +1,229 @@
+import { DeviceProviderError } from './device-provider';
+import { DeviceActor, getDeviceSource } from './device-source';
+import { SceneActionResult, SceneService } from './scene.service';
+import { SceneExecution, SceneExecutionInput, SceneExecutionService } from './scene-execution.service';
+import { websocketService } from './websocket.service';
+import { canAccessScene, getModeRestriction } from '../middleware/acl.middleware';
+import { recordCommand } from '../utils/device-commands';
+import { logAudit, logTelemetry } from '../utils/logger';
+
+/** Who a scene runs for; `ip` is absent when the backend runs it (schedules) */
+export type SceneActor = DeviceActor & { ip?: string };
+
+/** The user may not run the scene (or not in the current home mode) */
+export class SceneAccessDeniedError extends Error {
+  constructor(
+    public sceneId: string,
+    message = 'You do not have permission to run this scene',
+    public code: 'ACCESS_DENIED' | 'MODE_RESTRICTED' = 'ACCESS_DENIED'
+  ) {
+    super(message);
+    this.name = 'SceneAccessDeniedError';
+  }
+}
+
+/**
+ * Why the home mode stops the user from running a scene with these actions,
+ * if it does; a scene whose actions are unknown can't be run while the mode
+ * restricts the user
+ */
+function sceneModeRestriction(actor: SceneActor, actions: { deviceId: string }[] | undefined): string | undefined {
+  if (!actions || actions.length === 0) {
+    return getModeRestriction(actor, '');
+  }
+  for (const action of actions) {
+    const restriction = getModeRestriction(actor, action.deviceId);
+    if (restriction) return restriction;
+  }
+  return undefined;
+}
+
+/**
+ * Record each executed action like a device command
+ */
+export function recordSceneCommands(actor: SceneActor, sceneId: string, results: SceneActionResult[]): void {
+  results.forEach(result => recordCommand(
+    actor,
+    result.deviceId,
+    { component: result.component, capability: result.capability, command: result.command },
+    { duration: result.durationMs / 1000, error: result.error, code: result.code },
+    { type: 'scene', sceneId }
+  ));
+}
+
+/**
+ * Send a finished run to the user who started it (demo: only their session)
+ */
+export function pushExecution(actor: SceneActor, execution: SceneExecution): void {
+  const message = { type: 'scene-execution', execution };
+  if (actor.isDemoMode) {
+    websocketService.broadcastToSession(actor.sessionId!, message);
+  } else {
+    websocketService.broadcastToUser(actor.user!.id, message);
+  }
+}
+
+/** A scene run that has started */
+export interface SceneRun {
+  /** The run as stored when it started */
+  execution: SceneExecution;
+  /** Settles with the finished run */
+  finished: Promise<SceneExecution>;
+}
+
+type SceneOutcome = { results: SceneActionResult[]; error?: string; code?: string };
+
+/**
+ * Start a scene for a user
+ *
+ * Local scenes run action by action, waiting each action's delay;
+ * SmartThings scenes are executed by SmartThings. Either way the run needs a
+ * scene grant or access to every device in the scene. The run (with the
+ * state it will undo to) is stored and pushed to the user over WebSocket
+ * before any action runs, then again as each action finishes; once done it
+ * is audited with `details` (e.g. the schedule that ran it).
+ * Throws SceneAccessDeniedError, after auditing the denial, if the user may
+ * not run the scene or the home mode doesn't let them control its devices.
+ */
+export async function startScene(
+  actor: SceneActor,
+  sceneId: string,
+  details: Record<string, unknown> = {}
+): Promise<SceneRun> {
+  const user = actor.user!;
+  const startedAt = new Date().toISOString();
+  const source = getDeviceSource(actor);
+  const deny = (restriction?: string) => {
+    const error = restriction
+      ? new SceneAccessDeniedError(sceneId, restriction, 'MODE_RESTRICTED')
+      : new SceneAccessDeniedError(sceneId);
+    logAudit({
+      action: 'scene.execute',
+      user: user.username,
+      sceneId,
+      success: false,
+      ip: actor.ip,
+      details: { ...details, code: error.code },
+    });
+    return error;
+  };
+
+  let input: SceneExecutionInput;
+  let run: (onProgress: (results: SceneActionResult[]) => void) => Promise<SceneOutcome>;
+  // Local scenes control real devices, so demo sessions can't run them
+  const localScene = actor.isDemoMode ? undefined : SceneService.get(sceneId);
+  if (localScene) {
+    if (!(await canAccessScene(actor, localScene))) {
+      throw deny();
+    }
+    const restriction = sceneModeRestriction(actor, localScene.actions);
+    if (restriction) {
+      throw deny(restriction);
+    }
+    input = {
+      userId: user.id,
+      username: user.username,
+      sceneId,
+      sceneName: localScene.name,
+      source: 'local',
+      actions: [],
+      priorState: await SceneService.capturePriorState(source, localScene.actions),
+      startedAt,
+    };
+    run = async (onProgress) => ({
+      results: await SceneService.execute(source, localScene, { username: user.username, isDemoMode: false }, onProgress),
+    });
+  } else {
+    const scene = (await source.getScenes()).find(s => s.sceneId === sceneId);
+    if (!(await canAccessScene(actor, scene || { sceneId }))) {
+      throw deny();
+    }
+    const restriction = sceneModeRestriction(actor, scene?.actions);
+    if (restriction) {
+      throw deny(restriction);
+    }
+    input = {
+      userId: user.id,
+      username: user.username,
+      sceneId,
+      sceneName: scene?.sceneName || sceneId,
+      source: 'smartthings',
+      actions: [],
+      priorState: await SceneService.capturePriorState(source, scene?.actions || []),
+      startedAt,
+    };
+    run = () => SceneService.executeProviderScene(source, sceneId, scene?.actions || []);
+  }
+
+  const execution = SceneExecutionService.start(input);
+  pushExecution(actor, execution);
+
+  return { execution, finished: finishScene(actor, execution, run, details) };
+}
+
+/**
+ * Run a started scene's actions, saving and pushing progress, then store,
+ * push and audit the finished run
+ */
+async function finishScene(
+  actor: SceneActor,
+  started: SceneExecution,
+  run: (onProgress: (results: SceneActionResult[]) => void) => Promise<SceneOutcome>,
+  details: Record<string, unknown>
+): Promise<SceneExecution> {
+  let outcome: SceneOutcome;
+  try {
+    outcome = await run(results => pushExecution(actor, SceneExecutionService.progress(started, results)));
+  } catch (error) {
+    // e.g. a SmartThings scene that no longer exists
+    outcome = {
+      results: [],
+      error: error instanceof Error ? error.message : 'Failed to execute scene',
+      code: error instanceof DeviceProviderError ? error.code : 'PROVIDER_ERROR',
+    };
+  }
+  recordSceneCommands(actor, started.sceneId, outcome.results);
+
+  const execution = SceneExecutionService.finish(started, {
+    actions: outcome.results,
+    error: outcome.error,
+    code: outcome.code,
+  });
+  pushExecution(actor, execution);
+
+  logAudit({
+    action: 'scene.execute',
+    user: actor.user!.username,
+    sceneId: started.sceneId,
+    success: execution.success,
+    ip: actor.ip,
+    details: {
+      ...details,
+      source: execution.source,
+      executionId: execution.executionId,
+      succeeded: execution.succeeded,
+      failed: execution.failed,
+      code: execution.code,
+    },
+  });
+  logTelemetry({
+    metric: 'scene.execute',
+    sceneId: started.sceneId,
+    responseTime: execution.durationMs,
+    success: execution.success,
+  });
+
+  return execution;
+}
+
+/**
+ * Run a scene for a user and wait until it's finished (see startScene)
+ */
+export async function runScene(
+  actor: SceneActor,
+  sceneId: string,
+  details: Record<string, unknown> = {}
+): Promise<SceneExecution> {
+  const { finished } = await startScene(actor, sceneId, details);
+  return finished;
+}
@@ -0,0 +1,399 @@
+import { randomBytes } from 'crypto';
+import { db } from '../database/db';
+import { CommandContext, deviceCommandService } from './device-command.service';
+import { Device, DeviceProviderError, DeviceSource, DeviceStatus, Scene, SceneAction } from './device-provider';
+
+export type SceneSource = 'smartthings' | 'local';
+
+export interface LocalScene {
+  sceneId: string;
+  name: string;
+  icon?: string;
+  color?: string;
+  locationId?: string;
+  /** Run in order; each may wait `delaySeconds` before it runs */
+  actions: SceneAction[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  lastExecutedAt?: string;
+}
+
+export type LocalSceneInput = Pick<LocalScene, 'name' | 'icon' | 'color' | 'locationId' | 'actions'>;
+
+export interface SceneActionResult {
+  /** Position of the action in the scene */
+  index: number;
+  deviceId: string;
+  component: string;
+  capability: string;
+  command: string;
+  arguments?: unknown[];
+  success: boolean;
+  error?: string;
+  code?: string;
+  durationMs: number;
+  /** The capability's attributes as read back after the action */
+  resultingState?: Record<string, unknown>;
+}
+
+interface SceneRow {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+  location_id: string | null;
+  actions: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  last_executed_at: string | null;
+}
+
+function toLocalScene(row: SceneRow): LocalScene {
+  return {
+    sceneId: row.id,
+    name: row.name,
+    icon: row.icon || undefined,
+    color: row.color || undefined,
+    locationId: row.location_id || undefined,
+    actions: JSON.parse(row.actions),
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastExecutedAt: row.last_executed_at || undefined,
+  };
+}
+
+/** Only what a scene needs to replay an action */
+function toStoredAction(action: SceneAction): SceneAction {
+  return {
+    deviceId: action.deviceId,
+    component: action.component || 'main',
+    capability: action.capability,
+    command: action.command,
+    arguments: action.arguments || [],
+    delaySeconds: action.delaySeconds || 0,
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Failed to execute command';
+}
+
+function errorCode(error: unknown): string {
+  return error instanceof DeviceProviderError ? error.code : 'PROVIDER_ERROR';
+}
+
+/**
+ * Attribute values of one capability, read back from the device; undefined
+ * when the state can't be read
+ */
+async function readCapabilityState(
+  source: DeviceSource,
+  action: SceneAction
+): Promise<Record<string, unknown> | undefined> {
+  try {
+    const status = await source.getDeviceStatus(action.deviceId);
+    const attributes = status.components[action.component || 'main']?.[action.capability];
+    if (!attributes) return undefined;
+    return Object.fromEntries(Object.entries(attributes).map(([name, attribute]) => [name, attribute.value]));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * The commands that bring one component back to the state in `status`:
+ * thermostat mode and setpoints, then color and level (only while on, so
+ * restoring doesn't flash a light that was off), then the switch
+ */
+function captureComponent(
+  deviceId: string,
+  component: string,
+  capabilities: Set<string>,
+  status: DeviceStatus['components'][string]
+): SceneAction[] {
+  const actions: SceneAction[] = [];
+  const add = (capability: string, command: string, args: unknown[]) =>
+    actions.push({ deviceId, component, capability, command, arguments: args, delaySeconds: 0 });
+  const value = (capability: string, attribute: string) =>
+    capabilities.has(capability) ? status[capability]?.[attribute]?.value : undefined;
+
+  const thermostatMode = value('thermostatMode', 'thermostatMode');
+  if (typeof thermostatMode === 'string') add('thermostatMode', 'setThermostatMode', [thermostatMode]);
+  const heatingSetpoint = value('thermostatHeatingSetpoint', 'heatingSetpoint');
+  if (typeof heatingSetpoint === 'number') add('thermostatHeatingSetpoint', 'setHeatingSetpoint', [heatingSetpoint]);
+  const coolingSetpoint = value('thermostatCoolingSetpoint', 'coolingSetpoint');
+  if (typeof coolingSetpoint === 'number') add('thermostatCoolingSetpoint', 'setCoolingSetpoint', [coolingSetpoint]);
+
+  const switchState = value('switch', 'switch');
+  if (switchState !== 'off') {
+    const hue = value('colorControl', 'hue');
+    const saturation = value('colorControl', 'saturation');
+    const colorTemperature = value('colorTemperature', 'colorTemperature');
+    if (typeof hue === 'number' && typeof saturation === 'number') {
+      add('colorControl', 'setColor', [{ hue, saturation }]);
+    } else if (typeof colorTemperature === 'number') {
+      add('colorTemperature', 'setColorTemperature', [colorTemperature]);
+    }
+    const level = value('switchLevel', 'level');
+    if (typeof level === 'number') add('switchLevel', 'setLevel', [level]);
+  }
+  if (switchState === 'on' || switchState === 'off') add('switch', switchState, []);
+
+  return actions;
+}
+
+/**
+ * Local scenes
+ *
+ * Scenes stored in our database and run by the backend, action by action,
+ * through the same command path as individual device commands (validation,
+ * history, health). Unlike SmartThings scenes their actions, arguments and
+ * delays can be edited from the app.
+ */
+export class SceneService {
+  static getAll(): LocalScene[] {
+    return db.prepare<unknown[], SceneRow>('SELECT * FROM scenes ORDER BY name')
+      .all()
+      .map(toLocalScene);
+  }
+
+  static get(sceneId: string): LocalScene | undefined {
+    const row = db.prepare<unknown[], SceneRow>('SELECT * FROM scenes WHERE id = ?').get(sceneId);
+    return row ? toLocalScene(row) : undefined;
+  }
+
+  static create(input: LocalSceneInput, createdBy: string): LocalScene {
+    const now = new Date().toISOString();
+    const scene: LocalScene = {
+      sceneId: randomBytes(16).toString('hex'),
+      name: input.name.trim(),
+      icon: input.icon || undefined,
+      color: input.color || undefined,
+      locationId: input.locationId || undefined,
+      actions: input.actions.map(toStoredAction),
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    db.prepare(`
+      INSERT INTO scenes (id, name, icon, color, location_id, actions, created_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      scene.sceneId,
+      scene.name,
+      scene.icon || null,
+      scene.color || null,
+      scene.locationId || null,
+      JSON.stringify(scene.actions),
+      createdBy,
+      now,
+      now
+    );
+
+    return scene;
+  }
+
+  /**
+   * Replace a scene's name, look and actions; undefined if it doesn't exist
+   */
+  static update(sceneId: string, input: LocalSceneInput): LocalScene | undefined {
+    const existing = this.get(sceneId);
+    if (!existing) return undefined;
+
+    const scene: LocalScene = {
+      ...existing,
+      name: input.name.trim(),
+      icon: input.icon || undefined,
+      color: input.color || undefined,
+      locationId: input.locationId || undefined,
+      actions: input.actions.map(toStoredAction),
+      updatedAt: new Date().toISOString(),
+    };
+
+    db.prepare(`
+      UPDATE scenes SET name = ?, icon = ?, color = ?, location_id = ?, actions = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      scene.name,
+      scene.icon || null,
+      scene.color || null,
+      scene.locationId || null,
+      JSON.stringify(scene.actions),
+      scene.updatedAt,
+      sceneId
+    );
+
+    return scene;
+  }
+
+  /**
+   * Delete a scene, its grants, schedules and execution reports; returns
+   * false if it didn't exist
+   */
+  static remove(sceneId: string): boolean {
+    return db.transaction(() => {
+      db.prepare(`DELETE FROM access_control WHERE resource_type = 'scene' AND resource_id = ?`).run(sceneId);
+      db.prepare('DELETE FROM schedule_runs WHERE schedule_id IN (SELECT id FROM schedules WHERE scene_id = ?)').run(sceneId);
+      db.prepare('DELETE FROM schedules WHERE scene_id = ?').run(sceneId);
+      db.prepare('DELETE FROM scene_executions WHERE scene_id = ?').run(sceneId);
+      return db.prepare('DELETE FROM scenes WHERE id = ?').run(sceneId).changes > 0;
+    })();
+  }
+
+  /**
+   * Scene actions that restore a device's current switch, level, color and
+   * thermostat state, component by component
+   */
+  static captureActions(device: Device, status: DeviceStatus): SceneAction[] {
+    return Object.values(device.components).flatMap(component => captureComponent(
+      device.deviceId,
+      component.id,
+      new Set(component.capabilities.map(capability => capability.id)),
+      status.components[component.id] || {}
+    ));
+  }
+
+  /**
+   * Snapshot the devices a run is about to change, as actions that restore
+   * them (only the components the run touches). Devices whose state can't be
+   * read are left out.
+   */
+  static async capturePriorState(source: DeviceSource, actions: SceneAction[]): Promise<SceneAction[]> {
+    const componentsByDevice = new Map<string, Set<string>>();
+    for (const action of actions) {
+      const components = componentsByDevice.get(action.deviceId) || new Set<string>();
+      componentsByDevice.set(action.deviceId, components.add(action.component || 'main'));
+    }
+
+    const captured = await Promise.all([...componentsByDevice].map(async ([deviceId, components]) => {
+      try {
+        const [device, status] = await Promise.all([source.getDevice(deviceId), source.getDeviceStatus(deviceId)]);
+        return this.captureActions(device, status).filter(action => components.has(action.component || 'main'));
+      } catch (error) {
+        return [];
+      }
+    }));
+    return captured.flat();
+  }
+
+  /**
+   * Present a local scene in the same shape as provider scenes
+   */
+  static toScene(scene: LocalScene, deviceLabels: Map<string, string> = new Map()): Scene & { source: SceneSource } {
+    return {
+      sceneId: scene.sceneId,
+      sceneName: scene.name,
+      sceneIcon: scene.icon,
+      sceneColor: scene.color,
+      locationId: scene.locationId || '',
+      createdBy: scene.createdBy,
+      createdDate: scene.createdAt,
+      lastUpdatedDate: scene.updatedAt,
+      lastExecutedDate: scene.lastExecutedAt,
+      actions: scene.actions.map(action => ({
+        ...action,
+        deviceLabel: deviceLabels.get(action.deviceId) || 'Unknown Device',
+      })),
+      source: 'local',
+    };
+  }
+
+  /**
+   * Run a scene's actions in order, waiting each action's delay first
+   *
+   * A failed action doesn't stop the scene. Returns one result per action;
+   * `onProgress` gets the results so far after each one.
+   */
+  static async execute(
+    source: DeviceSource,
+    scene: Pick<LocalScene, 'sceneId' | 'actions'>,
+    context: CommandContext,
+    onProgress?: (results: SceneActionResult[]) => void
+  ): Promise<SceneActionResult[]> {
+    const results: SceneActionResult[] = [];
+
+    for (const [index, action] of scene.actions.entries()) {
+      if (action.delaySeconds && action.delaySeconds > 0) {
+        await sleep(action.delaySeconds * 1000);
+      }
+
+      const component = action.component || 'main';
+      const startTime = Date.now();
+      let error: unknown;
+      try {
+        [{ error }] = await deviceCommandService.execute(
+          source,
+          action.deviceId,
+          [{ component, capability: action.capability, command: action.command, arguments: action.arguments }],
+          context
+        );
+      } catch (loadError) {
+        // The device itself could not be loaded
+        error = loadError;
+      }
+
+      const durationMs = Date.now() - startTime;
+      results.push({
+        index,
+        deviceId: action.deviceId,
+        component,
+        capability: action.capability,
+        command: action.command,
+        arguments: action.arguments,
+        success: !error,
+        error: error ? errorMessage(error) : undefined,
+        code: error ? errorCode(error) : undefined,
+        durationMs,
+        resultingState: error ? undefined : await readCapabilityState(source, action),
+      });
+      onProgress?.([...results]);
+    }
+
+    db.prepare('UPDATE scenes SET last_executed_at = ? WHERE id = ?').run(new Date().toISOString(), scene.sceneId);
+    return results;
+  }
+
+  /**
+   * Execute a provider scene and report on its actions
+   *
+   * The provider runs the scene as a whole, so every action shares its
+   * outcome and latency. Throws only for unknown scenes.
+   */
+  static async executeProviderScene(
+    source: DeviceSource,
+    sceneId: string,
+    actions: SceneAction[]
+  ): Promise<{ results: SceneActionResult[]; error?: string; code?: string }> {
+    const startTime = Date.now();
+    let error: unknown;
+    try {
+      await source.executeScene(sceneId);
+    } catch (executeError) {
+      if (executeError instanceof DeviceProviderError && executeError.code === 'NOT_FOUND') throw executeError;
+      error = executeError;
+    }
+    const durationMs = Date.now() - startTime;
+
+    const results = await Promise.all(actions.map(async (action, index): Promise<SceneActionResult> => ({
+      index,
+      deviceId: action.deviceId,
+      component: action.component || 'main',
+      capability: action.capability,
+      command: action.command,
+      arguments: action.arguments,
+      success: !error,
+      error: error ? errorMessage(error) : undefined,
+      code: error ? errorCode(error) : undefined,
+      durationMs,
+      resultingState: error ? undefined : await readCapabilityState(source, action),
+    })));
+
+    return error ? { results, error: errorMessage(error), code: errorCode(error) } : { results };
+  }
+}
@@ -0,0 +1,389 @@
+import { randomBytes } from 'crypto';
+import { db } from '../database/db';
+import { config } from '../config/env';
+import { nextCronTime, parseCron } from '../utils/cron';
+import { getSunTimes } from '../utils/solar';
+import { z } from 'zod';
+import { HomeMode } from './home-mode.service';
+
+/** Older runs of a schedule are pruned when a new one is recorded */
+const MAX_RUNS_PER_SCHEDULE = 100;
+
+/** How many days ahead to look for the next sunrise or sunset on a matching day */
+const MAX_SUN_SEARCH_DAYS = 370;
+
+export type ScheduleTrigger =
+  /** Five-field cron expression in server local time */
+  | { type: 'cron'; expression: string }
+  /** Fixed time of day (HH:MM, local), optionally only on some weekdays (0 = Sunday) */
+  | { type: 'time'; time: string; days?: number[] }
+  /** Minutes before (negative) or after sunrise or sunset */
+  | { type: 'sun'; event: 'sunrise' | 'sunset'; offsetMinutes: number; days?: number[] };
+
+export interface Schedule {
+  scheduleId: string;
+  name: string;
+  /** Empty for schedules that change the home mode */
+  sceneId: string;
+  /** The home mode to change to, instead of running a scene */
+  mode?: HomeMode;
+  trigger: ScheduleTrigger;
+  enabled: boolean;
+  /** The user the scene runs (or the mode changes) as */
+  userId: string;
+  createdBy: string;
+  /** Absent while disabled, or if the trigger never fires (e.g. no sunset) */
+  nextRunAt?: string;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScheduleInput = Pick<Schedule, 'name' | 'sceneId' | 'mode' | 'trigger' | 'enabled'>;
+
+export interface ScheduleRun {
+  runId: string;
+  scheduleId: string;
+  /** When the run was due */
+  scheduledFor: string;
+  startedAt: string;
+  /** `missed`: due while the server was down, longer ago than the catch-up window */
+  status: 'success' | 'failed' | 'missed';
+  /** Run late, after a restart */
+  catchUp: boolean;
+  /** The scene execution report, when the scene ran */
+  executionId?: string;
+  error?: string;
+}
+
+export interface Coordinates {
+  latitude?: number;
+  longitude?: number;
+}
+
+/** Furthest a run can be moved from sunrise or sunset */
+const MAX_SUN_OFFSET_MINUTES = 240;
+
+const daysSchema = z.array(z.number().int().min(0).max(6)).min(1).max(7).optional();
+
+/** A trigger in a request, for schedules and automation time triggers */
+export const scheduleTriggerSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('cron'),
+    expression: z.string().superRefine((expression, ctx) => {
+      try {
+        parseCron(expression);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      }
+    }),
+  }),
+  z.object({
+    type: z.literal('time'),
+    time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:MM'),
+    days: daysSchema,
+  }),
+  z.object({
+    type: z.literal('sun'),
+    event: z.enum(['sunrise', 'sunset']),
+    offsetMinutes: z.number().int().min(-MAX_SUN_OFFSET_MINUTES).max(MAX_SUN_OFFSET_MINUTES).optional().default(0),
+    days: daysSchema,
+  }),
+]);
+
+export const SUN_NOT_CONFIGURED = 'Sunrise and sunset schedules need LOCATION_LATITUDE and LOCATION_LONGITUDE to be configured';
+
+export const hasCoordinates = () => config.schedules.latitude !== undefined && config.schedules.longitude !== undefined;
+
+interface ScheduleRow {
+  id: string;
+  name: string;
+  scene_id: string;
+  mode: HomeMode | null;
+  trigger: string;
+  enabled: number;
+  user_id: string;
+  created_by: string;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ScheduleRunRow {
+  id: string;
+  schedule_id: string;
+  scheduled_for: string;
+  started_at: string;
+  status: ScheduleRun['status'];
+  catch_up: number;
+  execution_id: string | null;
+  error: string | null;
+}
+
+function toSchedule(row: ScheduleRow): Schedule {
+  return {
+    scheduleId: row.id,
+    name: row.name,
+    sceneId: row.scene_id,
+    mode: row.mode || undefined,
+    trigger: JSON.parse(row.trigger),
+    enabled: row.enabled === 1,
+    userId: row.user_id,
+    createdBy: row.created_by,
+    nextRunAt: row.next_run_at || undefined,
+    lastRunAt: row.last_run_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toScheduleRun(row: ScheduleRunRow): ScheduleRun {
+  return {
+    runId: row.id,
+    scheduleId: row.schedule_id,
+    scheduledFor: row.scheduled_for,
+    startedAt: row.started_at,
+    status: row.status,
+    catchUp: row.catch_up === 1,
+    executionId: row.execution_id || undefined,
+    error: row.error || undefined,
+  };
+}
+
+/**
+ * The first time after `after` a trigger fires, or undefined if it never does
+ * (sun triggers without coordinates, polar day or night)
+ */
+export function nextRunTime(
+  trigger: ScheduleTrigger,
+  after: Date,
+  coordinates: Coordinates = config.schedules
+): Date | undefined {
+  if (trigger.type === 'cron') {
+    return nextCronTime(parseCron(trigger.expression), after);
+  }
+
+  if (trigger.type === 'time') {
+    const [hour, minute] = trigger.time.split(':').map(Number);
+    return nextCronTime(parseCron(`${minute} ${hour} * * ${trigger.days?.join(',') || '*'}`), after);
+  }
+
+  const { latitude, longitude } = coordinates;
+  if (latitude === undefined || longitude === undefined) {
+    return undefined;
+  }
+  // Start a day early: a negative offset can put today's run before midnight
+  for (let offset = -1; offset < MAX_SUN_SEARCH_DAYS; offset++) {
+    const day = new Date(after.getFullYear(), after.getMonth(), after.getDate() + offset);
+    if (trigger.days && !trigger.days.includes(day.getDay())) continue;
+
+    const event = getSunTimes(day, latitude, longitude)[trigger.event];
+    if (!event) continue;
+    const runAt = new Date(event.getTime() + trigger.offsetMinutes * 60 * 1000);
+    if (runAt > after) {
+      return runAt;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Scene schedules
+ *
+ * Each schedule runs one scene, as the user who created it, whenever its
+ * trigger fires. The next run time is stored so the scheduler can tell after
+ * a restart which runs it missed. Runs are kept per schedule as its history.
+ */
+export class ScheduleService {
+  /**
+   * All schedules, or only one user's
+   */
+  static getAll(userId?: string): Schedule[] {
+    const rows = userId
+      ? db.prepare<unknown[], ScheduleRow>('SELECT * FROM schedules WHERE user_id = ? ORDER BY name').all(userId)
+      : db.prepare<unknown[], ScheduleRow>('SELECT * FROM schedules ORDER BY name').all();
+    return rows.map(toSchedule);
+  }
+
+  static get(scheduleId: string): Schedule | undefined {
+    const row = db.prepare<unknown[], ScheduleRow>('SELECT * FROM schedules WHERE id = ?').get(scheduleId);
+    return row ? toSchedule(row) : undefined;
+  }
+
+  static create(input: ScheduleInput, owner: { id: string; username: string }): Schedule {
+    const now = new Date();
+    const schedule: Schedule = {
+      scheduleId: randomBytes(16).toString('hex'),
+      name: input.name.trim(),
+      sceneId: input.sceneId,
+      mode: input.mode,
+      trigger: input.trigger,
+      enabled: input.enabled,
+      userId: owner.id,
+      createdBy: owner.username,
+      nextRunAt: input.enabled ? nextRunTime(input.trigger, now)?.toISOString() : undefined,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    db.prepare(`
+      INSERT INTO schedules (id, name, scene_id, mode, trigger, enabled, user_id, created_by, next_run_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      schedule.scheduleId,
+      schedule.name,
+      schedule.sceneId,
+      schedule.mode || null,
+      JSON.stringify(schedule.trigger),
+      schedule.enabled ? 1 : 0,
+      schedule.userId,
+      schedule.createdBy,
+      schedule.nextRunAt || null,
+      schedule.createdAt,
+      schedule.updatedAt
+    );
+
+    return schedule;
+  }
+
+  /**
+   * Replace a schedule's name, scene or mode, trigger and enabled state; the
+   * next run is planned afresh. Undefined if it doesn't exist.
+   */
+  static update(scheduleId: string, input: ScheduleInput): Schedule | undefined {
+    const existing = this.get(scheduleId);
+    if (!existing) return undefined;
+
+    const now = new Date();
+    const schedule: Schedule = {
+      ...existing,
+      name: input.name.trim(),
+      sceneId: input.sceneId,
+      mode: input.mode,
+      trigger: input.trigger,
+      enabled: input.enabled,
+      nextRunAt: input.enabled ? nextRunTime(input.trigger, now)?.toISOString() : undefined,
+      updatedAt: now.toISOString(),
+    };
+
+    db.prepare(`
+      UPDATE schedules SET name = ?, scene_id = ?, mode = ?, trigger = ?, enabled = ?, next_run_at = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      schedule.name,
+      schedule.sceneId,
+      schedule.mode || null,
+      JSON.stringify(schedule.trigger),
+      schedule.enabled ? 1 : 0,
+      schedule.nextRunAt || null,
+      schedule.updatedAt,
+      scheduleId
+    );
+
+    return schedule;
+  }
+
+  /**
+   * Delete a schedule and its history; returns false if it didn't exist
+   */
+  static remove(scheduleId: string): boolean {
+    return db.transaction(() => {
+      db.prepare('DELETE FROM schedule_runs WHERE schedule_id = ?').run(scheduleId);
+      return db.prepare('DELETE FROM schedules WHERE id = ?').run(scheduleId).changes > 0;
+    })();
+  }
+
+  /**
+   * Enabled schedules whose next run is due
+   */
+  static getDue(now: Date): Schedule[] {
+    return db.prepare<unknown[], ScheduleRow>(
+      'SELECT * FROM schedules WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at'
+    ).all(now.toISOString()).map(toSchedule);
+  }
+
+  /**
+   * Earliest next run of any enabled schedule
+   */
+  static getNextRunAt(): string | undefined {
+    const row = db.prepare<unknown[], { next_run_at: string | null }>(
+      'SELECT MIN(next_run_at) AS next_run_at FROM schedules WHERE enabled = 1'
+    ).get();
+    return row?.next_run_at || undefined;
+  }
+
+  /**
+   * Plan the next run of enabled schedules that have none (e.g. sun schedules
+   * created before coordinates were configured)
+   */
+  static planMissingRuns(now: Date): number {
+    const rows = db.prepare<unknown[], ScheduleRow>(
+      'SELECT * FROM schedules WHERE enabled = 1 AND next_run_at IS NULL'
+    ).all();
+    const update = db.prepare('UPDATE schedules SET next_run_at = ? WHERE id = ?');
+
+    let planned = 0;
+    for (const schedule of rows.map(toSchedule)) {
+      const nextRunAt = nextRunTime(schedule.trigger, now);
+      if (nextRunAt) {
+        update.run(nextRunAt.toISOString(), schedule.scheduleId);
+        planned++;
+      }
+    }
+    return planned;
+  }
+
+  /**
+   * Take a due run: move the schedule on to its next run. False if the run
+   * was already taken (or the schedule changed meanwhile).
+   */
+  static claim(schedule: Schedule, nextRunAt: Date | undefined, now: Date): boolean {
+    return db.prepare(`
+      UPDATE schedules SET next_run_at = ?, last_run_at = ?
+      WHERE id = ? AND next_run_at = ?
+    `).run(nextRunAt?.toISOString() || null, now.toISOString(), schedule.scheduleId, schedule.nextRunAt!).changes > 0;
+  }
+
+  static recordRun(input: Omit<ScheduleRun, 'runId' | 'startedAt'> & { startedAt?: string }): ScheduleRun {
+    const run: ScheduleRun = {
+      ...input,
+      runId: randomBytes(16).toString('hex'),
+      startedAt: input.startedAt || new Date().toISOString(),
+    };
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO schedule_runs (id, schedule_id, scheduled_for, started_at, status, catch_up, execution_id, error)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        run.runId,
+        run.scheduleId,
+        run.scheduledFor,
+        run.startedAt,
+        run.status,
+        run.catchUp ? 1 : 0,
+        run.executionId || null,
+        run.error || null
+      );
+
+      db.prepare(`
+        DELETE FROM schedule_runs
+        WHERE schedule_id = ? AND id NOT IN (
+          SELECT id FROM schedule_runs WHERE schedule_id = ? ORDER BY scheduled_for DESC LIMIT ?
+        )
+      `).run(run.scheduleId, run.scheduleId, MAX_RUNS_PER_SCHEDULE);
+    })();
+
+    return run;
+  }
+
+  /**
+   * Most recent runs of a schedule, newest first
+   */
+  static listRuns(scheduleId: string, limit = 20): ScheduleRun[] {
+    return db.prepare<unknown[], ScheduleRunRow>(
+      'SELECT * FROM schedule_runs WHERE schedule_id = ? ORDER BY scheduled_for DESC LIMIT ?'
+    ).all(scheduleId, limit).map(toScheduleRun);
+  }
+}
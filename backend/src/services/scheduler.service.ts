@@ -0,0 +1,147 @@
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { homeModeManager } from './home-mode-manager.service';
+import { nextRunTime, Schedule, ScheduleRun, ScheduleService } from './schedule.service';
+import { runScene } from './scene-runner';
+import { UserService } from './user.service';
+import { websocketService } from './websocket.service';
+
+export interface SchedulerOptions {
+  /** How late a run missed while the server was down may still run */
+  catchUpWindowMs: number;
+}
+
+/** Longest sleep between checks, so clock changes are noticed */
+const MAX_SLEEP_MS = 60 * 1000;
+
+/** Shortest sleep, so a schedule that keeps failing to run can't spin */
+const MIN_SLEEP_MS = 1000;
+
+/** Runs later than this count as caught up rather than on time */
+const ON_TIME_TOLERANCE_MS = 60 * 1000;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Scene scheduler
+ *
+ * Sleeps until the earliest next run of any schedule (at most a minute at a
+ * time), then runs the scenes that are due (or changes the home mode). Next
+ * run times are stored with the schedules, so after a restart runs that fell
+ * due while the server was down are still found: each schedule catches up
+ * once if its missed run is within the catch-up window, and records the run
+ * as missed otherwise.
+ */
+export class SchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private options: SchedulerOptions = config.schedules) {}
+
+  /**
+   * Start running schedules in the background
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    ScheduleService.planMissingRuns(new Date());
+    this.tick();
+    logger.info('✓ Scene scheduler started');
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Plan the next wake-up again after schedules changed
+   */
+  refresh(): void {
+    if (this.running) {
+      this.planWake();
+    }
+  }
+
+  /**
+   * Run every schedule that is due
+   * Runs are claimed before anything is awaited, so overlapping checks can't
+   * run a schedule twice.
+   */
+  runDue(now: Date = new Date()): Promise<(ScheduleRun | undefined)[]> {
+    return Promise.all(ScheduleService.getDue(now).map(schedule => this.runSchedule(schedule, now)));
+  }
+
+  private async runSchedule(schedule: Schedule, now: Date): Promise<ScheduleRun | undefined> {
+    const scheduledFor = schedule.nextRunAt!;
+    if (!ScheduleService.claim(schedule, nextRunTime(schedule.trigger, now), now)) {
+      return undefined;
+    }
+
+    const lateMs = now.getTime() - new Date(scheduledFor).getTime();
+    const base = { scheduleId: schedule.scheduleId, scheduledFor, catchUp: lateMs > ON_TIME_TOLERANCE_MS };
+
+    let run: ScheduleRun;
+    if (lateMs > this.options.catchUpWindowMs) {
+      run = ScheduleService.recordRun({
+        ...base,
+        status: 'missed',
+        catchUp: false,
+        error: `Missed by ${Math.round(lateMs / 60000)} minutes while the server was down`,
+      });
+    } else {
+      const startedAt = new Date().toISOString();
+      try {
+        const owner = UserService.getUserById(schedule.userId);
+        if (!owner) {
+          throw new Error('The schedule\'s owner no longer exists');
+        }
+
+        const details = { scheduleId: schedule.scheduleId, catchUp: base.catchUp || undefined };
+        if (schedule.mode) {
+          await homeModeManager.setMode(schedule.mode, { source: 'schedule', user: owner, details });
+          run = ScheduleService.recordRun({ ...base, startedAt, status: 'success' });
+        } else {
+          const execution = await runScene({ user: owner, isDemoMode: false }, schedule.sceneId, details);
+          run = ScheduleService.recordRun({
+            ...base,
+            startedAt,
+            status: execution.success ? 'success' : 'failed',
+            executionId: execution.executionId,
+            error: execution.error || (execution.failed > 0 ? `${execution.failed} of ${execution.actions.length} actions failed` : undefined),
+          });
+        }
+      } catch (error) {
+        logger.warn(`Scheduled ${schedule.mode ? `${schedule.mode} mode` : `scene ${schedule.sceneId}`} (schedule ${schedule.scheduleId}) failed: ${errorMessage(error)}`);
+        run = ScheduleService.recordRun({ ...base, startedAt, status: 'failed', error: errorMessage(error) });
+      }
+    }
+
+    websocketService.broadcastToUser(schedule.userId, { type: 'schedule-run', run });
+    return run;
+  }
+
+  private tick(): void {
+    this.runDue().catch(error => logger.warn(`Schedule check failed: ${errorMessage(error)}`));
+    this.planWake();
+  }
+
+  private planWake(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    if (!this.running) return;
+
+    const nextRunAt = ScheduleService.getNextRunAt();
+    const untilNext = nextRunAt ? new Date(nextRunAt).getTime() - Date.now() : MAX_SLEEP_MS;
+    this.timer = setTimeout(() => this.tick(), Math.min(Math.max(untilNext, MIN_SLEEP_MS), MAX_SLEEP_MS));
+    this.timer.unref();
+  }
+}
+
+export const schedulerService = new SchedulerService();
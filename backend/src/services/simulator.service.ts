@@ -0,0 +1,729 @@
+import { logger } from '../utils/logger';
+import { SessionService } from './session.service';
+import { websocketService } from './websocket.service';
+import {
+  Device,
+  DeviceProvider,
+  DeviceProviderError,
+  DeviceStatus,
+  Location,
+  Room,
+  Scene,
+} from './device-provider';
+
+type SimulatedState = Record<string, Record<string, { value: unknown; unit?: string }>>;
+
+interface SimulatedComponentDefinition {
+  label: string;
+  capabilities: string[];
+  initialState: SimulatedState;
+}
+
+interface SimulatedDeviceDefinition {
+  deviceId: string;
+  label: string;
+  roomId: string;
+  deviceTypeName: string;
+  /** Capabilities and state of the main component */
+  capabilities: string[];
+  initialState: SimulatedState;
+  /** Additional components, e.g. the outlets of a power strip */
+  components?: Record<string, SimulatedComponentDefinition>;
+}
+
+const SIMULATED_ROOMS: Room[] = [
+  { roomId: 'living-room', name: 'Living Room' },
+  { roomId: 'kitchen', name: 'Kitchen' },
+  { roomId: 'master-bedroom', name: 'Master Bedroom' },
+  { roomId: 'front-porch', name: 'Front Porch' },
+];
+
+const SIMULATED_DEVICES: SimulatedDeviceDefinition[] = [
+  // Living Room
+  {
+    deviceId: 'living-room-lights',
+    label: 'Living room lights',
+    roomId: 'living-room',
+    deviceTypeName: 'Dimmer Switch',
+    capabilities: ['switch', 'switchLevel'],
+    initialState: {
+      switch: { switch: { value: 'off' } },
+      switchLevel: { level: { value: 80, unit: '%' } },
+    },
+  },
+  {
+    deviceId: 'living-room-thermostat',
+    label: 'Thermostat',
+    roomId: 'living-room',
+    deviceTypeName: 'Thermostat',
+    capabilities: [
+      'temperatureMeasurement',
+      'thermostatMode',
+      'thermostatHeatingSetpoint',
+      'thermostatCoolingSetpoint',
+      'thermostatOperatingState',
+    ],
+    initialState: {
+      temperatureMeasurement: { temperature: { value: 71, unit: 'F' } },
+      thermostatMode: { thermostatMode: { value: 'auto' } },
+      thermostatHeatingSetpoint: { heatingSetpoint: { value: 68, unit: 'F' } },
+      thermostatCoolingSetpoint: { coolingSetpoint: { value: 76, unit: 'F' } },
+      thermostatOperatingState: { thermostatOperatingState: { value: 'idle' } },
+    },
+  },
+  {
+    deviceId: 'living-room-power-strip',
+    label: 'Media power strip',
+    roomId: 'living-room',
+    deviceTypeName: 'Power Strip',
+    capabilities: ['switch', 'powerMeter'],
+    initialState: {
+      switch: { switch: { value: 'on' } },
+      powerMeter: { power: { value: 95, unit: 'W' } },
+    },
+    components: {
+      outlet1: { label: 'TV', capabilities: ['switch'], initialState: { switch: { switch: { value: 'on' } } } },
+      outlet2: { label: 'Soundbar', capabilities: ['switch'], initialState: { switch: { switch: { value: 'on' } } } },
+      outlet3: { label: 'Game console', capabilities: ['switch'], initialState: { switch: { switch: { value: 'off' } } } },
+    },
+  },
+  {
+    deviceId: 'living-room-thermometer',
+    label: 'Thermometer',
+    roomId: 'living-room',
+    deviceTypeName: 'Temperature Sensor',
+    capabilities: ['temperatureMeasurement', 'relativeHumidityMeasurement', 'battery'],
+    initialState: {
+      temperatureMeasurement: { temperature: { value: 72, unit: 'F' } },
+      relativeHumidityMeasurement: { humidity: { value: 45, unit: '%' } },
+      battery: { battery: { value: 92, unit: '%' } },
+    },
+  },
+  // Kitchen
+  {
+    deviceId: 'kitchen-lights',
+    label: 'Kitchen light switch',
+    roomId: 'kitchen',
+    deviceTypeName: 'Switch',
+    capabilities: ['switch'],
+    initialState: {
+      switch: { switch: { value: 'off' } },
+    },
+  },
+  {
+    deviceId: 'kitchen-refrigerator',
+    label: 'Refrigerator',
+    roomId: 'kitchen',
+    deviceTypeName: 'Refrigerator',
+    capabilities: ['switch', 'powerMeter', 'temperatureMeasurement'],
+    initialState: {
+      switch: { switch: { value: 'on' } },
+      powerMeter: { power: { value: 120, unit: 'W' } },
+      temperatureMeasurement: { temperature: { value: 37, unit: 'F' } },
+    },
+  },
+  // Master Bedroom
+  {
+    deviceId: 'master-bedroom-lights',
+    label: 'Bedroom lamp',
+    roomId: 'master-bedroom',
+    deviceTypeName: 'Color Bulb',
+    capabilities: ['switch', 'switchLevel', 'colorControl'],
+    initialState: {
+      switch: { switch: { value: 'off' } },
+      switchLevel: { level: { value: 60, unit: '%' } },
+      colorControl: { hue: { value: 10 }, saturation: { value: 40 } },
+    },
+  },
+  // Front Porch
+  {
+    deviceId: 'front-porch-lights',
+    label: 'Front door light switch',
+    roomId: 'front-porch',
+    deviceTypeName: 'Switch',
+    capabilities: ['switch'],
+    initialState: {
+      switch: { switch: { value: 'off' } },
+    },
+  },
+  {
+    deviceId: 'front-door-lock',
+    label: 'Front door lock',
+    roomId: 'front-porch',
+    deviceTypeName: 'Smart Lock',
+    capabilities: ['lock', 'battery'],
+    initialState: {
+      lock: { lock: { value: 'locked' } },
+      battery: { battery: { value: 78, unit: '%' } },
+    },
+  },
+  {
+    deviceId: 'front-door-contact',
+    label: 'Front door sensor',
+    roomId: 'front-porch',
+    deviceTypeName: 'Contact Sensor',
+    capabilities: ['contactSensor', 'temperatureMeasurement', 'battery'],
+    initialState: {
+      contactSensor: { contact: { value: 'closed' } },
+      temperatureMeasurement: { temperature: { value: 58, unit: 'F' } },
+      battery: { battery: { value: 64, unit: '%' } },
+    },
+  },
+  {
+    deviceId: 'front-porch-doorbell',
+    label: 'Doorbell',
+    roomId: 'front-porch',
+    deviceTypeName: 'Doorbell',
+    capabilities: ['button', 'battery'],
+    initialState: {
+      button: { button: { value: 'pushed' } },
+      battery: { battery: { value: 85, unit: '%' } },
+    },
+  },
+];
+
+const SIMULATED_SCENES: (Omit<Scene, 'createdDate' | 'lastUpdatedDate' | 'createdBy' | 'locationId'>)[] = [
+  {
+    sceneId: 'good-morning',
+    sceneName: 'Good Morning',
+    sceneIcon: 'sunrise',
+    sceneColor: 'amber',
+    actions: [
+      { deviceId: 'living-room-lights', capability: 'switchLevel', command: 'setLevel', arguments: [100] },
+      { deviceId: 'kitchen-lights', capability: 'switch', command: 'on' },
+      { deviceId: 'master-bedroom-lights', capability: 'switch', command: 'on' },
+      { deviceId: 'living-room-thermostat', capability: 'thermostatHeatingSetpoint', command: 'setHeatingSetpoint', arguments: [70] },
+    ],
+  },
+  {
+    sceneId: 'good-night',
+    sceneName: 'Good Night',
+    sceneIcon: 'moon',
+    sceneColor: 'indigo',
+    actions: [
+      { deviceId: 'living-room-lights', capability: 'switch', command: 'off' },
+      { deviceId: 'kitchen-lights', capability: 'switch', command: 'off' },
+      { deviceId: 'front-porch-lights', capability: 'switch', command: 'off' },
+      { deviceId: 'master-bedroom-lights', capability: 'switch', command: 'off' },
+      { deviceId: 'front-door-lock', capability: 'lock', command: 'lock' },
+      { deviceId: 'living-room-thermostat', capability: 'thermostatHeatingSetpoint', command: 'setHeatingSetpoint', arguments: [64] },
+    ],
+  },
+  {
+    sceneId: 'movie-time',
+    sceneName: 'Movie Time',
+    sceneIcon: 'tv',
+    sceneColor: 'purple',
+    actions: [
+      { deviceId: 'living-room-lights', capability: 'switchLevel', command: 'setLevel', arguments: [20] },
+      { deviceId: 'kitchen-lights', capability: 'switch', command: 'off' },
+    ],
+  },
+  {
+    sceneId: 'away-mode',
+    sceneName: 'Away Mode',
+    sceneIcon: 'lock',
+    sceneColor: 'red',
+    actions: [
+      { deviceId: 'living-room-lights', capability: 'switch', command: 'off' },
+      { deviceId: 'kitchen-lights', capability: 'switch', command: 'off' },
+      { deviceId: 'front-porch-lights', capability: 'switch', command: 'on' },
+      { deviceId: 'master-bedroom-lights', capability: 'switch', command: 'off' },
+      { deviceId: 'front-door-lock', capability: 'lock', command: 'lock' },
+    ],
+  },
+  {
+    sceneId: 'welcome-home',
+    sceneName: 'Welcome Home',
+    sceneIcon: 'home',
+    sceneColor: 'green',
+    actions: [
+      { deviceId: 'living-room-lights', capability: 'switch', command: 'on' },
+      { deviceId: 'kitchen-lights', capability: 'switch', command: 'on' },
+      { deviceId: 'front-porch-lights', capability: 'switch', command: 'on' },
+      { deviceId: 'front-door-lock', capability: 'lock', command: 'unlock' },
+    ],
+  },
+];
+
+const SIMULATED_LOCATION_ID = 'simulated-home';
+const SIMULATED_EPOCH = '2024-01-01T00:00:00.000Z';
+
+// How often sensors drift and expired homes are pruned
+const TICK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Every component of a simulated device, main first
+ */
+function componentsOf(definition: SimulatedDeviceDefinition): Record<string, Omit<SimulatedComponentDefinition, 'label'> & { label?: string }> {
+  return {
+    main: { capabilities: definition.capabilities, initialState: definition.initialState },
+    ...definition.components,
+  };
+}
+
+function jitter(range: number): number {
+  return (Math.random() * 2 - 1) * range;
+}
+
+function round(value: number, decimals = 1): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * A simulated home
+ *
+ * Keeps realistic device state in memory and behaves like any other
+ * device provider. Every state change is pushed to the owning session
+ * over WebSocket.
+ */
+export class SimulatedHome implements DeviceProvider {
+  readonly id = 'simulator';
+  readonly name = 'Simulated Home';
+  private state: Map<string, DeviceStatus> = new Map();
+  private lastExecuted: Map<string, string> = new Map();
+
+  constructor(private readonly sessionId?: string) {
+    const now = new Date().toISOString();
+
+    SIMULATED_DEVICES.forEach(definition => {
+      const components: DeviceStatus['components'] = {};
+
+      Object.entries(componentsOf(definition)).forEach(([componentId, { initialState }]) => {
+        const componentStatus: DeviceStatus['components'][string] = {};
+
+        Object.entries(initialState).forEach(([capability, attributes]) => {
+          componentStatus[capability] = {};
+          Object.entries(attributes).forEach(([attribute, { value, unit }]) => {
+            // Give each home slightly different sensor readings
+            const initialValue = capability === 'temperatureMeasurement' && typeof value === 'number'
+              ? round(value + jitter(1.5))
+              : value;
+            componentStatus[capability][attribute] = { value: initialValue, unit, timestamp: now };
+          });
+        });
+
+        components[componentId] = componentStatus;
+      });
+
+      this.state.set(definition.deviceId, { components });
+    });
+  }
+
+  async getDevices(): Promise<Device[]> {
+    return SIMULATED_DEVICES.map(definition => this.toDevice(definition, true));
+  }
+
+  async getDevice(deviceId: string): Promise<Device> {
+    return this.toDevice(this.getDefinition(deviceId), false);
+  }
+
+  async getDeviceStatus(deviceId: string): Promise<DeviceStatus> {
+    this.getDefinition(deviceId);
+    return structuredClone(this.state.get(deviceId)!);
+  }
+
+  async executeCommand(
+    deviceId: string,
+    capability: string,
+    command: string,
+    args: unknown[] = [],
+    component = 'main'
+  ): Promise<void> {
+    const definition = this.getDefinition(deviceId);
+    const componentDefinition = componentsOf(definition)[component];
+
+    if (!componentDefinition) {
+      throw new DeviceProviderError(`Device has no component: ${component}`, 'BAD_ARGUMENTS');
+    }
+    if (!componentDefinition.capabilities.includes(capability)) {
+      throw new DeviceProviderError(`Device does not support capability: ${capability}`, 'BAD_ARGUMENTS');
+    }
+
+    const changes = this.applyCommand(deviceId, capability, command, args, component);
+    this.publish(deviceId, changes, component);
+
+    if (capability === 'switch' && definition.components) {
+      this.syncSwitches(definition, component);
+    }
+  }
+
+  async getLocations(): Promise<Location[]> {
+    return [{ locationId: SIMULATED_LOCATION_ID, name: 'Demo Home' }];
+  }
+
+  async getRooms(): Promise<Room[]> {
+    return SIMULATED_ROOMS.map(room => ({ ...room, locationId: SIMULATED_LOCATION_ID }));
+  }
+
+  async getScenes(): Promise<Scene[]> {
+    return SIMULATED_SCENES.map(scene => ({
+      ...scene,
+      locationId: SIMULATED_LOCATION_ID,
+      createdBy: 'simulator',
+      createdDate: SIMULATED_EPOCH,
+      lastUpdatedDate: SIMULATED_EPOCH,
+      lastExecutedDate: this.lastExecuted.get(scene.sceneId),
+      actions: scene.actions?.map(action => ({
+        ...action,
+        deviceLabel: this.getDefinition(action.deviceId).label,
+      })),
+    }));
+  }
+
+  async executeScene(sceneId: string): Promise<void> {
+    const scene = SIMULATED_SCENES.find(s => s.sceneId === sceneId);
+    if (!scene) {
+      throw new DeviceProviderError(`Scene not found: ${sceneId}`, 'NOT_FOUND');
+    }
+
+    for (const action of scene.actions || []) {
+      await this.executeCommand(action.deviceId, action.capability, action.command, action.arguments, action.component);
+    }
+
+    this.lastExecuted.set(sceneId, new Date().toISOString());
+    logger.debug(`Simulated scene executed: ${sceneId}`);
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Advance the simulation: drift sensors toward their targets
+   */
+  tick(): void {
+    SIMULATED_DEVICES.forEach(definition => {
+      const main = this.state.get(definition.deviceId)!.components.main;
+      const changes: Record<string, Record<string, unknown>> = {};
+      const set = (capability: string, attribute: string, value: unknown) => {
+        if (main[capability]?.[attribute]?.value === value) return;
+        changes[capability] = { ...changes[capability], [attribute]: value };
+      };
+
+      const temperature = main.temperatureMeasurement?.temperature?.value;
+      if (typeof temperature === 'number') {
+        set('temperatureMeasurement', 'temperature', round(temperature + this.temperatureDelta(definition, temperature)));
+      }
+
+      const humidity = main.relativeHumidityMeasurement?.humidity?.value;
+      if (typeof humidity === 'number') {
+        set('relativeHumidityMeasurement', 'humidity', Math.round(Math.min(65, Math.max(30, humidity + jitter(1)))));
+      }
+
+      const power = main.powerMeter?.power?.value;
+      if (typeof power === 'number') {
+        const isOn = main.switch?.switch?.value === 'on';
+        set('powerMeter', 'power', isOn ? Math.round(Math.max(80, Math.min(180, power + jitter(15)))) : 0);
+      }
+
+      if (Object.keys(changes).length > 0) {
+        this.publish(definition.deviceId, this.writeState(definition.deviceId, changes));
+      }
+    });
+  }
+
+  private temperatureDelta(definition: SimulatedDeviceDefinition, temperature: number): number {
+    const main = this.state.get(definition.deviceId)!.components.main;
+
+    if (definition.deviceId === 'kitchen-refrigerator') {
+      return (37 - temperature) * 0.2 + jitter(0.2);
+    }
+
+    if (definition.capabilities.includes('thermostatMode')) {
+      const operatingState = main.thermostatOperatingState?.thermostatOperatingState?.value;
+      if (operatingState === 'heating') return 0.3 + jitter(0.1);
+      if (operatingState === 'cooling') return -0.3 + jitter(0.1);
+    }
+
+    // Outdoor-ish sensors follow the time of day, indoor ones hover around 71
+    const hour = new Date().getHours();
+    const ambient = definition.roomId === 'front-porch'
+      ? 55 + 10 * Math.sin(((hour - 9) / 24) * 2 * Math.PI)
+      : 71;
+    return (ambient - temperature) * 0.05 + jitter(0.3);
+  }
+
+  /**
+   * Keep a multi-outlet device consistent: the main switch switches every
+   * outlet, and is on while any outlet is on
+   */
+  private syncSwitches(definition: SimulatedDeviceDefinition, changedComponent: string): void {
+    const { deviceId } = definition;
+    const components = this.state.get(deviceId)!.components;
+    const outlets = Object.entries(definition.components || {})
+      .filter(([, outlet]) => outlet.capabilities.includes('switch'))
+      .map(([componentId]) => componentId);
+
+    if (changedComponent === 'main') {
+      const value = components.main.switch?.switch?.value;
+      outlets.forEach(componentId => {
+        this.publish(deviceId, this.writeState(deviceId, { switch: { switch: value } }, componentId), componentId);
+      });
+    } else {
+      const anyOn = outlets.some(componentId => components[componentId].switch?.switch?.value === 'on');
+      this.publish(deviceId, this.writeState(deviceId, { switch: { switch: anyOn ? 'on' : 'off' } }));
+    }
+  }
+
+  private applyCommand(
+    deviceId: string,
+    capability: string,
+    command: string,
+    args: unknown[],
+    component = 'main'
+  ): Record<string, Record<string, unknown>> {
+    const status = this.state.get(deviceId)!.components[component];
+    const write = (changes: Record<string, Record<string, unknown>>) => this.writeState(deviceId, changes, component);
+    const numberArg = (index = 0): number => {
+      const value = Number(args[index]);
+      if (Number.isNaN(value)) {
+        throw new DeviceProviderError(`Invalid argument for ${capability}.${command}`, 'BAD_ARGUMENTS');
+      }
+      return value;
+    };
+
+    switch (`${capability}.${command}`) {
+      case 'switch.on':
+      case 'switch.off':
+        return write({ switch: { switch: command } });
+
+      case 'switchLevel.setLevel': {
+        const level = Math.round(Math.min(100, Math.max(0, numberArg())));
+        return write({
+          switchLevel: { level },
+          switch: { switch: level > 0 ? 'on' : 'off' },
+        });
+      }
+
+      case 'colorControl.setColor': {
+        const color = (args[0] || {}) as { hue?: number; saturation?: number };
+        return write({
+          colorControl: {
+            hue: color.hue ?? status.colorControl?.hue?.value,
+            saturation: color.saturation ?? status.colorControl?.saturation?.value,
+          },
+          switch: { switch: 'on' },
+        });
+      }
+
+      case 'colorControl.setHue':
+        return write({ colorControl: { hue: numberArg() } });
+
+      case 'colorControl.setSaturation':
+        return write({ colorControl: { saturation: numberArg() } });
+
+      case 'thermostatMode.setThermostatMode':
+        return this.updateThermostat(deviceId, { thermostatMode: { thermostatMode: String(args[0]) } });
+
+      case 'thermostatMode.heat':
+      case 'thermostatMode.cool':
+      case 'thermostatMode.auto':
+      case 'thermostatMode.off':
+        return this.updateThermostat(deviceId, { thermostatMode: { thermostatMode: command } });
+
+      case 'thermostatHeatingSetpoint.setHeatingSetpoint':
+        return this.updateThermostat(deviceId, { thermostatHeatingSetpoint: { heatingSetpoint: numberArg() } });
+
+      case 'thermostatCoolingSetpoint.setCoolingSetpoint':
+        return this.updateThermostat(deviceId, { thermostatCoolingSetpoint: { coolingSetpoint: numberArg() } });
+
+      case 'lock.lock':
+        return write({ lock: { lock: 'locked' } });
+
+      case 'lock.unlock':
+        return write({ lock: { lock: 'unlocked' } });
+
+      default:
+        throw new DeviceProviderError(`Unsupported command: ${capability}.${command}`, 'BAD_ARGUMENTS');
+    }
+  }
+
+  /**
+   * Apply thermostat changes and recompute the operating state
+   */
+  private updateThermostat(
+    deviceId: string,
+    changes: Record<string, Record<string, unknown>>
+  ): Record<string, Record<string, unknown>> {
+    const written = this.writeState(deviceId, changes);
+    const main = this.state.get(deviceId)!.components.main;
+
+    const mode = main.thermostatMode?.thermostatMode?.value;
+    const temperature = Number(main.temperatureMeasurement?.temperature?.value);
+    const heatingSetpoint = Number(main.thermostatHeatingSetpoint?.heatingSetpoint?.value);
+    const coolingSetpoint = Number(main.thermostatCoolingSetpoint?.coolingSetpoint?.value);
+
+    let operatingState = 'idle';
+    if ((mode === 'heat' || mode === 'auto') && temperature < heatingSetpoint) {
+      operatingState = 'heating';
+    } else if ((mode === 'cool' || mode === 'auto') && temperature > coolingSetpoint) {
+      operatingState = 'cooling';
+    }
+
+    const operating = this.writeState(deviceId, {
+      thermostatOperatingState: { thermostatOperatingState: operatingState },
+    });
+
+    return { ...written, ...operating };
+  }
+
+  /**
+   * Write attribute values and return the changed attributes
+   */
+  private writeState(
+    deviceId: string,
+    changes: Record<string, Record<string, unknown>>,
+    component = 'main'
+  ): Record<string, Record<string, unknown>> {
+    const status = this.state.get(deviceId)!.components[component];
+    const timestamp = new Date().toISOString();
+    const written: Record<string, Record<string, unknown>> = {};
+
+    Object.entries(changes).forEach(([capability, attributes]) => {
+      Object.entries(attributes).forEach(([attribute, value]) => {
+        const current = status[capability]?.[attribute];
+        if (current?.value === value) return;
+
+        status[capability] = status[capability] || {};
+        status[capability][attribute] = { value, unit: current?.unit, timestamp };
+        written[capability] = { ...written[capability], [attribute]: value };
+      });
+    });
+
+    return written;
+  }
+
+  /**
+   * Push changed attributes to the session over WebSocket
+   */
+  private publish(deviceId: string, changes: Record<string, Record<string, unknown>>, component = 'main'): void {
+    if (!this.sessionId || Object.keys(changes).length === 0) return;
+
+    const status = this.state.get(deviceId)!.components[component];
+    const componentStatus: DeviceStatus['components'][string] = {};
+    Object.entries(changes).forEach(([capability, attributes]) => {
+      componentStatus[capability] = {};
+      Object.keys(attributes).forEach(attribute => {
+        componentStatus[capability][attribute] = status[capability][attribute];
+      });
+    });
+
+    websocketService.broadcastToSession(this.sessionId, {
+      type: 'device-update',
+      deviceId,
+      status: { components: { [component]: componentStatus } },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private getDefinition(deviceId: string): SimulatedDeviceDefinition {
+    const definition = SIMULATED_DEVICES.find(d => d.deviceId === deviceId);
+    if (!definition) {
+      throw new DeviceProviderError(`Device not found: ${deviceId}`, 'NOT_FOUND');
+    }
+    return definition;
+  }
+
+  private toDevice(definition: SimulatedDeviceDefinition, includeStatus: boolean): Device {
+    const status = this.state.get(definition.deviceId)!;
+    const components: Device['components'] = {};
+    Object.entries(componentsOf(definition)).forEach(([componentId, component]) => {
+      components[componentId] = {
+        id: componentId,
+        label: component.label,
+        capabilities: component.capabilities.map(id => ({ id, version: 1 })),
+        ...(includeStatus ? structuredClone(status.components[componentId]) : {}),
+      };
+    });
+
+    return {
+      deviceId: definition.deviceId,
+      name: definition.label,
+      label: definition.label,
+      locationId: SIMULATED_LOCATION_ID,
+      roomId: definition.roomId,
+      room: SIMULATED_ROOMS.find(r => r.roomId === definition.roomId)?.name,
+      manufacturerName: 'Simulator',
+      deviceTypeName: definition.deviceTypeName,
+      components,
+    };
+  }
+}
+
+/**
+ * Manages one simulated home per demo session
+ */
+export class SimulatorService {
+  private homes: Map<string, SimulatedHome> = new Map();
+  private tickInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Get (or create) the simulated home for a session
+   */
+  getHome(sessionId: string): SimulatedHome {
+    let home = this.homes.get(sessionId);
+    if (!home) {
+      home = new SimulatedHome(sessionId);
+      this.homes.set(sessionId, home);
+      logger.info('Simulated home created for demo session');
+    }
+    return home;
+  }
+
+  /**
+   * Discard the simulated home for a session
+   */
+  dropHome(sessionId: string): void {
+    this.homes.delete(sessionId);
+  }
+
+  /**
+   * Start drifting sensor values
+   */
+  start(): void {
+    if (this.tickInterval) return;
+
+    this.tickInterval = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.tickInterval.unref();
+  }
+
+  /**
+   * Stop the simulation timer
+   */
+  stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  /**
+   * Advance every home, dropping those whose session has expired
+   */
+  tick(): void {
+    for (const [sessionId, home] of this.homes.entries()) {
+      if (!SessionService.getSession(sessionId)) {
+        this.homes.delete(sessionId);
+        continue;
+      }
+
+      try {
+        home.tick();
+      } catch (error) {
+        logger.error('Simulated home tick failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Number of active simulated homes
+   */
+  getHomeCount(): number {
+    return this.homes.size;
+  }
+}
+
+// Export singleton instance
+export const simulatorService = new SimulatorService();
@@ -0,0 +1,397 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { deviceEventService } from './device-event.service';
+import { deviceHealthService } from './device-health.service';
+
+/**
+ * SmartThings webhook SmartApp
+ *
+ * SmartThings calls the webhook with signed lifecycle requests. INSTALL and
+ * UPDATE (re)create capability and device health subscriptions for the
+ * location; EVENT carries the resulting device events, which are fed into the
+ * device event stream, and health events, which update device health.
+ */
+
+/** Capabilities subscribed to on install */
+export const SUBSCRIBED_CAPABILITIES = [
+  'switch',
+  'switchLevel',
+  'colorControl',
+  'colorTemperature',
+  'lock',
+  'contactSensor',
+  'motionSensor',
+  'presenceSensor',
+  'temperatureMeasurement',
+  'relativeHumidityMeasurement',
+  'thermostatMode',
+  'thermostatHeatingSetpoint',
+  'thermostatCoolingSetpoint',
+  'thermostatOperatingState',
+  'powerMeter',
+  'button',
+];
+
+/** Signed requests older than this are rejected */
+const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+
+export interface InstalledApp {
+  installedAppId: string;
+  locationId: string;
+}
+
+export interface DeviceEventData {
+  subscriptionName?: string;
+  eventId?: string;
+  locationId?: string;
+  deviceId: string;
+  componentId: string;
+  capability: string;
+  attribute: string;
+  value: unknown;
+  unit?: string;
+  stateChange?: boolean;
+}
+
+export interface DeviceHealthEventData {
+  eventId?: string;
+  locationId?: string;
+  deviceId: string;
+  /** ONLINE, OFFLINE or UNHEALTHY */
+  status: string;
+  reason?: string;
+}
+
+export interface LifecycleRequest {
+  lifecycle: string;
+  executionId?: string;
+  appId?: string;
+  confirmationData?: { appId: string; confirmationUrl: string };
+  pingData?: { challenge: string };
+  configurationData?: { installedAppId: string; phase: string; pageId?: string };
+  installData?: { authToken: string; installedApp: InstalledApp };
+  updateData?: { authToken: string; installedApp: InstalledApp };
+  eventData?: {
+    installedApp: InstalledApp;
+    events: Array<{ eventType: string; deviceEvent?: DeviceEventData; deviceHealthEvent?: DeviceHealthEventData }>;
+  };
+  uninstallData?: { installedApp: InstalledApp };
+}
+
+export interface SignedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  rawBody: string;
+}
+
+export type KeyResolver = (keyId: string) => Promise<crypto.KeyObject>;
+
+export class SmartAppError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.name = 'SmartAppError';
+  }
+}
+
+function header(headers: SignedRequest['headers'], name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Parse an HTTP Signature authorization header:
+ * Signature keyId="...",signature="...",headers="...",algorithm="..."
+ */
+export function parseSignatureHeader(value: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const body = value.replace(/^Signature\s+/i, '');
+  const pattern = /(\w+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    params[match[1]] = match[2];
+  }
+  return params;
+}
+
+export class SmartAppService {
+  private keys: Map<string, crypto.KeyObject> = new Map();
+  private keyResolver: KeyResolver;
+
+  constructor(keyResolver?: KeyResolver) {
+    this.keyResolver = keyResolver || ((keyId) => this.fetchPublicKey(keyId));
+  }
+
+  /**
+   * Replace the public key lookup (used by tests)
+   */
+  setKeyResolver(keyResolver: KeyResolver): void {
+    this.keyResolver = keyResolver;
+    this.keys.clear();
+  }
+
+  /**
+   * Verify the HTTP signature and body digest of a lifecycle request
+   */
+  async verifySignature(request: SignedRequest): Promise<void> {
+    const authorization = header(request.headers, 'authorization');
+    if (!authorization || !/^Signature\s/i.test(authorization)) {
+      throw new SmartAppError('Missing request signature', 401);
+    }
+
+    const params = parseSignatureHeader(authorization);
+    if (!params.keyId || !params.signature) {
+      throw new SmartAppError('Malformed request signature', 401);
+    }
+    if (params.algorithm && params.algorithm !== 'rsa-sha256') {
+      throw new SmartAppError(`Unsupported signature algorithm: ${params.algorithm}`, 401);
+    }
+
+    const signedHeaders = (params.headers || 'date').toLowerCase().split(/\s+/);
+    if (!signedHeaders.includes('digest')) {
+      throw new SmartAppError('Request body is not covered by the signature', 401);
+    }
+    // Without a signed date a captured request could be replayed forever
+    if (!signedHeaders.includes('date')) {
+      throw new SmartAppError('Request date is not covered by the signature', 401);
+    }
+
+    const digest = 'SHA-256=' + crypto.createHash('sha256').update(request.rawBody).digest('base64');
+    if (header(request.headers, 'digest') !== digest) {
+      throw new SmartAppError('Request digest mismatch', 401);
+    }
+
+    const signedAt = new Date(header(request.headers, 'date') || '').getTime();
+    if (Number.isNaN(signedAt)) {
+      throw new SmartAppError('Missing or invalid request date', 401);
+    }
+    if (Math.abs(Date.now() - signedAt) > MAX_SIGNATURE_AGE_MS) {
+      throw new SmartAppError('Request signature has expired', 401);
+    }
+
+    const signingString = signedHeaders.map(name => {
+      if (name === '(request-target)') {
+        return `(request-target): ${request.method.toLowerCase()} ${request.url}`;
+      }
+      const value = header(request.headers, name);
+      if (value === undefined) {
+        throw new SmartAppError(`Signed header missing: ${name}`, 401);
+      }
+      return `${name}: ${value}`;
+    }).join('\n');
+
+    const key = await this.getPublicKey(params.keyId);
+    const valid = crypto.verify(
+      'sha256',
+      Buffer.from(signingString),
+      key,
+      Buffer.from(params.signature, 'base64')
+    );
+
+    if (!valid) {
+      throw new SmartAppError('Invalid request signature', 401);
+    }
+  }
+
+  /**
+   * Handle a verified lifecycle request and build the response body
+   */
+  async handleLifecycle(body: LifecycleRequest, targetUrl: string): Promise<Record<string, unknown>> {
+    this.checkAppId(body);
+
+    switch (body.lifecycle) {
+      case 'CONFIRMATION':
+        await this.confirm(body.confirmationData!.confirmationUrl);
+        return { targetUrl };
+
+      case 'PING':
+        return { pingData: { challenge: body.pingData?.challenge } };
+
+      case 'CONFIGURATION':
+        return { configurationData: this.configuration(body.configurationData?.phase) };
+
+      case 'INSTALL': {
+        const { authToken, installedApp } = body.installData!;
+        await this.createSubscriptions(installedApp, authToken);
+        logger.info(`SmartApp installed in location ${installedApp.locationId}`);
+        return { installData: {} };
+      }
+
+      case 'UPDATE': {
+        const { authToken, installedApp } = body.updateData!;
+        await this.createSubscriptions(installedApp, authToken);
+        logger.info(`SmartApp updated in location ${installedApp.locationId}`);
+        return { updateData: {} };
+      }
+
+      case 'EVENT':
+        await this.handleEvents(body.eventData?.events || []);
+        return { eventData: {} };
+
+      case 'UNINSTALL':
+        logger.info(`SmartApp uninstalled from location ${body.uninstallData?.installedApp.locationId}`);
+        return { uninstallData: {} };
+
+      default:
+        throw new SmartAppError(`Unsupported lifecycle: ${body.lifecycle}`, 400);
+    }
+  }
+
+  /**
+   * Replace the installed app's subscriptions with one per capability, plus
+   * one for device health
+   */
+  async createSubscriptions(installedApp: InstalledApp, authToken: string): Promise<void> {
+    const client = axios.create({
+      baseURL: config.smartthings.apiUrl,
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json',
+      },
+      timeout: 10000,
+    });
+    const path = `/installedapps/${installedApp.installedAppId}/subscriptions`;
+
+    await client.delete(path);
+
+    const results = await Promise.allSettled([
+      ...SUBSCRIBED_CAPABILITIES.map(capability =>
+        client.post(path, {
+          sourceType: 'CAPABILITY',
+          capability: {
+            locationId: installedApp.locationId,
+            capability,
+            attribute: '*',
+            value: '*',
+            stateChangeOnly: true,
+            subscriptionName: `${capability}_subscription`,
+          },
+        })
+      ),
+      client.post(path, {
+        sourceType: 'DEVICE_HEALTH',
+        deviceHealth: {
+          locationId: installedApp.locationId,
+          subscriptionName: 'device_health_subscription',
+        },
+      }),
+    ]);
+
+    const failed = results.filter(r => r.status === 'rejected').length;
+    if (failed > 0) {
+      logger.warn(`Failed to create ${failed} of ${results.length} SmartApp subscriptions`);
+    }
+  }
+
+  private async handleEvents(events: NonNullable<LifecycleRequest['eventData']>['events']): Promise<void> {
+    for (const event of events) {
+      if (event.eventType === 'DEVICE_HEALTH_EVENT' && event.deviceHealthEvent) {
+        const { deviceId, status } = event.deviceHealthEvent;
+        deviceHealthService.recordProviderState(
+          deviceId,
+          status === 'ONLINE' ? 'online' : status === 'OFFLINE' ? 'offline' : 'unknown'
+        );
+        continue;
+      }
+      if (event.eventType !== 'DEVICE_EVENT' || !event.deviceEvent) continue;
+
+      const deviceEvent = event.deviceEvent;
+      await deviceEventService.recordEvent({
+        deviceId: deviceEvent.deviceId,
+        component: deviceEvent.componentId || 'main',
+        capability: deviceEvent.capability,
+        attribute: deviceEvent.attribute,
+        value: deviceEvent.value,
+        unit: deviceEvent.unit,
+        source: 'smartapp',
+      });
+    }
+  }
+
+  private async confirm(confirmationUrl: string): Promise<void> {
+    const url = new URL(confirmationUrl);
+    if (url.protocol !== 'https:' || !url.hostname.endsWith('.smartthings.com')) {
+      throw new SmartAppError('Invalid confirmation URL', 400);
+    }
+
+    await axios.get(confirmationUrl, { timeout: 10000 });
+    logger.info('SmartApp webhook confirmed');
+  }
+
+  private configuration(phase?: string): Record<string, unknown> {
+    if (phase === 'INITIALIZE') {
+      return {
+        initialize: {
+          id: 'home-control',
+          name: 'Home Control',
+          description: 'Sends device events to Home Control',
+          permissions: ['r:devices:*', 'r:locations:*'],
+          firstPageId: '1',
+        },
+      };
+    }
+
+    return {
+      page: {
+        pageId: '1',
+        name: 'Home Control',
+        nextPageId: null,
+        previousPageId: null,
+        complete: true,
+        sections: [],
+      },
+    };
+  }
+
+  /**
+   * Only our own SmartApp may use the webhook: any SmartThings app can sign
+   * requests, so without SMARTAPP_APP_ID nothing is handled. PINGs carry no
+   * app ID, and only echo their challenge.
+   */
+  private checkAppId(body: LifecycleRequest): void {
+    const expected = config.smartapp.appId;
+    if (!expected) {
+      throw new SmartAppError('SmartApp is not configured (SMARTAPP_APP_ID is not set)', 503);
+    }
+    if (body.lifecycle === 'PING') return;
+
+    const appIds = [body.appId, body.confirmationData?.appId].filter(appId => appId !== undefined);
+    if (appIds.length === 0 || appIds.some(appId => appId !== expected)) {
+      throw new SmartAppError('Unknown app ID', 403);
+    }
+  }
+
+  private async getPublicKey(keyId: string): Promise<crypto.KeyObject> {
+    const cached = this.keys.get(keyId);
+    if (cached) return cached;
+
+    const key = await this.keyResolver(keyId);
+    this.keys.set(keyId, key);
+    return key;
+  }
+
+  /**
+   * Download the signing certificate for a key ID from the SmartThings key server
+   */
+  private async fetchPublicKey(keyId: string): Promise<crypto.KeyObject> {
+    if (!keyId.startsWith('/') || keyId.includes('..')) {
+      throw new SmartAppError('Invalid signature key ID', 401);
+    }
+
+    try {
+      const response = await axios.get(`${config.smartapp.keyUrl}${keyId}`, {
+        responseType: 'text',
+        timeout: 10000,
+      });
+      return new crypto.X509Certificate(response.data).publicKey;
+    } catch (error) {
+      logger.error(`Failed to fetch SmartApp signing key ${keyId}`);
+      throw new SmartAppError('Unable to verify request signature', 401);
+    }
+  }
+}
+
+// Export singleton instance
+export const smartAppService = new SmartAppService();
@@ -1,86 +1,65 @@
-import axios, { AxiosInstance } from 'axios';
 import { config } from '../config/env';
 import { logger, logTelemetry } from '../utils/logger';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { ResilientHttpClient, toProviderError } from './resilient-http';
+import {
+  Device,
+  DeviceCommand,
+  DeviceHealthReport,
+  DeviceProvider,
+  DeviceStatus,
+  Location,
+  ProviderHealth,
+  Room,
+  Scene,
+  SceneAction,
+} from './device-provider';
 
-export interface SmartThingsDevice {
-  deviceId: string;
-  name: string;
-  label: string;
-  roomId?: string;
-  manufacturerName?: string;
-  presentationId?: string;
-  deviceTypeName?: string;
-  components: Record<string, Component>;
-}
-
-export interface Component {
-  id: string;
-  capabilities: Capability[];
-}
-
-export interface Capability {
-  id: string;
-  version?: number;
-}
-
-export interface DeviceStatus {
-  components: Record<string, ComponentStatus>;
-}
+/** Scene detail requests in flight at once */
+const SCENE_DETAIL_CONCURRENCY = 4;
 
-export interface ComponentStatus {
-  [capabilityId: string]: {
-    [attributeName: string]: {
-      value: unknown;
-      unit?: string;
-      timestamp: string;
-    };
-  };
-}
+/** Per-location room and scene requests in flight at once */
+const LOCATION_CONCURRENCY = 2;
 
-export interface Room {
-  roomId: string;
+/** A SmartThings location mode (e.g. Home, Away, Night) */
+export interface LocationMode {
+  modeId: string;
   name: string;
 }
 
-export interface SceneAction {
-  deviceId: string;
-  deviceLabel?: string;
-  capability: string;
-  command: string;
-  arguments?: unknown[];
-}
-
-export interface Scene {
-  sceneId: string;
-  sceneName: string;
-  sceneIcon?: string;
-  sceneColor?: string;
-  locationId: string;
-  createdBy: string;
-  createdDate: string;
-  lastUpdatedDate: string;
-  lastExecutedDate?: string;
-  actions?: SceneAction[];
+function toLocationMode(mode: any): LocationMode {
+  return { modeId: mode.id, name: mode.label || mode.name };
 }
 
-export class SmartThingsService {
-  private client: AxiosInstance;
+export class SmartThingsService implements DeviceProvider {
+  readonly id = 'smartthings';
+  readonly name = 'SmartThings';
+  private client: ResilientHttpClient;
+  /** Scene actions by sceneId, re-fetched when lastUpdatedDate changes */
+  private sceneDetails: Map<string, { lastUpdatedDate: string; actions: SceneAction[] }> = new Map();
 
   constructor() {
-    this.client = axios.create({
+    this.client = new ResilientHttpClient({
+      name: 'SmartThings',
       baseURL: config.smartthings.apiUrl,
       headers: {
         'Authorization': `Bearer ${config.smartthings.token}`,
         'Content-Type': 'application/json',
       },
-      timeout: 10000,
+      timeoutMs: config.smartthings.timeoutMs,
+      maxRetries: config.smartthings.maxRetries,
+      baseDelayMs: 250,
+      maxDelayMs: 4000,
+      maxRetryAfterMs: 10000,
+      failureThreshold: config.smartthings.circuitThreshold,
+      resetTimeoutMs: config.smartthings.circuitResetMs,
     });
   }
 
   /**
    * Get all devices
    */
-  async getDevices(): Promise<SmartThingsDevice[]> {
+  async getDevices(): Promise<Device[]> {
     try {
       const startTime = Date.now();
       const response = await this.client.get('/devices');
@@ -103,9 +82,9 @@ export class SmartThingsService {
         logger.warn('Failed to fetch rooms for device mapping');
       }
       
-      // Transform components from array to object keyed by component ID
-      // and fetch status for each device
-      const devices = await Promise.all((response.data.items || []).map(async (device: any) => {
+      // Transform components from array to object keyed by component ID.
+      // Status is not included: the device inventory fetches and caches it.
+      const devices = (response.data.items || []).map((device: any) => {
         // Transform components array to object
         if (Array.isArray(device.components)) {
           const componentsObj: Record<string, any> = {};
@@ -120,27 +99,8 @@ export class SmartThingsService {
           device.room = roomsMap[device.roomId];
         }
         
-        // Fetch current status for the device
-        try {
-          const statusResponse = await this.client.get(`/devices/${device.deviceId}/status`);
-          // Merge status into components
-          if (statusResponse.data?.components && device.components) {
-            Object.keys(statusResponse.data.components).forEach(componentId => {
-              if (device.components[componentId]) {
-                device.components[componentId] = {
-                  ...device.components[componentId],
-                  ...statusResponse.data.components[componentId]
-                };
-              }
-            });
-          }
-        } catch (statusError) {
-          // If status fetch fails, just log and continue without status
-          logger.warn(`Failed to fetch status for device ${device.deviceId}`);
-        }
-        
         return device;
-      }));
+      });
       
       return devices;
     } catch (error) {
@@ -149,14 +109,14 @@ export class SmartThingsService {
         metric: 'smartthings.api.devices.list',
         success: false,
       });
-      throw new Error('Failed to fetch devices');
+      throw toProviderError(error, 'Failed to fetch devices');
     }
   }
 
   /**
    * Get device details
    */
-  async getDevice(deviceId: string): Promise<SmartThingsDevice> {
+  async getDevice(deviceId: string): Promise<Device> {
     try {
       const startTime = Date.now();
       const response = await this.client.get(`/devices/${deviceId}`);
@@ -187,7 +147,7 @@ export class SmartThingsService {
         deviceId,
         success: false,
       });
-      throw new Error('Failed to fetch device');
+      throw toProviderError(error, 'Failed to fetch device');
     }
   }
 
@@ -215,7 +175,25 @@ export class SmartThingsService {
         deviceId,
         success: false,
       });
-      throw new Error('Failed to fetch device status');
+      throw toProviderError(error, 'Failed to fetch device status');
+    }
+  }
+
+  /**
+   * Get device health (ONLINE / OFFLINE as tracked by SmartThings)
+   */
+  async getDeviceHealth(deviceId: string): Promise<DeviceHealthReport> {
+    try {
+      const response = await this.client.get(`/devices/${deviceId}/health`);
+      const state = String(response.data.state || '').toUpperCase();
+      
+      return {
+        state: state === 'ONLINE' ? 'online' : state === 'OFFLINE' ? 'offline' : 'unknown',
+        updatedAt: response.data.lastUpdatedDate,
+      };
+    } catch (error) {
+      logger.warn(`Failed to fetch health for device ${deviceId}`);
+      throw toProviderError(error, 'Failed to fetch device health');
     }
   }
 
@@ -226,7 +204,8 @@ export class SmartThingsService {
     deviceId: string,
     capability: string,
     command: string,
-    args: unknown[] = []
+    args: unknown[] = [],
+    component = 'main'
   ): Promise<void> {
     try {
       const startTime = Date.now();
@@ -234,7 +213,7 @@ export class SmartThingsService {
       await this.client.post(`/devices/${deviceId}/commands`, {
         commands: [
           {
-            component: 'main',
+            component,
             capability,
             command,
             arguments: args,
@@ -253,9 +232,10 @@ export class SmartThingsService {
         success: true,
       });
       
-      logger.info(`Command executed: ${command} on device ${deviceId}`);
+      logger.info(`Command executed: ${command} on device ${deviceId} (${component})`);
     } catch (error: any) {
       logger.error(`Failed to execute command on device ${deviceId}:`, {
+        component,
         capability,
         command,
         args,
@@ -270,26 +250,107 @@ export class SmartThingsService {
         newValue: command,
         success: false,
       });
-      throw new Error('Failed to execute device command');
+      throw toProviderError(error, 'Failed to execute device command');
     }
   }
 
   /**
-   * Get all rooms
+   * Execute several commands on one device in a single request
    */
-  async getRooms(): Promise<Room[]> {
+  async executeCommands(deviceId: string, commands: DeviceCommand[]): Promise<void> {
+    const summary = commands.map(c => `${c.capability}.${c.command}`).join(', ');
+    
+    try {
+      const startTime = Date.now();
+      
+      await this.client.post(`/devices/${deviceId}/commands`, {
+        commands: commands.map(c => ({
+          component: c.component || 'main',
+          capability: c.capability,
+          command: c.command,
+          arguments: c.arguments || [],
+        })),
+      });
+      
+      const responseTime = Date.now() - startTime;
+      
+      logTelemetry({
+        metric: 'smartthings.device.commands',
+        deviceId,
+        commandCount: commands.length,
+        responseTime,
+        success: true,
+      });
+      
+      logger.info(`Commands executed on device ${deviceId}: ${summary}`);
+    } catch (error: any) {
+      logger.error(`Failed to execute commands on device ${deviceId}:`, {
+        commands: summary,
+        error: error.message,
+        status: error.response?.status,
+        details: error.response?.data,
+      });
+      logTelemetry({
+        metric: 'smartthings.device.commands',
+        deviceId,
+        commandCount: commands.length,
+        success: false,
+      });
+      throw toProviderError(error, 'Failed to execute device commands');
+    }
+  }
+
+  /**
+   * Get all locations
+   */
+  async getLocations(): Promise<Location[]> {
     try {
       const startTime = Date.now();
       const response = await this.client.get('/locations');
+      const responseTime = Date.now() - startTime;
       
-      if (!response.data.items || response.data.items.length === 0) {
+      logTelemetry({
+        metric: 'smartthings.api.locations.list',
+        responseTime,
+        success: true,
+      });
+      
+      return (response.data.items || []).map((location: any) => ({
+        locationId: location.locationId,
+        name: location.name,
+        timeZoneId: location.timeZoneId,
+      }));
+    } catch (error) {
+      logger.error('Failed to fetch locations from SmartThings:', error);
+      logTelemetry({
+        metric: 'smartthings.api.locations.list',
+        success: false,
+      });
+      throw toProviderError(error, 'Failed to fetch locations');
+    }
+  }
+
+  /**
+   * Get all rooms, across every location
+   */
+  async getRooms(): Promise<Room[]> {
+    try {
+      const startTime = Date.now();
+      const locations = await this.getLocations();
+      
+      if (locations.length === 0) {
         logger.warn('No locations found in SmartThings account');
         return [];
       }
       
-      // Get rooms from the first location
-      const locationId = response.data.items[0].locationId;
-      const roomsResponse = await this.client.get(`/locations/${locationId}/rooms`);
+      const roomsByLocation = await mapWithConcurrency(locations, LOCATION_CONCURRENCY, async (location) => {
+        const roomsResponse = await this.client.get(`/locations/${location.locationId}/rooms`);
+        return (roomsResponse.data.items || []).map((room: any): Room => ({
+          roomId: room.roomId,
+          name: room.name,
+          locationId: location.locationId,
+        }));
+      });
       const responseTime = Date.now() - startTime;
       
       logTelemetry({
@@ -298,7 +359,7 @@ export class SmartThingsService {
         success: true,
       });
       
-      return roomsResponse.data.items || [];
+      return roomsByLocation.flat();
     } catch (error: any) {
       // Log detailed error information
       if (error.response) {
@@ -328,51 +389,55 @@ export class SmartThingsService {
     try {
       const startTime = Date.now();
       
-      // First, get the location ID
-      const locationsResponse = await this.client.get('/locations');
-      if (!locationsResponse.data.items || locationsResponse.data.items.length === 0) {
-        return [];
-      }
+      // Get scenes for every location
+      const locations = await this.getLocations();
+      const scenesByLocation = await mapWithConcurrency(locations, LOCATION_CONCURRENCY, async (location) => {
+        const scenesResponse = await this.client.get(`/scenes`, {
+          params: { locationId: location.locationId }
+        });
+        return (scenesResponse.data.items || []).map((scene: Scene) => ({
+          ...scene,
+          locationId: scene.locationId || location.locationId,
+        }));
+      });
       
-      const locationId = locationsResponse.data.items[0].locationId;
+      const scenes: Scene[] = scenesByLocation.flat();
       
-      // Get scenes for the location
-      const scenesResponse = await this.client.get(`/scenes`, {
-        params: { locationId }
+      // Only fetch details for scenes that are new or changed since last time
+      const detailedScenes = await mapWithConcurrency(scenes, SCENE_DETAIL_CONCURRENCY, async (scene) => {
+        const cached = this.sceneDetails.get(scene.sceneId);
+        if (cached && cached.lastUpdatedDate === scene.lastUpdatedDate) {
+          return { ...scene, actions: cached.actions };
+        }
+        
+        try {
+          const detailResponse = await this.client.get(`/scenes/${scene.sceneId}`);
+          const sceneDetail = detailResponse.data;
+          
+          // Device labels are resolved by the device inventory
+          const actions: SceneAction[] = (sceneDetail.actions || []).map((action: any) => ({
+            deviceId: action.deviceId,
+            capability: action.capability,
+            command: action.command,
+            arguments: action.arguments,
+          }));
+          
+          this.sceneDetails.set(scene.sceneId, { lastUpdatedDate: scene.lastUpdatedDate, actions });
+          return { ...scene, actions };
+        } catch (error) {
+          logger.warn(`Failed to fetch details for scene ${scene.sceneId}:`, error);
+          // Fall back to the last known actions, or basic scene info
+          return cached ? { ...scene, actions: cached.actions } : scene;
+        }
       });
       
-      const scenes = scenesResponse.data.items || [];
-      
-      // Fetch full details for each scene including actions
-      const detailedScenes = await Promise.all(
-        scenes.map(async (scene: Scene) => {
-          try {
-            const detailResponse = await this.client.get(`/scenes/${scene.sceneId}`);
-            const sceneDetail = detailResponse.data;
-            
-            // Get all devices to map deviceIds to labels
-            const devices = await this.getDevices();
-            const deviceMap = new Map(devices.map(d => [d.deviceId, d.label || d.name]));
-            
-            // Extract and format actions
-            const actions: SceneAction[] = (sceneDetail.actions || []).map((action: any) => ({
-              deviceId: action.deviceId,
-              deviceLabel: deviceMap.get(action.deviceId) || 'Unknown Device',
-              capability: action.capability,
-              command: action.command,
-              arguments: action.arguments,
-            }));
-            
-            return {
-              ...scene,
-              actions,
-            };
-          } catch (error) {
-            logger.warn(`Failed to fetch details for scene ${scene.sceneId}:`, error);
-            return scene; // Return basic scene info if details fetch fails
-          }
-        })
-      );
+      // Forget deleted scenes
+      const sceneIds = new Set(scenes.map(scene => scene.sceneId));
+      for (const sceneId of this.sceneDetails.keys()) {
+        if (!sceneIds.has(sceneId)) {
+          this.sceneDetails.delete(sceneId);
+        }
+      }
       
       const responseTime = Date.now() - startTime;
       
@@ -398,7 +463,8 @@ export class SmartThingsService {
         metric: 'smartthings.api.scenes.list',
         success: false,
       });
-      return [];
+      // Let the inventory fall back to the last known scenes
+      throw toProviderError(error, 'Failed to fetch scenes');
     }
   }
 
@@ -428,7 +494,46 @@ export class SmartThingsService {
         sceneId,
         success: false,
       });
-      throw new Error('Failed to execute scene');
+      throw toProviderError(error, 'Failed to execute scene');
+    }
+  }
+
+  /**
+   * Get the modes of a location
+   */
+  async getLocationModes(locationId: string): Promise<LocationMode[]> {
+    try {
+      const response = await this.client.get(`/locations/${locationId}/modes`);
+      return (response.data.items || []).map(toLocationMode);
+    } catch (error) {
+      logger.error(`Failed to fetch modes of location ${locationId}:`, error);
+      throw toProviderError(error, 'Failed to fetch location modes');
+    }
+  }
+
+  /**
+   * Get the current mode of a location
+   */
+  async getCurrentLocationMode(locationId: string): Promise<LocationMode> {
+    try {
+      const response = await this.client.get(`/locations/${locationId}/modes/current`);
+      return toLocationMode(response.data);
+    } catch (error) {
+      logger.error(`Failed to fetch current mode of location ${locationId}:`, error);
+      throw toProviderError(error, 'Failed to fetch location mode');
+    }
+  }
+
+  /**
+   * Change the current mode of a location
+   */
+  async setLocationMode(locationId: string, modeId: string): Promise<void> {
+    try {
+      await this.client.put(`/locations/${locationId}/modes/current`, { modeId });
+      logger.info(`Location ${locationId} mode changed to ${modeId}`);
+    } catch (error) {
+      logger.error(`Failed to change mode of location ${locationId}:`, error);
+      throw toProviderError(error, 'Failed to change location mode');
     }
   }
 
@@ -444,6 +549,13 @@ export class SmartThingsService {
       return false;
     }
   }
+
+  /**
+   * Circuit breaker state of the API client
+   */
+  getHealth(): ProviderHealth {
+    return this.client.getHealth();
+  }
 }
 
 // Export singleton instance
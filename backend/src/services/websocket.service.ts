@@ -1,13 +1,14 @@
 import { Server as HTTPServer } from 'http';
 import { Server as HTTPSServer } from 'https';
 import { WebSocket, WebSocketServer } from 'ws';
-import { parse as parseCookie } from 'cookie';
+import { DeviceTimer } from './device-timer.service';
 import { SessionService } from './session.service';
 import { logger } from '../utils/logger';
 
 interface AuthenticatedWebSocket extends WebSocket {
   userId?: string;
   username?: string;
+  sessionId?: string;
   isAlive?: boolean;
   isDemoMode?: boolean;
 }
@@ -50,6 +51,7 @@ export class WebSocketService {
 
       // Attach user info to WebSocket
       ws.userId = session.userId;
+      ws.sessionId = sessionId;
       ws.isDemoMode = session.isDemoMode || false;
       ws.isAlive = true;
 
@@ -198,6 +200,55 @@ export class WebSocketService {
     logger.debug(`Broadcasted device update for ${deviceId} to ${broadcastCount} clients (isDemoMode=${isDemoMode})`);
   }
 
+  /**
+   * Broadcast a device's reachability change to clients of the real home
+   */
+  broadcastDeviceHealth(deviceId: string, health: { online: boolean; lastSeen?: string }) {
+    if (!this.wss) return;
+
+    const message = JSON.stringify({
+      type: 'device-health',
+      deviceId,
+      ...health,
+      timestamp: new Date().toISOString(),
+    });
+
+    this.wss.clients.forEach((ws: WebSocket) => {
+      const client = ws as AuthenticatedWebSocket;
+      if (!client.isDemoMode && client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  }
+
+  /**
+   * Broadcast a device's timers to clients of the real home whose user can
+   * access the device, leaving out who set them
+   */
+  async broadcastDeviceTimers(deviceId: string, timers: DeviceTimer[]) {
+    if (!this.wss) return;
+
+    const message = JSON.stringify({
+      type: 'device-timers',
+      deviceId,
+      timers: timers.map(({ userId, username, ...timer }) => timer),
+      timestamp: new Date().toISOString(),
+    });
+
+    const { UserService } = await import('./user.service');
+    const { canAccessDevice } = await import('../middleware/acl.middleware');
+    for (const [userId, userClients] of this.clients) {
+      const user = UserService.getUserById(userId);
+      if (!user || !(await canAccessDevice({ user, isDemoMode: false }, deviceId))) continue;
+
+      userClients.forEach((client) => {
+        if (!client.isDemoMode && client.readyState === WebSocket.OPEN) {
+          client.send(message);
+        }
+      });
+    }
+  }
+
   /**
    * Broadcast to specific user
    */
@@ -218,6 +269,26 @@ export class WebSocketService {
     logger.debug(`Sent message to user ${userId} (${sentCount} connections)`);
   }
 
+  /**
+   * Broadcast to every connection opened with a specific session
+   */
+  broadcastToSession(sessionId: string, data: any) {
+    if (!this.wss) return;
+
+    const message = JSON.stringify(data);
+    let sentCount = 0;
+
+    this.wss.clients.forEach((ws: WebSocket) => {
+      const client = ws as AuthenticatedWebSocket;
+      if (client.sessionId === sessionId && client.readyState === WebSocket.OPEN) {
+        client.send(message);
+        sentCount++;
+      }
+    });
+
+    logger.debug(`Sent message to session (${sentCount} connections)`);
+  }
+
   /**
    * Broadcast to all connected clients
    */
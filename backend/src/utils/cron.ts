@@ -0,0 +1,123 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week)
+ *
+ * Fields take `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`*\/15`,
+ * `8-18/2`). Day of week is 0-6 from Sunday, with 7 also meaning Sunday. As in
+ * classic cron, when both day fields are restricted a day matching either one
+ * matches. Times are in the server's local time zone.
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether the day fields were restricted (not `*`) */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/** How far ahead to look for the next match (covers Feb 29 and leap years) */
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseField(value: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${field.name} field`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [first, last] = range.split('-');
+      start = Number(first);
+      end = last === undefined ? (stepText === undefined ? start : field.max) : Number(last);
+      if (first === '' || !Number.isInteger(start) || !Number.isInteger(end)) {
+        throw new Error(`Invalid value "${part}" in ${field.name} field`);
+      }
+      if (start < field.min || end > field.max || start > end) {
+        throw new Error(`${field.name} values must be between ${field.min} and ${field.max}`);
+      }
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression; throws with a readable message if it's invalid
+ */
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== '*',
+    daysOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+function matchesDay(cron: CronExpression, day: Date): boolean {
+  if (!cron.months.has(day.getMonth() + 1)) return false;
+
+  const dayOfMonth = cron.daysOfMonth.has(day.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(day.getDay());
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time after `after` that matches the expression, or undefined if
+ * none does within the next few years (e.g. February 30th)
+ */
+export function nextCronTime(cron: CronExpression, after: Date): Date | undefined {
+  const hours = Array.from(cron.hours).sort((a, b) => a - b);
+  const minutes = Array.from(cron.minutes).sort((a, b) => a - b);
+
+  for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+    const day = new Date(after.getFullYear(), after.getMonth(), after.getDate() + offset);
+    if (!matchesDay(cron, day)) continue;
+
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+        // Skip times that don't exist on this day (clocks going forward)
+        if (candidate > after && candidate.getHours() === hour) {
+          return candidate;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
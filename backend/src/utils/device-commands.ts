@@ -0,0 +1,115 @@
+import { DeviceCommand, DeviceProviderError } from '../services/device-provider';
+import { DeviceActor } from '../services/device-source';
+import { deviceCommands, deviceCommandDuration, smartthingsApiCalls, smartthingsApiDuration } from '../services/metrics.service';
+import { logAudit, logTelemetry } from './logger';
+
+/**
+ * What sent a device command, recorded in its audit entry: a user directly,
+ * or one of the features that send commands for them
+ */
+export type CommandSource =
+  | { type: 'user' }
+  | { type: 'batch' }
+  | { type: 'group'; groupId: string }
+  | { type: 'scene'; sceneId: string }
+  | { type: 'automation'; automationId: string }
+  | { type: 'home-mode'; homeMode: string }
+  | { type: 'presence-simulation' }
+  | { type: 'timer'; timerId: string };
+
+/** How a command went, as recorded */
+export interface CommandOutcome {
+  /** Seconds */
+  duration: number;
+  error?: unknown;
+  /** Defaults to the code of a DeviceProviderError */
+  code?: string;
+}
+
+/**
+ * Audit details naming a command's source
+ */
+function sourceDetails(source: CommandSource): Record<string, unknown> {
+  switch (source.type) {
+    case 'user':
+      return {};
+    case 'batch':
+      return { batch: true };
+    case 'group':
+      return { group: source.groupId };
+    case 'scene':
+      return { scene: source.sceneId };
+    case 'automation':
+      return { automation: source.automationId };
+    case 'home-mode':
+      return { homeMode: source.homeMode };
+    case 'presence-simulation':
+      return { presenceSimulation: true };
+    case 'timer':
+      return { timer: source.timerId };
+  }
+}
+
+/**
+ * Track a mock SmartThings API call for demo mode, with a small delay for realism
+ */
+export async function simulateApiCall(): Promise<void> {
+  smartthingsApiCalls.inc({ endpoint: 'executeCommand', success: 'true', mode: 'demo' });
+  // Simulate API call duration (50-150ms for demo)
+  const mockApiDuration = (Math.random() * 0.1 + 0.05);
+  smartthingsApiDuration.observe({ endpoint: 'executeCommand', mode: 'demo' }, mockApiDuration);
+  await new Promise(resolve => setTimeout(resolve, mockApiDuration * 1000));
+}
+
+/**
+ * Update metrics and write the audit entry for one executed command
+ */
+export function recordCommand(
+  request: DeviceActor & { ip?: string },
+  deviceId: string,
+  command: DeviceCommand,
+  outcome: CommandOutcome,
+  source: CommandSource = { type: 'user' }
+): void {
+  const { duration, error } = outcome;
+  const mode = request.isDemoMode ? 'demo' : 'production';
+  const component = command.component || 'main';
+  const success = !error;
+  const code = outcome.code ?? (error instanceof DeviceProviderError ? error.code : undefined);
+  
+  deviceCommands.inc({ 
+    device_id: deviceId, 
+    capability: command.capability, 
+    command: command.command, 
+    success: String(success),
+    mode
+  });
+  if (success) {
+    deviceCommandDuration.observe({ device_id: deviceId, capability: command.capability, mode }, duration);
+  }
+  
+  const details = sourceDetails(source);
+  if (code) details.code = code;
+  
+  logAudit({
+    action: 'device.command',
+    user: request.user!.username,
+    deviceId,
+    component: component !== 'main' ? component : undefined,
+    command: `${command.capability}.${command.command}`,
+    success,
+    ip: request.ip,
+    details: Object.keys(details).length > 0 ? details : undefined,
+  });
+  
+  if (success) {
+    logTelemetry({
+      metric: 'device.command.executed',
+      deviceId,
+      capability: command.capability,
+      newValue: command.command,
+      responseTime: duration * 1000,
+      success: true,
+    });
+  }
+}
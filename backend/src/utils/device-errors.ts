@@ -0,0 +1,18 @@
+import { FastifyReply } from 'fastify';
+import { DeviceProviderError } from '../services/device-provider';
+
+/**
+ * Send a failed device operation to the client
+ * Classified provider errors keep their status and `code` (plus Retry-After
+ * when known); anything else is a 500 with the fallback message.
+ */
+export function sendDeviceError(reply: FastifyReply, error: unknown, fallbackMessage: string) {
+  if (error instanceof DeviceProviderError) {
+    if (error.retryAfterMs !== undefined) {
+      reply.header('Retry-After', Math.ceil(error.retryAfterMs / 1000));
+    }
+    return reply.code(error.httpStatus).send({ error: error.message, code: error.code });
+  }
+
+  return reply.code(500).send({ error: fallbackMessage });
+}
@@ -58,6 +58,9 @@ export interface AuditLogEntry {
   user: string;
   deviceId?: string;
   deviceName?: string;
+  sceneId?: string;
+  /** Device component for commands not aimed at 'main' */
+  component?: string;
   command?: string;
   success: boolean;
   ip?: string;
@@ -72,6 +75,9 @@ export function logAudit(entry: AuditLogEntry): void {
 export interface TelemetryEntry {
   metric: string;
   deviceId?: string;
+  sceneId?: string;
+  sceneCount?: number;
+  commandCount?: number;
   capability?: string;
   oldValue?: unknown;
   newValue?: unknown;
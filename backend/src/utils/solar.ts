@@ -0,0 +1,53 @@
+/**
+ * Sunrise and sunset calculator
+ *
+ * Implements the sunrise equation (accurate to a minute or two away from the
+ * poles), so sun-relative schedules need no network access. Latitude is
+ * positive north, longitude positive east.
+ */
+export interface SunTimes {
+  /** Undefined when the sun doesn't rise or set that day (polar day or night) */
+  sunrise?: Date;
+  sunset?: Date;
+}
+
+const JULIAN_UNIX_EPOCH = 2440587.5;
+const JULIAN_2000 = 2451545.0;
+const MS_PER_DAY = 86400000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const fromJulian = (julian: number) => new Date((julian - JULIAN_UNIX_EPOCH) * MS_PER_DAY);
+
+/**
+ * Sunrise and sunset on a calendar day (taken in the server's local time zone)
+ */
+export function getSunTimes(date: Date, latitude: number, longitude: number): SunTimes {
+  // Days since J2000 at noon UTC of the calendar day
+  const days = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), 12) / MS_PER_DAY + JULIAN_UNIX_EPOCH - JULIAN_2000;
+
+  // Mean solar time at the longitude
+  const meanSolarTime = days - longitude / 360;
+  const meanAnomaly = (357.5291 + 0.98560028 * meanSolarTime) % 360;
+  const m = toRadians(meanAnomaly);
+  const center = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+  const eclipticLongitude = toRadians((meanAnomaly + center + 180 + 102.9372) % 360);
+  const transit = JULIAN_2000 + meanSolarTime + 0.0053 * Math.sin(m) - 0.0069 * Math.sin(2 * eclipticLongitude);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(toRadians(23.4397)));
+  const phi = toRadians(latitude);
+  // -0.833° allows for refraction and the size of the sun's disc
+  const cosHourAngle = (Math.sin(toRadians(-0.833)) - Math.sin(phi) * Math.sin(declination)) /
+    (Math.cos(phi) * Math.cos(declination));
+
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return {};
+  }
+
+  const hourAngle = toDegrees(Math.acos(cosHourAngle));
+  return {
+    sunrise: fromJulian(transit - hourAngle / 360),
+    sunset: fromJulian(transit + hourAngle / 360),
+  };
+}
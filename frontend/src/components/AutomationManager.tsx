@@ -0,0 +1,943 @@
+import { useCallback, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  automationAPI,
+  getErrorMessage,
+  AutomationAction,
+  AutomationCondition,
+  AutomationInput,
+  AutomationTrigger,
+  ComparisonOperator,
+  HomeMode,
+  HOME_MODES,
+} from '@/lib/api';
+import { useAuthStore } from '@/lib/auth';
+import { useWebSocketMessage } from '@/hooks/useWebSocket';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Switch } from '@/components/ui/Switch';
+import { Scene } from '@/components/SceneCard';
+import { FlaskConical, History, Link, Pencil, Plus, Save, Trash2, Workflow } from 'lucide-react';
+
+interface Automation extends AutomationInput {
+  ruleId: string;
+  enabled: boolean;
+  createdBy: string;
+  webhookToken?: string;
+  lastRunAt?: string;
+}
+
+interface AutomationRun {
+  runId: string;
+  trigger: { type: AutomationTrigger['type'] };
+  status: 'success' | 'failed' | 'skipped';
+  conditions: { index: number; passed: boolean }[];
+  error?: string;
+  startedAt: string;
+}
+
+const OPERATORS: Record<ComparisonOperator, string> = {
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+};
+
+const TRIGGER_TYPES: Record<AutomationTrigger['type'], string> = {
+  attribute: 'Device attribute changes',
+  time: 'At a time of day',
+  sun: 'Around sunrise or sunset',
+  cron: 'Cron expression',
+  mode: 'Home mode changes',
+  webhook: 'Webhook is called',
+};
+
+const CONDITION_TYPES: Record<AutomationCondition['type'], string> = {
+  attribute: 'Device attribute is',
+  timeWindow: 'Time is between',
+  presence: 'Someone is home / away',
+};
+
+const ACTION_TYPES: Record<AutomationAction['type'], string> = {
+  command: 'Send a device command',
+  scene: 'Run a scene',
+  notify: 'Send a notification',
+  delay: 'Wait',
+  mode: 'Change the home mode',
+};
+
+const DEFAULT_TRIGGERS: Record<AutomationTrigger['type'], AutomationTrigger> = {
+  attribute: { type: 'attribute', deviceId: '', capability: '', attribute: '' },
+  time: { type: 'time', time: '07:00' },
+  sun: { type: 'sun', event: 'sunset', offsetMinutes: 0 },
+  cron: { type: 'cron', expression: '0 7 * * *' },
+  mode: { type: 'mode' },
+  webhook: { type: 'webhook' },
+};
+
+const DEFAULT_CONDITIONS: Record<AutomationCondition['type'], AutomationCondition> = {
+  attribute: { type: 'attribute', deviceId: '', capability: '', attribute: '', operator: 'eq', value: '' },
+  timeWindow: { type: 'timeWindow', after: '22:00', before: '06:00' },
+  presence: { type: 'presence', deviceId: '', present: true },
+};
+
+const DEFAULT_ACTIONS: Record<AutomationAction['type'], AutomationAction> = {
+  command: { type: 'command', deviceId: '', capability: '', command: '' },
+  scene: { type: 'scene', sceneId: '' },
+  notify: { type: 'notify', message: '' },
+  delay: { type: 'delay', seconds: 60 },
+  mode: { type: 'mode', mode: 'Away' },
+};
+
+const EMPTY_DRAFT: AutomationInput = {
+  name: '',
+  triggers: [DEFAULT_TRIGGERS.attribute],
+  conditions: [],
+  actions: [DEFAULT_ACTIONS.command],
+};
+
+const RUN_STYLES: Record<AutomationRun['status'], string> = {
+  success: 'text-green-600',
+  failed: 'text-red-600',
+  skipped: 'text-muted-foreground',
+};
+
+const selectClass = 'h-10 px-3 border rounded-md bg-background text-sm';
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Arguments typed as JSON (e.g. `[50]` or `"heat"`); anything else is sent as text
+ */
+function parseArguments(text: string): unknown[] | undefined {
+  if (text.trim() === '') return undefined;
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return [text];
+  }
+}
+
+function isComplete(draft: AutomationInput): boolean {
+  const hasDevice = (item: { deviceId?: string; capability?: string }) => !!item.deviceId && item.capability !== '';
+  return (
+    draft.name.trim() !== '' &&
+    draft.triggers.length > 0 &&
+    draft.actions.length > 0 &&
+    draft.triggers.every((trigger) => trigger.type !== 'attribute' || (hasDevice(trigger) && trigger.attribute !== '')) &&
+    draft.conditions.every((condition) => condition.type === 'timeWindow' || hasDevice(condition)) &&
+    draft.actions.every(
+      (action) =>
+        (action.type === 'command' && hasDevice(action) && action.command !== '') ||
+        (action.type === 'scene' && action.sceneId !== '') ||
+        (action.type === 'notify' && action.message.trim() !== '') ||
+        action.type === 'delay' ||
+        action.type === 'mode'
+    )
+  );
+}
+
+function DeviceSelect({ devices, value, onChange }: { devices: any[]; value: string; onChange: (deviceId: string) => void }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={selectClass} aria-label="Device">
+      <option value="">Device…</option>
+      {devices.map((d) => (
+        <option key={d.deviceId} value={d.deviceId}>
+          {d.displayName || d.label || d.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/** Device, capability and attribute of an attribute trigger or condition */
+function AttributeFields({
+  devices,
+  item,
+  onChange,
+}: {
+  devices: any[];
+  item: { deviceId: string; capability: string; attribute: string };
+  onChange: (patch: { deviceId?: string; capability?: string; attribute?: string }) => void;
+}) {
+  const device = devices.find((d) => d.deviceId === item.deviceId);
+  const capabilities: string[] = (device?.components?.main?.capabilities || []).map((c: any) => c.id);
+
+  return (
+    <>
+      <DeviceSelect
+        devices={devices}
+        value={item.deviceId}
+        onChange={(deviceId) => onChange({ deviceId, capability: '', attribute: '' })}
+      />
+      <select
+        value={item.capability}
+        onChange={(e) => onChange({ capability: e.target.value, attribute: '' })}
+        disabled={!device}
+        className={selectClass}
+        aria-label="Capability"
+      >
+        <option value="">Capability…</option>
+        {capabilities.map((capability) => (
+          <option key={capability} value={capability}>
+            {capability}
+          </option>
+        ))}
+      </select>
+      <Input
+        value={item.attribute}
+        placeholder="Attribute (e.g. switch)"
+        disabled={!item.capability}
+        onChange={(e) => onChange({ attribute: e.target.value })}
+      />
+    </>
+  );
+}
+
+function OperatorFields({
+  operator,
+  value,
+  optional,
+  onChange,
+}: {
+  operator?: ComparisonOperator;
+  value?: string | number | boolean;
+  optional?: boolean;
+  onChange: (patch: { operator?: ComparisonOperator; value?: string }) => void;
+}) {
+  return (
+    <div className="flex gap-2">
+      <select
+        value={operator || ''}
+        onChange={(e) => {
+          const next = (e.target.value || undefined) as ComparisonOperator | undefined;
+          onChange({ operator: next, value: next ? String(value ?? '') : undefined });
+        }}
+        className={selectClass}
+        aria-label="Comparison"
+      >
+        {optional && <option value="">any change</option>}
+        {Object.entries(OPERATORS).map(([op, symbol]) => (
+          <option key={op} value={op}>
+            {symbol}
+          </option>
+        ))}
+      </select>
+      {operator && (
+        <Input value={String(value ?? '')} placeholder="Value" onChange={(e) => onChange({ value: e.target.value })} />
+      )}
+    </div>
+  );
+}
+
+function TriggerFields({
+  trigger,
+  devices,
+  onChange,
+}: {
+  trigger: AutomationTrigger;
+  devices: any[];
+  onChange: (trigger: AutomationTrigger) => void;
+}) {
+  switch (trigger.type) {
+    case 'attribute':
+      return (
+        <>
+          <AttributeFields devices={devices} item={trigger} onChange={(patch) => onChange({ ...trigger, ...patch })} />
+          <OperatorFields
+            optional
+            operator={trigger.operator}
+            value={trigger.value}
+            onChange={(patch) => onChange({ ...trigger, ...patch })}
+          />
+        </>
+      );
+    case 'time':
+      return (
+        <Input
+          type="time"
+          value={trigger.time}
+          onChange={(e) => onChange({ ...trigger, time: e.target.value })}
+          aria-label="Time"
+        />
+      );
+    case 'sun':
+      return (
+        <>
+          <select
+            value={trigger.event}
+            onChange={(e) => onChange({ ...trigger, event: e.target.value as 'sunrise' | 'sunset' })}
+            className={selectClass}
+            aria-label="Sun event"
+          >
+            <option value="sunrise">sunrise</option>
+            <option value="sunset">sunset</option>
+          </select>
+          <Input
+            type="number"
+            min={-240}
+            max={240}
+            value={trigger.offsetMinutes}
+            onChange={(e) => onChange({ ...trigger, offsetMinutes: Number(e.target.value) || 0 })}
+            aria-label="Offset in minutes"
+          />
+        </>
+      );
+    case 'cron':
+      return (
+        <Input
+          value={trigger.expression}
+          placeholder="45 6 * * 1-5"
+          className="font-mono"
+          onChange={(e) => onChange({ ...trigger, expression: e.target.value })}
+        />
+      );
+    case 'mode':
+      return (
+        <select
+          value={trigger.mode || ''}
+          onChange={(e) => onChange({ ...trigger, mode: (e.target.value as HomeMode) || undefined })}
+          className={selectClass}
+          aria-label="Mode"
+        >
+          <option value="">Any mode</option>
+          {HOME_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {mode}
+            </option>
+          ))}
+        </select>
+      );
+    case 'webhook':
+      return <span className="text-sm text-muted-foreground self-center">The URL is shown once the rule is saved</span>;
+  }
+}
+
+function ConditionFields({
+  condition,
+  devices,
+  onChange,
+}: {
+  condition: AutomationCondition;
+  devices: any[];
+  onChange: (condition: AutomationCondition) => void;
+}) {
+  switch (condition.type) {
+    case 'attribute':
+      return (
+        <>
+          <AttributeFields devices={devices} item={condition} onChange={(patch) => onChange({ ...condition, ...patch })} />
+          <OperatorFields
+            operator={condition.operator}
+            value={condition.value}
+            onChange={(patch) =>
+              onChange({ ...condition, operator: patch.operator || condition.operator, value: patch.value ?? condition.value })
+            }
+          />
+        </>
+      );
+    case 'timeWindow':
+      return (
+        <>
+          <Input
+            type="time"
+            value={condition.after}
+            onChange={(e) => onChange({ ...condition, after: e.target.value })}
+            aria-label="After"
+          />
+          <Input
+            type="time"
+            value={condition.before}
+            onChange={(e) => onChange({ ...condition, before: e.target.value })}
+            aria-label="Before"
+          />
+        </>
+      );
+    case 'presence': {
+      const sensors = devices.filter((d) =>
+        (d.components?.main?.capabilities || []).some((c: any) => c.id === 'presenceSensor')
+      );
+      return (
+        <>
+          <DeviceSelect devices={sensors} value={condition.deviceId} onChange={(deviceId) => onChange({ ...condition, deviceId })} />
+          <select
+            value={condition.present ? 'present' : 'away'}
+            onChange={(e) => onChange({ ...condition, present: e.target.value === 'present' })}
+            className={selectClass}
+            aria-label="Presence"
+          >
+            <option value="present">is home</option>
+            <option value="away">is away</option>
+          </select>
+        </>
+      );
+    }
+  }
+}
+
+export function ActionFields({
+  action,
+  devices,
+  scenes,
+  onChange,
+}: {
+  action: AutomationAction;
+  devices: any[];
+  scenes: Scene[];
+  onChange: (action: AutomationAction) => void;
+}) {
+  const { user } = useAuthStore();
+  switch (action.type) {
+    case 'command': {
+      const device = devices.find((d) => d.deviceId === action.deviceId);
+      const capabilities: string[] = (device?.components?.main?.capabilities || []).map((c: any) => c.id);
+      return (
+        <>
+          <DeviceSelect
+            devices={devices}
+            value={action.deviceId}
+            onChange={(deviceId) => onChange({ ...action, deviceId, capability: '', command: '' })}
+          />
+          <select
+            value={action.capability}
+            onChange={(e) => onChange({ ...action, capability: e.target.value, command: '' })}
+            disabled={!device}
+            className={selectClass}
+            aria-label="Capability"
+          >
+            <option value="">Capability…</option>
+            {capabilities.map((capability) => (
+              <option key={capability} value={capability}>
+                {capability}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={action.command}
+            placeholder="Command (e.g. on)"
+            disabled={!action.capability}
+            onChange={(e) => onChange({ ...action, command: e.target.value })}
+          />
+          <Input
+            defaultValue={action.arguments ? JSON.stringify(action.arguments) : ''}
+            placeholder="Arguments (JSON, optional)"
+            onChange={(e) => onChange({ ...action, arguments: parseArguments(e.target.value) })}
+          />
+        </>
+      );
+    }
+    case 'scene':
+      return (
+        <select
+          value={action.sceneId}
+          onChange={(e) => onChange({ ...action, sceneId: e.target.value })}
+          className={selectClass}
+          aria-label="Scene"
+        >
+          <option value="">Scene…</option>
+          {scenes.map((scene) => (
+            <option key={scene.sceneId} value={scene.sceneId}>
+              {scene.sceneName}
+            </option>
+          ))}
+        </select>
+      );
+    case 'notify':
+      return (
+        <>
+          <Input
+            value={action.message}
+            placeholder="Message"
+            maxLength={500}
+            className="sm:col-span-2"
+            onChange={(e) => onChange({ ...action, message: e.target.value })}
+          />
+          {/* Only admins may notify everyone */}
+          {(user?.role === 'admin' || action.everyone) && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!!action.everyone}
+                onChange={(e) => onChange({ ...action, everyone: e.target.checked || undefined })}
+              />
+              Everyone
+            </label>
+          )}
+        </>
+      );
+    case 'delay':
+      return (
+        <Input
+          type="number"
+          min={1}
+          max={3600}
+          value={action.seconds}
+          onChange={(e) => onChange({ ...action, seconds: Number(e.target.value) || 1 })}
+          aria-label="Seconds"
+        />
+      );
+    case 'mode':
+      return (
+        <select
+          value={action.mode}
+          onChange={(e) => onChange({ ...action, mode: e.target.value as HomeMode })}
+          className={selectClass}
+          aria-label="Mode"
+        >
+          {HOME_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {mode}
+            </option>
+          ))}
+        </select>
+      );
+  }
+}
+
+/** An editable list of triggers, conditions or actions */
+export function RuleSection<T extends { type: string }>({
+  title,
+  items,
+  types,
+  defaults,
+  onChange,
+  renderFields,
+}: {
+  title: string;
+  items: T[];
+  types: Record<string, string>;
+  defaults: Record<string, T>;
+  onChange: (items: T[]) => void;
+  renderFields: (item: T, onChange: (item: T) => void) => React.ReactNode;
+}) {
+  const replace = (index: number, item: T) => onChange(items.map((existing, i) => (i === index ? item : existing)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">{title}</span>
+        <Button variant="ghost" size="sm" onClick={() => onChange([...items, Object.values(defaults)[0]])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+      {items.map((item, index) => (
+        <div key={index} className="grid gap-2 sm:grid-cols-[12rem_1fr_1fr_1fr_auto] items-start">
+          <select
+            value={item.type}
+            onChange={(e) => replace(index, defaults[e.target.value])}
+            className={selectClass}
+            aria-label="Type"
+          >
+            {Object.entries(types).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {renderFields(item, (next) => replace(index, next))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="sm:col-start-5"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            aria-label="Remove"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RunHistory({ ruleId }: { ruleId: string }) {
+  const { data } = useQuery({
+    queryKey: ['automation-runs', ruleId],
+    queryFn: () => automationAPI.getAutomationRuns(ruleId),
+  });
+  const runs: AutomationRun[] = data?.runs || [];
+
+  if (runs.length === 0) {
+    return <p className="text-xs text-muted-foreground">No runs yet</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {runs.map((run) => {
+        const failedCondition = run.conditions.find((condition) => !condition.passed);
+        return (
+          <li key={run.runId} className="flex gap-2">
+            <span className="text-muted-foreground">{formatTime(run.startedAt)}</span>
+            <span className="text-muted-foreground">{TRIGGER_TYPES[run.trigger.type]}</span>
+            <span className={RUN_STYLES[run.status]}>{run.status}</span>
+            {failedCondition && (
+              <span className="text-muted-foreground">condition {failedCondition.index + 1} not met</span>
+            )}
+            {run.error && <span className="text-muted-foreground truncate">{run.error}</span>}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+interface Simulation {
+  eventsReplayed: number;
+  truncated: boolean;
+  firings: {
+    at: string;
+    trigger: { type: AutomationTrigger['type'] };
+    status: 'would-run' | 'skipped';
+    actions: { index: number; at: string; description: string }[];
+    reason?: string;
+  }[];
+  summary: { triggered: number; wouldRun: number; skipped: number; byHour: number[] };
+  notReplayed: { index: number; type: AutomationTrigger['type'] }[];
+}
+
+/** Hours counted as night when flagging runs */
+const NIGHT_HOURS = [0, 1, 2, 3, 4, 5];
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Dry run of a rule against recorded device history */
+function SimulationPanel({ ruleId }: { ruleId: string }) {
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [showSkipped, setShowSkipped] = useState(false);
+
+  const simulateMutation = useMutation({
+    // Whole local days, up to now
+    mutationFn: () => {
+      const end = new Date(`${to}T23:59:59`);
+      return automationAPI.simulateAutomation(
+        ruleId,
+        new Date(`${from}T00:00:00`).toISOString(),
+        (end > new Date() ? new Date() : end).toISOString()
+      );
+    },
+  });
+  const simulation: Simulation | undefined = simulateMutation.data?.simulation;
+  const maxPerHour = Math.max(1, ...(simulation?.summary.byHour || []));
+  const nightRuns = simulation ? NIGHT_HOURS.reduce((sum, hour) => sum + simulation.summary.byHour[hour], 0) : 0;
+  const firings = simulation?.firings.filter((firing) => showSkipped || firing.status === 'would-run') || [];
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="w-40" aria-label="From" />
+        <span className="text-muted-foreground">to</span>
+        <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="w-40" aria-label="To" />
+        <Button size="sm" variant="outline" onClick={() => simulateMutation.mutate()} disabled={simulateMutation.isPending}>
+          <FlaskConical className="w-4 h-4 mr-2" />
+          Replay history
+        </Button>
+      </div>
+
+      {simulateMutation.isError && (
+        <div className="p-3 text-red-700 bg-red-50 border border-red-200 rounded-md">
+          {getErrorMessage(simulateMutation.error)}
+        </div>
+      )}
+
+      {simulation && (
+        <>
+          <p className="text-muted-foreground">
+            Replayed {simulation.eventsReplayed} recorded changes: triggered {simulation.summary.triggered} times, would have
+            run {simulation.summary.wouldRun} times and skipped {simulation.summary.skipped}. Nothing was sent to devices.
+            {simulation.notReplayed.length > 0 &&
+              ` ${simulation.notReplayed.map((trigger) => TRIGGER_TYPES[trigger.type]).join(', ')} can't be replayed.`}
+          </p>
+          {nightRuns > 0 && (
+            <p className="text-amber-700">
+              Would have run {nightRuns} {nightRuns === 1 ? 'time' : 'times'} between midnight and 6am.
+            </p>
+          )}
+
+          {/* Runs per hour of day */}
+          <div className="flex items-end gap-px h-12" aria-label="Runs per hour of day">
+            {simulation.summary.byHour.map((count, hour) => (
+              <div
+                key={hour}
+                title={`${hour}:00 – ${count} ${count === 1 ? 'run' : 'runs'}`}
+                className={`flex-1 rounded-sm ${NIGHT_HOURS.includes(hour) ? 'bg-amber-500' : 'bg-primary'}`}
+                style={{ height: `${Math.max(count > 0 ? 8 : 2, (count / maxPerHour) * 100)}%`, opacity: count > 0 ? 1 : 0.2 }}
+              />
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input type="checkbox" checked={showSkipped} onChange={(e) => setShowSkipped(e.target.checked)} />
+            Show skipped
+          </label>
+          <ul className="space-y-2 text-xs max-h-64 overflow-y-auto">
+            {firings.map((firing, index) => (
+              <li key={index}>
+                <div className="flex gap-2">
+                  <span className="text-muted-foreground">{formatTime(firing.at)}</span>
+                  <span className="text-muted-foreground">{TRIGGER_TYPES[firing.trigger.type]}</span>
+                  <span className={firing.status === 'would-run' ? 'text-green-600' : 'text-muted-foreground'}>
+                    {firing.status === 'would-run' ? 'would run' : 'skipped'}
+                  </span>
+                  {firing.reason && <span className="text-muted-foreground">{firing.reason}</span>}
+                </div>
+                {firing.actions.length > 0 && (
+                  <ul className="ml-4 text-muted-foreground">
+                    {firing.actions.map((action) => (
+                      <li key={action.index}>{action.description}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+          {simulation.truncated && <p className="text-xs text-muted-foreground">Only the first firings are listed.</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface AutomationManagerProps {
+  devices: any[];
+  scenes: Scene[];
+}
+
+export default function AutomationManager({ devices, scenes }: AutomationManagerProps) {
+  const queryClient = useQueryClient();
+  // null: not editing, 'new': creating, otherwise the rule being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<AutomationInput>(EMPTY_DRAFT);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [simulateId, setSimulateId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: automationsData } = useQuery({
+    queryKey: ['automations'],
+    queryFn: () => automationAPI.getAutomations(),
+  });
+
+  // A rule ran: refresh last run times and that rule's history
+  const handleAutomationRun = useCallback(
+    (message: any) => {
+      queryClient.invalidateQueries({ queryKey: ['automations'] });
+      queryClient.invalidateQueries({ queryKey: ['automation-runs', message.run.ruleId] });
+    },
+    [queryClient]
+  );
+  useWebSocketMessage('automation-run', handleAutomationRun);
+
+  const onSaved = () => {
+    setEditing(null);
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['automations'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const existing = automations.find((automation) => automation.ruleId === editing);
+      const input: AutomationInput = { ...draft, enabled: existing ? existing.enabled : true };
+      return existing ? automationAPI.updateAutomation(existing.ruleId, input) : automationAPI.createAutomation(input);
+    },
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (automation: Automation) => automationAPI.setAutomationEnabled(automation.ruleId, !automation.enabled),
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (ruleId: string) => automationAPI.deleteAutomation(ruleId),
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const startEditing = (automation?: Automation) => {
+    setEditing(automation ? automation.ruleId : 'new');
+    setDraft(
+      automation
+        ? {
+            name: automation.name,
+            description: automation.description,
+            triggers: automation.triggers,
+            conditions: automation.conditions,
+            actions: automation.actions,
+          }
+        : EMPTY_DRAFT
+    );
+    setError(null);
+  };
+
+  const automations: Automation[] = automationsData?.automations || [];
+  const webhookUrl = (token: string) => `${window.location.origin}/api/automations/webhooks/${token}`;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Automations</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            When something happens and conditions hold, run commands, scenes and notifications.
+          </p>
+        </div>
+        {editing === null && (
+          <Button size="sm" variant="outline" onClick={() => startEditing()}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Automation
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        {editing !== null && (
+          <div className="p-4 border rounded-lg space-y-4">
+            <div className="grid gap-3 sm:grid-cols-2">
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Name</span>
+                <Input
+                  value={draft.name}
+                  placeholder="Hallway light on motion"
+                  maxLength={100}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Description</span>
+                <Input
+                  value={draft.description || ''}
+                  maxLength={500}
+                  onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                />
+              </label>
+            </div>
+
+            <RuleSection<AutomationTrigger>
+              title="When any of these happen"
+              items={draft.triggers}
+              types={TRIGGER_TYPES}
+              defaults={DEFAULT_TRIGGERS}
+              onChange={(triggers) => setDraft({ ...draft, triggers })}
+              renderFields={(trigger, onChange) => <TriggerFields trigger={trigger} devices={devices} onChange={onChange} />}
+            />
+            <RuleSection<AutomationCondition>
+              title="Only if all of these hold"
+              items={draft.conditions}
+              types={CONDITION_TYPES}
+              defaults={DEFAULT_CONDITIONS}
+              onChange={(conditions) => setDraft({ ...draft, conditions })}
+              renderFields={(condition, onChange) => (
+                <ConditionFields condition={condition} devices={devices} onChange={onChange} />
+              )}
+            />
+            <RuleSection<AutomationAction>
+              title="Then do these, in order"
+              items={draft.actions}
+              types={ACTION_TYPES}
+              defaults={DEFAULT_ACTIONS}
+              onChange={(actions) => setDraft({ ...draft, actions })}
+              renderFields={(action, onChange) => (
+                <ActionFields action={action} devices={devices} scenes={scenes} onChange={onChange} />
+              )}
+            />
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!isComplete(draft) || saveMutation.isPending}>
+                <Save className="w-4 h-4 mr-2" />
+                Save Automation
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {automations.length === 0 && editing === null ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <Workflow className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No automations yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {automations.map((automation) => (
+              <div key={automation.ruleId} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium">{automation.name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {automation.triggers.map((trigger) => TRIGGER_TYPES[trigger.type]).join(' or ')} ·{' '}
+                      {automation.actions.length} {automation.actions.length === 1 ? 'action' : 'actions'}
+                      {automation.lastRunAt && ` · last ran ${formatTime(automation.lastRunAt)}`}
+                    </div>
+                    {automation.webhookToken && (
+                      <div className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                        <Link className="w-3 h-3" />
+                        <code className="truncate">POST {webhookUrl(automation.webhookToken)}</code>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={automation.enabled}
+                      onCheckedChange={() => toggleMutation.mutate(automation)}
+                      disabled={toggleMutation.isPending}
+                      aria-label={automation.enabled ? 'Disable automation' : 'Enable automation'}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryId(historyId === automation.ruleId ? null : automation.ruleId)}
+                      aria-label="Run history"
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSimulateId(simulateId === automation.ruleId ? null : automation.ruleId)}
+                      aria-label="Test against history"
+                    >
+                      <FlaskConical className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEditing(automation)}
+                      disabled={editing !== null}
+                      aria-label="Edit automation"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(automation.ruleId)}
+                      disabled={deleteMutation.isPending}
+                      aria-label="Delete automation"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {historyId === automation.ruleId && <RunHistory ruleId={automation.ruleId} />}
+                {simulateId === automation.ruleId && <SimulationPanel ruleId={automation.ruleId} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { deviceAPI, getErrorMessage, DeviceTimer } from '@/lib/api';
+import { Button } from '@/components/ui/Button';
+import { AlertTriangle, Timer, X } from 'lucide-react';
+
+interface DeviceTimersProps {
+  deviceId: string;
+  timers: DeviceTimer[];
+  onError: (message: string) => void;
+}
+
+const describeCommand = (timer: DeviceTimer) =>
+  timer.capability === 'switch' ? (timer.command === 'on' ? 'On' : 'Off') : `${timer.capability}.${timer.command}`;
+
+// 1:05:09, 19:32 or 0:07
+const formatRemaining = (ms: number) => {
+  const total = Math.max(Math.ceil(ms / 1000), 0);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+/**
+ * A switch's timers with a live countdown, and a form to set one
+ * Timers set, extended or cancelled anywhere arrive over WebSocket. One whose
+ * command failed stays, with the error, until it's dismissed.
+ */
+export default function DeviceTimers({ deviceId, timers, onError }: DeviceTimersProps) {
+  const queryClient = useQueryClient();
+  const [adding, setAdding] = useState(false);
+  const [command, setCommand] = useState<'on' | 'off'>('off');
+  const [minutes, setMinutes] = useState('20');
+  const [now, setNow] = useState(Date.now());
+
+  // Tick only while something is counting down
+  const pendingCount = timers.filter((timer) => timer.status === 'pending').length;
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [pendingCount]);
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['device-timers'] });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      deviceAPI.createTimer(deviceId, { capability: 'switch', command, delaySeconds: Math.round(Number(minutes) * 60) }),
+    onSuccess: () => {
+      setAdding(false);
+      onSuccess();
+    },
+    onError: (error) => onError(getErrorMessage(error, 'Failed to set timer')),
+  });
+
+  const extendMutation = useMutation({
+    mutationFn: (timerId: string) => deviceAPI.extendTimer(deviceId, timerId, 5 * 60),
+    onSuccess,
+    onError: (error) => onError(getErrorMessage(error, 'Failed to extend timer')),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (timerId: string) => deviceAPI.cancelTimer(deviceId, timerId),
+    onSuccess,
+    onError: (error) => onError(getErrorMessage(error, 'Failed to cancel timer')),
+  });
+
+  const validMinutes = Number(minutes) > 0 && Number(minutes) <= 24 * 60;
+
+  return (
+    <div className="space-y-2 pt-3 border-t">
+      {timers.map((timer) => (
+        <div key={timer.timerId} className="flex items-center justify-between gap-2 text-sm">
+          {timer.status === 'failed' ? (
+            <span className="flex items-center gap-2 text-red-600" title={new Date(timer.runAt).toLocaleString()}>
+              <AlertTriangle className="w-4 h-4" />
+              {describeCommand(timer)} failed: {timer.error}
+            </span>
+          ) : (
+            <span
+              className="flex items-center gap-2"
+              title={`${new Date(timer.runAt).toLocaleString()}${timer.username ? ` · set by ${timer.username}` : ''}`}
+            >
+              <Timer className="w-4 h-4 text-blue-500" />
+              {timer.status === 'running' ? (
+                <>{describeCommand(timer)}...</>
+              ) : (
+                <>
+                  {describeCommand(timer)} in
+                  <span className="font-mono tabular-nums">{formatRemaining(new Date(timer.runAt).getTime() - now)}</span>
+                </>
+              )}
+            </span>
+          )}
+          <div className="flex items-center gap-1">
+            {timer.status === 'pending' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={extendMutation.isPending}
+                onClick={() => extendMutation.mutate(timer.timerId)}
+              >
+                +5 min
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              aria-label={timer.status === 'failed' ? 'Dismiss' : 'Cancel timer'}
+              disabled={cancelMutation.isPending}
+              onClick={() => cancelMutation.mutate(timer.timerId)}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {adding ? (
+        <div className="flex items-center gap-2 text-sm">
+          <select
+            value={command}
+            onChange={(e) => setCommand(e.target.value as 'on' | 'off')}
+            className="h-8 rounded-md border border-input bg-background px-2"
+          >
+            <option value="off">Turn off</option>
+            <option value="on">Turn on</option>
+          </select>
+          in
+          <input
+            type="number"
+            min={1}
+            max={24 * 60}
+            value={minutes}
+            onChange={(e) => setMinutes(e.target.value)}
+            className="h-8 w-16 rounded-md border border-input bg-background px-2"
+          />
+          min
+          <Button size="sm" disabled={!validMinutes || createMutation.isPending} onClick={() => createMutation.mutate()}>
+            Start
+          </Button>
+          <Button variant="ghost" size="sm" aria-label="Close" onClick={() => setAdding(false)}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ) : (
+        <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => setAdding(true)}>
+          <Timer className="w-4 h-4 mr-2" />
+          Timer
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { homeModeAPI, getErrorMessage, HomeMode, HOME_MODES } from '@/lib/api';
+import { useWebSocketMessage } from '@/hooks/useWebSocket';
+import { cn } from '@/lib/utils';
+import { DoorOpen, Home, Moon, Plane } from 'lucide-react';
+
+export const MODE_ICONS: Record<HomeMode, typeof Home> = {
+  Home,
+  Away: DoorOpen,
+  Night: Moon,
+  Vacation: Plane,
+};
+
+export interface HomeModeState {
+  mode: HomeMode;
+  change?: { changedAt: string; source: string; changedBy?: string };
+  canChange: boolean;
+  // Set when the current mode limits which devices this user can control
+  allowedDeviceIds?: string[];
+  smartThingsSync: boolean;
+}
+
+interface HomeModeControlProps {
+  onError: (message: string) => void;
+}
+
+/**
+ * The household mode, as a segmented control for the dashboard header
+ * Changes made anywhere (schedules, automations, SmartThings) arrive over
+ * WebSocket.
+ */
+export default function HomeModeControl({ onError }: HomeModeControlProps) {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<HomeModeState>({
+    queryKey: ['home-mode'],
+    queryFn: homeModeAPI.getHomeMode,
+  });
+
+  // Whether the user may change it (or is restricted) depends on the new mode
+  const handleModeChange = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['home-mode'] });
+  }, [queryClient]);
+
+  useWebSocketMessage('home-mode', handleModeChange);
+
+  const setModeMutation = useMutation({
+    mutationFn: homeModeAPI.setHomeMode,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['home-mode'] }),
+    onError: (error) => onError(getErrorMessage(error, 'Failed to change the home mode')),
+  });
+
+  if (!data) return null;
+
+  const describe = (mode: HomeMode) => {
+    if (mode !== data.mode) return `Switch to ${mode}`;
+    const by = data.change?.changedBy ? ` by ${data.change.changedBy}` : '';
+    const since = data.change ? ` since ${new Date(data.change.changedAt).toLocaleString()}${by} (${data.change.source})` : '';
+    return `${mode}${since}`;
+  };
+
+  return (
+    <div className="flex items-center rounded-md border border-input p-0.5" role="radiogroup" aria-label="Home mode">
+      {HOME_MODES.map((mode) => {
+        const Icon = MODE_ICONS[mode];
+        const active = mode === data.mode;
+        return (
+          <button
+            key={mode}
+            role="radio"
+            aria-checked={active}
+            title={describe(mode)}
+            disabled={active || !data.canChange || setModeMutation.isPending}
+            onClick={() => setModeMutation.mutate(mode)}
+            className={cn(
+              'flex h-8 items-center gap-1.5 rounded px-2 text-sm transition-colors disabled:cursor-default',
+              active ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:bg-accent disabled:opacity-50'
+            )}
+          >
+            <Icon className="w-4 h-4" />
+            {active && <span className="hidden lg:inline">{mode}</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,15 +1,17 @@
-import React, { useState } from 'react';
-import { Play, Sunrise, Moon, Tv, Lock, Home, ChevronDown, ChevronUp, Power, Zap } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Sunrise, Moon, Tv, Lock, Home, ChevronDown, ChevronUp, Power, Zap, Clock, Pencil, Trash2, AlertTriangle, RotateCcw } from 'lucide-react';
 
 interface SceneAction {
   deviceId: string;
   deviceLabel?: string;
   capability: string;
+  component?: string;
   command: string;
   arguments?: unknown[];
+  delaySeconds?: number;
 }
 
-interface Scene {
+export interface Scene {
   sceneId: string;
   sceneName: string;
   sceneIcon?: string;
@@ -20,14 +22,52 @@ interface Scene {
   lastUpdatedDate: string;
   lastExecutedDate?: string;
   actions?: SceneAction[];
+  source?: 'smartthings' | 'local';
+}
+
+export interface SceneActionResult {
+  index: number;
+  deviceId: string;
+  capability: string;
+  command: string;
+  success: boolean;
+  error?: string;
+  code?: string;
+  durationMs: number;
+  resultingState?: Record<string, unknown>;
+}
+
+export interface SceneExecution {
+  executionId: string;
+  sceneId: string;
+  sceneName: string;
+  // Set on runs that undid an earlier one
+  revertOf?: string;
+  // Until when the run can be undone
+  revertibleUntil?: string;
+  // Scenes run in the background; the report fills in as actions finish
+  status: 'running' | 'completed' | 'interrupted';
+  success: boolean;
+  succeeded: number;
+  failed: number;
+  error?: string;
+  actions: SceneActionResult[];
+  finishedAt?: string;
+  durationMs: number;
 }
 
 interface SceneCardProps {
   scene: Scene;
-  onExecute: (sceneId: string) => Promise<void>;
+  onExecute: (sceneId: string) => Promise<SceneExecution | void>;
+  // The latest run's report, if any
+  execution?: SceneExecution;
+  onRetry?: (executionId: string) => Promise<void>;
+  // Only offered for local scenes
+  onEdit?: (scene: Scene) => void;
+  onDelete?: (sceneId: string) => void;
 }
 
-const ICON_MAP: Record<string, React.ComponentType<{ className?: string }>> = {
+export const ICON_MAP: Record<string, React.ComponentType<{ className?: string }>> = {
   sunrise: Sunrise,
   moon: Moon,
   tv: Tv,
@@ -35,7 +75,7 @@ const ICON_MAP: Record<string, React.ComponentType<{ className?: string }>> = {
   home: Home,
 };
 
-const COLOR_MAP: Record<string, string> = {
+export const COLOR_MAP: Record<string, string> = {
   amber: 'bg-amber-100 text-amber-900 border-amber-200 hover:bg-amber-200',
   indigo: 'bg-indigo-100 text-indigo-900 border-indigo-200 hover:bg-indigo-200',
   purple: 'bg-purple-100 text-purple-900 border-purple-200 hover:bg-purple-200',
@@ -45,17 +85,38 @@ const COLOR_MAP: Record<string, string> = {
   gray: 'bg-gray-100 text-gray-900 border-gray-200 hover:bg-gray-200',
 };
 
-export const SceneCard: React.FC<SceneCardProps> = ({ scene, onExecute }) => {
+export const SceneCard: React.FC<SceneCardProps> = ({ scene, onExecute, execution, onRetry, onEdit, onDelete }) => {
   const [isExecuting, setIsExecuting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
 
+  const isRunning = execution?.status === 'running';
+  const wasRunning = useRef(false);
+
+  // Confirm a background run once it finishes without failures
+  useEffect(() => {
+    if (isRunning) {
+      wasRunning.current = true;
+      return;
+    }
+    if (!wasRunning.current) return;
+    wasRunning.current = false;
+    if (execution?.success) {
+      setShowSuccess(true);
+      const timeout = setTimeout(() => setShowSuccess(false), 2000);
+      return () => clearTimeout(timeout);
+    }
+  }, [isRunning, execution?.success]);
+
   const handleExecute = async () => {
     setIsExecuting(true);
     try {
-      await onExecute(scene.sceneId);
-      setShowSuccess(true);
-      setTimeout(() => setShowSuccess(false), 2000);
+      const result = await onExecute(scene.sceneId);
+      // Partial failures are shown from the report instead
+      if (!result || (result.status !== 'running' && result.success)) {
+        setShowSuccess(true);
+        setTimeout(() => setShowSuccess(false), 2000);
+      }
     } catch (error) {
       console.error('Failed to execute scene:', error);
     } finally {
@@ -63,6 +124,24 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, onExecute }) => {
     }
   };
 
+  const handleRetry = async () => {
+    if (!execution || !onRetry) return;
+    setIsExecuting(true);
+    try {
+      await onRetry(execution.executionId);
+    } catch (error) {
+      console.error('Failed to retry scene actions:', error);
+    } finally {
+      setIsExecuting(false);
+    }
+  };
+
+  const resultsByIndex = new Map((execution?.actions || []).map((result) => [result.index, result]));
+  const failedResults = (execution?.actions || []).filter((result) => !result.success);
+  const formatValue = (value: unknown) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+  const formatState = (state?: Record<string, unknown>) =>
+    Object.entries(state || {}).map(([name, value]) => `${name}: ${formatValue(value)}`).join(', ');
+
   const IconComponent = scene.sceneIcon ? ICON_MAP[scene.sceneIcon] : Play;
   const colorClass = scene.sceneColor ? COLOR_MAP[scene.sceneColor] : COLOR_MAP.gray;
 
@@ -78,6 +157,8 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, onExecute }) => {
     return command.toUpperCase();
   };
 
+  const isLocal = scene.source === 'local';
+
   return (
     <div className={`rounded-lg border-2 transition-all ${colorClass}`}>
       <div className="p-6">
@@ -87,7 +168,12 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, onExecute }) => {
               {IconComponent && <IconComponent className="w-6 h-6" />}
             </div>
             <div>
-              <h3 className="font-semibold text-lg">{scene.sceneName}</h3>
+              <h3 className="font-semibold text-lg flex items-center gap-2">
+                {scene.sceneName}
+                {isLocal && (
+                  <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-white bg-opacity-60">Local</span>
+                )}
+              </h3>
               {scene.lastExecutedDate && (
                 <p className="text-xs opacity-70">
                   Last executed: {new Date(scene.lastExecutedDate).toLocaleString()}
@@ -95,8 +181,60 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, onExecute }) => {
               )}
             </div>
           </div>
+          {isLocal && (onEdit || onDelete) && (
+            <div className="flex gap-1">
+              {onEdit && (
+                <button
+                  onClick={() => onEdit(scene)}
+                  className="p-2 rounded-md hover:bg-white hover:bg-opacity-50"
+                  aria-label="Edit scene"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={() => onDelete(scene.sceneId)}
+                  className="p-2 rounded-md hover:bg-white hover:bg-opacity-50"
+                  aria-label="Delete scene"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
+        {/* Failures of the latest run */}
+        {execution && !execution.success && (
+          <div className="mb-4 p-3 rounded-md bg-red-50 border border-red-200 text-red-800 text-sm space-y-2">
+            <div className="flex items-center gap-2 font-medium">
+              <AlertTriangle className="w-4 h-4" />
+              {failedResults.length > 0
+                ? `${failedResults.length} of ${execution.actions.length} actions failed`
+                : execution.error || 'Scene failed'}
+            </div>
+            {failedResults.map((result) => (
+              <div key={result.index} className="flex justify-between gap-2">
+                <span className="truncate">
+                  {scene.actions?.[result.index]?.deviceLabel || result.deviceId} · {result.command}
+                </span>
+                <span className="text-xs opacity-80 text-right">{result.error || result.code}</span>
+              </div>
+            ))}
+            {onRetry && failedResults.length > 0 && !isRunning && (
+              <button
+                onClick={handleRetry}
+                disabled={isExecuting}
+                className="w-full px-3 py-2 rounded-md bg-white hover:bg-red-100 font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" />
+                Retry failed
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Actions section - expandable */}
         {scene.actions && scene.actions.length > 0 && (
           <div className="mb-4">
@@ -114,19 +252,41 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, onExecute }) => {
             {/* Expanded device list */}
             {isExpanded && (
               <div className="mt-2 space-y-2 bg-white bg-opacity-30 rounded-md p-3">
-                {scene.actions.map((action, index) => (
-                  <div key={index} className="flex items-center justify-between py-2 px-3 bg-white bg-opacity-50 rounded-md text-sm">
-                    <span className="font-medium truncate flex-1">
-                      {action.deviceLabel || 'Unknown Device'}
-                    </span>
-                    <div className="flex items-center gap-2 ml-2">
-                      {getCommandIcon(action.command)}
-                      <span className="font-semibold whitespace-nowrap">
-                        {getCommandLabel(action.command)}
+                {scene.actions.map((action, index) => {
+                  const result = resultsByIndex.get(index);
+                  return (
+                    <div
+                      key={index}
+                      className={`flex items-center justify-between py-2 px-3 rounded-md text-sm ${
+                        result && !result.success ? 'bg-red-100 text-red-800' : 'bg-white bg-opacity-50'
+                      }`}
+                      title={result ? (result.success ? formatState(result.resultingState) : result.error) : undefined}
+                    >
+                      <span className="font-medium truncate flex-1">
+                        {action.deviceLabel || 'Unknown Device'}
+                        {result && (
+                          <span className="block text-xs font-normal opacity-70">
+                            {result.success ? `${result.durationMs} ms` : result.code || 'Failed'}
+                            {result.success && result.resultingState && ` · ${formatState(result.resultingState)}`}
+                          </span>
+                        )}
                       </span>
+                      <div className="flex items-center gap-2 ml-2">
+                        {action.delaySeconds ? (
+                          <span className="flex items-center gap-1 text-xs opacity-70 whitespace-nowrap">
+                            <Clock className="w-3 h-3" />
+                            after {action.delaySeconds}s
+                          </span>
+                        ) : null}
+                        {getCommandIcon(action.command)}
+                        <span className="font-semibold whitespace-nowrap">
+                          {getCommandLabel(action.command)}
+                          {action.arguments && action.arguments.length > 0 && ` (${action.arguments.map(formatValue).join(', ')})`}
+                        </span>
+                      </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
@@ -134,7 +294,7 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, onExecute }) => {
 
         <button
           onClick={handleExecute}
-          disabled={isExecuting}
+          disabled={isExecuting || isRunning}
           className="w-full px-4 py-3 rounded-md font-medium transition-all
                      bg-white bg-opacity-80 hover:bg-opacity-100
                      disabled:opacity-50 disabled:cursor-not-allowed
@@ -145,6 +305,11 @@ export const SceneCard: React.FC<SceneCardProps> = ({ scene, onExecute }) => {
               <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
               Executing...
             </>
+          ) : isRunning ? (
+            <>
+              <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+              Running... {execution.actions.length}/{scene.actions?.length ?? '?'}
+            </>
           ) : showSuccess ? (
             <>
               <span className="text-green-600">✓</span>
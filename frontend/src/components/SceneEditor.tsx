@@ -0,0 +1,332 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { sceneAPI, capabilityAPI, getErrorMessage, SceneInput } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ICON_MAP, COLOR_MAP, Scene } from '@/components/SceneCard';
+import { ArrowUp, ArrowDown, Plus, Save, Trash2 } from 'lucide-react';
+
+const MAX_DELAY_SECONDS = 300;
+
+interface ActionDraft {
+  deviceId: string;
+  capability: string;
+  command: string;
+  // One entry per command argument, as typed
+  args: string[];
+  delaySeconds: string;
+}
+
+const EMPTY_ACTION: ActionDraft = { deviceId: '', capability: '', command: '', args: [], delaySeconds: '' };
+
+const formatArg = (arg: unknown) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg));
+
+/** Typed arguments for a command; trailing empty (optional) arguments are dropped */
+function parseArgs(args: string[], definitions?: { schema: { type: string } }[]): unknown[] {
+  const parsed = args.map((value, index) => {
+    const type = definitions?.[index]?.schema.type;
+    if (value.trim() === '') return undefined;
+    if (type === 'integer' || type === 'number') return Number(value);
+    if (type === 'object' || !definitions) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  });
+
+  while (parsed.length > 0 && parsed[parsed.length - 1] === undefined) parsed.pop();
+  return parsed;
+}
+
+interface ActionRowProps {
+  action: ActionDraft;
+  index: number;
+  count: number;
+  devices: any[];
+  onChange: (action: ActionDraft) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+function ActionRow({ action, index, count, devices, onChange, onMove, onRemove }: ActionRowProps) {
+  const device = devices.find((d) => d.deviceId === action.deviceId);
+  const capabilities: string[] = (device?.components?.main?.capabilities || []).map((c: any) => c.id);
+
+  // Commands and argument types come from the capability definition when we have one
+  const { data: capabilityData } = useQuery({
+    queryKey: ['capabilities', action.capability],
+    queryFn: () => capabilityAPI.getCapability(action.capability),
+    enabled: !!action.capability,
+    staleTime: Infinity,
+    retry: false,
+  });
+  const commands: Record<string, { arguments: { name: string; schema: any; optional?: boolean }[] }> | undefined =
+    capabilityData?.capability?.commands;
+  const argumentDefinitions = commands?.[action.command]?.arguments;
+
+  return (
+    <div className="p-3 border rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Step {index + 1}</span>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={() => onMove(-1)} disabled={index === 0} aria-label="Move up">
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onMove(1)}
+            disabled={index === count - 1}
+            aria-label="Move down"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onRemove} aria-label="Remove step">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="grid gap-2 sm:grid-cols-4">
+        <select
+          value={action.deviceId}
+          onChange={(e) => onChange({ ...EMPTY_ACTION, deviceId: e.target.value, delaySeconds: action.delaySeconds })}
+          className="h-10 px-3 border rounded-md bg-background text-sm"
+          aria-label="Device"
+        >
+          <option value="">Device…</option>
+          {devices.map((d) => (
+            <option key={d.deviceId} value={d.deviceId}>
+              {d.displayName || d.label || d.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={action.capability}
+          onChange={(e) => onChange({ ...action, capability: e.target.value, command: '', args: [] })}
+          disabled={!device}
+          className="h-10 px-3 border rounded-md bg-background text-sm"
+          aria-label="Capability"
+        >
+          <option value="">Capability…</option>
+          {capabilities.map((capability) => (
+            <option key={capability} value={capability}>
+              {capability}
+            </option>
+          ))}
+        </select>
+        {commands ? (
+          <select
+            value={action.command}
+            onChange={(e) => onChange({ ...action, command: e.target.value, args: [] })}
+            className="h-10 px-3 border rounded-md bg-background text-sm"
+            aria-label="Command"
+          >
+            <option value="">Command…</option>
+            {Object.keys(commands).map((command) => (
+              <option key={command} value={command}>
+                {command}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <Input
+            value={action.command}
+            placeholder="Command"
+            disabled={!action.capability}
+            onChange={(e) => onChange({ ...action, command: e.target.value })}
+          />
+        )}
+        <Input
+          type="number"
+          min={0}
+          max={MAX_DELAY_SECONDS}
+          value={action.delaySeconds}
+          placeholder="Delay (s)"
+          onChange={(e) => onChange({ ...action, delaySeconds: e.target.value })}
+          aria-label="Delay in seconds"
+        />
+      </div>
+      {argumentDefinitions ? (
+        argumentDefinitions.length > 0 && (
+          <div className="grid gap-2 sm:grid-cols-4">
+            {argumentDefinitions.map((argument, argIndex) => (
+              <Input
+                key={argument.name}
+                type={argument.schema.type === 'integer' || argument.schema.type === 'number' ? 'number' : 'text'}
+                min={argument.schema.minimum}
+                max={argument.schema.maximum}
+                value={action.args[argIndex] || ''}
+                placeholder={`${argument.name}${argument.optional ? ' (optional)' : ''}`}
+                onChange={(e) => {
+                  const args = [...action.args];
+                  args[argIndex] = e.target.value;
+                  onChange({ ...action, args });
+                }}
+              />
+            ))}
+          </div>
+        )
+      ) : (
+        action.command && (
+          <Input
+            value={action.args[0] || ''}
+            placeholder="Arguments (JSON, optional)"
+            onChange={(e) => onChange({ ...action, args: [e.target.value] })}
+          />
+        )
+      )}
+    </div>
+  );
+}
+
+interface SceneEditorProps {
+  // Undefined when creating a new scene
+  scene?: Scene;
+  devices: any[];
+  locationId?: string;
+  onClose: () => void;
+}
+
+export default function SceneEditor({ scene, devices, locationId, onClose }: SceneEditorProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(scene?.sceneName || '');
+  const [icon, setIcon] = useState(scene?.sceneIcon || 'home');
+  const [color, setColor] = useState(scene?.sceneColor || 'blue');
+  const [actions, setActions] = useState<ActionDraft[]>(
+    scene?.actions?.map((action) => ({
+      deviceId: action.deviceId,
+      capability: action.capability,
+      command: action.command,
+      args: (action.arguments || []).map(formatArg),
+      delaySeconds: action.delaySeconds ? String(action.delaySeconds) : '',
+    })) || [EMPTY_ACTION]
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Argument types are resolved from the cached capability definitions
+      const input: SceneInput = {
+        name,
+        icon,
+        color,
+        locationId: scene?.locationId || locationId,
+        actions: actions.map((action) => {
+          const definition = queryClient.getQueryData<any>(['capabilities', action.capability]);
+          return {
+            deviceId: action.deviceId,
+            capability: action.capability,
+            command: action.command,
+            arguments: parseArgs(action.args, definition?.capability?.commands?.[action.command]?.arguments),
+            delaySeconds: action.delaySeconds ? Number(action.delaySeconds) : 0,
+          };
+        }),
+      };
+      return scene ? sceneAPI.updateScene(scene.sceneId, input) : sceneAPI.createScene(input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scenes'] });
+      onClose();
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const updateAction = (index: number, action: ActionDraft) =>
+    setActions(actions.map((existing, i) => (i === index ? action : existing)));
+
+  const moveAction = (index: number, offset: number) => {
+    const reordered = [...actions];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + offset, 0, moved);
+    setActions(reordered);
+  };
+
+  const isComplete =
+    name.trim() !== '' &&
+    actions.length > 0 &&
+    actions.every((action) => action.deviceId && action.capability && action.command);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>{scene ? 'Edit Scene' : 'New Scene'}</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Steps run in order. A step can wait a few seconds before it runs.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Name</span>
+            <Input value={name} placeholder="Movie night" maxLength={100} onChange={(e) => setName(e.target.value)} />
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Icon</span>
+            <select
+              value={icon}
+              onChange={(e) => setIcon(e.target.value)}
+              className="w-full h-10 px-3 border rounded-md bg-background"
+            >
+              {Object.keys(ICON_MAP).map((key) => (
+                <option key={key} value={key}>
+                  {key}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Color</span>
+            <select
+              value={color}
+              onChange={(e) => setColor(e.target.value)}
+              className="w-full h-10 px-3 border rounded-md bg-background"
+            >
+              {Object.keys(COLOR_MAP).map((key) => (
+                <option key={key} value={key}>
+                  {key}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          {actions.map((action, index) => (
+            <ActionRow
+              key={index}
+              action={action}
+              index={index}
+              count={actions.length}
+              devices={devices}
+              onChange={(updated) => updateAction(index, updated)}
+              onMove={(offset) => moveAction(index, offset)}
+              onRemove={() => setActions(actions.filter((_, i) => i !== index))}
+            />
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setActions([...actions, EMPTY_ACTION])}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Step
+          </Button>
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!isComplete || saveMutation.isPending}>
+            <Save className="w-4 h-4 mr-2" />
+            Save Scene
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,438 @@
+import { useCallback, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { scheduleAPI, getErrorMessage, HomeMode, HOME_MODES, ScheduleInput, ScheduleTrigger } from '@/lib/api';
+import { useWebSocketMessage } from '@/hooks/useWebSocket';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Switch } from '@/components/ui/Switch';
+import { Scene } from '@/components/SceneCard';
+import { CalendarClock, History, Pencil, Plus, Save, Sunrise, Trash2 } from 'lucide-react';
+
+interface Schedule {
+  scheduleId: string;
+  name: string;
+  sceneId: string;
+  mode?: HomeMode;
+  trigger: ScheduleTrigger;
+  enabled: boolean;
+  createdBy: string;
+  nextRunAt?: string;
+  lastRunAt?: string;
+}
+
+interface ScheduleRun {
+  runId: string;
+  scheduledFor: string;
+  status: 'success' | 'failed' | 'missed';
+  catchUp: boolean;
+  error?: string;
+}
+
+interface Draft {
+  name: string;
+  sceneId: string;
+  // Set instead of sceneId for schedules that change the home mode
+  mode: HomeMode | '';
+  type: ScheduleTrigger['type'];
+  time: string;
+  days: number[];
+  event: 'sunrise' | 'sunset';
+  offsetMinutes: string;
+  expression: string;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const EMPTY_DRAFT: Draft = {
+  name: '',
+  sceneId: '',
+  mode: '',
+  type: 'time',
+  time: '07:00',
+  days: ALL_DAYS,
+  event: 'sunset',
+  offsetMinutes: '0',
+  expression: '0 7 * * *',
+};
+
+const RUN_STYLES: Record<ScheduleRun['status'], string> = {
+  success: 'text-green-600',
+  failed: 'text-red-600',
+  missed: 'text-muted-foreground',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+function describeDays(days?: number[]): string {
+  if (!days || days.length === 7) return 'every day';
+  if (days.join() === '1,2,3,4,5') return 'weekdays';
+  if (days.join() === '0,6') return 'weekends';
+  return days.map((day) => DAY_NAMES[day]).join(', ');
+}
+
+function describeTrigger(trigger: ScheduleTrigger): string {
+  if (trigger.type === 'cron') return `cron ${trigger.expression}`;
+  if (trigger.type === 'time') return `${trigger.time} ${describeDays(trigger.days)}`;
+
+  const offset = trigger.offsetMinutes;
+  const relative = offset === 0 ? 'at' : `${Math.abs(offset)} min ${offset < 0 ? 'before' : 'after'}`;
+  return `${relative} ${trigger.event} ${describeDays(trigger.days)}`;
+}
+
+function toDraft(schedule: Schedule): Draft {
+  const { trigger } = schedule;
+  return {
+    ...EMPTY_DRAFT,
+    name: schedule.name,
+    sceneId: schedule.sceneId,
+    mode: schedule.mode || '',
+    type: trigger.type,
+    time: trigger.type === 'time' ? trigger.time : EMPTY_DRAFT.time,
+    days: trigger.type !== 'cron' && trigger.days ? trigger.days : ALL_DAYS,
+    event: trigger.type === 'sun' ? trigger.event : EMPTY_DRAFT.event,
+    offsetMinutes: trigger.type === 'sun' ? String(trigger.offsetMinutes) : EMPTY_DRAFT.offsetMinutes,
+    expression: trigger.type === 'cron' ? trigger.expression : EMPTY_DRAFT.expression,
+  };
+}
+
+function toTrigger(draft: Draft): ScheduleTrigger {
+  const days = draft.days.length === 7 ? undefined : [...draft.days].sort();
+  if (draft.type === 'cron') return { type: 'cron', expression: draft.expression };
+  if (draft.type === 'time') return { type: 'time', time: draft.time, days };
+  return { type: 'sun', event: draft.event, offsetMinutes: Number(draft.offsetMinutes) || 0, days };
+}
+
+function RunHistory({ scheduleId }: { scheduleId: string }) {
+  const { data } = useQuery({
+    queryKey: ['schedule-runs', scheduleId],
+    queryFn: () => scheduleAPI.getScheduleRuns(scheduleId),
+  });
+  const runs: ScheduleRun[] = data?.runs || [];
+
+  if (runs.length === 0) {
+    return <p className="text-xs text-muted-foreground">No runs yet</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {runs.map((run) => (
+        <li key={run.runId} className="flex gap-2">
+          <span className="text-muted-foreground">{formatTime(run.scheduledFor)}</span>
+          <span className={RUN_STYLES[run.status]}>
+            {run.status}
+            {run.catchUp && ' (caught up)'}
+          </span>
+          {run.error && <span className="text-muted-foreground truncate">{run.error}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ScheduleManagerProps {
+  scenes: Scene[];
+}
+
+export default function ScheduleManager({ scenes }: ScheduleManagerProps) {
+  const queryClient = useQueryClient();
+  // null: not editing, 'new': creating, otherwise the schedule being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: schedulesData } = useQuery({
+    queryKey: ['schedules'],
+    queryFn: () => scheduleAPI.getSchedules(),
+  });
+
+  const { data: sunData } = useQuery({
+    queryKey: ['schedules', 'sun'],
+    queryFn: () => scheduleAPI.getSunTimes(),
+    staleTime: 60 * 60 * 1000,
+  });
+
+  // A run finished: refresh next run times and that schedule's history
+  const handleScheduleRun = useCallback(
+    (message: any) => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] });
+      queryClient.invalidateQueries({ queryKey: ['schedule-runs', message.run.scheduleId] });
+    },
+    [queryClient]
+  );
+  useWebSocketMessage('schedule-run', handleScheduleRun);
+
+  const onSaved = () => {
+    setEditing(null);
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['schedules'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const existing = schedules.find((schedule) => schedule.scheduleId === editing);
+      const input: ScheduleInput = {
+        name: draft.name,
+        ...(draft.mode ? { mode: draft.mode } : { sceneId: draft.sceneId }),
+        trigger: toTrigger(draft),
+        enabled: existing ? existing.enabled : true,
+      };
+      return existing ? scheduleAPI.updateSchedule(existing.scheduleId, input) : scheduleAPI.createSchedule(input);
+    },
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (schedule: Schedule) =>
+      scheduleAPI.updateSchedule(schedule.scheduleId, {
+        name: schedule.name,
+        ...(schedule.mode ? { mode: schedule.mode } : { sceneId: schedule.sceneId }),
+        trigger: schedule.trigger,
+        enabled: !schedule.enabled,
+      }),
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (scheduleId: string) => scheduleAPI.deleteSchedule(scheduleId),
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const startEditing = (schedule?: Schedule) => {
+    setEditing(schedule ? schedule.scheduleId : 'new');
+    setDraft(schedule ? toDraft(schedule) : { ...EMPTY_DRAFT, sceneId: scenes[0]?.sceneId || '', mode: scenes[0] ? '' : 'Away' });
+    setError(null);
+  };
+
+  const toggleDay = (day: number) => {
+    setDraft({
+      ...draft,
+      days: draft.days.includes(day) ? draft.days.filter((d) => d !== day) : [...draft.days, day],
+    });
+  };
+
+  const schedules: Schedule[] = schedulesData?.schedules || [];
+  const sceneNames = new Map(scenes.map((scene) => [scene.sceneId, scene.sceneName]));
+  const sunConfigured = !!sunData?.configured;
+  const isComplete =
+    draft.name.trim() !== '' && (draft.sceneId !== '' || draft.mode !== '') && (draft.type === 'cron' || draft.days.length > 0);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Schedules</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Run scenes or change the home mode at set times or around sunrise and sunset.
+            {sunConfigured && sunData.sunrise && sunData.sunset && (
+              <span>
+                {' '}
+                Today: sunrise {formatTime(sunData.sunrise)}, sunset {formatTime(sunData.sunset)}.
+              </span>
+            )}
+          </p>
+        </div>
+        {editing === null && (
+          <Button size="sm" variant="outline" onClick={() => startEditing()}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Schedule
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        {editing !== null && (
+          <div className="p-4 border rounded-lg space-y-3">
+            <div className="grid gap-3 sm:grid-cols-3">
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Name</span>
+                <Input
+                  value={draft.name}
+                  placeholder="Weekday mornings"
+                  maxLength={100}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Run</span>
+                <select
+                  value={draft.mode ? `mode:${draft.mode}` : draft.sceneId}
+                  onChange={(e) => {
+                    const mode = e.target.value.startsWith('mode:') ? (e.target.value.slice(5) as HomeMode) : '';
+                    setDraft({ ...draft, mode, sceneId: mode ? '' : e.target.value });
+                  }}
+                  className="w-full h-10 px-3 border rounded-md bg-background"
+                >
+                  <optgroup label="Scenes">
+                    {scenes.map((scene) => (
+                      <option key={scene.sceneId} value={scene.sceneId}>
+                        {scene.sceneName}
+                      </option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Home mode">
+                    {HOME_MODES.map((mode) => (
+                      <option key={mode} value={`mode:${mode}`}>
+                        Switch to {mode}
+                      </option>
+                    ))}
+                  </optgroup>
+                </select>
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">When</span>
+                <select
+                  value={draft.type}
+                  onChange={(e) => setDraft({ ...draft, type: e.target.value as Draft['type'] })}
+                  className="w-full h-10 px-3 border rounded-md bg-background"
+                >
+                  <option value="time">At a time of day</option>
+                  <option value="sun" disabled={!sunConfigured}>
+                    Around sunrise or sunset{sunConfigured ? '' : ' (location not configured)'}
+                  </option>
+                  <option value="cron">Cron expression</option>
+                </select>
+              </label>
+            </div>
+
+            {draft.type === 'time' && (
+              <Input
+                type="time"
+                value={draft.time}
+                onChange={(e) => setDraft({ ...draft, time: e.target.value })}
+                className="w-40"
+                aria-label="Time"
+              />
+            )}
+
+            {draft.type === 'sun' && (
+              <div className="flex items-center gap-2 text-sm">
+                <Input
+                  type="number"
+                  min={-240}
+                  max={240}
+                  value={draft.offsetMinutes}
+                  onChange={(e) => setDraft({ ...draft, offsetMinutes: e.target.value })}
+                  className="w-24"
+                  aria-label="Offset in minutes"
+                />
+                <span className="text-muted-foreground">minutes after (negative: before)</span>
+                <select
+                  value={draft.event}
+                  onChange={(e) => setDraft({ ...draft, event: e.target.value as Draft['event'] })}
+                  className="h-10 px-3 border rounded-md bg-background"
+                  aria-label="Sun event"
+                >
+                  <option value="sunrise">sunrise</option>
+                  <option value="sunset">sunset</option>
+                </select>
+              </div>
+            )}
+
+            {draft.type === 'cron' ? (
+              <label className="text-sm space-y-1 block">
+                <span className="text-muted-foreground">minute hour day-of-month month day-of-week</span>
+                <Input
+                  value={draft.expression}
+                  placeholder="45 6 * * 1-5"
+                  onChange={(e) => setDraft({ ...draft, expression: e.target.value })}
+                  className="font-mono"
+                />
+              </label>
+            ) : (
+              <div className="flex flex-wrap gap-3 text-sm">
+                {DAY_NAMES.map((dayName, day) => (
+                  <label key={dayName} className="flex items-center gap-1">
+                    <input type="checkbox" checked={draft.days.includes(day)} onChange={() => toggleDay(day)} />
+                    {dayName}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!isComplete || saveMutation.isPending}>
+                <Save className="w-4 h-4 mr-2" />
+                Save Schedule
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {schedules.length === 0 && editing === null ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <CalendarClock className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No schedules yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {schedules.map((schedule) => (
+              <div key={schedule.scheduleId} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium flex items-center gap-2">
+                      {schedule.trigger.type === 'sun' && <Sunrise className="w-4 h-4 text-orange-500" />}
+                      {schedule.name}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {schedule.mode ? `Switch to ${schedule.mode}` : sceneNames.get(schedule.sceneId) || 'Unknown scene'} ·{' '}
+                      {describeTrigger(schedule.trigger)}
+                      {schedule.enabled && schedule.nextRunAt && ` · next ${formatTime(schedule.nextRunAt)}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={schedule.enabled}
+                      onCheckedChange={() => toggleMutation.mutate(schedule)}
+                      disabled={toggleMutation.isPending}
+                      aria-label={schedule.enabled ? 'Disable schedule' : 'Enable schedule'}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryId(historyId === schedule.scheduleId ? null : schedule.scheduleId)}
+                      aria-label="Run history"
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEditing(schedule)}
+                      disabled={editing !== null}
+                      aria-label="Edit schedule"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(schedule.scheduleId)}
+                      disabled={deleteMutation.isPending}
+                      aria-label="Delete schedule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {historyId === schedule.scheduleId && <RunHistory scheduleId={schedule.scheduleId} />}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
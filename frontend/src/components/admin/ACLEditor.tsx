@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { adminAPI, deviceAPI } from '@/lib/api';
+import { adminAPI, deviceAPI, locationAPI, sceneAPI } from '@/lib/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
@@ -20,6 +20,9 @@ import {
   X,
   Save,
   RotateCcw,
+  MapPin,
+  Boxes,
+  Sparkles,
 } from 'lucide-react';
 
 interface User {
@@ -29,6 +32,9 @@ interface User {
   accessControl: {
     devices: string[];
     rooms: string[];
+    locations?: string[];
+    groups?: string[];
+    scenes?: string[];
   };
 }
 
@@ -37,12 +43,29 @@ interface Device {
   label: string;
   type?: string;
   room?: string;
+  locationId?: string;
+  /** Set on synthetic devices that stand for a device group */
+  group?: { groupId: string; memberCount: number };
+}
+
+interface Location {
+  locationId: string;
+  name: string;
+}
+
+interface Scene {
+  sceneId: string;
+  sceneName: string;
+  actions?: { deviceId: string }[];
 }
 
 interface PendingChanges {
   [userId: string]: {
     devices: string[];
     rooms: string[];
+    locations?: string[];
+    groups?: string[];
+    scenes?: string[];
   };
 }
 
@@ -59,13 +82,29 @@ export default function ACLEditor() {
   });
 
   const { data: devicesData, isLoading: loadingDevices } = useQuery({
-    queryKey: ['devices'],
-    queryFn: deviceAPI.getDevices,
+    queryKey: ['devices', 'include-hidden'],
+    queryFn: () => deviceAPI.getDevices(undefined, { includeHidden: true }),
+  });
+
+  const { data: locationsData } = useQuery({
+    queryKey: ['locations'],
+    queryFn: locationAPI.getLocations,
+  });
+
+  const { data: scenesData } = useQuery({
+    queryKey: ['scenes'],
+    queryFn: () => sceneAPI.getScenes(),
   });
 
   const updateAccessMutation = useMutation({
-    mutationFn: ({ userId, devices, rooms }: { userId: string; devices: string[]; rooms: string[] }) =>
-      adminAPI.updateUserAccess(userId, devices, rooms),
+    mutationFn: ({ userId, devices, rooms, locations, groups, scenes }: {
+      userId: string;
+      devices: string[];
+      rooms: string[];
+      locations: string[];
+      groups: string[];
+      scenes: string[];
+    }) => adminAPI.updateUserAccess(userId, devices, rooms, locations, groups, scenes),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['admin-users'] });
       setPendingChanges({});
@@ -73,8 +112,12 @@ export default function ACLEditor() {
   });
 
   const users = usersData?.users?.filter((u: User) => u.role !== 'admin') || [];
-  const devices = devicesData?.devices || [];
+  const allDevices: Device[] = devicesData?.devices || [];
+  const devices = allDevices.filter((d) => !d.group);
+  const groups = allDevices.filter((d) => d.group);
   const selectedUser = users.find((u: User) => u.id === selectedUserId);
+  const locations: Location[] = locationsData?.locations || [];
+  const scenes: Scene[] = scenesData?.scenes || [];
 
   // Extract unique rooms
   const rooms = Array.from(new Set(devices.map((d: Device) => d.room).filter(Boolean))) as string[];
@@ -85,7 +128,53 @@ export default function ACLEditor() {
       return pendingChanges[userId];
     }
     const user = users.find((u: User) => u.id === userId);
-    return user?.accessControl || { devices: [], rooms: [] };
+    return user?.accessControl || { devices: [], rooms: [], locations: [], groups: [], scenes: [] };
+  };
+
+  // Whether a device is covered by a location grant
+  const hasLocationAccess = (userId: string, device: Device) =>
+    !!device.locationId && (getCurrentAccess(userId).locations || []).includes(device.locationId);
+
+  // Toggle location access (every device at the location, including future ones)
+  const toggleLocation = (userId: string, locationId: string) => {
+    const current = getCurrentAccess(userId);
+    const currentLocations = current.locations || [];
+    const locations = currentLocations.includes(locationId)
+      ? currentLocations.filter((id: string) => id !== locationId)
+      : [...currentLocations, locationId];
+
+    setPendingChanges({
+      ...pendingChanges,
+      [userId]: { ...current, locations },
+    });
+  };
+
+  // Toggle device group access (the group as a whole; members are still checked)
+  const toggleGroup = (userId: string, groupId: string) => {
+    const current = getCurrentAccess(userId);
+    const currentGroups = current.groups || [];
+    const groups = currentGroups.includes(groupId)
+      ? currentGroups.filter((id: string) => id !== groupId)
+      : [...currentGroups, groupId];
+
+    setPendingChanges({
+      ...pendingChanges,
+      [userId]: { ...current, groups },
+    });
+  };
+
+  // Toggle scene access (lets the user run the scene whatever its devices)
+  const toggleScene = (userId: string, sceneId: string) => {
+    const current = getCurrentAccess(userId);
+    const currentScenes = current.scenes || [];
+    const scenes = currentScenes.includes(sceneId)
+      ? currentScenes.filter((id: string) => id !== sceneId)
+      : [...currentScenes, sceneId];
+
+    setPendingChanges({
+      ...pendingChanges,
+      [userId]: { ...current, scenes },
+    });
   };
 
   // Toggle device access
@@ -126,6 +215,9 @@ export default function ACLEditor() {
       userId: selectedUserId,
       devices: changes.devices,
       rooms: changes.rooms,
+      locations: changes.locations || [],
+      groups: changes.groups || [],
+      scenes: changes.scenes || [],
     });
   };
 
@@ -287,7 +379,8 @@ export default function ACLEditor() {
 
                 <div className="space-y-2 max-h-96 overflow-y-auto">
                   {filteredDevices.map((device: Device) => {
-                    const hasAccess = getCurrentAccess(selectedUser.id).devices.includes(device.deviceId);
+                    const viaLocation = hasLocationAccess(selectedUser.id, device);
+                    const hasAccess = viaLocation || getCurrentAccess(selectedUser.id).devices.includes(device.deviceId);
                     const Icon = getDeviceIcon(device.type);
 
                     return (
@@ -309,8 +402,10 @@ export default function ACLEditor() {
                             </div>
                             <div>
                               <div className="text-sm font-medium">{device.label}</div>
-                              {device.room && (
-                                <div className="text-xs text-muted-foreground">{device.room}</div>
+                              {(device.room || viaLocation) && (
+                                <div className="text-xs text-muted-foreground">
+                                  {device.room}{device.room && viaLocation && ' · '}{viaLocation && 'via location'}
+                                </div>
                               )}
                             </div>
                           </div>
@@ -328,6 +423,129 @@ export default function ACLEditor() {
 
               {/* Rooms Column */}
               <div className="space-y-4">
+                {/* Locations */}
+                {locations.length > 0 && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-semibold">Locations ({locations.length})</h3>
+                      <MapPin className="w-4 h-4 text-muted-foreground" />
+                    </div>
+
+                    <div className="space-y-2">
+                      {locations.map((location) => {
+                        const hasAccess = (getCurrentAccess(selectedUser.id).locations || []).includes(location.locationId);
+
+                        return (
+                          <button
+                            key={location.locationId}
+                            onClick={() => toggleLocation(selectedUser.id, location.locationId)}
+                            className={`w-full text-left p-3 rounded-lg border transition-all ${
+                              hasAccess
+                                ? 'border-green-500/50 bg-green-500/5'
+                                : 'border-border hover:border-primary/50'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <div className="text-sm font-medium">{location.name}</div>
+                                <div className="text-xs text-muted-foreground">All devices at this location</div>
+                              </div>
+                              {hasAccess ? (
+                                <Check className="w-5 h-5 text-green-500" />
+                              ) : (
+                                <X className="w-5 h-5 text-muted-foreground/30" />
+                              )}
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+
+                {/* Device groups */}
+                {groups.length > 0 && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-semibold">Groups ({groups.length})</h3>
+                      <Boxes className="w-4 h-4 text-muted-foreground" />
+                    </div>
+
+                    <div className="space-y-2">
+                      {groups.map((device) => {
+                        const groupId = device.group!.groupId;
+                        const hasAccess = (getCurrentAccess(selectedUser.id).groups || []).includes(groupId);
+
+                        return (
+                          <button
+                            key={groupId}
+                            onClick={() => toggleGroup(selectedUser.id, groupId)}
+                            className={`w-full text-left p-3 rounded-lg border transition-all ${
+                              hasAccess
+                                ? 'border-green-500/50 bg-green-500/5'
+                                : 'border-border hover:border-primary/50'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <div className="text-sm font-medium">{device.label}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {device.group!.memberCount} devices · members still need their own access
+                                </div>
+                              </div>
+                              {hasAccess ? (
+                                <Check className="w-5 h-5 text-green-500" />
+                              ) : (
+                                <X className="w-5 h-5 text-muted-foreground/30" />
+                              )}
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+
+                {/* Scenes */}
+                {scenes.length > 0 && (
+                  <>
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-semibold">Scenes ({scenes.length})</h3>
+                      <Sparkles className="w-4 h-4 text-muted-foreground" />
+                    </div>
+
+                    <div className="space-y-2">
+                      {scenes.map((scene) => {
+                        const hasAccess = (getCurrentAccess(selectedUser.id).scenes || []).includes(scene.sceneId);
+
+                        return (
+                          <button
+                            key={scene.sceneId}
+                            onClick={() => toggleScene(selectedUser.id, scene.sceneId)}
+                            className={`w-full text-left p-3 rounded-lg border transition-all ${
+                              hasAccess
+                                ? 'border-green-500/50 bg-green-500/5'
+                                : 'border-border hover:border-primary/50'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <div className="text-sm font-medium">{scene.sceneName}</div>
+                                <div className="text-xs text-muted-foreground">Runs even without access to its devices</div>
+                              </div>
+                              {hasAccess ? (
+                                <Check className="w-5 h-5 text-green-500" />
+                              ) : (
+                                <X className="w-5 h-5 text-muted-foreground/30" />
+                              )}
+                            </div>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+
                 <div className="flex items-center justify-between">
                   <h3 className="text-sm font-semibold">Rooms ({rooms.length})</h3>
                   <ShieldCheck className="w-4 h-4 text-muted-foreground" />
@@ -0,0 +1,236 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { deviceAPI, groupAPI, getErrorMessage } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { Boxes, Plus, Pencil, Trash2, Save, Search } from 'lucide-react';
+
+interface Group {
+  groupId: string;
+  name: string;
+  room?: string;
+  deviceIds: string[];
+  tags: string[];
+  state: { memberCount: number; membersOn: number };
+}
+
+interface Draft {
+  name: string;
+  room: string;
+  deviceIds: string[];
+  tags: string;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', room: '', deviceIds: [], tags: '' };
+
+export default function DeviceGroupManager() {
+  const queryClient = useQueryClient();
+  // null: not editing, 'new': creating, otherwise the group being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: groupsData, isLoading: loadingGroups } = useQuery({
+    queryKey: ['groups'],
+    queryFn: () => groupAPI.getGroups(),
+  });
+
+  const { data: devicesData, isLoading: loadingDevices } = useQuery({
+    queryKey: ['devices', 'include-hidden'],
+    queryFn: () => deviceAPI.getDevices(undefined, { includeHidden: true }),
+  });
+
+  const onSaved = () => {
+    setEditing(null);
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['groups'] });
+    queryClient.invalidateQueries({ queryKey: ['devices'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const group = {
+        name: draft.name,
+        room: draft.room.trim() || undefined,
+        deviceIds: draft.deviceIds,
+        tags: draft.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+      };
+      return editing === 'new' ? groupAPI.createGroup(group) : groupAPI.updateGroup(editing!, group);
+    },
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (groupId: string) => groupAPI.deleteGroup(groupId),
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const startEditing = (group?: Group) => {
+    setEditing(group ? group.groupId : 'new');
+    setDraft(
+      group
+        ? { name: group.name, room: group.room || '', deviceIds: group.deviceIds, tags: group.tags.join(', ') }
+        : EMPTY_DRAFT
+    );
+    setError(null);
+  };
+
+  const toggleDevice = (deviceId: string) => {
+    setDraft({
+      ...draft,
+      deviceIds: draft.deviceIds.includes(deviceId)
+        ? draft.deviceIds.filter((id) => id !== deviceId)
+        : [...draft.deviceIds, deviceId],
+    });
+  };
+
+  const groups: Group[] = groupsData?.groups || [];
+  const devices = (devicesData?.devices || []).filter(
+    (device: any) => !device.group && (device.label || '').toLowerCase().includes(search.toLowerCase())
+  );
+
+  if (loadingGroups || loadingDevices) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Device Groups</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Control several devices as one. Members can be listed or picked by tag.
+          </p>
+        </div>
+        {editing === null && (
+          <Button size="sm" onClick={() => startEditing()}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Group
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        {editing !== null && (
+          <div className="p-4 border rounded-lg space-y-3">
+            <div className="grid gap-3 sm:grid-cols-3">
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Name</span>
+                <Input
+                  value={draft.name}
+                  placeholder="Downstairs lights"
+                  maxLength={100}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Room (optional)</span>
+                <Input
+                  value={draft.room}
+                  placeholder="Groups"
+                  onChange={(e) => setDraft({ ...draft, room: e.target.value })}
+                />
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="text-muted-foreground">Member tags (comma separated)</span>
+                <Input
+                  value={draft.tags}
+                  placeholder="downstairs"
+                  onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                />
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Devices ({draft.deviceIds.length} selected)</span>
+                <div className="relative w-56">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search devices..."
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-1 sm:grid-cols-2 max-h-64 overflow-y-auto">
+                {devices.map((device: any) => (
+                  <label key={device.deviceId} className="flex items-center gap-2 text-sm p-2 rounded hover:bg-muted">
+                    <input
+                      type="checkbox"
+                      checked={draft.deviceIds.includes(device.deviceId)}
+                      onChange={() => toggleDevice(device.deviceId)}
+                    />
+                    <span className="truncate">
+                      {device.displayName || device.label}
+                      {device.room && <span className="text-muted-foreground"> · {device.room}</span>}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                <Save className="w-4 h-4 mr-2" />
+                Save Group
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {groups.length === 0 && editing === null ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Boxes className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No device groups yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {groups.map((group) => (
+              <div key={group.groupId} className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <div className="font-medium">{group.name}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {group.room || 'Groups'} · {group.state.memberCount} devices, {group.state.membersOn} on
+                    {group.tags.length > 0 && ` · tags: ${group.tags.join(', ')}`}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => startEditing(group)} disabled={editing !== null}>
+                    <Pencil className="w-4 h-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(group.groupId)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
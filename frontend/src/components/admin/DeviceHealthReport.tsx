@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { adminAPI } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { WifiOff, CheckCircle } from 'lucide-react';
+
+const HOUR_OPTIONS = [1, 6, 24, 72, 168];
+
+const formatDuration = (since: string) => {
+  const hours = Math.floor((Date.now() - new Date(since).getTime()) / (60 * 60 * 1000));
+  if (hours < 1) return 'less than an hour';
+  if (hours < 48) return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+  return `${Math.floor(hours / 24)} days`;
+};
+
+export default function DeviceHealthReport() {
+  const [hours, setHours] = useState(24);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['admin-offline-devices', hours],
+    queryFn: () => adminAPI.getOfflineDevices(hours),
+    refetchInterval: 60000,
+  });
+
+  const devices = data?.devices || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Offline Devices</CardTitle>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          Offline for more than
+          <select
+            value={hours}
+            onChange={(e) => setHours(Number(e.target.value))}
+            className="px-2 py-1 border rounded-md bg-background text-foreground"
+          >
+            {HOUR_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option < 24 ? `${option} ${option === 1 ? 'hour' : 'hours'}` : `${option / 24} ${option === 24 ? 'day' : 'days'}`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : devices.length === 0 ? (
+          <div className="flex items-center gap-2 py-8 justify-center text-muted-foreground">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            No devices have been offline that long
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {devices.map((device: any) => (
+              <div key={device.deviceId} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  <WifiOff className="w-5 h-5 text-red-500" />
+                  <div>
+                    <div className="font-medium">{device.label}</div>
+                    <div className="text-sm text-muted-foreground">{device.room || 'Unassigned'}</div>
+                  </div>
+                </div>
+                <div className="text-right text-sm text-muted-foreground">
+                  <div>Offline for {formatDuration(device.offlineSince || device.updatedAt)}</div>
+                  <div>
+                    Last seen: {device.lastSeen ? new Date(device.lastSeen).toLocaleString() : 'never'}
+                    {device.failureStreak > 0 && ` · ${device.failureStreak} failed commands`}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,289 @@
+import { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { adminAPI, deviceAPI, getErrorMessage } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { Search, Save, RotateCcw, EyeOff, Pencil, X } from 'lucide-react';
+
+interface Metadata {
+  deviceId: string;
+  displayName?: string;
+  icon?: string;
+  color?: string;
+  tags: string[];
+  hidden: boolean;
+  sortOrder?: number;
+}
+
+interface Draft {
+  displayName: string;
+  icon: string;
+  color: string;
+  tags: string;
+  hidden: boolean;
+  sortOrder: string;
+}
+
+const toDraft = (metadata?: Metadata): Draft => ({
+  displayName: metadata?.displayName || '',
+  icon: metadata?.icon || '',
+  color: metadata?.color || '',
+  tags: (metadata?.tags || []).join(', '),
+  hidden: metadata?.hidden || false,
+  sortOrder: metadata?.sortOrder !== undefined ? String(metadata.sortOrder) : '',
+});
+
+export default function DeviceMetadataEditor() {
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(toDraft());
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: devicesData, isLoading: loadingDevices } = useQuery({
+    queryKey: ['devices', 'include-hidden'],
+    queryFn: () => deviceAPI.getDevices(undefined, { includeHidden: true }),
+  });
+
+  const { data: metadataData, isLoading: loadingMetadata } = useQuery({
+    queryKey: ['admin-device-metadata'],
+    queryFn: () => adminAPI.getDeviceMetadata(),
+  });
+
+  const metadataById = useMemo(() => {
+    const byId = new Map<string, Metadata>();
+    (metadataData?.metadata || []).forEach((metadata: Metadata) => byId.set(metadata.deviceId, metadata));
+    return byId;
+  }, [metadataData]);
+
+  const onSaved = () => {
+    setEditingId(null);
+    setError(null);
+    queryClient.invalidateQueries({ queryKey: ['admin-device-metadata'] });
+    queryClient.invalidateQueries({ queryKey: ['devices'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: ({ deviceId, draft }: { deviceId: string; draft: Draft }) =>
+      adminAPI.setDeviceMetadata(deviceId, {
+        displayName: draft.displayName.trim() || undefined,
+        icon: draft.icon || undefined,
+        color: draft.color || undefined,
+        tags: draft.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        hidden: draft.hidden,
+        sortOrder: draft.sortOrder !== '' ? parseInt(draft.sortOrder, 10) : undefined,
+      }),
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: (deviceId: string) => adminAPI.clearDeviceMetadata(deviceId),
+    onSuccess: onSaved,
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const startEditing = (deviceId: string) => {
+    setEditingId(deviceId);
+    setDraft(toDraft(metadataById.get(deviceId)));
+    setError(null);
+  };
+
+  // Groups are named in the group editor
+  const devices = (devicesData?.devices || []).filter((device: any) => {
+    if (device.group) return false;
+    const term = search.toLowerCase();
+    return (
+      (device.label || '').toLowerCase().includes(term) ||
+      (device.displayName || '').toLowerCase().includes(term) ||
+      (device.tags || []).some((tag: string) => tag.includes(term))
+    );
+  });
+  const icons: string[] = metadataData?.icons || [];
+
+  if (loadingDevices || loadingMetadata) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Device Display</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Rename devices, pick icons and colors, tag, hide or reorder them without changing SmartThings.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search devices or tags..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</div>
+        )}
+
+        <div className="space-y-2">
+          {devices.map((device: any) => {
+            const metadata = metadataById.get(device.deviceId);
+            const isEditing = editingId === device.deviceId;
+
+            return (
+              <div key={device.deviceId} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    {metadata?.color && (
+                      <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: metadata.color }} />
+                    )}
+                    <div className="min-w-0">
+                      <div className="font-medium truncate flex items-center gap-2">
+                        {device.displayName || device.label}
+                        {device.hidden && <EyeOff className="w-4 h-4 text-muted-foreground" />}
+                      </div>
+                      <div className="text-sm text-muted-foreground truncate">
+                        {device.displayName ? `${device.label} · ` : ''}
+                        {device.room || 'Unassigned'}
+                        {metadata?.sortOrder !== undefined && ` · order ${metadata.sortOrder}`}
+                      </div>
+                      {(metadata?.tags || []).length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {metadata!.tags.map((tag) => (
+                            <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-muted">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {!isEditing && (
+                    <div className="flex gap-2 shrink-0">
+                      {metadata && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => clearMutation.mutate(device.deviceId)}
+                          disabled={clearMutation.isPending}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Reset
+                        </Button>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => startEditing(device.deviceId)}>
+                        <Pencil className="w-4 h-4 mr-1" />
+                        Edit
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {isEditing && (
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <label className="text-sm space-y-1">
+                      <span className="text-muted-foreground">Display name</span>
+                      <Input
+                        value={draft.displayName}
+                        placeholder={device.label}
+                        maxLength={100}
+                        onChange={(e) => setDraft({ ...draft, displayName: e.target.value })}
+                      />
+                    </label>
+                    <label className="text-sm space-y-1">
+                      <span className="text-muted-foreground">Icon</span>
+                      <select
+                        value={draft.icon}
+                        onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+                        className="w-full h-10 px-3 border rounded-md bg-background"
+                      >
+                        <option value="">Automatic</option>
+                        {icons.map((icon) => (
+                          <option key={icon} value={icon}>
+                            {icon}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="text-sm space-y-1">
+                      <span className="text-muted-foreground">Tags (comma separated)</span>
+                      <Input
+                        value={draft.tags}
+                        placeholder="downstairs, lamps"
+                        onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                      />
+                    </label>
+                    <label className="text-sm space-y-1">
+                      <span className="text-muted-foreground">Sort order</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={draft.sortOrder}
+                        placeholder="Default"
+                        onChange={(e) => setDraft({ ...draft, sortOrder: e.target.value.replace(/[^0-9]/g, '') })}
+                      />
+                    </label>
+                    <div className="text-sm space-y-1">
+                      <span className="text-muted-foreground">Color</span>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={draft.color || '#eab308'}
+                          onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+                          className="h-10 w-14 border rounded-md bg-background"
+                          aria-label="Color"
+                        />
+                        {draft.color ? (
+                          <Button variant="ghost" size="sm" onClick={() => setDraft({ ...draft, color: '' })}>
+                            <X className="w-4 h-4 mr-1" />
+                            Default
+                          </Button>
+                        ) : (
+                          <span className="text-muted-foreground">Default</span>
+                        )}
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm self-end h-10">
+                      <input
+                        type="checkbox"
+                        checked={draft.hidden}
+                        onChange={(e) => setDraft({ ...draft, hidden: e.target.checked })}
+                      />
+                      Hide from the dashboard
+                    </label>
+                    <div className="flex gap-2 sm:col-span-2 justify-end">
+                      <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => saveMutation.mutate({ deviceId: device.deviceId, draft })}
+                        disabled={saveMutation.isPending}
+                      >
+                        <Save className="w-4 h-4 mr-1" />
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {devices.length === 0 && (
+            <p className="text-center text-muted-foreground py-8">No devices found</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { deviceAPI, homeModeAPI, sceneAPI, getErrorMessage, HomeMode, HomeModeSettingsInput, ModeEntryAction } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { ActionFields, RuleSection } from '@/components/AutomationManager';
+import { MODE_ICONS } from '@/components/HomeModeControl';
+import { Pencil, Save, Search } from 'lucide-react';
+
+interface ModeSettings {
+  mode: HomeMode;
+  entryActions: ModeEntryAction[];
+  allowedDeviceIds?: string[];
+  updatedAt?: string;
+}
+
+interface ModeChange {
+  changeId: string;
+  mode: HomeMode;
+  previousMode?: HomeMode;
+  source: string;
+  changedBy?: string;
+  changedAt: string;
+}
+
+const ENTRY_ACTION_TYPES: Record<ModeEntryAction['type'], string> = {
+  scene: 'Run a scene',
+  command: 'Send a device command',
+};
+
+const DEFAULT_ENTRY_ACTIONS: Record<ModeEntryAction['type'], ModeEntryAction> = {
+  scene: { type: 'scene', sceneId: '' },
+  command: { type: 'command', deviceId: '', capability: '', command: '' },
+};
+
+const isComplete = (actions: ModeEntryAction[]) =>
+  actions.every((action) =>
+    action.type === 'scene' ? action.sceneId !== '' : !!action.deviceId && !!action.capability && action.command !== ''
+  );
+
+export default function HomeModeSettings() {
+  const queryClient = useQueryClient();
+  // The mode being edited, if any
+  const [editing, setEditing] = useState<HomeMode | null>(null);
+  const [draft, setDraft] = useState<HomeModeSettingsInput>({ entryActions: [], allowedDeviceIds: null });
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: settingsData, isLoading } = useQuery({
+    queryKey: ['home-mode-settings'],
+    queryFn: homeModeAPI.getHomeModeSettings,
+  });
+
+  const { data: historyData } = useQuery({
+    queryKey: ['home-mode', 'history'],
+    queryFn: () => homeModeAPI.getHomeModeHistory(10),
+  });
+
+  const { data: devicesData } = useQuery({
+    queryKey: ['devices', 'include-hidden'],
+    queryFn: () => deviceAPI.getDevices(undefined, { includeHidden: true }),
+  });
+
+  const { data: scenesData } = useQuery({
+    queryKey: ['scenes'],
+    queryFn: () => sceneAPI.getScenes(),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => homeModeAPI.updateHomeModeSettings(editing!, draft),
+    onSuccess: () => {
+      setEditing(null);
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['home-mode-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['home-mode'] });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const startEditing = (settings: ModeSettings) => {
+    setEditing(settings.mode);
+    setDraft({ entryActions: settings.entryActions, allowedDeviceIds: settings.allowedDeviceIds || null });
+    setError(null);
+  };
+
+  const toggleDevice = (deviceId: string) => {
+    const allowed = draft.allowedDeviceIds || [];
+    setDraft({
+      ...draft,
+      allowedDeviceIds: allowed.includes(deviceId) ? allowed.filter((id) => id !== deviceId) : [...allowed, deviceId],
+    });
+  };
+
+  const settings: ModeSettings[] = settingsData?.settings || [];
+  const changes: ModeChange[] = historyData?.changes || [];
+  const allDevices: any[] = devicesData?.devices || [];
+  const devices = allDevices.filter((device) =>
+    (device.displayName || device.label || '').toLowerCase().includes(search.toLowerCase())
+  );
+  const scenes = scenesData?.scenes || [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Home Modes</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            What happens when the home enters each mode, and what users (not admins) may still control while it is in it.
+            Entry actions run as whoever changed the mode, so they only do what that user may do (SmartThings changes run them as the admin who saved them).
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</div>
+          )}
+
+          {settings.map((modeSettings) => {
+            const Icon = MODE_ICONS[modeSettings.mode];
+            const allowed = modeSettings.allowedDeviceIds;
+            return (
+              <div key={modeSettings.mode} className="p-4 border rounded-lg space-y-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      <Icon className="w-4 h-4" />
+                      {modeSettings.mode}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {modeSettings.entryActions.length} entry action(s) ·{' '}
+                      {allowed ? `users limited to ${allowed.length} device(s)` : 'no restrictions'}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => startEditing(modeSettings)}
+                    disabled={editing !== null}
+                  >
+                    <Pencil className="w-4 h-4 mr-1" />
+                    Edit
+                  </Button>
+                </div>
+
+                {editing === modeSettings.mode && (
+                  <div className="space-y-4 pt-2 border-t">
+                    <RuleSection<ModeEntryAction>
+                      title="Entry actions"
+                      items={draft.entryActions}
+                      types={ENTRY_ACTION_TYPES}
+                      defaults={DEFAULT_ENTRY_ACTIONS}
+                      onChange={(entryActions) => setDraft({ ...draft, entryActions })}
+                      renderFields={(action, onChange) => (
+                        <ActionFields
+                          action={action}
+                          devices={allDevices}
+                          scenes={scenes}
+                          onChange={(next) => onChange(next as ModeEntryAction)}
+                        />
+                      )}
+                    />
+
+                    <div className="space-y-2">
+                      <label className="flex items-center gap-2 text-sm font-medium">
+                        <input
+                          type="checkbox"
+                          checked={draft.allowedDeviceIds !== null}
+                          onChange={(e) => setDraft({ ...draft, allowedDeviceIds: e.target.checked ? [] : null })}
+                        />
+                        Limit users to these devices
+                      </label>
+                      {draft.allowedDeviceIds !== null && (
+                        <>
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-muted-foreground">
+                              {draft.allowedDeviceIds.length} selected; users can't leave this mode either
+                            </span>
+                            <div className="relative w-56">
+                              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                              <Input
+                                placeholder="Search devices..."
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                className="pl-9"
+                              />
+                            </div>
+                          </div>
+                          <div className="grid gap-1 sm:grid-cols-2 max-h-64 overflow-y-auto">
+                            {devices.map((device) => (
+                              <label key={device.deviceId} className="flex items-center gap-2 text-sm p-2 rounded hover:bg-muted">
+                                <input
+                                  type="checkbox"
+                                  checked={draft.allowedDeviceIds!.includes(device.deviceId)}
+                                  onChange={() => toggleDevice(device.deviceId)}
+                                />
+                                <span className="truncate">
+                                  {device.displayName || device.label}
+                                  {device.room && <span className="text-muted-foreground"> · {device.room}</span>}
+                                </span>
+                              </label>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </div>
+
+                    <div className="flex gap-2 justify-end">
+                      <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => saveMutation.mutate()}
+                        disabled={!isComplete(draft.entryActions) || saveMutation.isPending}
+                      >
+                        <Save className="w-4 h-4 mr-2" />
+                        Save {modeSettings.mode}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Mode Changes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The mode hasn't changed yet</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {changes.map((change) => (
+                <li key={change.changeId} className="flex gap-2">
+                  <span className="text-muted-foreground">{new Date(change.changedAt).toLocaleString()}</span>
+                  <span>
+                    {change.previousMode ? `${change.previousMode} → ` : ''}
+                    {change.mode}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {change.source}
+                    {change.changedBy && ` · ${change.changedBy}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { deviceAPI, presenceSimulationAPI, getErrorMessage, PresenceSimulationSettingsInput } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Switch } from '@/components/ui/Switch';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { Plane, Save, Search } from 'lucide-react';
+
+interface LightPattern {
+  deviceId: string;
+  deviceLabel: string;
+  weekday: number;
+  hour: number;
+  command: 'on' | 'off';
+  chance: number;
+  minute: number;
+}
+
+interface PlannedSwitch {
+  deviceId: string;
+  deviceLabel: string;
+  command: 'on' | 'off';
+  at: string;
+}
+
+interface SimulationLogEntry {
+  entryId: string;
+  deviceLabel: string;
+  command: 'on' | 'off';
+  plannedFor: string;
+  ranAt: string;
+  success: boolean;
+  error?: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatPattern = (pattern: LightPattern) =>
+  `${WEEKDAYS[pattern.weekday]} ${String(pattern.hour).padStart(2, '0')}:${String(pattern.minute).padStart(2, '0')} (${Math.round(pattern.chance * 100)}%)`;
+
+/**
+ * Vacation presence simulation: which lights are switched like someone's
+ * home while in Vacation mode, what was learned about them, and the log
+ */
+export default function PresenceSimulationSettings() {
+  const queryClient = useQueryClient();
+  // Unsaved changes, if any
+  const [draft, setDraft] = useState<PresenceSimulationSettingsInput | null>(null);
+  const [search, setSearch] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['presence-simulation'],
+    queryFn: presenceSimulationAPI.getPresenceSimulation,
+  });
+
+  const { data: logData } = useQuery({
+    queryKey: ['presence-simulation', 'log'],
+    queryFn: () => presenceSimulationAPI.getSimulationLog(20),
+    refetchInterval: 60000,
+  });
+
+  const { data: devicesData } = useQuery({
+    queryKey: ['devices', 'include-hidden'],
+    queryFn: () => deviceAPI.getDevices(undefined, { includeHidden: true }),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => presenceSimulationAPI.updatePresenceSimulation(draft!),
+    onSuccess: () => {
+      setDraft(null);
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ['presence-simulation'] });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  const settings: PresenceSimulationSettingsInput = draft || {
+    enabled: data.settings.enabled,
+    deviceIds: data.settings.deviceIds,
+    jitterMinutes: data.settings.jitterMinutes,
+  };
+  const patterns: LightPattern[] = data.patterns || [];
+  const upcoming: PlannedSwitch[] = data.upcoming || [];
+  const entries: SimulationLogEntry[] = logData?.entries || [];
+  const lights = (devicesData?.devices || [])
+    .filter((device: any) => (device.components?.main?.capabilities || []).some((c: any) => c.id === 'switch'))
+    .filter((device: any) => (device.displayName || device.label || '').toLowerCase().includes(search.toLowerCase()));
+
+  const toggleLight = (deviceId: string) => {
+    setDraft({
+      ...settings,
+      deviceIds: settings.deviceIds.includes(deviceId)
+        ? settings.deviceIds.filter((id) => id !== deviceId)
+        : [...settings.deviceIds, deviceId],
+    });
+  };
+
+  // The likeliest times each light is switched on
+  const usualOnTimes = (deviceId: string) =>
+    patterns
+      .filter((pattern) => pattern.deviceId === deviceId && pattern.command === 'on')
+      .sort((a, b) => b.chance - a.chance)
+      .slice(0, 3);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plane className="w-5 h-5" />
+            Vacation Presence Simulation
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            While the home is in Vacation mode, these lights are switched on and off the way they usually are at that time
+            of the week, learned from device history, give or take the jitter. Every light switched on is switched off again,
+            at the latest when Vacation mode ends. They're switched as the admin who saved these settings.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md">{error}</div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <Switch
+                checked={settings.enabled}
+                onCheckedChange={(enabled) => setDraft({ ...settings, enabled })}
+              />
+              Simulate presence in Vacation mode
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              Jitter ±
+              <Input
+                type="number"
+                min={0}
+                max={60}
+                value={settings.jitterMinutes}
+                onChange={(e) => setDraft({ ...settings, jitterMinutes: Math.max(0, Math.min(60, Number(e.target.value) || 0)) })}
+                className="w-20"
+              />
+              minutes
+            </label>
+            <span className="text-sm text-muted-foreground">
+              {data.active ? 'Switching lights now' : 'Waiting for Vacation mode'}
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">{settings.deviceIds.length} light(s) selected</span>
+              <div className="relative w-56">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search lights..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <div className="grid gap-1 sm:grid-cols-2 max-h-64 overflow-y-auto">
+              {lights.map((device: any) => {
+                const onTimes = usualOnTimes(device.deviceId);
+                return (
+                  <label key={device.deviceId} className="flex items-start gap-2 text-sm p-2 rounded hover:bg-muted">
+                    <input
+                      type="checkbox"
+                      className="mt-0.5"
+                      checked={settings.deviceIds.includes(device.deviceId)}
+                      onChange={() => toggleLight(device.deviceId)}
+                    />
+                    <span className="min-w-0">
+                      <span className="block truncate">
+                        {device.displayName || device.label}
+                        {device.room && <span className="text-muted-foreground"> · {device.room}</span>}
+                      </span>
+                      {data.settings.deviceIds.includes(device.deviceId) && (
+                        <span className="block text-xs text-muted-foreground">
+                          {onTimes.length > 0 ? `Usually on ${onTimes.map(formatPattern).join(', ')}` : 'No usage learned yet'}
+                        </span>
+                      )}
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            {draft && (
+              <Button variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+            )}
+            <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!draft || saveMutation.isPending}>
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          </div>
+
+          {upcoming.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-sm font-medium">Coming up</div>
+              <ul className="space-y-1 text-sm">
+                {upcoming.map((item) => (
+                  <li key={`${item.deviceId}-${item.at}`} className="flex gap-2">
+                    <span className="text-muted-foreground">{new Date(item.at).toLocaleTimeString()}</span>
+                    <span>
+                      {item.deviceLabel} {item.command}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Simulation Log</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No lights have been switched yet</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {entries.map((entry) => (
+                <li key={entry.entryId} className="flex gap-2">
+                  <span className="text-muted-foreground">{new Date(entry.ranAt).toLocaleString()}</span>
+                  <span>
+                    {entry.deviceLabel} {entry.command}
+                  </span>
+                  {!entry.success && <span className="text-red-600">{entry.error || 'Failed'}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
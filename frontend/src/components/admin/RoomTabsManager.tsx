@@ -15,7 +15,7 @@ export default function RoomTabsManager() {
 
   const { data: devicesData, isLoading } = useQuery({
     queryKey: ['devices'],
-    queryFn: deviceAPI.getDevices,
+    queryFn: () => deviceAPI.getDevices(),
   });
 
   // Extract unique room names from devices
@@ -28,6 +28,18 @@ export function useDeviceUpdates(callback: (deviceId: string, status: any) => vo
   }, [callback]);
 }
 
+/**
+ * Hook to subscribe to WebSocket messages of one type
+ */
+export function useWebSocketMessage(type: string, callback: (message: any) => void) {
+  useEffect(() => {
+    const unsubscribe = websocketClient.onMessage(type, callback);
+    return () => {
+      unsubscribe();
+    };
+  }, [type, callback]);
+}
+
 /**
  * Hook to subscribe to a specific device's updates
  */
@@ -1,14 +1,4 @@
 import axios from 'axios';
-import {
-  getDemoDevices,
-  getDemoDevice,
-  getDemoDeviceStatus,
-  executeDemoCommand,
-  getDemoRooms,
-  getDemoScenes,
-  executeDemoScene,
-} from './demoData';
-
 const API_BASE_URL = '/api';
 
 // Create axios instance with default config
@@ -34,6 +24,29 @@ apiClient.interceptors.response.use(
   }
 );
 
+// Messages for the error codes returned by device and scene endpoints
+const DEVICE_ERROR_MESSAGES: Record<string, string> = {
+  PROVIDER_AUTH_EXPIRED: 'The SmartThings token has expired or lacks permission. Ask an admin to update it.',
+  DEVICE_OFFLINE: 'The device is offline.',
+  RATE_LIMITED: 'Too many requests to SmartThings. Try again in a moment.',
+  BAD_ARGUMENTS: 'The device rejected the command.',
+  NOT_FOUND: 'The device or scene no longer exists.',
+  PROVIDER_UNAVAILABLE: 'SmartThings is not responding. Try again shortly.',
+};
+
+// Get a user-facing message for a failed API call
+export const getErrorMessage = (error: any, fallback = 'Something went wrong'): string => {
+  const data = error?.response?.data;
+  if (data?.code === 'BAD_ARGUMENTS' && data.error) {
+    return `${DEVICE_ERROR_MESSAGES.BAD_ARGUMENTS} ${data.error}`;
+  }
+  // The home mode's policy explains itself (e.g. which mode)
+  if (data?.code === 'MODE_RESTRICTED' && data.message) {
+    return data.message;
+  }
+  return DEVICE_ERROR_MESSAGES[data?.code] || data?.error || fallback;
+};
+
 // Auth API
 export const authAPI = {
   login: async (username: string, password: string) => {
@@ -67,95 +80,394 @@ export const authAPI = {
 };
 
 // Device API
+export interface DeviceTimer {
+  timerId: string;
+  deviceId: string;
+  component: string;
+  capability: string;
+  command: string;
+  arguments: unknown[];
+  runAt: string;
+  // 'failed' timers stay, with the error, until they're dismissed (cancelled)
+  status: 'pending' | 'running' | 'failed';
+  error?: string;
+  code?: string;
+  // Left out of WebSocket pushes
+  userId?: string;
+  username?: string;
+  createdAt: string;
+}
+
 export const deviceAPI = {
-  getDevices: async () => {
-    // Check if in demo mode
-    const isDemoMode = localStorage.getItem('demoMode') === 'true';
-    if (isDemoMode) {
-      return { devices: getDemoDevices() };
-    }
-    
-    const response = await apiClient.get('/devices');
+  // Hidden devices are only listed with includeHidden (admin editors)
+  getDevices: async (locationId?: string, options: { includeHidden?: boolean; tag?: string } = {}) => {
+    const response = await apiClient.get('/devices', {
+      params: { locationId, tag: options.tag, includeHidden: options.includeHidden ? 'true' : undefined },
+    });
     return response.data;
   },
   
   getDevice: async (deviceId: string) => {
-    // Check if in demo mode
-    const isDemoMode = localStorage.getItem('demoMode') === 'true';
-    if (isDemoMode) {
-      return { device: getDemoDevice(deviceId) };
-    }
-    
     const response = await apiClient.get(`/devices/${deviceId}`);
     return response.data;
   },
   
   getDeviceStatus: async (deviceId: string) => {
-    // Check if in demo mode
-    const isDemoMode = localStorage.getItem('demoMode') === 'true';
-    if (isDemoMode) {
-      return { status: getDemoDeviceStatus(deviceId) };
-    }
-    
     const response = await apiClient.get(`/devices/${deviceId}/status`);
     return response.data;
   },
   
-  executeCommand: async (deviceId: string, capability: string, command: string, args: any[] = []) => {
-    // Check if in demo mode
-    const isDemoMode = localStorage.getItem('demoMode') === 'true';
-    
-    // Always call the backend to track metrics (even in demo mode)
+  executeCommand: async (deviceId: string, capability: string, command: string, args: any[] = [], component = 'main') => {
     const response = await apiClient.post(`/devices/${deviceId}/command`, {
+      component,
       capability,
       command,
       args,
     });
-    
-    // In demo mode, also update local state for UI
-    if (isDemoMode) {
-      executeDemoCommand(deviceId, capability, command, args);
-    }
-    
     return response.data;
   },
   
-  getRooms: async () => {
-    // Check if in demo mode
-    const isDemoMode = localStorage.getItem('demoMode') === 'true';
-    if (isDemoMode) {
-      return { rooms: getDemoRooms() };
-    }
-    
-    const response = await apiClient.get('/devices/rooms/list');
+  // Commands for several devices in one request; the response reports each entry
+  executeCommands: async (
+    commands: { deviceId: string; component?: string; capability: string; command: string; args?: any[] }[]
+  ) => {
+    const response = await apiClient.post('/devices/commands', { commands });
+    return response.data;
+  },
+  
+  getRooms: async (locationId?: string) => {
+    const response = await apiClient.get('/devices/rooms/list', { params: { locationId } });
+    return response.data;
+  },
+  
+  // Timers on every accessible device
+  getTimers: async () => {
+    const response = await apiClient.get('/devices/timers');
+    return response.data;
+  },
+  
+  // Send a command after a delay, e.g. switch off in 20 minutes
+  createTimer: async (
+    deviceId: string,
+    timer: { capability: string; command: string; args?: any[]; component?: string; delaySeconds: number }
+  ) => {
+    const response = await apiClient.post(`/devices/${deviceId}/timers`, timer);
+    return response.data;
+  },
+  
+  extendTimer: async (deviceId: string, timerId: string, extendSeconds: number) => {
+    const response = await apiClient.patch(`/devices/${deviceId}/timers/${timerId}`, { extendSeconds });
+    return response.data;
+  },
+  
+  cancelTimer: async (deviceId: string, timerId: string) => {
+    const response = await apiClient.delete(`/devices/${deviceId}/timers/${timerId}`);
+    return response.data;
+  },
+};
+
+// Device group API
+export const groupAPI = {
+  getGroups: async () => {
+    const response = await apiClient.get('/groups');
+    return response.data;
+  },
+  
+  createGroup: async (group: { name: string; room?: string; deviceIds: string[]; tags: string[] }) => {
+    const response = await apiClient.post('/groups', group);
+    return response.data;
+  },
+  
+  updateGroup: async (groupId: string, group: { name: string; room?: string; deviceIds: string[]; tags: string[] }) => {
+    const response = await apiClient.put(`/groups/${groupId}`, group);
+    return response.data;
+  },
+  
+  deleteGroup: async (groupId: string) => {
+    const response = await apiClient.delete(`/groups/${groupId}`);
+    return response.data;
+  },
+  
+  // Fans out to every member; the response reports each member
+  executeCommand: async (groupId: string, capability: string, command: string, args: any[] = []) => {
+    const response = await apiClient.post(`/groups/${groupId}/command`, { capability, command, args });
+    return response.data;
+  },
+};
+
+// Location API
+export const locationAPI = {
+  getLocations: async () => {
+    const response = await apiClient.get('/locations');
+    return response.data;
+  },
+};
+
+// Capability API
+export const capabilityAPI = {
+  // Commands (argument types and ranges) and attributes (units) of a capability
+  getCapability: async (capabilityId: string) => {
+    const response = await apiClient.get(`/capabilities/${capabilityId}`);
     return response.data;
   },
 };
 
 // Scene API
+export interface SceneInput {
+  name: string;
+  icon?: string;
+  color?: string;
+  locationId?: string;
+  actions: {
+    deviceId: string;
+    component?: string;
+    capability: string;
+    command: string;
+    arguments?: unknown[];
+    delaySeconds?: number;
+  }[];
+}
+
 export const sceneAPI = {
-  getScenes: async () => {
-    // Check if in demo mode
-    const isDemoMode = localStorage.getItem('demoMode') === 'true';
-    if (isDemoMode) {
-      return { scenes: getDemoScenes() };
-    }
-    
-    const response = await apiClient.get('/scenes');
+  getScenes: async (locationId?: string) => {
+    const response = await apiClient.get('/scenes', { params: { locationId } });
     return response.data;
   },
   
+  // Starts the scene in the background (202); returns { execution } while it's running
   executeScene: async (sceneId: string) => {
-    // Check if in demo mode
-    const isDemoMode = localStorage.getItem('demoMode') === 'true';
-    if (isDemoMode) {
-      await executeDemoScene(sceneId);
-      return { success: true };
-    }
-    
     const response = await apiClient.post(`/scenes/${sceneId}/execute`);
     return response.data;
   },
+
+  getSceneExecutions: async (sceneId: string, limit?: number) => {
+    const response = await apiClient.get(`/scenes/${sceneId}/executions`, { params: { limit } });
+    return response.data;
+  },
+
+  // Restores the devices an execution changed, within the undo window
+  revertSceneExecution: async (executionId: string) => {
+    const response = await apiClient.post(`/scenes/executions/${executionId}/revert`);
+    return response.data;
+  },
+
+  // Runs the failed actions of an earlier execution again
+  retrySceneExecution: async (executionId: string) => {
+    const response = await apiClient.post(`/scenes/executions/${executionId}/retry`);
+    return response.data;
+  },
+
+  // Local scenes, stored and run by the backend
+  createScene: async (scene: SceneInput) => {
+    const response = await apiClient.post('/scenes', scene);
+    return response.data;
+  },
+
+  updateScene: async (sceneId: string, scene: SceneInput) => {
+    const response = await apiClient.put(`/scenes/${sceneId}`, scene);
+    return response.data;
+  },
+
+  // Save the current state of some devices (or a room) as a local scene
+  snapshotScene: async (snapshot: { name: string; locationId?: string; deviceIds?: string[]; room?: string }) => {
+    const response = await apiClient.post('/scenes/snapshot', snapshot);
+    return response.data;
+  },
+
+  deleteScene: async (sceneId: string) => {
+    const response = await apiClient.delete(`/scenes/${sceneId}`);
+    return response.data;
+  },
+};
+
+// Home mode API
+export const HOME_MODES = ['Home', 'Away', 'Night', 'Vacation'] as const;
+
+export type HomeMode = typeof HOME_MODES[number];
+
+export type ModeEntryAction =
+  | { type: 'command'; deviceId: string; component?: string; capability: string; command: string; arguments?: unknown[] }
+  | { type: 'scene'; sceneId: string };
+
+export interface HomeModeSettingsInput {
+  entryActions: ModeEntryAction[];
+  // null: users may control every device they have access to
+  allowedDeviceIds: string[] | null;
+}
+
+export const homeModeAPI = {
+  getHomeMode: async () => {
+    const response = await apiClient.get('/home-mode');
+    return response.data;
+  },
+
+  setHomeMode: async (mode: HomeMode) => {
+    const response = await apiClient.put('/home-mode', { mode });
+    return response.data;
+  },
+
+  getHomeModeHistory: async (limit?: number) => {
+    const response = await apiClient.get('/home-mode/history', { params: { limit } });
+    return response.data;
+  },
+
+  // Admin only
+  getHomeModeSettings: async () => {
+    const response = await apiClient.get('/home-mode/settings');
+    return response.data;
+  },
+
+  updateHomeModeSettings: async (mode: HomeMode, settings: HomeModeSettingsInput) => {
+    const response = await apiClient.put(`/home-mode/settings/${mode}`, settings);
+    return response.data;
+  },
+};
+
+// Presence simulation API (admin only)
+export interface PresenceSimulationSettingsInput {
+  enabled: boolean;
+  deviceIds: string[];
+  jitterMinutes: number;
+}
+
+export const presenceSimulationAPI = {
+  getPresenceSimulation: async () => {
+    const response = await apiClient.get('/presence-simulation');
+    return response.data;
+  },
+
+  updatePresenceSimulation: async (settings: PresenceSimulationSettingsInput) => {
+    const response = await apiClient.put('/presence-simulation', settings);
+    return response.data;
+  },
+
+  getSimulationLog: async (limit?: number) => {
+    const response = await apiClient.get('/presence-simulation/log', { params: { limit } });
+    return response.data;
+  },
+};
+
+// Schedule API
+export type ScheduleTrigger =
+  | { type: 'cron'; expression: string }
+  | { type: 'time'; time: string; days?: number[] }
+  | { type: 'sun'; event: 'sunrise' | 'sunset'; offsetMinutes: number; days?: number[] };
+
+export interface ScheduleInput {
+  name: string;
+  // Either a scene to run or a home mode to change to
+  sceneId?: string;
+  mode?: HomeMode;
+  trigger: ScheduleTrigger;
+  enabled?: boolean;
+}
+
+export const scheduleAPI = {
+  getSchedules: async () => {
+    const response = await apiClient.get('/schedules');
+    return response.data;
+  },
+
+  // Today's sunrise and sunset, if the home's coordinates are configured
+  getSunTimes: async () => {
+    const response = await apiClient.get('/schedules/sun');
+    return response.data;
+  },
+
+  createSchedule: async (schedule: ScheduleInput) => {
+    const response = await apiClient.post('/schedules', schedule);
+    return response.data;
+  },
+
+  updateSchedule: async (scheduleId: string, schedule: ScheduleInput) => {
+    const response = await apiClient.put(`/schedules/${scheduleId}`, schedule);
+    return response.data;
+  },
+
+  deleteSchedule: async (scheduleId: string) => {
+    const response = await apiClient.delete(`/schedules/${scheduleId}`);
+    return response.data;
+  },
+
+  getScheduleRuns: async (scheduleId: string, limit?: number) => {
+    const response = await apiClient.get(`/schedules/${scheduleId}/runs`, { params: { limit } });
+    return response.data;
+  },
+};
+
+// Automation API
+export type ComparisonOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+interface AttributeRef {
+  deviceId: string;
+  component?: string;
+  capability: string;
+  attribute: string;
+}
+
+export type AutomationTrigger =
+  | (AttributeRef & { type: 'attribute'; operator?: ComparisonOperator; value?: string | number | boolean })
+  | ScheduleTrigger
+  | { type: 'mode'; mode?: HomeMode }
+  | { type: 'webhook' };
+
+export type AutomationCondition =
+  | (AttributeRef & { type: 'attribute'; operator: ComparisonOperator; value: string | number | boolean })
+  | { type: 'timeWindow'; after: string; before: string; days?: number[] }
+  | { type: 'presence'; deviceId: string; present: boolean };
+
+export type AutomationAction =
+  | { type: 'command'; deviceId: string; component?: string; capability: string; command: string; arguments?: unknown[] }
+  | { type: 'scene'; sceneId: string }
+  | { type: 'notify'; message: string; everyone?: boolean }
+  | { type: 'delay'; seconds: number }
+  | { type: 'mode'; mode: HomeMode };
+
+export interface AutomationInput {
+  name: string;
+  description?: string;
+  enabled?: boolean;
+  triggers: AutomationTrigger[];
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+}
+
+export const automationAPI = {
+  getAutomations: async () => {
+    const response = await apiClient.get('/automations');
+    return response.data;
+  },
+
+  createAutomation: async (automation: AutomationInput) => {
+    const response = await apiClient.post('/automations', automation);
+    return response.data;
+  },
+
+  updateAutomation: async (ruleId: string, automation: AutomationInput) => {
+    const response = await apiClient.put(`/automations/${ruleId}`, automation);
+    return response.data;
+  },
+
+  setAutomationEnabled: async (ruleId: string, enabled: boolean) => {
+    const response = await apiClient.put(`/automations/${ruleId}/enabled`, { enabled });
+    return response.data;
+  },
+
+  deleteAutomation: async (ruleId: string) => {
+    const response = await apiClient.delete(`/automations/${ruleId}`);
+    return response.data;
+  },
+
+  getAutomationRuns: async (ruleId: string, limit?: number) => {
+    const response = await apiClient.get(`/automations/${ruleId}/runs`, { params: { limit } });
+    return response.data;
+  },
+
+  // Replay recorded device history through a rule; nothing is commanded
+  simulateAutomation: async (ruleId: string, from?: string, to?: string) => {
+    const response = await apiClient.post(`/automations/${ruleId}/simulate`, undefined, { params: { from, to } });
+    return response.data;
+  },
 };
 
 // Admin API
@@ -180,8 +492,15 @@ export const adminAPI = {
     return response.data;
   },
   
-  updateUserAccess: async (userId: string, devices: string[], rooms: string[]) => {
-    const response = await apiClient.put(`/admin/users/${userId}/access`, { devices, rooms });
+  updateUserAccess: async (
+    userId: string,
+    devices: string[],
+    rooms: string[],
+    locations: string[] = [],
+    groups: string[] = [],
+    scenes: string[] = []
+  ) => {
+    const response = await apiClient.put(`/admin/users/${userId}/access`, { devices, rooms, locations, groups, scenes });
     return response.data;
   },
   
@@ -189,6 +508,36 @@ export const adminAPI = {
     const response = await apiClient.get('/admin/audit-logs', { params: { limit, offset } });
     return response.data;
   },
+  
+  getOfflineDevices: async (hours = 24) => {
+    const response = await apiClient.get('/admin/devices/offline', { params: { hours } });
+    return response.data;
+  },
+  
+  getDeviceMetadata: async () => {
+    const response = await apiClient.get('/admin/devices/metadata');
+    return response.data;
+  },
+  
+  setDeviceMetadata: async (
+    deviceId: string,
+    metadata: {
+      displayName?: string;
+      icon?: string;
+      color?: string;
+      tags?: string[];
+      hidden?: boolean;
+      sortOrder?: number;
+    }
+  ) => {
+    const response = await apiClient.put(`/admin/devices/${deviceId}/metadata`, metadata);
+    return response.data;
+  },
+  
+  clearDeviceMetadata: async (deviceId: string) => {
+    const response = await apiClient.delete(`/admin/devices/${deviceId}/metadata`);
+    return response.data;
+  },
 };
 
 // Analytics API
@@ -4,6 +4,7 @@
 
 type DeviceUpdateCallback = (deviceId: string, status: any) => void;
 type ConnectionCallback = (connected: boolean) => void;
+type MessageCallback = (message: any) => void;
 
 class WebSocketClient {
   private ws: WebSocket | null = null;
@@ -14,6 +15,7 @@ class WebSocketClient {
   private maxReconnectDelay = 30000; // Max 30 seconds
   private deviceUpdateCallbacks: Set<DeviceUpdateCallback> = new Set();
   private connectionCallbacks: Set<ConnectionCallback> = new Set();
+  private messageCallbacks: Map<string, Set<MessageCallback>> = new Map();
   private isConnected = false;
   private shouldReconnect = true;
   private heartbeatInterval: NodeJS.Timeout | null = null;
@@ -109,7 +111,11 @@ class WebSocketClient {
         break;
 
       default:
-        console.log('[WebSocket] Unknown message type:', message.type);
+        if (this.messageCallbacks.has(message.type)) {
+          this.notifyMessageCallbacks(message);
+        } else {
+          console.log('[WebSocket] Unknown message type:', message.type);
+        }
     }
   }
 
@@ -188,6 +194,17 @@ class WebSocketClient {
     return () => this.deviceUpdateCallbacks.delete(callback);
   }
 
+  /**
+   * Register callback for messages of one type (e.g. 'device-health')
+   */
+  onMessage(type: string, callback: MessageCallback) {
+    if (!this.messageCallbacks.has(type)) {
+      this.messageCallbacks.set(type, new Set());
+    }
+    this.messageCallbacks.get(type)!.add(callback);
+    return () => this.messageCallbacks.get(type)?.delete(callback);
+  }
+
   /**
    * Register callback for connection status changes
    */
@@ -211,6 +228,19 @@ class WebSocketClient {
     });
   }
 
+  /**
+   * Notify the callbacks registered for a message's type
+   */
+  private notifyMessageCallbacks(message: any) {
+    this.messageCallbacks.get(message.type)?.forEach((callback) => {
+      try {
+        callback(message);
+      } catch (error) {
+        console.error(`[WebSocket] Error in ${message.type} callback:`, error);
+      }
+    });
+  }
+
   /**
    * Notify all connection callbacks
    */
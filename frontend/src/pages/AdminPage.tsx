@@ -9,9 +9,22 @@ import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import AuditLogViewer from '@/components/admin/AuditLogViewer';
 import ACLEditor from '@/components/admin/ACLEditor';
 import RoomTabsManager from '@/components/admin/RoomTabsManager';
-import { ArrowLeft, Users, Activity, Shield, LayoutGrid } from 'lucide-react';
+import DeviceHealthReport from '@/components/admin/DeviceHealthReport';
+import DeviceMetadataEditor from '@/components/admin/DeviceMetadataEditor';
+import DeviceGroupManager from '@/components/admin/DeviceGroupManager';
+import HomeModeSettings from '@/components/admin/HomeModeSettings';
+import PresenceSimulationSettings from '@/components/admin/PresenceSimulationSettings';
+import { ArrowLeft, Users, Activity, Shield, LayoutGrid, WifiOff, Tags, Boxes, Home } from 'lucide-react';
 
-type TabType = 'overview' | 'audit-logs' | 'permissions' | 'room-tabs';
+type TabType =
+  | 'overview'
+  | 'audit-logs'
+  | 'permissions'
+  | 'room-tabs'
+  | 'device-display'
+  | 'device-groups'
+  | 'device-health'
+  | 'home-modes';
 
 export default function AdminPage() {
   const navigate = useNavigate();
@@ -83,6 +96,38 @@ export default function AdminPage() {
               <LayoutGrid className="w-4 h-4 mr-2" />
               Room Tabs
             </Button>
+            <Button
+              variant={activeTab === 'device-display' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('device-display')}
+            >
+              <Tags className="w-4 h-4 mr-2" />
+              Device Display
+            </Button>
+            <Button
+              variant={activeTab === 'device-groups' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('device-groups')}
+            >
+              <Boxes className="w-4 h-4 mr-2" />
+              Groups
+            </Button>
+            <Button
+              variant={activeTab === 'device-health' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('device-health')}
+            >
+              <WifiOff className="w-4 h-4 mr-2" />
+              Device Health
+            </Button>
+            <Button
+              variant={activeTab === 'home-modes' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setActiveTab('home-modes')}
+            >
+              <Home className="w-4 h-4 mr-2" />
+              Home Modes
+            </Button>
           </div>
         </div>
       </header>
@@ -152,6 +197,19 @@ export default function AdminPage() {
         {activeTab === 'audit-logs' && <AuditLogViewer />}
 
         {activeTab === 'room-tabs' && <RoomTabsManager />}
+
+        {activeTab === 'device-display' && <DeviceMetadataEditor />}
+
+        {activeTab === 'device-groups' && <DeviceGroupManager />}
+
+        {activeTab === 'device-health' && <DeviceHealthReport />}
+
+        {activeTab === 'home-modes' && (
+          <div className="space-y-6">
+            <HomeModeSettings />
+            <PresenceSimulationSettings />
+          </div>
+        )}
       </main>
     </div>
   );
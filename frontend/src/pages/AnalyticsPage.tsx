@@ -55,7 +55,7 @@ export default function AnalyticsPage() {
   // Fetch devices for device selector
   const { data: devicesData } = useQuery({
     queryKey: ['devices'],
-    queryFn: deviceAPI.getDevices,
+    queryFn: () => deviceAPI.getDevices(),
   });
 
   // Fetch device-specific history if a device is selected
@@ -268,15 +268,20 @@ export default function AnalyticsPage() {
                     className="flex items-center justify-between p-3 bg-muted/30 rounded-md text-sm"
                   >
                     <div className="flex-1">
-                      <span className="font-medium">{entry.capability}</span>
+                      <span className="font-medium">
+                        {entry.component && entry.component !== 'main' && `${entry.component} · `}
+                        {entry.attribute && entry.attribute !== entry.capability
+                          ? `${entry.capability}.${entry.attribute}`
+                          : entry.capability}
+                      </span>
                       {entry.previousValue && (
                         <span className="text-muted-foreground ml-2">
-                          {entry.previousValue} → {entry.value}
+                          {entry.previousValue} → {entry.value}{entry.unit ? ` ${entry.unit}` : ''}
                         </span>
                       )}
                       {!entry.previousValue && (
                         <span className="text-muted-foreground ml-2">
-                          → {entry.value}
+                          → {entry.value}{entry.unit ? ` ${entry.unit}` : ''}
                         </span>
                       )}
                     </div>
@@ -1,21 +1,48 @@
-import { useState, useCallback, useMemo, useEffect } from 'react';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/lib/auth';
-import { deviceAPI, sceneAPI } from '@/lib/api';
-import { useWebSocketConnection, useDeviceUpdates } from '@/hooks/useWebSocket';
+import { deviceAPI, groupAPI, sceneAPI, locationAPI, capabilityAPI, homeModeAPI, getErrorMessage, DeviceTimer } from '@/lib/api';
+import { useWebSocketConnection, useDeviceUpdates, useWebSocketMessage } from '@/hooks/useWebSocket';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Switch } from '@/components/ui/Switch';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/Tabs';
-import { SceneCard } from '@/components/SceneCard';
+import { SceneCard, SceneExecution } from '@/components/SceneCard';
+import SceneEditor from '@/components/SceneEditor';
+import ScheduleManager from '@/components/ScheduleManager';
+import AutomationManager from '@/components/AutomationManager';
+import HomeModeControl, { HomeModeState } from '@/components/HomeModeControl';
+import DeviceTimers from '@/components/DeviceTimers';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import { 
   Home, LogOut, Settings, Lightbulb, Power, Wifi, WifiOff, Grid, Play, BarChart3,
-  Thermometer, Video, DoorOpen, Refrigerator, Fan, Lock, Droplet, Zap, Gauge
+  Thermometer, Video, DoorOpen, Refrigerator, Fan, Lock, Droplet, Zap, Gauge, AlertTriangle, X, MapPin,
+  Plug, Speaker, Tv, Plus, Camera, Workflow, Bell
 } from 'lucide-react';
 
 const ROOM_ORDER_KEY = 'homecontrol_room_tab_order';
+const LOCATION_KEY = 'homecontrol_location';
+
+// Icons an admin can pick in the device metadata editor
+const METADATA_ICONS: Record<string, typeof Lightbulb> = {
+  light: Lightbulb,
+  outlet: Plug,
+  thermostat: Thermometer,
+  camera: Video,
+  lock: Lock,
+  fridge: Refrigerator,
+  fan: Fan,
+  water: Droplet,
+  energy: Zap,
+  door: DoorOpen,
+  sensor: Gauge,
+  speaker: Speaker,
+  tv: Tv,
+};
+
+// Local display name from device metadata, falling back to the SmartThings label
+const getDeviceName = (device: any) => device.displayName || device.label || device.name;
 
 // Get appropriate icon based on device type and capabilities
 const getDeviceIcon = (device: any, isOn: boolean) => {
@@ -23,59 +50,123 @@ const getDeviceIcon = (device: any, isOn: boolean) => {
   const capabilities = device.components?.main?.capabilities || [];
   const hasCapability = (capId: string) => capabilities.some((c: any) => c.id === capId);
   
-  const iconClass = `w-5 h-5 ${isOn ? 'text-yellow-500' : 'text-gray-400'}`;
+  // A custom color replaces the yellow "on" highlight
+  const iconClass = `w-5 h-5 ${isOn ? (device.color ? '' : 'text-yellow-500') : 'text-gray-400'}`;
+  const iconStyle = isOn && device.color ? { color: device.color } : undefined;
+  
+  // Icon chosen in the admin page
+  const MetadataIcon = device.icon && METADATA_ICONS[device.icon];
+  if (MetadataIcon) {
+    return <MetadataIcon className={iconClass} style={iconStyle} />;
+  }
   
   // Thermostat
   if (hasCapability('thermostatMode') || hasCapability('thermostatCoolingSetpoint') || label.includes('thermostat')) {
-    return <Thermometer className={iconClass} />;
+    return <Thermometer className={iconClass} style={iconStyle} />;
   }
   
   // Camera or Doorbell
   if (label.includes('camera') || label.includes('doorbell') || label.includes('cam')) {
-    return <Video className={iconClass} />;
+    return <Video className={iconClass} style={iconStyle} />;
   }
   
   // Lock
   if (hasCapability('lock') || label.includes('lock')) {
-    return <Lock className={iconClass} />;
+    return <Lock className={iconClass} style={iconStyle} />;
   }
   
   // Refrigerator
   if (label.includes('fridge') || label.includes('refrigerator') || label.includes('freezer')) {
-    return <Refrigerator className={iconClass} />;
+    return <Refrigerator className={iconClass} style={iconStyle} />;
   }
   
   // Fan
   if (label.includes('fan') || hasCapability('fanSpeed')) {
-    return <Fan className={iconClass} />;
+    return <Fan className={iconClass} style={iconStyle} />;
   }
   
   // Moisture/Leak Sensor
   if (hasCapability('waterSensor') || label.includes('leak') || label.includes('water')) {
-    return <Droplet className={iconClass} />;
+    return <Droplet className={iconClass} style={iconStyle} />;
   }
   
   // Energy/Power Monitor
   if (hasCapability('powerMeter') || hasCapability('energyMeter') || label.includes('energy')) {
-    return <Zap className={iconClass} />;
+    return <Zap className={iconClass} style={iconStyle} />;
   }
   
   // Door Sensor
   if (hasCapability('contactSensor') || label.includes('door') || label.includes('contact')) {
-    return <DoorOpen className={iconClass} />;
+    return <DoorOpen className={iconClass} style={iconStyle} />;
   }
   
   // Temperature Sensor
   if (hasCapability('temperatureMeasurement') && !hasCapability('switch')) {
-    return <Gauge className={iconClass} />;
+    return <Gauge className={iconClass} style={iconStyle} />;
   }
   
   // Default: Light bulb for switches
-  return <Lightbulb className={iconClass} />;
+  return <Lightbulb className={iconClass} style={iconStyle} />;
+};
+
+// Merge a (partial) device status update into a device's components
+const mergeDeviceStatus = (device: any, status: any) => {
+  if (!status?.components) return device;
+  
+  const components = { ...device.components };
+  Object.entries(status.components).forEach(([componentId, capabilities]: [string, any]) => {
+    const component = { ...components[componentId] };
+    Object.entries(capabilities).forEach(([capabilityId, attributes]: [string, any]) => {
+      component[capabilityId] = { ...component[capabilityId], ...attributes };
+    });
+    components[componentId] = component;
+  });
+  
+  return { ...device, components };
+};
+
+// Key of an in-flight command, used to disable its control
+const getCommandKey = (deviceId: string, capability: string, component = 'main') =>
+  component === 'main' ? `${deviceId}-${capability}` : `${deviceId}-${component}-${capability}`;
+
+// Control for one sub-component of a device (power strip outlet, fridge compartment, ...)
+const ComponentControl = ({ device, componentId, onCommand, executingCommands }: any) => {
+  const component = device.components[componentId];
+  const hasCapability = (capId: string) => component.capabilities?.some((c: any) => c.id === capId);
+  const isOn = component.switch?.switch?.value === 'on';
+  const temperature = component.temperatureMeasurement?.temperature?.value;
+  const tempUnit = component.temperatureMeasurement?.temperature?.unit || 'F';
+  
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-sm">{component.label || componentId}</span>
+      <div className="flex items-center gap-3">
+        {temperature !== undefined && (
+          <span className="text-sm font-medium">{Math.round(temperature)}°{tempUnit}</span>
+        )}
+        {hasCapability('switch') && (
+          <>
+            <span className={`text-xs font-medium ${isOn ? 'text-green-600' : 'text-gray-500'}`}>
+              {isOn ? 'ON' : 'OFF'}
+            </span>
+            <Switch
+              checked={isOn}
+              disabled={executingCommands.has(getCommandKey(device.deviceId, 'switch', componentId))}
+              onCheckedChange={(checked) => {
+                onCommand(device.deviceId, 'switch', checked ? 'on' : 'off', [], componentId);
+              }}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
 };
 
 // Device Card Component
-const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any) => {
+// timers: the device's pending timers; undefined where timers aren't offered (demo, groups)
+const DeviceCard = ({ device, showRoomName, onCommand, executingCommands, timers, onError }: any) => {
+  const subComponentIds = Object.keys(device.components || {}).filter(id => id !== 'main');
   const switchStatus = device.components?.main?.switch?.switch?.value || device.status?.switch?.value;
   const isOn = switchStatus === 'on';
   
@@ -89,6 +180,18 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
   const [localLevel, setLocalLevel] = useState(currentLevel);
   const [manualInput, setManualInput] = useState(currentLevel.toString());
   
+  // Level range from the capability definition
+  const { data: levelCapability } = useQuery({
+    queryKey: ['capabilities', 'switchLevel'],
+    queryFn: () => capabilityAPI.getCapability('switchLevel'),
+    enabled: !!hasSwitchLevel,
+    staleTime: Infinity,
+  });
+  const levelSchema = levelCapability?.capability?.commands?.setLevel?.arguments?.[0]?.schema;
+  const minLevel: number = levelSchema?.minimum ?? 0;
+  const maxLevel: number = levelSchema?.maximum ?? 100;
+  const levelPercent = ((localLevel - minLevel) / (maxLevel - minLevel || 1)) * 100;
+  
   // Update local state when device level changes
   useEffect(() => {
     setLocalLevel(currentLevel);
@@ -107,7 +210,7 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
     
     if (filtered !== '') {
       const numValue = parseInt(filtered, 10);
-      if (numValue >= 0 && numValue <= 100) {
+      if (numValue >= minLevel && numValue <= maxLevel) {
         setLocalLevel(numValue);
       }
     }
@@ -115,7 +218,7 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
   
   const handleManualSubmit = () => {
     const numValue = parseInt(manualInput, 10);
-    if (!isNaN(numValue) && numValue >= 0 && numValue <= 100) {
+    if (!isNaN(numValue) && numValue >= minLevel && numValue <= maxLevel) {
       onCommand(device.deviceId, 'switchLevel', 'setLevel', [numValue]);
     } else {
       // Reset to current level if invalid
@@ -123,13 +226,25 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
     }
   };
   
+  // Devices that stopped responding stay visible but greyed out
+  const isOffline = device.online === false;
+  
   return (
-    <Card key={device.deviceId} className="hover:shadow-lg transition-shadow">
+    <Card
+      key={device.deviceId}
+      className={`hover:shadow-lg transition-shadow ${isOffline ? 'opacity-60 grayscale' : ''}`}
+    >
       <CardHeader className="pb-3">
         <CardTitle className="text-lg flex items-center gap-2">
           {getDeviceIcon(device, isOn)}
-          {showRoomName && device.room ? `${device.room} - ${device.label || device.name}` : device.label || device.name}
+          {showRoomName && device.room ? `${device.room} - ${getDeviceName(device)}` : getDeviceName(device)}
         </CardTitle>
+        {isOffline && (
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <WifiOff className="w-3 h-3" />
+            Offline{device.lastSeen ? ` · last seen ${new Date(device.lastSeen).toLocaleString()}` : ''}
+          </p>
+        )}
       </CardHeader>
       <CardContent className="space-y-3">
         {/* Thermostat display */}
@@ -151,6 +266,11 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
                 <Power className={`w-5 h-5 ${isOn ? 'text-green-600' : 'text-gray-400'}`} />
                 <span className="text-sm font-medium">
                   {device.deviceTypeName || 'Smart Device'}
+                  {device.group && (
+                    <span className="text-muted-foreground font-normal">
+                      {' '}· {device.group.membersOn} of {device.group.memberCount} on
+                    </span>
+                  )}
                 </span>
               </div>
               <div className="flex items-center gap-3">
@@ -181,8 +301,8 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
                 {/* Slider control */}
                 <input
                   type="range"
-                  min="0"
-                  max="100"
+                  min={minLevel}
+                  max={maxLevel}
                   value={localLevel}
                   onChange={(e) => setLocalLevel(parseInt(e.target.value, 10))}
                   onMouseUp={() => handleLevelChange(localLevel)}
@@ -190,7 +310,7 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
                   disabled={executingCommands.has(`${device.deviceId}-switchLevel`)}
                   className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer dark:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
                   style={{
-                    background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${localLevel}%, #e5e7eb ${localLevel}%, #e5e7eb 100%)`
+                    background: `linear-gradient(to right, #3b82f6 0%, #3b82f6 ${levelPercent}%, #e5e7eb ${levelPercent}%, #e5e7eb 100%)`
                   }}
                 />
                 
@@ -211,7 +331,7 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
                     }}
                     disabled={executingCommands.has(`${device.deviceId}-switchLevel`)}
                     className="flex-1 px-3 py-1.5 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                    placeholder="0-100"
+                    placeholder={`${minLevel}-${maxLevel}`}
                   />
                   <button
                     onClick={handleManualSubmit}
@@ -223,6 +343,11 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
                 </div>
               </div>
             )}
+            
+            {/* Countdown timers ("turn off in 20 minutes") */}
+            {timers && !device.group && (
+              <DeviceTimers deviceId={device.deviceId} timers={timers} onError={onError} />
+            )}
           </>
         )}
         
@@ -237,9 +362,26 @@ const DeviceCard = ({ device, showRoomName, onCommand, executingCommands }: any)
             {temperature && (
               <p className="text-lg font-semibold mt-2">{Math.round(temperature)}°{tempUnit}</p>
             )}
-            <p className="text-xs text-muted-foreground mt-1">
-              Read-only device
-            </p>
+            {subComponentIds.length === 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Read-only device
+              </p>
+            )}
+          </div>
+        )}
+        
+        {/* One control per sub-component (outlets, compartments, ...) */}
+        {subComponentIds.length > 0 && (
+          <div className="space-y-2 pt-3 border-t">
+            {subComponentIds.map((componentId) => (
+              <ComponentControl
+                key={componentId}
+                device={device}
+                componentId={componentId}
+                onCommand={onCommand}
+                executingCommands={executingCommands}
+              />
+            ))}
           </div>
         )}
       </CardContent>
@@ -253,23 +395,79 @@ export default function DashboardPage() {
   const isWsConnected = useWebSocketConnection();
   const queryClient = useQueryClient();
   const [executingCommands, setExecutingCommands] = useState<Set<string>>(new Set());
+  const [commandError, setCommandError] = useState<string | null>(null);
   const [customRoomOrder, setCustomRoomOrder] = useState<string[] | null>(null);
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(
+    () => localStorage.getItem(LOCATION_KEY)
+  );
+  
+  const { data: locationsData } = useQuery({
+    queryKey: ['locations'],
+    queryFn: locationAPI.getLocations,
+  });
+
+  const locations: { locationId: string; name: string }[] = locationsData?.locations || [];
+  
+  // Forget a saved location that no longer exists (or is no longer accessible)
+  const locationId = selectedLocationId && (!locationsData || locations.some(l => l.locationId === selectedLocationId))
+    ? selectedLocationId
+    : undefined;
+  
+  // Unfiltered queries share the cache with other pages
+  const devicesQueryKey = useMemo(() => (locationId ? ['devices', locationId] : ['devices']), [locationId]);
   
   const { data: devicesData, isLoading, refetch } = useQuery({
-    queryKey: ['devices'],
-    queryFn: deviceAPI.getDevices,
+    queryKey: devicesQueryKey,
+    queryFn: () => deviceAPI.getDevices(locationId),
   });
 
   const { data: roomsData } = useQuery({
-    queryKey: ['rooms'],
-    queryFn: deviceAPI.getRooms,
+    queryKey: locationId ? ['rooms', locationId] : ['rooms'],
+    queryFn: () => deviceAPI.getRooms(locationId),
   });
 
   const { data: scenesData } = useQuery({
-    queryKey: ['scenes'],
-    queryFn: sceneAPI.getScenes,
+    queryKey: locationId ? ['scenes', locationId] : ['scenes'],
+    queryFn: () => sceneAPI.getScenes(locationId),
+  });
+
+  // Shared with the header control, which keeps it current
+  const { data: homeMode } = useQuery<HomeModeState>({
+    queryKey: ['home-mode'],
+    queryFn: homeModeAPI.getHomeMode,
   });
 
+  // Pending device timers, kept current over WebSocket
+  const { data: timersData } = useQuery<{ timers: DeviceTimer[] }>({
+    queryKey: ['device-timers'],
+    queryFn: deviceAPI.getTimers,
+    enabled: !isDemoMode,
+  });
+
+  const timersByDevice = useMemo(() => {
+    const grouped: Record<string, DeviceTimer[]> = {};
+    (timersData?.timers || []).forEach((timer) => {
+      if (!grouped[timer.deviceId]) {
+        grouped[timer.deviceId] = [];
+      }
+      grouped[timer.deviceId].push(timer);
+    });
+    return grouped;
+  }, [timersData]);
+
+  // null: not editing, 'new': creating, otherwise the local scene being edited
+  const [editingScene, setEditingScene] = useState<any | 'new' | null>(null);
+  const [activeTab, setActiveTab] = useState<string | null>(null);
+
+  const handleLocationChange = (value: string) => {
+    if (value) {
+      localStorage.setItem(LOCATION_KEY, value);
+    } else {
+      localStorage.removeItem(LOCATION_KEY);
+    }
+    setSelectedLocationId(value || null);
+  };
+
   // Group devices by room
   const devicesByRoom = useMemo(() => {
     if (!devicesData?.devices) return {};
@@ -333,62 +531,133 @@ export default function DashboardPage() {
     console.log('[Dashboard] WebSocket device update:', deviceId, status);
     
     // Directly update the cache with new device status
-    queryClient.setQueryData(['devices'], (oldData: any) => {
+    queryClient.setQueryData(devicesQueryKey, (oldData: any) => {
       if (!oldData?.devices) return oldData;
       
       return {
         ...oldData,
-        devices: oldData.devices.map((device: any) => {
-          if (device.deviceId === deviceId) {
-            // Update the device status based on the structure
-            if (device.components?.main?.switch) {
-              return {
-                ...device,
-                components: {
-                  ...device.components,
-                  main: {
-                    ...device.components.main,
-                    switch: {
-                      ...device.components.main.switch,
-                      switch: status.switch || device.components.main.switch.switch,
-                    },
-                  },
-                },
-              };
-            } else if (device.status) {
-              return {
-                ...device,
-                status: {
-                  ...device.status,
-                  ...status,
-                },
-              };
-            }
-          }
-          return device;
-        }),
+        devices: oldData.devices.map((device: any) =>
+          device.deviceId === deviceId ? mergeDeviceStatus(device, status) : device
+        ),
       };
     });
-  }, [queryClient]);
+  }, [queryClient, devicesQueryKey]);
   
   useDeviceUpdates(handleDeviceUpdate);
 
+  // Grey out devices as they go offline and restore them when they report again
+  const handleDeviceHealth = useCallback((message: any) => {
+    queryClient.setQueryData(devicesQueryKey, (oldData: any) => {
+      if (!oldData?.devices) return oldData;
+      
+      return {
+        ...oldData,
+        devices: oldData.devices.map((device: any) =>
+          device.deviceId === message.deviceId
+            ? { ...device, online: message.online, lastSeen: message.lastSeen ?? device.lastSeen }
+            : device
+        ),
+      };
+    });
+  }, [queryClient, devicesQueryKey]);
+  
+  useWebSocketMessage('device-health', handleDeviceHealth);
+
+  // Replace a device's timers when they're set, extended, cancelled or run;
+  // pushes leave out who set them, so keep that from what we had
+  const handleDeviceTimers = useCallback((message: any) => {
+    queryClient.setQueryData(['device-timers'], (oldData: any) => {
+      if (!oldData?.timers) return oldData;
+      
+      return {
+        ...oldData,
+        timers: [
+          ...oldData.timers.filter((timer: DeviceTimer) => timer.deviceId !== message.deviceId),
+          ...message.timers.map((timer: DeviceTimer) => ({
+            ...oldData.timers.find((old: DeviceTimer) => old.timerId === timer.timerId),
+            ...timer,
+          })),
+        ],
+      };
+    });
+  }, [queryClient]);
+  
+  useWebSocketMessage('device-timers', handleDeviceTimers);
+
+  // Latest execution report per scene, from our own runs and retries (any tab)
+  const [sceneExecutions, setSceneExecutions] = useState<Record<string, SceneExecution>>({});
+  
+  const handleSceneExecution = useCallback((message: any) => {
+    const execution: SceneExecution = message.execution;
+    // An undo's actions aren't the scene's actions; it just clears the last report
+    if (execution.revertOf) {
+      setSceneExecutions(({ [execution.sceneId]: _, ...rest }) => rest);
+      return;
+    }
+    setSceneExecutions(prev => ({ ...prev, [execution.sceneId]: execution }));
+  }, []);
+
+  // The run the "Undo" toast offers to revert, while its undo window is open
+  const [undoExecution, setUndoExecution] = useState<SceneExecution | null>(null);
+  // Runs started from this tab, until they finish and can be offered for undo
+  const startedRuns = useRef(new Set<string>());
+  
+  useEffect(() => {
+    for (const execution of Object.values(sceneExecutions)) {
+      if (execution.status !== 'running' && startedRuns.current.delete(execution.executionId)) {
+        setUndoExecution(execution.revertibleUntil ? execution : null);
+      }
+    }
+  }, [sceneExecutions]);
+  
+  useEffect(() => {
+    if (!undoExecution?.revertibleUntil) return;
+    const timeout = setTimeout(
+      () => setUndoExecution(null),
+      new Date(undoExecution.revertibleUntil).getTime() - Date.now()
+    );
+    return () => clearTimeout(timeout);
+  }, [undoExecution]);
+  
+  useWebSocketMessage('scene-execution', handleSceneExecution);
+
+  // Notifications sent by automations, newest last; each dismisses itself
+  const [notifications, setNotifications] = useState<{ id: number; ruleName: string; message: string }[]>([]);
+  
+  const dismissNotification = useCallback((id: number) => {
+    setNotifications(prev => prev.filter(n => n.id !== id));
+  }, []);
+  
+  const handleNotification = useCallback((message: any) => {
+    const id = Date.now() + Math.random();
+    setNotifications(prev => [...prev.slice(-2), { id, ...message.notification }]);
+    setTimeout(() => dismissNotification(id), 10000);
+  }, [dismissNotification]);
+  
+  useWebSocketMessage('notification', handleNotification);
+
   const handleLogout = async () => {
     await logout();
     navigate('/login');
   };
 
-  const handleCommand = async (deviceId: string, capability: string, command: string, args: any[] = []) => {
-    const commandKey = `${deviceId}-${capability}`;
+  const handleCommand = async (
+    deviceId: string,
+    capability: string,
+    command: string,
+    args: any[] = [],
+    component = 'main'
+  ) => {
+    const commandKey = getCommandKey(deviceId, capability, component);
     
     try {
-      console.log('[Dashboard] Executing command:', { deviceId, capability, command, args });
+      console.log('[Dashboard] Executing command:', { deviceId, component, capability, command, args });
       
       // Mark command as executing
       setExecutingCommands(prev => new Set(prev).add(commandKey));
       
       // Optimistic update - immediately update UI before server responds
-      queryClient.setQueryData(['devices'], (oldData: any) => {
+      queryClient.setQueryData(devicesQueryKey, (oldData: any) => {
         if (!oldData?.devices) return oldData;
         
         return {
@@ -400,14 +669,14 @@ export default function DashboardPage() {
               // Create updated device with all possible structures
               const updatedDevice = { ...device };
               
-              // Update components.main.switch.switch if it exists
-              if (device.components?.main?.switch?.switch) {
+              // Update components[component].switch.switch if it exists
+              if (device.components?.[component]?.switch?.switch) {
                 updatedDevice.components = {
                   ...device.components,
-                  main: {
-                    ...device.components.main,
+                  [component]: {
+                    ...device.components[component],
                     switch: {
-                      ...device.components.main.switch,
+                      ...device.components[component].switch,
                       switch: newValue,
                     },
                   },
@@ -415,7 +684,7 @@ export default function DashboardPage() {
               }
               
               // Update status.switch if it exists
-              if (device.status?.switch) {
+              if (component === 'main' && device.status?.switch) {
                 updatedDevice.status = {
                   ...device.status,
                   switch: newValue,
@@ -429,17 +698,28 @@ export default function DashboardPage() {
         };
       });
       
-      // Execute the command
-      const result = await deviceAPI.executeCommand(deviceId, capability, command, args);
+      // Execute the command; groups fan out to their members
+      const group = devicesData?.devices?.find((device: any) => device.deviceId === deviceId)?.group;
+      const result = group
+        ? await groupAPI.executeCommand(group.groupId, capability, command, args)
+        : await deviceAPI.executeCommand(deviceId, capability, command, args, component);
       console.log('[Dashboard] Command result:', result);
       
+      if (group && result.failed > 0) {
+        const failures = result.results.filter((entry: any) => !entry.success && !entry.skipped);
+        setCommandError(
+          `${result.failed} of ${result.results.length - result.skipped} devices in the group failed: ` +
+          failures.map((entry: any) => entry.error).filter(Boolean).join('; ')
+        );
+      }
+      
       // After command succeeds, refetch to get the updated state
-      // In demo mode, this will get the updated demoDeviceStates
-      // In real mode, WebSocket will handle updates, but we refetch as backup
+      // WebSocket will handle updates, but we refetch as backup
       await queryClient.invalidateQueries({ queryKey: ['devices'] });
       
     } catch (error) {
       console.error('Failed to execute command:', error);
+      setCommandError(getErrorMessage(error, 'Failed to execute command'));
       // Revert optimistic update on error by refetching
       queryClient.invalidateQueries({ queryKey: ['devices'] });
     } finally {
@@ -452,17 +732,122 @@ export default function DashboardPage() {
     }
   };
 
+  const handleRoomPower = async (roomName: string, command: 'on' | 'off') => {
+    const roomKey = `room:${roomName}`;
+    // Group members are switched directly, not through the group
+    const switches = devicesByRoom[roomName].filter((device: any) =>
+      !device.group && device.components?.main?.capabilities?.some((c: any) => c.id === 'switch')
+    );
+    if (switches.length === 0) return;
+    
+    try {
+      setExecutingCommands(prev => new Set(prev).add(roomKey));
+      
+      const { results, failed } = await deviceAPI.executeCommands(
+        switches.map((device: any) => ({ deviceId: device.deviceId, capability: 'switch', command }))
+      );
+      
+      if (failed > 0) {
+        const firstFailure = results.find((result: any) => !result.success);
+        const message = getErrorMessage({ response: { data: firstFailure } }, 'Command failed');
+        setCommandError(`${failed} of ${results.length} devices did not respond: ${message}`);
+      }
+    } catch (error) {
+      console.error('Failed to execute room command:', error);
+      setCommandError(getErrorMessage(error, 'Failed to execute command'));
+    } finally {
+      await queryClient.invalidateQueries({ queryKey: ['devices'] });
+      setExecutingCommands(prev => {
+        const next = new Set(prev);
+        next.delete(roomKey);
+        return next;
+      });
+    }
+  };
+
+  // Saves the room's current state, then opens the new scene for editing
+  const handleRoomSnapshot = async (roomName: string) => {
+    const roomKey = `snapshot:${roomName}`;
+    // Groups have no state of their own; their members are in the room anyway
+    const deviceIds = devicesByRoom[roomName]
+      .filter((device: any) => !device.group)
+      .map((device: any) => device.deviceId);
+    
+    try {
+      setExecutingCommands(prev => new Set(prev).add(roomKey));
+      const { scene } = await sceneAPI.snapshotScene({ name: `${roomName} snapshot`, locationId, deviceIds });
+      await queryClient.invalidateQueries({ queryKey: ['scenes'] });
+      setEditingScene(scene);
+      setActiveTab('scenes');
+    } catch (error) {
+      console.error('Failed to save room state as scene:', error);
+      setCommandError(getErrorMessage(error, 'Failed to save scene'));
+    } finally {
+      setExecutingCommands(prev => {
+        const next = new Set(prev);
+        next.delete(roomKey);
+        return next;
+      });
+    }
+  };
+
   const handleSceneExecute = async (sceneId: string) => {
     try {
       console.log('[Dashboard] Executing scene:', sceneId);
-      await sceneAPI.executeScene(sceneId);
-      console.log('[Dashboard] Scene executed successfully');
+      const { execution } = await sceneAPI.executeScene(sceneId);
+      console.log('[Dashboard] Scene started:', execution.executionId);
+      // The run continues in the background; its progress arrives over
+      // WebSocket, possibly before this response
+      startedRuns.current.add(execution.executionId);
+      setSceneExecutions(prev => ({
+        ...prev,
+        [sceneId]: prev[sceneId]?.executionId === execution.executionId ? prev[sceneId] : execution,
+      }));
+      return execution as SceneExecution;
     } catch (error) {
       console.error('Failed to execute scene:', error);
+      setCommandError(getErrorMessage(error, 'Failed to execute scene'));
       throw error; // Re-throw so SceneCard can show error
     }
   };
 
+  const handleSceneUndo = async (execution: SceneExecution) => {
+    setUndoExecution(null);
+    try {
+      const { execution: reverted } = await sceneAPI.revertSceneExecution(execution.executionId);
+      setSceneExecutions(({ [execution.sceneId]: _, ...rest }) => rest);
+      if (!reverted.success) {
+        setCommandError(`Undo of ${execution.sceneName}: ${reverted.failed} of ${reverted.actions.length} devices could not be restored`);
+      }
+    } catch (error) {
+      console.error('Failed to undo scene:', error);
+      setCommandError(getErrorMessage(error, 'Failed to undo scene'));
+    } finally {
+      await queryClient.invalidateQueries({ queryKey: ['devices'] });
+    }
+  };
+
+  const handleSceneRetry = async (executionId: string) => {
+    try {
+      const { execution } = await sceneAPI.retrySceneExecution(executionId);
+      setSceneExecutions(prev => ({ ...prev, [execution.sceneId]: execution }));
+    } catch (error) {
+      console.error('Failed to retry scene actions:', error);
+      setCommandError(getErrorMessage(error, 'Failed to retry scene actions'));
+    }
+  };
+
+  const handleSceneDelete = async (sceneId: string) => {
+    try {
+      await sceneAPI.deleteScene(sceneId);
+      queryClient.invalidateQueries({ queryKey: ['scenes'] });
+    } catch (error) {
+      setCommandError(getErrorMessage(error, 'Failed to delete scene'));
+    }
+  };
+
+  const canEditScene = (scene: any) => user?.role === 'admin' || scene.createdBy === user?.username;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Demo Mode Banner */}
@@ -494,6 +879,26 @@ export default function DashboardPage() {
             <h1 className="text-2xl font-bold">Home Control</h1>
           </div>
           <div className="flex items-center gap-4">
+            <HomeModeControl onError={setCommandError} />
+            {/* Location Switcher */}
+            {locations.length > 1 && (
+              <div className="flex items-center gap-2">
+                <MapPin className="w-4 h-4 text-muted-foreground" />
+                <select
+                  value={locationId || ''}
+                  onChange={(e) => handleLocationChange(e.target.value)}
+                  className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                  aria-label="Location"
+                >
+                  <option value="">All locations</option>
+                  {locations.map((location) => (
+                    <option key={location.locationId} value={location.locationId}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
             <span className="text-sm text-muted-foreground">
               {user?.username} {user?.role === 'admin' && '(Admin)'}
             </span>
@@ -525,6 +930,28 @@ export default function DashboardPage() {
 
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
+        {/* Command Error Banner */}
+        {commandError && (
+          <div className="mb-6 flex items-start gap-3 rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span className="flex-1">{commandError}</span>
+            <button onClick={() => setCommandError(null)} aria-label="Dismiss error">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Home Mode Policy Banner */}
+        {homeMode?.allowedDeviceIds && (
+          <div className="mb-6 flex items-start gap-3 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            <Lock className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>
+              The home is in {homeMode.mode} mode: you can only control{' '}
+              {homeMode.allowedDeviceIds.length === 0 ? 'no devices' : `${homeMode.allowedDeviceIds.length} device(s)`} until an admin changes it.
+            </span>
+          </div>
+        )}
+
         <div className="mb-6">
           <h2 className="text-3xl font-bold mb-2">Your Devices</h2>
           <p className="text-muted-foreground">
@@ -549,7 +976,7 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
         ) : (
-          <Tabs defaultValue={roomNames[0] || 'all'} className="w-full">
+          <Tabs value={activeTab || roomNames[0] || 'all'} onValueChange={setActiveTab} className="w-full">
             <TabsList className="mb-6 flex-wrap h-auto">
               <TabsTrigger value="scenes">
                 <Play className="w-4 h-4 mr-2" />
@@ -564,20 +991,51 @@ export default function DashboardPage() {
                 <Grid className="w-4 h-4 mr-2" />
                 All Devices ({devicesData?.devices?.length || 0})
               </TabsTrigger>
+              {!isDemoMode && (
+                <TabsTrigger value="automations">
+                  <Workflow className="w-4 h-4 mr-2" />
+                  Automations
+                </TabsTrigger>
+              )}
             </TabsList>
 
             {/* Scenes tab */}
             <TabsContent value="scenes">
-              <div className="mb-4">
-                <h3 className="text-xl font-semibold">Scenes</h3>
-                <p className="text-sm text-muted-foreground">
-                  {scenesData?.scenes?.length || 0} {scenesData?.scenes?.length === 1 ? 'scene' : 'scenes'} available
-                </p>
+              <div className="mb-4 flex items-start justify-between gap-4">
+                <div>
+                  <h3 className="text-xl font-semibold">Scenes</h3>
+                  <p className="text-sm text-muted-foreground">
+                    {scenesData?.scenes?.length || 0} {scenesData?.scenes?.length === 1 ? 'scene' : 'scenes'} available
+                  </p>
+                </div>
+                {!isDemoMode && editingScene === null && (
+                  <Button variant="outline" size="sm" onClick={() => setEditingScene('new')}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    New Scene
+                  </Button>
+                )}
               </div>
+              {editingScene !== null && (
+                <SceneEditor
+                  key={editingScene === 'new' ? 'new' : editingScene.sceneId}
+                  scene={editingScene === 'new' ? undefined : editingScene}
+                  devices={(devicesData?.devices || []).filter((device: any) => !device.group)}
+                  locationId={locationId}
+                  onClose={() => setEditingScene(null)}
+                />
+              )}
               {scenesData?.scenes?.length ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                   {scenesData.scenes.map((scene: any) => (
-                    <SceneCard key={scene.sceneId} scene={scene} onExecute={handleSceneExecute} />
+                    <SceneCard
+                      key={scene.sceneId}
+                      scene={scene}
+                      onExecute={handleSceneExecute}
+                      execution={sceneExecutions[scene.sceneId]}
+                      onRetry={handleSceneRetry}
+                      onEdit={canEditScene(scene) ? setEditingScene : undefined}
+                      onDelete={canEditScene(scene) ? handleSceneDelete : undefined}
+                    />
                   ))}
                 </div>
               ) : (
@@ -586,21 +1044,55 @@ export default function DashboardPage() {
                     <Play className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
                     <h3 className="text-lg font-medium mb-2">No scenes found</h3>
                     <p className="text-sm text-muted-foreground">
-                      Create scenes in the SmartThings app to control multiple devices at once.
+                      Create scenes here or in the SmartThings app to control multiple devices at once.
                     </p>
                   </CardContent>
                 </Card>
               )}
+              {!isDemoMode && <ScheduleManager scenes={scenesData?.scenes || []} />}
             </TabsContent>
 
             {/* Room tabs */}
             {roomNames.map((roomName) => (
               <TabsContent key={roomName} value={roomName}>
-                <div className="mb-4">
-                  <h3 className="text-xl font-semibold">{roomName}</h3>
-                  <p className="text-sm text-muted-foreground">
-                    {devicesByRoom[roomName].length} {devicesByRoom[roomName].length === 1 ? 'device' : 'devices'}
-                  </p>
+                <div className="mb-4 flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="text-xl font-semibold">{roomName}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {devicesByRoom[roomName].length} {devicesByRoom[roomName].length === 1 ? 'device' : 'devices'}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={executingCommands.has(`room:${roomName}`)}
+                      onClick={() => handleRoomPower(roomName, 'on')}
+                    >
+                      <Power className="w-4 h-4 mr-2" />
+                      All on
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={executingCommands.has(`room:${roomName}`)}
+                      onClick={() => handleRoomPower(roomName, 'off')}
+                    >
+                      <Power className="w-4 h-4 mr-2" />
+                      All off
+                    </Button>
+                    {!isDemoMode && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={executingCommands.has(`snapshot:${roomName}`)}
+                        onClick={() => handleRoomSnapshot(roomName)}
+                      >
+                        <Camera className="w-4 h-4 mr-2" />
+                        Save current state as scene
+                      </Button>
+                    )}
+                  </div>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
                   {devicesByRoom[roomName].map((device: any) => (
@@ -610,6 +1102,8 @@ export default function DashboardPage() {
                       showRoomName={false}
                       onCommand={handleCommand}
                       executingCommands={executingCommands}
+                      timers={isDemoMode ? undefined : timersByDevice[device.deviceId] || []}
+                      onError={setCommandError}
                     />
                   ))}
                 </div>
@@ -632,13 +1126,57 @@ export default function DashboardPage() {
                     showRoomName={true}
                     onCommand={handleCommand}
                     executingCommands={executingCommands}
+                    timers={isDemoMode ? undefined : timersByDevice[device.deviceId] || []}
+                    onError={setCommandError}
                   />
                 ))}
               </div>
             </TabsContent>
+
+            {/* Automations tab */}
+            {!isDemoMode && (
+              <TabsContent value="automations">
+                <AutomationManager devices={devicesData?.devices || []} scenes={scenesData?.scenes || []} />
+              </TabsContent>
+            )}
           </Tabs>
         )}
       </main>
+
+      {/* Automation notifications */}
+      {notifications.length > 0 && (
+        <div className="fixed top-4 right-4 z-50 space-y-2">
+          {notifications.map(notification => (
+            <div
+              key={notification.id}
+              className="flex items-start gap-3 rounded-md border bg-background px-4 py-3 text-sm shadow-lg max-w-sm"
+            >
+              <Bell className="w-4 h-4 mt-0.5 text-muted-foreground" />
+              <div className="min-w-0">
+                <div className="font-medium">{notification.ruleName}</div>
+                <div className="text-muted-foreground break-words">{notification.message}</div>
+              </div>
+              <button onClick={() => dismissNotification(notification.id)} aria-label="Dismiss">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Undo toast for the last scene run */}
+      {undoExecution && (
+        <div className="fixed bottom-4 right-4 z-50 flex items-center gap-3 rounded-md border bg-background px-4 py-3 text-sm shadow-lg">
+          <Play className="w-4 h-4 text-muted-foreground" />
+          <span>{undoExecution.sceneName} ran</span>
+          <Button variant="outline" size="sm" onClick={() => handleSceneUndo(undoExecution)}>
+            Undo
+          </Button>
+          <button onClick={() => setUndoExecution(null)} aria-label="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
     </div>
   );
 }